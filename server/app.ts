@@ -0,0 +1,63 @@
+/**
+ * @fileoverview Local API request handler
+ * @description Routes incoming requests of the development API server
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { createApiError } from '../src/api/errors';
+import { CORS_HEADERS, sendApiError } from './http';
+import { handleChatCompletions } from './routes/chatCompletions';
+import { handleGenerate } from './routes/generate';
+
+/**
+ * Route handler signature
+ * @type RouteHandler
+ */
+type RouteHandler = (req: IncomingMessage, res: ServerResponse) => Promise<void>;
+
+/**
+ * POST routes served by the API, keyed by path
+ * @constant
+ */
+const ROUTES: Record<string, RouteHandler> = {
+  '/api/generate': handleGenerate,
+  // OpenAI-compatible stub, reachable directly or through the Vite /api proxy
+  '/v1/chat/completions': handleChatCompletions,
+  '/api/v1/chat/completions': handleChatCompletions,
+};
+
+/**
+ * Handles a single HTTP request
+ *
+ * @param req - The incoming request
+ * @param res - The server response
+ */
+export const handleRequest = async (
+  req: IncomingMessage,
+  res: ServerResponse
+): Promise<void> => {
+  const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+  const route = ROUTES[pathname];
+
+  if (!route) {
+    sendApiError(res, createApiError('API_ERROR', `Ruta no encontrada: ${pathname}`, 404));
+    return;
+  }
+
+  // CORS preflight
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, CORS_HEADERS);
+    res.end();
+    return;
+  }
+
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST, OPTIONS');
+    sendApiError(res, createApiError('API_ERROR', 'Método no permitido', 405));
+    return;
+  }
+
+  await route(req, res);
+};
@@ -0,0 +1,89 @@
+/**
+ * @fileoverview HTTP helpers for the local API server
+ * @description Body parsing and JSON/error responses on top of node:http
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { ApiError } from '../src/types/api';
+import { createApiError } from '../src/api/errors';
+
+/**
+ * Maximum accepted request body size in bytes
+ * @constant
+ */
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/**
+ * Headers sent with every response so the API can also be called without the Vite proxy
+ * @constant
+ */
+export const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Accept, Authorization',
+} as const;
+
+/**
+ * Reads and parses a JSON request body
+ *
+ * @param req - The incoming request
+ * @returns The parsed JSON value
+ * @throws ApiError if the body is too large or not valid JSON
+ */
+export const readJsonBody = async (req: IncomingMessage): Promise<unknown> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    const buffer = chunk as Buffer;
+    size += buffer.length;
+    if (size > MAX_BODY_BYTES) {
+      throw createApiError(
+        'PAYLOAD_TOO_LARGE',
+        'El cuerpo de la solicitud es demasiado grande',
+        413
+      );
+    }
+    chunks.push(buffer);
+  }
+
+  const raw = Buffer.concat(chunks).toString('utf8');
+
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    throw createApiError(
+      'INVALID_PROMPT',
+      'El cuerpo de la solicitud debe ser JSON válido',
+      400,
+      error instanceof Error ? error.message : undefined
+    );
+  }
+};
+
+/**
+ * Sends a JSON response
+ *
+ * @param res - The server response
+ * @param status - HTTP status code
+ * @param body - Value to serialise
+ */
+export const sendJson = (res: ServerResponse, status: number, body: unknown): void => {
+  res.writeHead(status, {
+    ...CORS_HEADERS,
+    'Content-Type': 'application/json; charset=utf-8',
+  });
+  res.end(JSON.stringify(body));
+};
+
+/**
+ * Sends an ApiError using its status code
+ *
+ * @param res - The server response
+ * @param error - The error to send
+ */
+export const sendApiError = (res: ServerResponse, error: ApiError): void => {
+  sendJson(res, error.status >= 400 ? error.status : 500, error);
+};
@@ -0,0 +1,33 @@
+/**
+ * @fileoverview Local API server entry point
+ * @description Serves /api/generate and an OpenAI-compatible stub on the port
+ * the Vite dev proxy forwards to (3001)
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import { createServer } from 'node:http';
+import { createApiError } from '../src/api/errors';
+import { handleRequest } from './app';
+import { sendApiError } from './http';
+
+/**
+ * Port the server listens on (matches the proxy target in vite.config.ts)
+ * @constant
+ */
+const PORT = Number(process.env.PORT) || 3001;
+
+const server = createServer((req, res) => {
+  handleRequest(req, res).catch((error: unknown) => {
+    console.error('Unhandled server error:', error);
+    if (!res.headersSent) {
+      sendApiError(res, createApiError('UNKNOWN_ERROR', 'Error inesperado en el servidor', 500));
+    } else {
+      res.end();
+    }
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Generador IA API listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,228 @@
+/**
+ * @fileoverview POST /v1/chat/completions stub route
+ * @description Minimal OpenAI-compatible endpoint backed by the simulated generator,
+ * so the OpenAI provider can be exercised locally without a real model
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type {
+  GenerateTextRequest,
+  GenerateTextResponse,
+  GenerationCandidate,
+} from '../../src/types/api';
+import type {
+  ChatCompletionChunk,
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  OpenAIErrorBody,
+} from '../../src/types/openai';
+import { isApiError } from '../../src/api/errors';
+import { createSimulatedProvider, SIMULATED_MODEL } from '../../src/api/providers/simulatedProvider';
+import { API_CONFIG } from '../../src/api/validation';
+import { CHARS_PER_TOKEN } from '../../src/api/tokens/modelLimits';
+import { countChatTokens, countTokens } from '../../src/api/tokens/tokenizer';
+import { CORS_HEADERS, readJsonBody, sendJson } from '../http';
+
+/**
+ * Provider answering every request handled by this route
+ * @constant
+ */
+const provider = createSimulatedProvider();
+
+/**
+ * Sends an error in the OpenAI error format
+ *
+ * @param res - The server response
+ * @param status - HTTP status code
+ * @param message - Error message
+ * @param type - OpenAI error type
+ */
+const sendOpenAIError = (
+  res: ServerResponse,
+  status: number,
+  message: string,
+  type = 'invalid_request_error'
+): void => {
+  const body: OpenAIErrorBody = { error: { message, type, code: null } };
+  sendJson(res, status, body);
+};
+
+/**
+ * Lists every candidate of a generation, the response itself when there is only one
+ *
+ * @param response - The provider response
+ * @returns The candidates, in choice order
+ */
+const getCandidates = ({
+  result,
+  tokenCount,
+  metadata,
+  candidates,
+}: GenerateTextResponse): GenerationCandidate[] => candidates ?? [{ result, tokenCount, metadata }];
+
+/**
+ * Handles POST /v1/chat/completions
+ *
+ * Uses the content of the last user message as the prompt and the messages
+ * before it as the conversation history. When `stream` is true the answer is sent as server-sent events terminated by `data: [DONE]`.
+ * With `n` above 1 every choice is a distinct candidate; when streaming, the
+ * first choice arrives word by word and the others in a single delta each.
+ *
+ * @param req - The incoming request
+ * @param res - The server response
+ */
+export const handleChatCompletions = async (
+  req: IncomingMessage,
+  res: ServerResponse
+): Promise<void> => {
+  let body: ChatCompletionRequest;
+
+  try {
+    body = (await readJsonBody(req)) as ChatCompletionRequest;
+  } catch (error) {
+    sendOpenAIError(res, 400, isApiError(error) ? error.message : 'Invalid JSON body');
+    return;
+  }
+
+  if (!body || !Array.isArray(body.messages) || body.messages.length === 0) {
+    sendOpenAIError(res, 400, "'messages' must be a non-empty array");
+    return;
+  }
+
+  const lastUserIndex = body.messages.map((message) => message.role).lastIndexOf('user');
+  const lastUserMessage = body.messages[lastUserIndex];
+  if (!lastUserMessage || typeof lastUserMessage.content !== 'string') {
+    sendOpenAIError(res, 400, 'At least one user message with string content is required');
+    return;
+  }
+
+  if (
+    body.n !== undefined &&
+    (!Number.isInteger(body.n) || body.n < 1 || body.n > API_CONFIG.MAX_CANDIDATES)
+  ) {
+    sendOpenAIError(res, 400, `'n' must be an integer between 1 and ${API_CONFIG.MAX_CANDIDATES}`);
+    return;
+  }
+
+  const request: GenerateTextRequest = {
+    prompt: lastUserMessage.content,
+    messages: body.messages.slice(0, lastUserIndex),
+    temperature: body.temperature,
+    seed: body.seed,
+    n: body.n,
+    // max_tokens is a token budget, the simulated generator limits characters
+    maxLength: body.max_tokens !== undefined ? body.max_tokens * CHARS_PER_TOKEN : undefined,
+  };
+  const model = body.model || SIMULATED_MODEL;
+  const id = `chatcmpl-${Date.now().toString(36)}`;
+  const created = Math.floor(Date.now() / 1000);
+
+  const controller = new AbortController();
+  res.on('close', () => controller.abort());
+
+  if (!body.stream) {
+    try {
+      const candidates = getCandidates(
+        await provider.generate(request, { signal: controller.signal })
+      );
+      const completionTokens = candidates.reduce(
+        (total, candidate) => total + countTokens(candidate.result),
+        0
+      );
+      const promptTokens = countChatTokens(body.messages);
+      const response: ChatCompletionResponse = {
+        id,
+        object: 'chat.completion',
+        created,
+        model,
+        choices: candidates.map((candidate, index) => ({
+          index,
+          message: { role: 'assistant', content: candidate.result },
+          finish_reason: candidate.metadata?.finishReason ?? 'stop',
+        })),
+        usage: {
+          prompt_tokens: promptTokens,
+          completion_tokens: completionTokens,
+          total_tokens: promptTokens + completionTokens,
+        },
+      };
+      sendJson(res, 200, response);
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        sendOpenAIError(
+          res,
+          500,
+          error instanceof Error ? error.message : 'Generation failed',
+          'server_error'
+        );
+      }
+    }
+    return;
+  }
+
+  const writeEvent = (chunk: ChatCompletionChunk): void => {
+    res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+  };
+
+  res.writeHead(200, {
+    ...CORS_HEADERS,
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+
+  try {
+    const response = await provider.generate(
+      request,
+      {
+        signal: controller.signal,
+        onChunk: (content) =>
+          writeEvent({
+            id,
+            object: 'chat.completion.chunk',
+            created,
+            model,
+            choices: [{ index: 0, delta: { content }, finish_reason: null }],
+          }),
+      }
+    );
+
+    const candidates = getCandidates(response);
+    candidates.slice(1).forEach((candidate, offset) =>
+      writeEvent({
+        id,
+        object: 'chat.completion.chunk',
+        created,
+        model,
+        choices: [{ index: offset + 1, delta: { content: candidate.result }, finish_reason: null }],
+      })
+    );
+
+    const completionTokens = candidates.reduce(
+      (total, candidate) => total + countTokens(candidate.result),
+      0
+    );
+    const promptTokens = countChatTokens(body.messages);
+    writeEvent({
+      id,
+      object: 'chat.completion.chunk',
+      created,
+      model,
+      choices: candidates.map((candidate, index) => ({
+        index,
+        delta: {},
+        finish_reason: candidate.metadata?.finishReason ?? 'stop',
+      })),
+      usage: {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens,
+      },
+    });
+    res.end('data: [DONE]\n\n');
+  } catch {
+    res.end();
+  }
+};
@@ -0,0 +1,85 @@
+/**
+ * @fileoverview POST /api/generate route
+ * @description Validates a GenerateTextRequest and answers with the simulated generator,
+ * either as a single JSON response or as an NDJSON stream
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { GenerateTextRequest } from '../../src/types/api';
+import { createApiError, toApiError } from '../../src/api/errors';
+import { encodeStreamEvent, NDJSON_CONTENT_TYPE } from '../../src/api/ndjson';
+import { createSimulatedProvider } from '../../src/api/providers/simulatedProvider';
+import { validateRequest } from '../../src/api/validation';
+import { CORS_HEADERS, readJsonBody, sendApiError, sendJson } from '../http';
+
+/**
+ * Provider answering every request handled by this route
+ * @constant
+ */
+const provider = createSimulatedProvider();
+
+/**
+ * Handles POST /api/generate
+ *
+ * Responds with `application/x-ndjson` when the client lists it in the
+ * Accept header, otherwise with a single GenerateTextResponse JSON body.
+ *
+ * @param req - The incoming request
+ * @param res - The server response
+ */
+export const handleGenerate = async (
+  req: IncomingMessage,
+  res: ServerResponse
+): Promise<void> => {
+  let request: GenerateTextRequest;
+
+  try {
+    const body = await readJsonBody(req);
+    if (!body || typeof body !== 'object') {
+      throw createApiError('INVALID_PROMPT', 'El cuerpo de la solicitud debe ser un objeto', 400);
+    }
+    request = body as GenerateTextRequest;
+    validateRequest(request, provider.model);
+  } catch (error) {
+    sendApiError(res, toApiError(error));
+    return;
+  }
+
+  // Stop generating as soon as the client goes away
+  const controller = new AbortController();
+  res.on('close', () => controller.abort());
+
+  const wantsStream = (req.headers.accept ?? '').includes(NDJSON_CONTENT_TYPE);
+
+  if (!wantsStream) {
+    try {
+      const response = await provider.generate(request, { signal: controller.signal });
+      sendJson(res, 200, response);
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        sendApiError(res, toApiError(error));
+      }
+    }
+    return;
+  }
+
+  res.writeHead(200, {
+    ...CORS_HEADERS,
+    'Content-Type': `${NDJSON_CONTENT_TYPE}; charset=utf-8`,
+    'Cache-Control': 'no-cache',
+  });
+
+  try {
+    const response = await provider.generate(request, {
+      signal: controller.signal,
+      onChunk: (text) => res.write(encodeStreamEvent({ type: 'chunk', text })),
+    });
+    res.end(encodeStreamEvent({ type: 'done', response }));
+  } catch (error) {
+    if (!controller.signal.aborted) {
+      res.end(encodeStreamEvent({ type: 'error', error: toApiError(error) }));
+    }
+  }
+};
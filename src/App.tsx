@@ -7,16 +7,18 @@
 
 import React from 'react';
 import Home from './pages/Home';
+import I18nProvider from './i18n/I18nProvider';
+import PersonaProvider from './personas/PersonaProvider';
 
 /**
  * App Component
  * 
  * The root component of the Generador IA application.
- * Currently renders the Home page directly.
+ * Renders the Home page inside the I18nProvider and the PersonaProvider.
  * 
  * In a larger application, this would include:
  * - React Router for navigation
- * - Context providers (theme, auth, etc.)
+ * - More context providers (theme, auth, etc.)
  * - Global error boundaries
  * - Layout components
  * 
@@ -25,7 +27,11 @@ import Home from './pages/Home';
 const App: React.FC = () => {
   return (
     <React.StrictMode>
-      <Home />
+      <I18nProvider>
+        <PersonaProvider>
+          <Home />
+        </PersonaProvider>
+      </I18nProvider>
     </React.StrictMode>
   );
 };
@@ -0,0 +1,151 @@
+/**
+ * @fileoverview Response cache
+ * @description Two-tier cache (in-memory LRU + IndexedDB) for generation responses,
+ * keyed by the normalized prompt and the generation parameters (temperature, maxLength, seed)
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import type {
+  CachedResponseEntry,
+  GenerateTextRequest,
+  GenerateTextResponse,
+} from '../../types/api';
+import { createLruCache } from './memoryCache';
+import {
+  clearPersistentEntries,
+  pruneExpiredEntries,
+  readPersistentEntry,
+  writePersistentEntry,
+} from './persistentCache';
+
+/**
+ * Configuration constants for the response cache
+ */
+const CACHE_CONFIG = {
+  /** Time to live of a cached response, in milliseconds (24 hours) */
+  TTL_MS: 24 * 60 * 60 * 1000,
+  /** Maximum number of responses kept in memory */
+  MEMORY_CAPACITY: 50,
+} as const;
+
+/**
+ * In-memory tier, shared by every caller in the tab
+ * @constant
+ */
+const memoryTier = createLruCache<CachedResponseEntry>(CACHE_CONFIG.MEMORY_CAPACITY);
+
+/**
+ * Whether expired IndexedDB entries were already pruned in this session
+ */
+let hasPruned = false;
+
+/**
+ * Normalizes a prompt so trivially different spellings share a cache entry
+ * Unicode is NFC-normalized, whitespace collapsed and case folded.
+ *
+ * @param prompt - The raw prompt
+ * @returns The normalized prompt
+ */
+export const normalizePrompt = (prompt: string): string =>
+  prompt.normalize('NFC').trim().replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * Builds the cache key for a request
+ * The earlier turns of a conversation are part of the key, so the same
+ * follow-up in two conversations is cached separately.
+ *
+ * @param request - The generation request
+ * @param providerName - Name of the provider that will answer it
+ * @returns The cache key
+ */
+export const buildCacheKey = (request: GenerateTextRequest, providerName: string): string =>
+  JSON.stringify([
+    providerName,
+    normalizePrompt(request.prompt),
+    request.temperature ?? null,
+    request.maxLength ?? null,
+    request.seed ?? null,
+    request.messages ?? null,
+    request.n ?? 1,
+  ]);
+
+/**
+ * Marks a cached response so the UI can tell it apart from a fresh one
+ *
+ * @param entry - The cache entry
+ * @returns A copy of the response flagged as cached
+ */
+const toCachedResponse = (entry: CachedResponseEntry): GenerateTextResponse => ({
+  ...entry.response,
+  metadata: {
+    model: 'unknown',
+    tokensUsed: 0,
+    processingTime: entry.createdAt,
+    ...entry.response.metadata,
+    cached: true,
+    cachedAt: entry.createdAt,
+  },
+});
+
+/**
+ * Looks up a response, trying memory first and IndexedDB second
+ * IndexedDB hits are promoted to the memory tier.
+ *
+ * @param key - The cache key
+ * @returns The cached response flagged as cached, or null on a miss
+ */
+export const getCachedResponse = async (key: string): Promise<GenerateTextResponse | null> => {
+  const now = Date.now();
+
+  const memoryEntry = memoryTier.get(key);
+  if (memoryEntry) {
+    if (memoryEntry.expiresAt > now) {
+      return toCachedResponse(memoryEntry);
+    }
+    memoryTier.delete(key);
+  }
+
+  if (!hasPruned) {
+    hasPruned = true;
+    void pruneExpiredEntries(now);
+  }
+
+  const persistentEntry = await readPersistentEntry(key, now);
+  if (!persistentEntry) {
+    return null;
+  }
+
+  memoryTier.set(key, persistentEntry);
+  return toCachedResponse(persistentEntry);
+};
+
+/**
+ * Stores a response in both tiers
+ *
+ * @param key - The cache key
+ * @param response - The fresh response to cache
+ */
+export const setCachedResponse = async (
+  key: string,
+  response: GenerateTextResponse
+): Promise<void> => {
+  const now = Date.now();
+  const entry: CachedResponseEntry = {
+    key,
+    response,
+    createdAt: now,
+    expiresAt: now + CACHE_CONFIG.TTL_MS,
+  };
+
+  memoryTier.set(key, entry);
+  await writePersistentEntry(entry);
+};
+
+/**
+ * Removes every cached response from both tiers
+ */
+export const clearResponseCache = async (): Promise<void> => {
+  memoryTier.clear();
+  await clearPersistentEntries();
+};
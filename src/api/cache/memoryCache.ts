@@ -0,0 +1,78 @@
+/**
+ * @fileoverview In-memory LRU cache
+ * @description Small least-recently-used cache built on Map insertion order
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+/**
+ * Least-recently-used cache interface
+ * @interface LruCache
+ */
+export interface LruCache<V> {
+  /** Returns the value and marks it as most recently used */
+  get: (key: string) => V | undefined;
+  /** Stores a value, evicting the least recently used entry when full */
+  set: (key: string, value: V) => void;
+  /** Removes a value */
+  delete: (key: string) => void;
+  /** Removes every value */
+  clear: () => void;
+  /** Number of stored values */
+  size: () => number;
+}
+
+/**
+ * Creates an LRU cache with a fixed capacity
+ *
+ * @param capacity - Maximum number of entries kept in memory
+ * @returns The LRU cache
+ *
+ * @example
+ * ```typescript
+ * const cache = createLruCache<string>(2);
+ * cache.set('a', '1');
+ * cache.set('b', '2');
+ * cache.get('a');      // 'a' becomes most recently used
+ * cache.set('c', '3'); // evicts 'b'
+ * ```
+ */
+export const createLruCache = <V>(capacity: number): LruCache<V> => {
+  const entries = new Map<string, V>();
+
+  return {
+    get: (key) => {
+      if (!entries.has(key)) {
+        return undefined;
+      }
+      // Re-insert to move the key to the most recently used position
+      const value = entries.get(key) as V;
+      entries.delete(key);
+      entries.set(key, value);
+      return value;
+    },
+
+    set: (key, value) => {
+      entries.delete(key);
+      entries.set(key, value);
+
+      while (entries.size > capacity) {
+        const oldestKey = entries.keys().next().value;
+        if (oldestKey === undefined) {
+          break;
+        }
+        entries.delete(oldestKey);
+      }
+    },
+
+    delete: (key) => {
+      entries.delete(key);
+    },
+
+    clear: () => {
+      entries.clear();
+    },
+
+    size: () => entries.size,
+  };
+};
@@ -0,0 +1,129 @@
+/**
+ * @fileoverview IndexedDB response cache tier
+ * @description Persists cached responses across reloads; every failure is treated as a miss
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import type { CachedResponseEntry } from '../../types/api';
+import {
+  isIndexedDbAvailable,
+  runTransaction,
+  STORES,
+  withStore,
+} from '../../storage/database';
+
+/**
+ * Reads an entry from IndexedDB
+ * Expired entries are deleted and reported as a miss.
+ *
+ * @param key - The cache key
+ * @param now - Current timestamp in milliseconds
+ * @returns The entry, or null on a miss or any storage error
+ */
+export const readPersistentEntry = async (
+  key: string,
+  now: number
+): Promise<CachedResponseEntry | null> => {
+  if (!isIndexedDbAvailable()) {
+    return null;
+  }
+
+  try {
+    const entry = await withStore<CachedResponseEntry | undefined>(
+      STORES.RESPONSE_CACHE,
+      'readonly',
+      (store) => store.get(key)
+    );
+
+    if (!entry) {
+      return null;
+    }
+
+    if (entry.expiresAt <= now) {
+      await deletePersistentEntry(key);
+      return null;
+    }
+
+    return entry;
+  } catch (error) {
+    console.warn('Response cache read failed:', error);
+    return null;
+  }
+};
+
+/**
+ * Writes an entry to IndexedDB, ignoring storage errors (quota, private mode...)
+ * @param entry - The entry to store
+ */
+export const writePersistentEntry = async (entry: CachedResponseEntry): Promise<void> => {
+  if (!isIndexedDbAvailable()) {
+    return;
+  }
+
+  try {
+    await withStore(STORES.RESPONSE_CACHE, 'readwrite', (store) => store.put(entry));
+  } catch (error) {
+    console.warn('Response cache write failed:', error);
+  }
+};
+
+/**
+ * Deletes an entry from IndexedDB
+ * @param key - The cache key
+ */
+export const deletePersistentEntry = async (key: string): Promise<void> => {
+  if (!isIndexedDbAvailable()) {
+    return;
+  }
+
+  try {
+    await withStore(STORES.RESPONSE_CACHE, 'readwrite', (store) => store.delete(key));
+  } catch (error) {
+    console.warn('Response cache delete failed:', error);
+  }
+};
+
+/**
+ * Removes every entry that expired before the given timestamp
+ * @param now - Current timestamp in milliseconds
+ */
+export const pruneExpiredEntries = async (now: number): Promise<void> => {
+  if (!isIndexedDbAvailable()) {
+    return;
+  }
+
+  try {
+    await runTransaction(STORES.RESPONSE_CACHE, 'readwrite', (transaction) => {
+      const request = transaction
+        .objectStore(STORES.RESPONSE_CACHE)
+        .index('expiresAt')
+        .openCursor(IDBKeyRange.upperBound(now));
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          cursor.delete();
+          cursor.continue();
+        }
+      };
+    });
+  } catch (error) {
+    console.warn('Response cache prune failed:', error);
+  }
+};
+
+/**
+ * Removes every entry from IndexedDB
+ */
+export const clearPersistentEntries = async (): Promise<void> => {
+  if (!isIndexedDbAvailable()) {
+    return;
+  }
+
+  try {
+    await withStore(STORES.RESPONSE_CACHE, 'readwrite', (store) => store.clear());
+  } catch (error) {
+    console.warn('Response cache clear failed:', error);
+  }
+};
@@ -0,0 +1,61 @@
+/**
+ * @fileoverview Conversation helpers
+ * @description Turns a request with a history (and an optional system instruction) into
+ * the chat messages sent to the model
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import type { GenerateTextRequest } from '../types/api';
+import type { ChatMessage, ChatRole } from '../types/openai';
+
+/**
+ * Roles a message of the history may have
+ * @constant
+ */
+const CHAT_ROLES: readonly ChatRole[] = ['system', 'user', 'assistant'];
+
+/**
+ * Checks that a value is a well-formed chat message
+ * @param value - Value received from the client
+ * @returns Whether it has a known role and text content
+ */
+export const isChatMessage = (value: unknown): value is ChatMessage => {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const { role, content } = value as Record<string, unknown>;
+  return CHAT_ROLES.includes(role as ChatRole) && typeof content === 'string';
+};
+
+/**
+ * Builds the full conversation of a request
+ * The earlier turns come first, followed by the prompt as the new user message.
+ *
+ * @param request - The generation request
+ * @returns The messages to send to the model
+ *
+ * @example
+ * ```typescript
+ * toChatMessages({ prompt: 'Shorter, please', messages: [{ role: 'user', content: 'Give me 6 ideas' }, answer] });
+ * // [{ role: 'user', ... }, { role: 'assistant', ... }, { role: 'user', content: 'Shorter, please' }]
+ * ```
+ */
+export const toChatMessages = (request: GenerateTextRequest): ChatMessage[] => [
+  ...(request.messages ?? []),
+  { role: 'user', content: request.prompt },
+];
+
+/**
+ * Prepends a system instruction to a conversation
+ *
+ * @param messages - Earlier turns of the conversation
+ * @param instruction - System instruction (the active persona), if any
+ * @returns The messages, led by the instruction when it is not blank
+ */
+export const withSystemInstruction = (
+  messages: ChatMessage[],
+  instruction?: string
+): ChatMessage[] =>
+  instruction?.trim() ? [{ role: 'system', content: instruction.trim() }, ...messages] : messages;
@@ -0,0 +1,82 @@
+/**
+ * @fileoverview API error helpers
+ * @description Factories and guards for the ApiError shape shared by every provider
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import type { ApiError, ApiErrorCode } from '../types/api';
+
+/**
+ * Creates an ApiError object ready to be thrown
+ *
+ * @param code - Stable error code identifier
+ * @param message - Human readable error message
+ * @param status - HTTP status code associated with the error
+ * @param details - Optional detailed error information
+ * @returns The ApiError object
+ */
+export const createApiError = (
+  code: ApiErrorCode,
+  message: string,
+  status: number,
+  details?: string
+): ApiError => {
+  const error: ApiError = { code, message, status };
+  if (details) {
+    error.details = details;
+  }
+  return error;
+};
+
+/**
+ * Creates the error thrown when a request is cancelled through its AbortSignal
+ * @returns The REQUEST_ABORTED ApiError
+ */
+export const createAbortError = (): ApiError =>
+  createApiError('REQUEST_ABORTED', 'La solicitud fue cancelada', 499);
+
+/**
+ * Type guard that checks whether an unknown value has the ApiError shape
+ *
+ * @param value - The value to inspect
+ * @returns True if the value is an ApiError
+ */
+export const isApiError = (value: unknown): value is ApiError => {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const candidate = value as Partial<ApiError>;
+  return (
+    typeof candidate.code === 'string' &&
+    typeof candidate.message === 'string' &&
+    typeof candidate.status === 'number'
+  );
+};
+
+/**
+ * Classifies any thrown value as an ApiError
+ * ApiErrors pass through unchanged, fetch/connection failures become
+ * NETWORK_ERROR and everything else becomes UNKNOWN_ERROR.
+ *
+ * @param error - The thrown value
+ * @returns The matching ApiError
+ */
+export const toApiError = (error: unknown): ApiError => {
+  if (isApiError(error)) {
+    return error;
+  }
+
+  // fetch rejects with a TypeError when the network request itself fails
+  if (error instanceof TypeError) {
+    return createApiError('NETWORK_ERROR', 'No se pudo conectar con el servidor', 0, error.message);
+  }
+
+  return createApiError(
+    'UNKNOWN_ERROR',
+    'Ocurrió un error inesperado',
+    500,
+    error instanceof Error ? error.message : undefined
+  );
+};
@@ -0,0 +1,72 @@
+/**
+ * @fileoverview NDJSON streaming helpers
+ * @description Encoding and decoding of the newline-delimited JSON stream used by /api/generate
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import type { GenerateStreamEvent } from '../types/api';
+
+/**
+ * Media type used to request and send streamed responses
+ * @constant
+ */
+export const NDJSON_CONTENT_TYPE = 'application/x-ndjson';
+
+/**
+ * Serialises a stream event as a single NDJSON line
+ *
+ * @param event - The event to encode
+ * @returns The JSON line, terminated by a newline
+ */
+export const encodeStreamEvent = (event: GenerateStreamEvent): string =>
+  `${JSON.stringify(event)}\n`;
+
+/**
+ * Reads an NDJSON response body and reports every decoded event
+ * Lines that are empty or not valid JSON are ignored.
+ *
+ * @param body - The readable stream of the response
+ * @param onEvent - Callback invoked for each decoded event, in order
+ * @returns Promise that resolves once the stream is fully consumed
+ */
+export const readNdjsonStream = async (
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: GenerateStreamEvent) => void
+): Promise<void> => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const flushLine = (line: string): void => {
+    if (!line.trim()) {
+      return;
+    }
+    let event: GenerateStreamEvent;
+    try {
+      event = JSON.parse(line) as GenerateStreamEvent;
+    } catch {
+      // Ignore malformed lines instead of aborting the whole stream
+      return;
+    }
+    onEvent(event);
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+
+    buffer += decoder.decode(value, { stream: true });
+
+    let newlineIndex = buffer.indexOf('\n');
+    while (newlineIndex !== -1) {
+      flushLine(buffer.slice(0, newlineIndex));
+      buffer = buffer.slice(newlineIndex + 1);
+      newlineIndex = buffer.indexOf('\n');
+    }
+  }
+
+  flushLine(buffer + decoder.decode());
+};
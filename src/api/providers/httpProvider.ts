@@ -0,0 +1,178 @@
+/**
+ * @fileoverview HTTP text generation provider
+ * @description Provider that forwards requests to a backend implementing POST /api/generate,
+ * consuming an NDJSON stream when the caller asks for chunks
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import type {
+  GenerateOptions,
+  GenerateTextRequest,
+  GenerateTextResponse,
+  StreamChunkHandler,
+  TextGenerationProvider,
+} from '../../types/api';
+import { createAbortError, createApiError, isApiError } from '../errors';
+import { NDJSON_CONTENT_TYPE, readNdjsonStream } from '../ndjson';
+import { SIMULATED_MODEL } from './simulatedProvider';
+
+/**
+ * Configuration for the HTTP provider
+ * @interface HttpProviderConfig
+ */
+export interface HttpProviderConfig {
+  /** Endpoint that accepts GenerateTextRequest payloads */
+  endpoint: string;
+  /** Model the backend generates with, so requests are validated against its limits */
+  model?: string;
+}
+
+/**
+ * Default endpoint, served through the Vite dev proxy
+ * @constant
+ */
+export const DEFAULT_HTTP_ENDPOINT = '/api/generate';
+
+/**
+ * Default model: the one answered by the local API server (`npm run server`)
+ * @constant
+ */
+export const DEFAULT_HTTP_MODEL = SIMULATED_MODEL;
+
+/**
+ * Consumes a streamed response, forwarding chunks until the final event arrives
+ *
+ * @param body - The NDJSON response body
+ * @param onChunk - Callback receiving each text fragment
+ * @returns The complete response carried by the final "done" event
+ * @throws ApiError if the server reports an error or the stream ends early
+ */
+const consumeStream = async (
+  body: ReadableStream<Uint8Array>,
+  onChunk: StreamChunkHandler
+): Promise<GenerateTextResponse> => {
+  let finalResponse: GenerateTextResponse | null = null;
+
+  await readNdjsonStream(body, (event) => {
+    switch (event.type) {
+      case 'chunk':
+        onChunk(event.text);
+        break;
+      case 'done':
+        finalResponse = event.response;
+        break;
+      case 'error':
+        throw event.error;
+    }
+  });
+
+  if (!finalResponse) {
+    throw createApiError(
+      'API_ERROR',
+      'La transmisión de la respuesta terminó inesperadamente',
+      502
+    );
+  }
+
+  return finalResponse;
+};
+
+/**
+ * Creates a provider that calls a real backend over HTTP
+ *
+ * @param config - Provider configuration
+ * @returns A TextGenerationProvider backed by fetch
+ *
+ * @example
+ * ```typescript
+ * const provider = createHttpProvider({ endpoint: '/api/generate' });
+ * const response = await provider.generate({ prompt: 'Dame nombres de chicos' });
+ * ```
+ */
+export const createHttpProvider = (
+  config: HttpProviderConfig = { endpoint: DEFAULT_HTTP_ENDPOINT, model: DEFAULT_HTTP_MODEL }
+): TextGenerationProvider => ({
+  name: 'http',
+  model: config.model,
+
+  generate: async (
+    request: GenerateTextRequest,
+    { signal, onChunk }: GenerateOptions = {}
+  ): Promise<GenerateTextResponse> => {
+    let response: Response;
+
+    try {
+      response = await fetch(config.endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: onChunk ? `${NDJSON_CONTENT_TYPE}, application/json` : 'application/json',
+        },
+        body: JSON.stringify(request),
+        signal,
+      });
+    } catch (error) {
+      if (signal?.aborted) {
+        throw createAbortError();
+      }
+      throw createApiError(
+        'NETWORK_ERROR',
+        'No se pudo conectar con el servidor',
+        0,
+        error instanceof Error ? error.message : undefined
+      );
+    }
+
+    if (!response.ok) {
+      const errorData: unknown = await response.json().catch(() => null);
+
+      // Forward errors that already follow the ApiError contract
+      if (isApiError(errorData)) {
+        throw errorData;
+      }
+
+      throw createApiError(
+        'API_ERROR',
+        'Error en la generación de texto',
+        response.status,
+        response.statusText || undefined
+      );
+    }
+
+    const contentType = response.headers.get('Content-Type') ?? '';
+
+    if (onChunk && response.body && contentType.includes(NDJSON_CONTENT_TYPE)) {
+      try {
+        return await consumeStream(response.body, onChunk);
+      } catch (error) {
+        if (signal?.aborted) {
+          throw createAbortError();
+        }
+        if (isApiError(error)) {
+          throw error;
+        }
+        throw createApiError(
+          'NETWORK_ERROR',
+          'Se perdió la conexión durante la transmisión',
+          0,
+          error instanceof Error ? error.message : undefined
+        );
+      }
+    }
+
+    const data = (await response.json().catch(() => null)) as GenerateTextResponse | null;
+
+    if (!data || typeof data.result !== 'string') {
+      throw createApiError(
+        'API_ERROR',
+        'La respuesta del servidor no tiene el formato esperado',
+        response.status
+      );
+    }
+
+    return data;
+  },
+});
+
+export default createHttpProvider;
@@ -0,0 +1,72 @@
+/**
+ * @fileoverview Provider registry
+ * @description Selects the text generation provider from the Vite environment at startup
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import type { ProviderName, TextGenerationProvider } from '../../types/api';
+import { createHttpProvider, DEFAULT_HTTP_ENDPOINT, DEFAULT_HTTP_MODEL } from './httpProvider';
+import { createOpenAIProvider, DEFAULT_OPENAI_CONFIG } from './openAIProvider';
+import { createSimulatedProvider } from './simulatedProvider';
+
+/**
+ * Provider used when VITE_AI_PROVIDER is not set or not recognised
+ * @constant
+ */
+const DEFAULT_PROVIDER: ProviderName = 'simulated';
+
+/**
+ * Factories for every built-in provider, keyed by name
+ * @constant
+ */
+const PROVIDER_FACTORIES: Record<ProviderName, (env: ImportMetaEnv) => TextGenerationProvider> = {
+  simulated: (env) =>
+    createSimulatedProvider({ failureRate: Number(env.VITE_SIMULATED_FAILURE_RATE) || 0 }),
+  http: (env) =>
+    createHttpProvider({
+      endpoint: env.VITE_API_URL || DEFAULT_HTTP_ENDPOINT,
+      model: env.VITE_API_MODEL || DEFAULT_HTTP_MODEL,
+    }),
+  openai: (env) =>
+    createOpenAIProvider({
+      baseUrl: env.VITE_OPENAI_BASE_URL || DEFAULT_OPENAI_CONFIG.baseUrl,
+      model: env.VITE_OPENAI_MODEL || DEFAULT_OPENAI_CONFIG.model,
+      apiKey: env.VITE_OPENAI_API_KEY || undefined,
+    }),
+};
+
+/**
+ * Checks whether a string is the name of a built-in provider
+ * @param value - The value to inspect
+ * @returns True if the value is a ProviderName
+ */
+const isProviderName = (value: string): value is ProviderName =>
+  Object.prototype.hasOwnProperty.call(PROVIDER_FACTORIES, value);
+
+/**
+ * Builds the provider selected by the environment
+ *
+ * @param env - The Vite environment (import.meta.env)
+ * @returns The configured TextGenerationProvider
+ */
+export const createProviderFromEnv = (env: ImportMetaEnv): TextGenerationProvider => {
+  const requested = (env.VITE_AI_PROVIDER || DEFAULT_PROVIDER).trim().toLowerCase();
+
+  if (!isProviderName(requested)) {
+    console.warn(
+      `Unknown VITE_AI_PROVIDER "${requested}", falling back to "${DEFAULT_PROVIDER}"`
+    );
+    return PROVIDER_FACTORIES[DEFAULT_PROVIDER](env);
+  }
+
+  return PROVIDER_FACTORIES[requested](env);
+};
+
+/**
+ * Provider used by the application, resolved once when the module loads
+ * @constant
+ */
+export const activeProvider: TextGenerationProvider = createProviderFromEnv(import.meta.env);
+
+export { createHttpProvider, createOpenAIProvider, createSimulatedProvider };
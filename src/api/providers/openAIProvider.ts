@@ -0,0 +1,398 @@
+/**
+ * @fileoverview OpenAI-compatible text generation provider
+ * @description Adapter for any server implementing POST /v1/chat/completions
+ * (hosted APIs, locally hosted model servers or the stub in server/)
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import type {
+  ApiError,
+  GenerateOptions,
+  GenerateTextRequest,
+  GenerateTextResponse,
+  GenerationCandidate,
+  StreamChunkHandler,
+  TextGenerationProvider,
+} from '../../types/api';
+import type {
+  ChatCompletionChunk,
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  ChatCompletionUsage,
+  ChatMessage,
+  OpenAIErrorBody,
+} from '../../types/openai';
+import { toChatMessages } from '../conversation';
+import { createAbortError, createApiError, isApiError } from '../errors';
+import { maxLengthToTokens } from '../tokens/modelLimits';
+import { estimateCost } from '../tokens/pricing';
+import { countChatTokens, countTokens } from '../tokens/tokenizer';
+
+/**
+ * Configuration for the OpenAI-compatible provider
+ * @interface OpenAIProviderConfig
+ */
+export interface OpenAIProviderConfig {
+  /** Base URL of the API, without the trailing /chat/completions */
+  baseUrl: string;
+  /** Model name sent with every request */
+  model: string;
+  /** Optional API key sent as a Bearer token */
+  apiKey?: string;
+}
+
+/**
+ * Default configuration, pointing at the local stub behind the Vite proxy
+ * @constant
+ */
+export const DEFAULT_OPENAI_CONFIG: OpenAIProviderConfig = {
+  baseUrl: '/api/v1',
+  model: 'gpt-4o-mini',
+};
+
+/**
+ * Maps the provider-agnostic request onto a chat completions body
+ *
+ * @param request - The generation request
+ * @param model - Model name to use
+ * @param stream - Whether to ask for a streamed response
+ * @returns The chat completions request body
+ */
+const toChatCompletionRequest = (
+  request: GenerateTextRequest,
+  model: string,
+  stream: boolean
+): ChatCompletionRequest => {
+  const body: ChatCompletionRequest = {
+    model,
+    messages: toChatMessages(request),
+    stream,
+  };
+
+  if (request.temperature !== undefined) {
+    body.temperature = request.temperature;
+  }
+
+  if (request.seed !== undefined) {
+    body.seed = request.seed;
+  }
+
+  if (request.n !== undefined && request.n > 1) {
+    body.n = request.n;
+  }
+
+  // maxLength is expressed in characters, the API limits tokens
+  if (request.maxLength !== undefined) {
+    body.max_tokens = maxLengthToTokens(request.maxLength);
+  }
+
+  return body;
+};
+
+/**
+ * Text and finish reason of one choice of a chat completion
+ * @interface ChoiceOutput
+ */
+interface ChoiceOutput {
+  content: string;
+  finishReason: string | null | undefined;
+}
+
+/**
+ * Builds the GenerateTextResponse for a completed chat completion
+ * Token counts the server does not report are counted with the bundled tokenizer.
+ * With several choices the reported completion usage covers all of them, so each
+ * candidate's completion is counted on its own.
+ *
+ * @param messages - The conversation that was sent
+ * @param choices - The choices, in index order
+ * @param model - Model reported by the server
+ * @param usage - Token usage, if reported
+ * @returns The provider-agnostic response, with `candidates` when there are several choices
+ */
+const toGenerateTextResponse = (
+  messages: ChatMessage[],
+  choices: ChoiceOutput[],
+  model: string,
+  usage: ChatCompletionUsage | null | undefined
+): GenerateTextResponse => {
+  const promptTokens = usage?.prompt_tokens ?? countChatTokens(messages);
+  const sharedUsage = choices.length === 1 ? usage : undefined;
+
+  const candidates = choices.map(({ content, finishReason }): GenerationCandidate => {
+    const completionTokens = sharedUsage?.completion_tokens ?? countTokens(content);
+
+    return {
+      result: content,
+      tokenCount: completionTokens,
+      metadata: {
+        model,
+        tokensUsed: sharedUsage?.total_tokens ?? promptTokens + completionTokens,
+        processingTime: Date.now(),
+        promptTokens,
+        completionTokens,
+        estimatedCost: estimateCost(model, { promptTokens, completionTokens })?.totalCost,
+        finishReason: finishReason ?? undefined,
+      },
+    };
+  });
+
+  return candidates.length > 1 ? { ...candidates[0], candidates } : candidates[0];
+};
+
+/**
+ * Creates the ApiError used when the server answers with an unexpected payload
+ * @param status - HTTP status of the response
+ * @param details - Optional description of the problem
+ * @returns The API_ERROR ApiError
+ */
+const createInvalidResponseError = (status: number, details?: string): ApiError =>
+  createApiError(
+    'API_ERROR',
+    'La respuesta del modelo no tiene el formato esperado',
+    status,
+    details
+  );
+
+/**
+ * Maps a non-OK HTTP response onto an ApiError
+ *
+ * @param response - The failed response
+ * @returns The matching ApiError
+ */
+const mapHttpError = async (response: Response): Promise<ApiError> => {
+  const body = (await response.json().catch(() => null)) as OpenAIErrorBody | null;
+  const details = body?.error?.message || response.statusText || undefined;
+
+  if (response.status === 401 || response.status === 403) {
+    return createApiError(
+      'API_ERROR',
+      'La clave de API no es válida o no tiene permisos',
+      response.status,
+      details
+    );
+  }
+
+  if (response.status === 429) {
+    return createApiError(
+      'API_ERROR',
+      'Se ha superado el límite de solicitudes del modelo',
+      response.status,
+      details
+    );
+  }
+
+  return createApiError('API_ERROR', 'Error en la generación de texto', response.status, details);
+};
+
+/**
+ * Reads a server-sent events body, forwarding content deltas as they arrive
+ * Only the deltas of the first choice are forwarded; the other choices are
+ * assembled and returned as candidates.
+ *
+ * @param body - The SSE response body
+ * @param messages - The conversation that was sent
+ * @param onChunk - Callback receiving each text fragment
+ * @param fallbackModel - Model name used if the server does not report one
+ * @returns The complete response assembled from the deltas
+ * @throws ApiError if an event cannot be parsed
+ */
+const consumeEventStream = async (
+  body: ReadableStream<Uint8Array>,
+  messages: ChatMessage[],
+  onChunk: StreamChunkHandler,
+  fallbackModel: string
+): Promise<GenerateTextResponse> => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  const outputs: ChoiceOutput[] = [{ content: '', finishReason: null }];
+  let model = fallbackModel;
+  let usage: ChatCompletionUsage | null | undefined;
+  let isDone = false;
+
+  const handleLine = (line: string): void => {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('data:')) {
+      return;
+    }
+
+    const data = trimmed.slice('data:'.length).trim();
+    if (data === '[DONE]') {
+      isDone = true;
+      return;
+    }
+
+    let chunk: ChatCompletionChunk;
+    try {
+      chunk = JSON.parse(data) as ChatCompletionChunk;
+    } catch (error) {
+      throw createInvalidResponseError(
+        200,
+        error instanceof Error ? error.message : undefined
+      );
+    }
+
+    model = chunk.model || model;
+    usage = chunk.usage ?? usage;
+
+    for (const choice of chunk.choices ?? []) {
+      const index = choice.index ?? 0;
+      const output = (outputs[index] ??= { content: '', finishReason: null });
+      if (choice.delta?.content) {
+        output.content += choice.delta.content;
+        if (index === 0) {
+          onChunk(choice.delta.content);
+        }
+      }
+      if (choice.finish_reason) {
+        output.finishReason = choice.finish_reason;
+      }
+    }
+  };
+
+  while (!isDone) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+
+    buffer += decoder.decode(value, { stream: true });
+
+    let newlineIndex = buffer.indexOf('\n');
+    while (newlineIndex !== -1 && !isDone) {
+      handleLine(buffer.slice(0, newlineIndex));
+      buffer = buffer.slice(newlineIndex + 1);
+      newlineIndex = buffer.indexOf('\n');
+    }
+  }
+
+  if (!isDone) {
+    handleLine(buffer + decoder.decode());
+  } else {
+    await reader.cancel().catch(() => undefined);
+  }
+
+  // Choices the server never sent leave holes in the list
+  const choices = outputs.filter((output): output is ChoiceOutput => output !== undefined);
+  return toGenerateTextResponse(messages, choices, model, usage);
+};
+
+/**
+ * Creates a provider for an OpenAI-compatible chat completions endpoint
+ *
+ * @param config - Base URL, model and optional API key
+ * @returns A TextGenerationProvider backed by /chat/completions
+ *
+ * @example
+ * ```typescript
+ * const provider = createOpenAIProvider({
+ *   baseUrl: 'http://localhost:8080/v1',
+ *   model: 'llama-3.1-8b-instruct',
+ * });
+ * const response = await provider.generate({ prompt: 'Escribe un slogan', temperature: 0.7 });
+ * ```
+ */
+export const createOpenAIProvider = (
+  config: OpenAIProviderConfig = DEFAULT_OPENAI_CONFIG
+): TextGenerationProvider => {
+  const endpoint = `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    name: 'openai',
+    model: config.model,
+
+    generate: async (
+      request: GenerateTextRequest,
+      { signal, onChunk }: GenerateOptions = {}
+    ): Promise<GenerateTextResponse> => {
+      const body = toChatCompletionRequest(request, config.model, !!onChunk);
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+      };
+      if (config.apiKey) {
+        headers.Authorization = `Bearer ${config.apiKey}`;
+      }
+
+      let response: Response;
+
+      try {
+        response = await fetch(endpoint, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify(body),
+          signal,
+        });
+      } catch (error) {
+        if (signal?.aborted) {
+          throw createAbortError();
+        }
+        throw createApiError(
+          'NETWORK_ERROR',
+          'No se pudo conectar con el servidor del modelo',
+          0,
+          error instanceof Error ? error.message : undefined
+        );
+      }
+
+      if (!response.ok) {
+        throw await mapHttpError(response);
+      }
+
+      const contentType = response.headers.get('Content-Type') ?? '';
+
+      if (onChunk && response.body && contentType.includes('text/event-stream')) {
+        try {
+          return await consumeEventStream(response.body, body.messages, onChunk, config.model);
+        } catch (error) {
+          if (signal?.aborted) {
+            throw createAbortError();
+          }
+          if (isApiError(error)) {
+            throw error;
+          }
+          throw createApiError(
+            'NETWORK_ERROR',
+            'Se perdió la conexión durante la transmisión',
+            0,
+            error instanceof Error ? error.message : undefined
+          );
+        }
+      }
+
+      let data: ChatCompletionResponse;
+      try {
+        data = (await response.json()) as ChatCompletionResponse;
+      } catch (error) {
+        if (signal?.aborted) {
+          throw createAbortError();
+        }
+        throw createInvalidResponseError(
+          response.status,
+          error instanceof Error ? error.message : undefined
+        );
+      }
+
+      const choices = [...(data?.choices ?? [])].sort((a, b) => a.index - b.index);
+      if (
+        choices.length === 0 ||
+        choices.some((choice) => typeof choice.message?.content !== 'string')
+      ) {
+        throw createInvalidResponseError(response.status, 'Missing choices[].message.content');
+      }
+
+      return toGenerateTextResponse(
+        body.messages,
+        choices.map((choice) => ({
+          content: choice.message.content,
+          finishReason: choice.finish_reason,
+        })),
+        data.model || config.model,
+        data.usage
+      );
+    },
+  };
+};
+
+export default createOpenAIProvider;
@@ -0,0 +1,175 @@
+/**
+ * @fileoverview Simulated text generation provider
+ * @description Offline provider that answers with canned responses after a fake network delay,
+ * streaming them word by word when the caller asks for chunks
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import type {
+  GenerateOptions,
+  GenerateTextRequest,
+  GenerateTextResponse,
+  GenerationCandidate,
+  TextGenerationProvider,
+} from '../../types/api';
+import { toChatMessages } from '../conversation';
+import { createAbortError, createApiError } from '../errors';
+import { createRandomSeed } from '../simulation/random';
+import { buildSimulatedCandidates, type SimulatedCandidate } from '../simulation/responses';
+import { estimateCost } from '../tokens/pricing';
+import { countUsage } from '../tokens/tokenizer';
+
+/**
+ * Model name of the simulated generator, also answered by the local API server
+ * @constant
+ */
+export const SIMULATED_MODEL = 'simulated-ai-v1';
+
+/**
+ * Configuration constants for the simulated provider
+ */
+const SIMULATION_CONFIG = {
+  /** Simulated network delay range in milliseconds */
+  MIN_DELAY: 800,
+  MAX_DELAY: 2000,
+  /** Simulated time to first token range when streaming, in milliseconds */
+  MIN_FIRST_CHUNK_DELAY: 250,
+  MAX_FIRST_CHUNK_DELAY: 600,
+  /** Simulated delay range between streamed words, in milliseconds */
+  MIN_CHUNK_DELAY: 15,
+  MAX_CHUNK_DELAY: 45,
+  /** Model name reported in the response metadata */
+  MODEL: SIMULATED_MODEL,
+} as const;
+
+/**
+ * Configuration for the simulated provider
+ * @interface SimulatedProviderConfig
+ */
+export interface SimulatedProviderConfig {
+  /** Probability (0-1) that an attempt fails with a transient 503, to exercise retries */
+  failureRate?: number;
+}
+
+/**
+ * Simulates network delay for realistic API behavior
+ * @param min - Minimum delay in milliseconds
+ * @param max - Maximum delay in milliseconds
+ * @returns Promise that resolves after a random delay
+ */
+const simulateNetworkDelay = (
+  min: number = SIMULATION_CONFIG.MIN_DELAY,
+  max: number = SIMULATION_CONFIG.MAX_DELAY
+): Promise<void> => {
+  const delay = Math.random() * (max - min) + min;
+  return new Promise((resolve) => setTimeout(resolve, delay));
+};
+
+/**
+ * Splits a text into word fragments, keeping the leading whitespace of each word
+ * so that concatenating the fragments reproduces the original text exactly
+ *
+ * @param text - The text to split
+ * @returns The ordered list of fragments
+ */
+const splitIntoWordChunks = (text: string): string[] => text.match(/\s*\S+|\s+$/g) ?? [];
+
+/**
+ * Creates the simulated provider
+ * Useful for development, demos and offline work without a real model
+ *
+ * @param config - Optional failure injection settings
+ * @returns A TextGenerationProvider backed by the simulated response catalog
+ */
+export const createSimulatedProvider = ({
+  failureRate = 0,
+}: SimulatedProviderConfig = {}): TextGenerationProvider => ({
+  name: 'simulated',
+  model: SIMULATION_CONFIG.MODEL,
+
+  generate: async (
+    request: GenerateTextRequest,
+    { signal, onChunk }: GenerateOptions = {}
+  ): Promise<GenerateTextResponse> => {
+    if (signal?.aborted) {
+      throw createAbortError();
+    }
+
+    if (Math.random() < failureRate) {
+      await simulateNetworkDelay(
+        SIMULATION_CONFIG.MIN_FIRST_CHUNK_DELAY,
+        SIMULATION_CONFIG.MAX_FIRST_CHUNK_DELAY
+      );
+      throw createApiError(
+        'API_ERROR',
+        'El servicio simulado no está disponible temporalmente',
+        503
+      );
+    }
+
+    // Every random choice in the output comes from this seed; extra candidates derive theirs from it
+    const drafts = buildSimulatedCandidates(
+      request,
+      request.seed ?? createRandomSeed(),
+      request.n ?? 1
+    );
+    const result = drafts[0].text;
+
+    // Only the first candidate is streamed; the others arrive with the response
+    if (onChunk) {
+      await simulateNetworkDelay(
+        SIMULATION_CONFIG.MIN_FIRST_CHUNK_DELAY,
+        SIMULATION_CONFIG.MAX_FIRST_CHUNK_DELAY
+      );
+
+      for (const chunk of splitIntoWordChunks(result)) {
+        if (signal?.aborted) {
+          throw createAbortError();
+        }
+        onChunk(chunk);
+        await simulateNetworkDelay(
+          SIMULATION_CONFIG.MIN_CHUNK_DELAY,
+          SIMULATION_CONFIG.MAX_CHUNK_DELAY
+        );
+      }
+    } else {
+      await simulateNetworkDelay();
+    }
+
+    // Check again after delay
+    if (signal?.aborted) {
+      throw createAbortError();
+    }
+
+    const messages = toChatMessages(request);
+    const toCandidate = ({
+      text,
+      truncated,
+      language,
+      seed,
+    }: SimulatedCandidate): GenerationCandidate => {
+      const usage = countUsage(messages, text);
+      return {
+        result: text,
+        tokenCount: usage.completionTokens,
+        metadata: {
+          model: SIMULATION_CONFIG.MODEL,
+          tokensUsed: usage.totalTokens,
+          processingTime: Date.now(),
+          promptTokens: usage.promptTokens,
+          completionTokens: usage.completionTokens,
+          estimatedCost: estimateCost(SIMULATION_CONFIG.MODEL, usage)?.totalCost,
+          seed,
+          finishReason: truncated ? 'length' : 'stop',
+          language,
+        },
+      };
+    };
+    const candidates = drafts.map(toCandidate);
+
+    return candidates.length > 1 ? { ...candidates[0], candidates } : candidates[0];
+  },
+});
+
+export default createSimulatedProvider;
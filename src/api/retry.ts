@@ -0,0 +1,131 @@
+/**
+ * @fileoverview Retry policy for transient failures
+ * @description Exponential backoff with full jitter, applied only to retryable errors
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import type { ApiError, RetryInfo, RetryPolicy } from '../types/api';
+import { createAbortError, toApiError } from './errors';
+
+/**
+ * Default retry policy used by generateText
+ * @constant
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+};
+
+/**
+ * Options for withRetry
+ * @interface RetryOptions
+ */
+export interface RetryOptions {
+  /** Retry policy (defaults to DEFAULT_RETRY_POLICY) */
+  policy?: RetryPolicy;
+  /** Optional AbortSignal that cancels pending retries */
+  signal?: AbortSignal;
+  /** Optional callback invoked before every retry */
+  onRetry?: (info: RetryInfo) => void;
+}
+
+/**
+ * Decides whether an error is transient and worth retrying
+ * Network errors, rate limiting (429) and server errors (5xx) are retried;
+ * validation errors, cancellations and other client errors are not.
+ *
+ * @param error - The classified error
+ * @returns True if the request should be retried
+ */
+export const isRetryableError = (error: ApiError): boolean => {
+  switch (error.code) {
+    case 'NETWORK_ERROR':
+      return true;
+    case 'API_ERROR':
+      return error.status === 429 || error.status >= 500;
+    default:
+      return false;
+  }
+};
+
+/**
+ * Computes the delay before a retry using exponential backoff with full jitter
+ *
+ * @param failedAttempt - Number of the attempt that just failed (1-based)
+ * @param policy - The retry policy
+ * @returns Delay in milliseconds, between 0 and the capped exponential delay
+ */
+export const getBackoffDelay = (failedAttempt: number, policy: RetryPolicy): number => {
+  const exponential = policy.baseDelayMs * 2 ** (failedAttempt - 1);
+  return Math.round(Math.random() * Math.min(policy.maxDelayMs, exponential));
+};
+
+/**
+ * Waits for the given delay, rejecting early if the signal aborts
+ *
+ * @param delayMs - Delay in milliseconds
+ * @param signal - Optional AbortSignal
+ * @returns Promise that resolves after the delay
+ */
+const wait = (delayMs: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, delayMs);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Runs an operation, retrying transient failures according to the policy
+ *
+ * @param operation - The operation to run; receives the 1-based attempt number
+ * @param options - Policy, AbortSignal and retry callback
+ * @returns The result of the first successful attempt
+ * @throws ApiError from the last attempt, or immediately for non-retryable errors
+ *
+ * @example
+ * ```typescript
+ * const response = await withRetry(() => provider.generate(request), {
+ *   onRetry: ({ attempt, maxAttempts }) => console.log(`retrying (${attempt}/${maxAttempts})`),
+ * });
+ * ```
+ */
+export const withRetry = async <T>(
+  operation: (attempt: number) => Promise<T>,
+  { policy = DEFAULT_RETRY_POLICY, signal, onRetry }: RetryOptions = {}
+): Promise<T> => {
+  const maxAttempts = Math.max(1, Math.floor(policy.maxAttempts));
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (signal?.aborted) {
+        throw createAbortError();
+      }
+
+      const apiError = toApiError(error);
+
+      if (attempt >= maxAttempts || !isRetryableError(apiError)) {
+        throw apiError;
+      }
+
+      const delayMs = getBackoffDelay(attempt, policy);
+      onRetry?.({ attempt: attempt + 1, maxAttempts, delayMs, error: apiError });
+      await wait(delayMs, signal);
+    }
+  }
+};
@@ -0,0 +1,192 @@
+/**
+ * @fileoverview Prompt category rule table
+ * @description Declarative keyword weights used to classify prompts for the simulated generator
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+/**
+ * Categories with dedicated response templates
+ * @type PromptCategory
+ */
+export type PromptCategory =
+  | 'nombres_chicos'
+  | 'nombres_chicas'
+  | 'producto'
+  | 'email'
+  | 'historia'
+  | 'slogan'
+  | 'codigo'
+  | 'receta'
+  | 'lista'
+  | 'ideas';
+
+/**
+ * Scoring rule for one category
+ * Keywords are written in lowercase and may carry accents: they go through the
+ * same normalization and stemming as the prompt. A trailing `*` turns a keyword
+ * into a prefix (`cocin*` matches "cocina", "cocinar", "cocinando"...).
+ *
+ * @interface CategoryRule
+ */
+export interface CategoryRule {
+  /** Category scored by this rule */
+  category: PromptCategory;
+  /** Keyword → weight; each keyword counts once however often it appears */
+  keywords: Record<string, number>;
+  /** The rule only scores if at least one of these keywords is present */
+  requires?: string[];
+}
+
+/**
+ * Keywords that make a prompt about names
+ * @constant
+ */
+const NAME_KEYWORDS = ['nombre', 'name'];
+
+/**
+ * Rule table, one entry per category
+ * Weights: 3 for words that name the task, 2 for strong hints, 1 for weak hints.
+ * @constant
+ */
+export const CATEGORY_RULES: readonly CategoryRule[] = [
+  {
+    category: 'nombres_chicos',
+    requires: NAME_KEYWORDS,
+    keywords: {
+      nombre: 2,
+      name: 2,
+      chico: 3,
+      niño: 3,
+      varón: 3,
+      hombre: 2,
+      masculino: 3,
+      boy: 3,
+      male: 3,
+    },
+  },
+  {
+    category: 'nombres_chicas',
+    requires: NAME_KEYWORDS,
+    keywords: {
+      nombre: 2,
+      name: 2,
+      chica: 3,
+      niña: 3,
+      mujer: 2,
+      femenino: 3,
+      girl: 3,
+      female: 3,
+    },
+  },
+  {
+    category: 'producto',
+    keywords: {
+      producto: 3,
+      product: 3,
+      descripción: 2,
+      description: 2,
+      característica: 1,
+      feature: 1,
+      vender: 1,
+      tienda: 1,
+      shop: 1,
+    },
+  },
+  {
+    category: 'email',
+    keywords: {
+      email: 3,
+      correo: 3,
+      mail: 2,
+      carta: 2,
+      letter: 2,
+      asunto: 1,
+      subject: 1,
+      mensaje: 1,
+      message: 1,
+    },
+  },
+  {
+    category: 'historia',
+    keywords: {
+      historia: 3,
+      story: 3,
+      cuento: 3,
+      tale: 3,
+      relato: 3,
+      narrativa: 2,
+      narrative: 2,
+      fábula: 2,
+      personaje: 1,
+      character: 1,
+    },
+  },
+  {
+    category: 'slogan',
+    keywords: {
+      slogan: 3,
+      eslogan: 3,
+      lema: 3,
+      tagline: 3,
+      marketing: 1,
+      publicidad: 1,
+      campaña: 1,
+      marca: 1,
+      brand: 1,
+    },
+  },
+  {
+    category: 'codigo',
+    keywords: {
+      código: 3,
+      code: 3,
+      javascript: 3,
+      typescript: 3,
+      python: 3,
+      'program*': 2,
+      función: 2,
+      function: 2,
+      script: 2,
+      algoritmo: 2,
+      algorithm: 2,
+      sql: 2,
+    },
+  },
+  {
+    category: 'receta',
+    keywords: {
+      receta: 3,
+      recipe: 3,
+      'cocin*': 2,
+      cook: 2,
+      ingrediente: 2,
+      ingredient: 2,
+      postre: 2,
+      dessert: 2,
+      comida: 1,
+      food: 1,
+      plato: 1,
+      dish: 1,
+    },
+  },
+  {
+    category: 'lista',
+    keywords: {
+      lista: 2,
+      list: 2,
+      'enumer*': 2,
+      ranking: 1,
+    },
+  },
+  {
+    category: 'ideas',
+    keywords: {
+      idea: 3,
+      sugerencia: 2,
+      suggestion: 2,
+      propuesta: 2,
+      brainstorm: 2,
+    },
+  },
+];
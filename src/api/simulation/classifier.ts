@@ -0,0 +1,222 @@
+/**
+ * @fileoverview Prompt category classifier
+ * @description Scores a prompt against the category rule table (accent-, case- and
+ * plural-insensitive) and picks a category only when it is confident enough
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import { CATEGORY_RULES, type CategoryRule, type PromptCategory } from './categoryRules';
+
+/**
+ * Configuration constants for the classifier
+ */
+const CLASSIFIER_CONFIG = {
+  /** Below this confidence the prompt gets a generic response */
+  MIN_CONFIDENCE: 0.35,
+  /** Score from which a match counts as fully strong (one task keyword) */
+  STRONG_SCORE: 3,
+} as const;
+
+/**
+ * Suffix rewrites applied by the stemmer, first match wins
+ * Covers the common Spanish and English plural and verb endings.
+ * @constant
+ */
+const STEM_RULES: ReadonlyArray<readonly [suffix: string, replacement: string]> = [
+  ['ciones', 'cion'],
+  ['siones', 'sion'],
+  ['ies', 'y'],
+  ['ing', ''],
+  ['ed', ''],
+  ['s', ''],
+];
+
+/**
+ * Minimum stem length left after stripping a suffix
+ * @constant
+ */
+const MIN_STEM_LENGTH = 3;
+
+/**
+ * A scored category
+ * @interface CategoryCandidate
+ */
+export interface CategoryCandidate {
+  /** The category */
+  category: PromptCategory;
+  /** Sum of the weights of the matched keywords */
+  score: number;
+  /** Confidence between 0 and 1 */
+  confidence: number;
+}
+
+/**
+ * Outcome of classifying a prompt
+ * @interface PromptClassification
+ */
+export interface PromptClassification {
+  /** Best category, or null when no candidate reaches the confidence threshold */
+  category: PromptCategory | null;
+  /** Confidence of the best candidate (0 when nothing matched) */
+  confidence: number;
+  /** Every category that scored, best first */
+  candidates: CategoryCandidate[];
+}
+
+/**
+ * Lowercases a text and strips its accents ("Descripción" → "descripcion")
+ * @param text - The text to normalize
+ * @returns The normalized text
+ */
+export const normalizeText = (text: string): string =>
+  text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+
+/**
+ * Reduces a normalized word to a simple stem
+ * Plural and verb endings are stripped ("nombres" → "nombre", "stories" → "story",
+ * "programming" → "program") so inflected forms match the same keyword.
+ *
+ * @param word - A normalized word
+ * @returns The stem
+ */
+export const stemWord = (word: string): string => {
+  for (const [suffix, replacement] of STEM_RULES) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= MIN_STEM_LENGTH) {
+      const stem = word.slice(0, word.length - suffix.length) + replacement;
+      // "programm" → "program", "shopp" → "shop"
+      return /([b-df-hj-np-tv-z])\1$/.test(stem) ? stem.slice(0, -1) : stem;
+    }
+  }
+  return word;
+};
+
+/**
+ * Splits a text into normalized, stemmed words
+ * @param text - The text to tokenize
+ * @returns The stems, in order
+ */
+const tokenize = (text: string): string[] =>
+  normalizeText(text)
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .map(stemWord);
+
+/**
+ * Keyword of a compiled rule
+ * @interface CompiledKeyword
+ */
+interface CompiledKeyword {
+  /** Keyword as written in the rule table */
+  source: string;
+  /** Stem to compare with, or prefix when `isPrefix` */
+  term: string;
+  isPrefix: boolean;
+  weight: number;
+}
+
+/**
+ * Normalizes a rule keyword the same way as prompt words
+ * @param keyword - Keyword from the rule table
+ * @param weight - Its weight
+ * @returns The compiled keyword
+ */
+const compileKeyword = (keyword: string, weight: number): CompiledKeyword => {
+  const isPrefix = keyword.endsWith('*');
+  const normalized = normalizeText(isPrefix ? keyword.slice(0, -1) : keyword);
+  return {
+    source: keyword,
+    term: isPrefix ? normalized : stemWord(normalized),
+    isPrefix,
+    weight,
+  };
+};
+
+/**
+ * Rule table with its keywords normalized once, at module load
+ * @constant
+ */
+const COMPILED_RULES = CATEGORY_RULES.map((rule: CategoryRule) => ({
+  category: rule.category,
+  keywords: Object.entries(rule.keywords).map(([keyword, weight]) =>
+    compileKeyword(keyword, weight)
+  ),
+  requires: new Set(rule.requires ?? []),
+}));
+
+/**
+ * Checks whether a keyword appears among the prompt stems
+ * @param keyword - The compiled keyword
+ * @param stems - Stems of the prompt
+ * @returns True if the keyword matches
+ */
+const matchesKeyword = (keyword: CompiledKeyword, stems: ReadonlySet<string>): boolean => {
+  if (!keyword.isPrefix) {
+    return stems.has(keyword.term);
+  }
+  for (const stem of stems) {
+    if (stem.startsWith(keyword.term)) {
+      return true;
+    }
+  }
+  return false;
+};
+
+/**
+ * Classifies a prompt against the category rule table
+ * Each category scores the sum of its matched keyword weights. Confidence is the
+ * share of the best score among all scores, scaled down when the best match is
+ * weak; below the threshold the category is null and a generic response is used.
+ *
+ * @param prompt - The user's input prompt
+ * @returns The best category, its confidence and every scored candidate
+ *
+ * @example
+ * ```typescript
+ * classifyPrompt('descripcion de producto para una app de recetas');
+ * // { category: 'producto', confidence: 0.625, candidates: [...] }
+ * ```
+ */
+export const classifyPrompt = (prompt: string): PromptClassification => {
+  const stems = new Set(tokenize(prompt));
+
+  const scored = COMPILED_RULES.map((rule) => {
+    const matched = rule.keywords.filter((keyword) => matchesKeyword(keyword, stems));
+    const isEligible =
+      rule.requires.size === 0 || matched.some((keyword) => rule.requires.has(keyword.source));
+
+    return {
+      category: rule.category,
+      score: isEligible ? matched.reduce((sum, keyword) => sum + keyword.weight, 0) : 0,
+    };
+  }).filter((candidate) => candidate.score > 0);
+
+  const total = scored.reduce((sum, candidate) => sum + candidate.score, 0);
+
+  const candidates: CategoryCandidate[] = scored
+    .map((candidate) => ({
+      ...candidate,
+      confidence:
+        (candidate.score / total) * Math.min(1, candidate.score / CLASSIFIER_CONFIG.STRONG_SCORE),
+    }))
+    .sort((a, b) => b.score - a.score);
+
+  const best = candidates[0];
+  if (!best) {
+    return { category: null, confidence: 0, candidates };
+  }
+
+  return {
+    category: best.confidence >= CLASSIFIER_CONFIG.MIN_CONFIDENCE ? best.category : null,
+    confidence: best.confidence,
+    candidates,
+  };
+};
+
+/**
+ * Detects the category of a prompt
+ * @param prompt - The user's input prompt
+ * @returns The detected category, or null when the prompt should get a generic response
+ */
+export const detectPromptCategory = (prompt: string): PromptCategory | null =>
+  classifyPrompt(prompt).category;
@@ -0,0 +1,210 @@
+/**
+ * @fileoverview Follow-up detection for conversations
+ * @description Recognizes prompts that refer back to an earlier turn ("like the previous
+ * list, but shorter") and reshapes the earlier answer accordingly
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import type { ChatMessage } from '../../types/openai';
+import { detectPromptCategory, normalizeText } from './classifier';
+import { truncateAtSentence } from './variation';
+
+/**
+ * What a follow-up asks to do with the previous answer
+ * @type FollowUpIntent
+ */
+export type FollowUpIntent = 'shorter' | 'longer' | 'again';
+
+/**
+ * A prompt recognized as a follow-up, with the turn it refers to
+ * @interface FollowUp
+ */
+export interface FollowUp {
+  /** What to do with the previous answer */
+  intent: FollowUpIntent;
+  /** The last answer of the assistant */
+  previousAnswer: string;
+  /** The earlier request the answer belongs to (the last one with a category, if any) */
+  previousPrompt: string;
+}
+
+/**
+ * Words asking for each intent, matched on normalized text
+ * @constant
+ */
+const INTENT_PATTERNS: ReadonlyArray<readonly [FollowUpIntent, RegExp]> = [
+  [
+    'shorter',
+    /\b(shorter|briefer|more concise|fewer|summari[sz]e|mas cort[oa]s?|mas breve|resum[eiao]\w*|acorta\w*)\b/,
+  ],
+  [
+    'longer',
+    /\b(longer|expand\w*|extend\w*|more detail\w*|mas larg[oa]s?|mas detall\w*|ampli[ae]\w*|alarga\w*)\b/,
+  ],
+  ['again', /\b(again|another|different|otra vez|otra version|distint[oa]|diferente|de nuevo)\b/],
+];
+
+/**
+ * Words pointing back at an earlier turn, matched on normalized text
+ * @constant
+ */
+const REFERENCE_PATTERN =
+  /\b(previous|last one|above|earlier|before|that one|the same|anterior|ultim[oa]|lo mismo|de antes|eso)\b/;
+
+/**
+ * Matches a list item at the start of a line (•, -, ✓, 💡 or a number)
+ * @constant
+ */
+const ITEM_LINE = /^(?:•|-|✓|💡|\d+\.)\s+\S/u;
+
+/**
+ * Matches an indented line continuing the previous list item
+ * @constant
+ */
+const CONTINUATION_LINE = /^\s+\S/;
+
+/**
+ * Matches the line that opens or closes a fenced code block
+ * @constant
+ */
+const FENCE_LINE = /^\s*```/;
+
+/**
+ * Finds the last message matching a predicate
+ * @param messages - The conversation
+ * @param predicate - Test applied to each message
+ * @returns The last matching message, if any
+ */
+const findLast = (
+  messages: readonly ChatMessage[],
+  predicate: (message: ChatMessage) => boolean
+): ChatMessage | undefined => [...messages].reverse().find(predicate);
+
+/**
+ * Detects whether a prompt is a follow-up on the conversation so far
+ * A prompt is a follow-up when there is a previous answer and it either asks
+ * for an intent while pointing back at an earlier turn ("like the previous
+ * list, but shorter"), or asks for an intent or points back without having a
+ * category of its own ("shorter, please"). A plain reference counts as "again".
+ *
+ * @param prompt - The new user message
+ * @param history - Earlier messages of the conversation
+ * @returns The follow-up, or null for a standalone prompt
+ *
+ * @example
+ * ```typescript
+ * detectFollowUp('Like the previous list, but shorter', history);
+ * // { intent: 'shorter', previousAnswer: '...', previousPrompt: 'Give me 6 ideas' }
+ * ```
+ */
+export const detectFollowUp = (
+  prompt: string,
+  history: readonly ChatMessage[]
+): FollowUp | null => {
+  const previousAnswer = findLast(history, (message) => message.role === 'assistant');
+  if (!previousAnswer) {
+    return null;
+  }
+
+  const text = normalizeText(prompt);
+  const hasReference = REFERENCE_PATTERN.test(text);
+  const intent = INTENT_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0];
+
+  if (!intent && !hasReference) {
+    return null;
+  }
+  if (!(intent && hasReference) && detectPromptCategory(prompt)) {
+    return null;
+  }
+
+  const userMessages = history.filter((message) => message.role === 'user');
+  const previousPrompt =
+    findLast(userMessages, (message) => detectPromptCategory(message.content) !== null) ??
+    userMessages[userMessages.length - 1];
+
+  return {
+    intent: intent ?? 'again',
+    previousAnswer: previousAnswer.content,
+    previousPrompt: previousPrompt?.content ?? '',
+  };
+};
+
+/**
+ * Counts the top-level list items of a text (outside code blocks)
+ * @param text - The text to inspect
+ * @returns Number of list items
+ */
+export const countListItems = (text: string): number => {
+  let inFence = false;
+  return text.split('\n').filter((line) => {
+    if (FENCE_LINE.test(line)) {
+      inFence = !inFence;
+    }
+    return !inFence && ITEM_LINE.test(line);
+  }).length;
+};
+
+/**
+ * Keeps the first half of every list in a text
+ * Indented lines, and lines right below an item, stay with their item; blank
+ * lines never end a list.
+ *
+ * @param text - The text to shorten
+ * @returns The shortened text, or null if it has no list of two or more items
+ */
+const halveLists = (text: string): string | null => {
+  const lines = text.split('\n');
+  const positions: Array<{ run: number; item: number } | null> = [];
+  const runSizes: number[] = [];
+  let current: { run: number; item: number } | null = null;
+  let inFence = false;
+  let afterBlank = false;
+
+  for (const line of lines) {
+    if (FENCE_LINE.test(line)) {
+      inFence = !inFence;
+    }
+
+    if (!inFence && ITEM_LINE.test(line)) {
+      if (!current) {
+        runSizes.push(0);
+      }
+      current = { run: runSizes.length - 1, item: runSizes[runSizes.length - 1]++ };
+      positions.push(current);
+    } else if (current && !inFence && line.trim() === '') {
+      // Blank lines are always kept and do not end the list
+      positions.push(null);
+    } else if (current && !inFence && (!afterBlank || CONTINUATION_LINE.test(line))) {
+      positions.push(current);
+    } else {
+      current = null;
+      positions.push(null);
+    }
+
+    afterBlank = line.trim() === '';
+  }
+
+  if (!runSizes.some((size) => size >= 2)) {
+    return null;
+  }
+
+  return lines
+    .filter((_, index) => {
+      const position = positions[index];
+      return !position || position.item < Math.ceil(runSizes[position.run] / 2);
+    })
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n');
+};
+
+/**
+ * Shortens an earlier answer
+ * Lists keep their first half; other text is cut at a sentence boundary
+ * around half its length.
+ *
+ * @param text - The previous answer
+ * @returns The shorter version
+ */
+export const shortenAnswer = (text: string): string =>
+  halveLists(text) ?? truncateAtSentence(text, Math.ceil(text.length / 2)).text;
@@ -0,0 +1,91 @@
+/**
+ * @fileoverview Prompt language detection
+ * @description Lightweight offline detector that tells Spanish prompts from English ones
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import type { PromptLanguage } from '../../types/api';
+import { normalizeText } from './classifier';
+
+/**
+ * Language assumed when the prompt gives no clue (the app's default locale)
+ * @constant
+ */
+const DEFAULT_LANGUAGE: PromptLanguage = 'es';
+
+/**
+ * Frequent function words, pronouns and greetings of each language
+ * Words shared by both languages ("a", "me", "no"...) are left out on purpose.
+ * @constant
+ */
+const STOPWORDS: Record<PromptLanguage, ReadonlySet<string>> = {
+  es: new Set([
+    'el', 'la', 'los', 'las', 'un', 'una', 'unos', 'unas', 'de', 'del', 'al', 'y', 'o', 'que',
+    'en', 'con', 'por', 'para', 'sin', 'sobre', 'mi', 'tu', 'su', 'sus', 'es', 'son', 'esta',
+    'este', 'como', 'mas', 'muy', 'dame', 'escribe', 'crea', 'genera', 'hazme', 'quiero',
+    'necesito', 'nombres', 'receta', 'chicos', 'chicas', 'personas', 'corto',
+    'explica', 'cuentame', 'resume', 'traduce', 'cual', 'cuales', 'porque', 'ayudame', 'pero',
+    'anterior', 'otra', 'vez', 'hola', 'buenos', 'buenas', 'dias', 'tardes', 'noches', 'gracias',
+    'yo', 'nos', 'lo', 'le', 'se', 'hay', 'puedes', 'donde', 'cuando', 'tambien', 'algo',
+  ]),
+  en: new Set([
+    'the', 'an', 'of', 'and', 'or', 'to', 'for', 'with', 'without', 'about', 'in', 'on', 'my',
+    'your', 'is', 'are', 'this', 'that', 'how', 'more', 'very', 'give', 'write', 'create',
+    'generate', 'make', 'want', 'need', 'names', 'recipe', 'boy', 'girl', 'people', 'short',
+    'explain', 'tell', 'summarize', 'translate', 'what', 'which', 'why', 'help', 'please', 'but',
+    'previous', 'again', 'shorter', 'longer', 'another', 'hello', 'hi', 'hey', 'there', 'thanks',
+    'thank', 'good', 'morning', 'evening', 'i', 'you', 'we', 'they', 'it', 'be', 'was', 'can',
+    'could', 'would', 'should', 'do', 'does', 'have', 'from', 'some', 'any', 'where', 'when',
+  ]),
+};
+
+/**
+ * Characters that only appear in Spanish text
+ * @constant
+ */
+const SPANISH_CHARACTERS = /[ñ¿¡áéíóú]/i;
+
+/**
+ * Extra score a Spanish-only character is worth
+ * @constant
+ */
+const SPANISH_CHARACTER_SCORE = 2;
+
+/**
+ * Detects whether a prompt is written in Spanish or English
+ * Counts the function words of each language; ties (including prompts with no
+ * known word) fall back to the given language, Spanish by default.
+ *
+ * @param prompt - The user's input prompt
+ * @param fallback - Language used when the prompt gives no clue
+ * @returns The detected language
+ *
+ * @example
+ * ```typescript
+ * detectLanguage('Write a short story about a robot'); // 'en'
+ * detectLanguage('Dame nombres de chicas');            // 'es'
+ * ```
+ */
+export const detectLanguage = (
+  prompt: string,
+  fallback: PromptLanguage = DEFAULT_LANGUAGE
+): PromptLanguage => {
+  const words = normalizeText(prompt).split(/[^\p{L}\p{N}]+/u);
+  let spanish = SPANISH_CHARACTERS.test(prompt) ? SPANISH_CHARACTER_SCORE : 0;
+  let english = 0;
+
+  for (const word of words) {
+    if (STOPWORDS.es.has(word)) {
+      spanish++;
+    }
+    if (STOPWORDS.en.has(word)) {
+      english++;
+    }
+  }
+
+  if (spanish === english) {
+    return fallback;
+  }
+  return english > spanish ? 'en' : 'es';
+};
@@ -0,0 +1,82 @@
+/**
+ * @fileoverview Seeded pseudo-random number generator
+ * @description Deterministic randomness for the simulated generator (mulberry32)
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+/**
+ * Deterministic random source
+ * @interface Random
+ */
+export interface Random {
+  /** The seed this generator was created with */
+  readonly seed: number;
+  /** Returns a float in [0, 1) */
+  next: () => number;
+  /** Returns an integer in [0, max) */
+  int: (max: number) => number;
+  /** Returns true with the given probability */
+  chance: (probability: number) => boolean;
+  /** Returns a random element of a non-empty array */
+  pick: <T>(items: readonly T[]) => T;
+  /** Returns a shuffled copy of an array (Fisher-Yates) */
+  shuffle: <T>(items: readonly T[]) => T[];
+}
+
+/**
+ * Normalizes any number into an unsigned 32-bit seed
+ * @param seed - The requested seed
+ * @returns The 32-bit seed
+ */
+const toUint32 = (seed: number): number => (Number.isFinite(seed) ? Math.trunc(seed) >>> 0 : 0);
+
+/**
+ * Creates a random seed for requests that do not provide one
+ * @returns An unsigned 32-bit seed
+ */
+export const createRandomSeed = (): number => Math.floor(Math.random() * 0x100000000) >>> 0;
+
+/**
+ * Creates a deterministic generator: the same seed always yields the same sequence
+ *
+ * @param seed - Seed of the sequence
+ * @returns The Random generator
+ *
+ * @example
+ * ```typescript
+ * const random = createRandom(42);
+ * random.pick(['a', 'b', 'c']); // always the same element for seed 42
+ * ```
+ */
+export const createRandom = (seed: number): Random => {
+  const normalizedSeed = toUint32(seed);
+  let state = normalizedSeed;
+
+  // mulberry32
+  const next = (): number => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const int = (max: number): number => Math.floor(next() * max);
+
+  return {
+    seed: normalizedSeed,
+    next,
+    int,
+    chance: (probability) => next() < probability,
+    pick: (items) => items[int(items.length)],
+    shuffle: (items) => {
+      const copy = [...items];
+      for (let i = copy.length - 1; i > 0; i--) {
+        const j = int(i + 1);
+        [copy[i], copy[j]] = [copy[j], copy[i]];
+      }
+      return copy;
+    },
+  };
+};
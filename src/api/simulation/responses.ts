@@ -0,0 +1,251 @@
+/**
+ * @fileoverview Simulated response catalog
+ * @description Picks and fills the canned response for a prompt, in the prompt's language,
+ * and answers follow-ups on the previous turn of a conversation
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import type { GenerateTextRequest, PromptLanguage } from '../../types/api';
+import { detectPromptCategory } from './classifier';
+import { countListItems, detectFollowUp, shortenAnswer, type FollowUp } from './followUp';
+import { detectLanguage } from './language';
+import { createRandom, type Random } from './random';
+import { extractSlots, type PromptSlots } from './slots';
+import { applyStyle, detectResponseStyle, getSystemInstruction } from './style';
+import { enTemplates } from './templates/en';
+import { esTemplates } from './templates/es';
+import type { TemplateSet } from './templates/shared';
+import { applyVariation, truncateAtSentence } from './variation';
+
+/**
+ * Temperature used when the request does not specify one
+ * @constant
+ */
+const DEFAULT_TEMPERATURE = 0.7;
+
+/**
+ * Lowest temperature used to retry a candidate that repeated an earlier one
+ * @constant
+ */
+const MIN_VARIANT_TEMPERATURE = 0.5;
+
+/**
+ * Seeds tried per requested candidate before accepting a repeated text
+ * @constant
+ */
+const MAX_ATTEMPTS_PER_CANDIDATE = 8;
+
+/**
+ * Response templates for each language the provider answers in
+ * @constant
+ */
+const TEMPLATE_SETS: Record<PromptLanguage, TemplateSet> = {
+  es: esTemplates,
+  en: enTemplates,
+};
+
+/**
+ * Phrases used by the variation step when a style frames the response instead
+ * @constant
+ */
+const NO_PHRASES: Pick<TemplateSet, 'openings' | 'closings'> = { openings: [], closings: [] };
+
+/**
+ * Generates a generic response for prompts that don't match any category
+ *
+ * @param prompt - The user's input prompt
+ * @param random - Seeded random source
+ * @param language - Language to answer in
+ * @returns A generic response
+ */
+const generateGenericResponse = (
+  prompt: string,
+  random: Random,
+  language: PromptLanguage
+): string => random.pick(TEMPLATE_SETS[language].generic)(prompt);
+
+/**
+ * Renders the answer to a prompt: its category template filled with the slots,
+ * or a generic response
+ *
+ * @param prompt - The prompt that decides the category
+ * @param slots - Slots to fill the template with
+ * @param language - Language to answer in
+ * @param temperature - Creativity between 0 and 1
+ * @param random - Seeded random source
+ * @returns The base response, before variation
+ */
+const renderResponse = (
+  prompt: string,
+  slots: PromptSlots,
+  language: PromptLanguage,
+  temperature: number,
+  random: Random
+): string => {
+  const category = detectPromptCategory(prompt);
+  if (!category) {
+    return generateGenericResponse(prompt, random, language);
+  }
+
+  const responses = TEMPLATE_SETS[language].specific[category];
+  // Temperature 0 always answers with the canonical template
+  const template = temperature > 0 ? random.pick(responses) : responses[0];
+  return template(slots);
+};
+
+/**
+ * Answers a follow-up on the previous turn
+ * "shorter" trims the previous answer; "longer" and "again" answer the earlier
+ * request again (with twice the items for "longer"), merging the slots of the
+ * follow-up over the earlier ones.
+ *
+ * @param followUp - The detected follow-up
+ * @param prompt - The follow-up prompt
+ * @param language - Language to answer in
+ * @param temperature - Creativity between 0 and 1
+ * @param random - Seeded random source
+ * @returns The base response, before variation
+ */
+const renderFollowUp = (
+  { intent, previousAnswer, previousPrompt }: FollowUp,
+  prompt: string,
+  language: PromptLanguage,
+  temperature: number,
+  random: Random
+): string => {
+  const lead = TEMPLATE_SETS[language].followUps[intent];
+
+  if (intent === 'shorter') {
+    return `${lead}\n\n${shortenAnswer(previousAnswer)}`;
+  }
+
+  const slots: PromptSlots = { ...extractSlots(previousPrompt), ...extractSlots(prompt) };
+  if (intent === 'longer') {
+    const items = slots.count ?? countListItems(previousAnswer);
+    if (items > 0) {
+      slots.count = items * 2;
+    }
+  }
+
+  return `${lead}\n\n${renderResponse(previousPrompt || prompt, slots, language, temperature, random)}`;
+};
+
+/**
+ * Result of a simulated generation
+ * @interface SimulatedResult
+ */
+export interface SimulatedResult {
+  /** The generated text */
+  text: string;
+  /** Whether the text was cut to honour maxLength */
+  truncated: boolean;
+  /** Language detected in the prompt, which the text is written in */
+  language: PromptLanguage;
+}
+
+/**
+ * Builds the simulated answer for a request
+ * Detects the prompt language, picks a category-specific template in that
+ * language when one matches and fills it with the slots extracted from the
+ * prompt (otherwise a generic response), mixes in variation according to the
+ * temperature and truncates to maxLength. In a conversation, prompts that
+ * refer back to the previous turn reshape that answer instead. A system
+ * instruction (the active persona) may ask for a style, which replaces the
+ * random openings and closings with the style's own framing. Every random
+ * choice comes from `random`, so the same seed and parameters always produce
+ * byte-identical output.
+ *
+ * @param request - The generation request, with the earlier turns in `messages`
+ * @param random - Seeded random source
+ * @returns The simulated text, whether it was truncated and its language
+ */
+export const buildSimulatedResult = (
+  request: GenerateTextRequest,
+  random: Random
+): SimulatedResult => {
+  const temperature = Math.min(1, Math.max(0, request.temperature ?? DEFAULT_TEMPERATURE));
+  const messages = request.messages ?? [];
+  const followUp = detectFollowUp(request.prompt, messages);
+  const style = detectResponseStyle(getSystemInstruction(messages));
+  // Short follow-ups ("shorter") keep the language of the request they refer to
+  const language = detectLanguage(
+    request.prompt,
+    followUp ? detectLanguage(followUp.previousPrompt) : undefined
+  );
+
+  const base = followUp
+    ? renderFollowUp(followUp, request.prompt, language, temperature, random)
+    : renderResponse(request.prompt, extractSlots(request.prompt), language, temperature, random);
+
+  const templates = TEMPLATE_SETS[language];
+  const varied = style
+    ? applyStyle(applyVariation(base, temperature, random, NO_PHRASES), style, templates.styles[style])
+    : applyVariation(base, temperature, random, templates);
+  const { text, truncated } =
+    request.maxLength !== undefined
+      ? truncateAtSentence(varied, request.maxLength)
+      : { text: varied, truncated: false };
+
+  return { text, truncated, language };
+};
+
+/**
+ * One of several simulated answers to the same request
+ * @interface SimulatedCandidate
+ */
+export interface SimulatedCandidate extends SimulatedResult {
+  /** Seed the candidate was generated with */
+  seed: number;
+}
+
+/**
+ * Derives the seed of a generation attempt from the seed of the request
+ * Attempt 0 keeps the request seed, so a single candidate matches a plain generation.
+ *
+ * @param seed - Seed of the request
+ * @param attempt - Index of the attempt
+ * @returns The derived seed
+ */
+const deriveSeed = (seed: number, attempt: number): number =>
+  (seed + Math.imul(attempt, 0x9e3779b9)) >>> 0;
+
+/**
+ * Builds several distinct answers for a request
+ * Each attempt uses its own seed derived from `seed`; an attempt that repeats
+ * an earlier text is discarded and, since a low temperature keeps picking the
+ * canonical template, the following attempts raise it to MIN_VARIANT_TEMPERATURE.
+ * Prompts with a single possible answer still return `count` candidates, repeated
+ * once the attempts run out. The output is deterministic for a given seed.
+ *
+ * @param request - The generation request
+ * @param seed - Seed of the first candidate
+ * @param count - Number of candidates to build
+ * @returns The candidates, the first one being the answer for `seed`
+ */
+export const buildSimulatedCandidates = (
+  request: GenerateTextRequest,
+  seed: number,
+  count: number
+): SimulatedCandidate[] => {
+  const candidates: SimulatedCandidate[] = [];
+  const maxAttempts = count * MAX_ATTEMPTS_PER_CANDIDATE;
+  let variantRequest = request;
+
+  for (let attempt = 0; candidates.length < count; attempt++) {
+    const random = createRandom(deriveSeed(seed, attempt));
+    const result = buildSimulatedResult(variantRequest, random);
+    const isRepeat = candidates.some((candidate) => candidate.text === result.text);
+
+    if (!isRepeat || attempt >= maxAttempts) {
+      candidates.push({ ...result, seed: random.seed });
+    } else {
+      variantRequest = {
+        ...request,
+        temperature: Math.max(request.temperature ?? DEFAULT_TEMPERATURE, MIN_VARIANT_TEMPERATURE),
+      };
+    }
+  }
+
+  return candidates;
+};
@@ -0,0 +1,371 @@
+/**
+ * @fileoverview Prompt slot extractor
+ * @description Parses the values a template can honor (count, audience, language, servings,
+ * product name, recipient, tone) out of Spanish and English prompts
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import { detectPromptCategory, normalizeText } from './classifier';
+
+/**
+ * Audiences a response can be tailored to
+ * @type Audience
+ */
+export type Audience =
+  | 'children'
+  | 'teens'
+  | 'adults'
+  | 'seniors'
+  | 'students'
+  | 'beginners'
+  | 'professionals';
+
+/**
+ * Programming languages recognized in code requests
+ * @type CodeLanguage
+ */
+export type CodeLanguage =
+  | 'javascript'
+  | 'typescript'
+  | 'python'
+  | 'java'
+  | 'csharp'
+  | 'go'
+  | 'rust'
+  | 'php'
+  | 'ruby'
+  | 'sql'
+  | 'bash';
+
+/**
+ * Register of the response
+ * @type Tone
+ */
+export type Tone = 'formal' | 'casual' | 'funny';
+
+/**
+ * Dietary restriction of a recipe
+ * @type Diet
+ */
+export type Diet = 'vegan' | 'vegetarian' | 'gluten-free';
+
+/**
+ * Values extracted from a prompt; absent slots were not mentioned
+ * @interface PromptSlots
+ */
+export interface PromptSlots {
+  /** How many items were requested ("dame 3 nombres") */
+  count?: number;
+  /** Who the text is for ("para niños") */
+  audience?: Audience;
+  /** Programming language of a code request */
+  codeLanguage?: CodeLanguage;
+  /** Number of people a recipe serves ("para 2 personas") */
+  servings?: number;
+  /** Dietary restriction of a recipe ("receta vegana") */
+  diet?: Diet;
+  /** Name of the product or brand, as written ("llamado EcoBottle") */
+  productName?: string;
+  /** Who a message is addressed to: a name as written, or a role in Spanish */
+  recipient?: string;
+  /** Requested register */
+  tone?: Tone;
+}
+
+/**
+ * Number words from 2 to 20, normalized (Spanish and English)
+ * "un"/"una"/"one" are left out: they are articles far more often than counts.
+ * @constant
+ */
+const NUMBER_WORDS: Record<string, number> = Object.fromEntries(
+  [
+    ['dos', 'tres', 'cuatro', 'cinco', 'seis', 'siete', 'ocho', 'nueve', 'diez', 'once', 'doce',
+      'trece', 'catorce', 'quince', 'dieciseis', 'diecisiete', 'dieciocho', 'diecinueve', 'veinte'],
+    ['two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten', 'eleven', 'twelve',
+      'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen', 'twenty'],
+  ].flatMap((words) => words.map((word, index) => [word, index + 2]))
+);
+
+/**
+ * Matches a number written with digits or as a word
+ * @constant
+ */
+const NUMBER_PATTERN = `(\\d{1,3}|${Object.keys(NUMBER_WORDS).join('|')})`;
+
+/**
+ * Nouns that turn a number into a serving count
+ * @constant
+ */
+const SERVING_NOUNS = 'personas?|raciones?|porciones?|comensales|people|persons?|servings?|portions?';
+
+/**
+ * Normalized words (or prefixes ending in `*`) for each audience
+ * @constant
+ */
+const AUDIENCE_KEYWORDS: Record<Audience, string[]> = {
+  children: ['nino*', 'infantil', 'peques', 'kid*', 'child*'],
+  teens: ['adolescente*', 'joven', 'jovenes', 'teen*'],
+  adults: ['adult*'],
+  seniors: ['mayores', 'ancianos', 'abuelo*', 'senior*', 'elderly'],
+  students: ['estudiante*', 'alumno*', 'student*'],
+  beginners: ['principiante*', 'novato*', 'beginner*', 'newbie*'],
+  professionals: ['profesionales', 'empresa*', 'professionals', 'business*'],
+};
+
+/**
+ * Normalized words for each programming language
+ * @constant
+ */
+const CODE_LANGUAGE_KEYWORDS: Record<CodeLanguage, string[]> = {
+  javascript: ['javascript', 'js', 'node', 'nodejs'],
+  typescript: ['typescript', 'ts'],
+  python: ['python', 'py'],
+  java: ['java'],
+  csharp: ['c#', 'csharp'],
+  go: ['golang'],
+  rust: ['rust'],
+  php: ['php'],
+  ruby: ['ruby'],
+  sql: ['sql'],
+  bash: ['bash', 'shell'],
+};
+
+/**
+ * Normalized words (or prefixes) for each tone
+ * @constant
+ */
+const TONE_KEYWORDS: Record<Tone, string[]> = {
+  formal: ['formal', 'profesional', 'professional', 'serio', 'serious'],
+  casual: ['informal', 'casual', 'cercano', 'amigable', 'friendly', 'relajado', 'relaxed'],
+  funny: ['divertid*', 'gracios*', 'humor*', 'funny', 'comic*'],
+};
+
+/**
+ * Normalized words for each diet
+ * @constant
+ */
+const DIET_KEYWORDS: Record<Diet, string[]> = {
+  vegan: ['vegan*'],
+  vegetarian: ['vegetarian*'],
+  'gluten-free': ['celiac*', 'gluten-free', 'sin gluten'],
+};
+
+/**
+ * Recipient roles (normalized, Spanish and English) and how the template names them
+ * Each role keeps the language it was written in, like the response itself.
+ * @constant
+ */
+const RECIPIENT_ROLES: Record<string, string> = {
+  jefe: 'jefe',
+  jefa: 'jefa',
+  boss: 'boss',
+  manager: 'manager',
+  cliente: 'cliente',
+  clientes: 'clientes',
+  client: 'client',
+  customer: 'customer',
+  profesor: 'profesor',
+  profesora: 'profesora',
+  teacher: 'teacher',
+  equipo: 'equipo',
+  team: 'team',
+  companero: 'compañero',
+  companera: 'compañera',
+  colleague: 'colleague',
+  coworker: 'coworker',
+  director: 'director',
+  directora: 'directora',
+  proveedor: 'proveedor',
+  supplier: 'supplier',
+};
+
+/**
+ * First word of a name: a capital followed by letters, digits or hyphens, so
+ * CamelCase brands ("SuperWidget") and models ("X200") stay whole
+ * @constant
+ */
+const NAME_HEAD = '\\p{Lu}[\\p{L}\\p{N}-]*';
+
+/**
+ * Later words of a name: capitalized words or numbers ("SuperWidget 3000")
+ * @constant
+ */
+const NAME_TAIL = '\\s+[\\p{Lu}\\p{N}][\\p{L}\\p{N}-]*';
+
+/**
+ * Ends a name where the word ends, so a partial word is never taken
+ * @constant
+ */
+const NAME_END = '(?![\\p{L}\\p{N}])';
+
+/**
+ * Categories whose "for <Name>" / "para <Name>" names the product, not a recipient
+ * @constant
+ */
+const PRODUCT_CATEGORIES: ReadonlySet<string> = new Set(['producto', 'slogan']);
+
+/**
+ * Checks whether any keyword appears as a word of the normalized text
+ * Keywords ending in `*` match as word prefixes; keywords with spaces match as phrases.
+ *
+ * @param text - Normalized prompt
+ * @param keywords - Keywords to look for
+ * @returns True if one of them is present
+ */
+const containsKeyword = (text: string, keywords: readonly string[]): boolean =>
+  keywords.some((keyword) => {
+    const isPrefix = keyword.endsWith('*');
+    const escaped = (isPrefix ? keyword.slice(0, -1) : keyword).replace(
+      /[.*+?^${}()|[\]\\#]/g,
+      '\\$&'
+    );
+    return new RegExp(`(?:^|[^a-z0-9#])${escaped}${isPrefix ? '' : '(?![a-z0-9#])'}`).test(text);
+  });
+
+/**
+ * Finds the first key of a keyword table that appears in the text
+ * @param text - Normalized prompt
+ * @param table - Value → keywords
+ * @returns The matching value, or undefined
+ */
+const findKeyword = <T extends string>(
+  text: string,
+  table: Record<T, string[]>
+): T | undefined =>
+  (Object.keys(table) as T[]).find((value) => containsKeyword(text, table[value]));
+
+/**
+ * Parses a number written with digits or as a word
+ * @param value - The matched number
+ * @returns The number
+ */
+const parseNumber = (value: string): number => NUMBER_WORDS[value] ?? Number.parseInt(value, 10);
+
+/**
+ * Extracts the serving count ("para 2 personas", "serves four")
+ * @param text - Normalized prompt
+ * @returns The number of servings, or undefined
+ */
+const extractServings = (text: string): number | undefined => {
+  const match =
+    new RegExp(`\\b${NUMBER_PATTERN}\\s+(?:${SERVING_NOUNS})\\b`).exec(text) ??
+    new RegExp(`\\bserves\\s+${NUMBER_PATTERN}\\b`).exec(text);
+  return match ? parseNumber(match[1]) : undefined;
+};
+
+/**
+ * Extracts how many items were requested
+ * The first number that is not a serving count, a duration or a year wins.
+ *
+ * @param text - Normalized prompt
+ * @returns The count, or undefined
+ */
+const extractCount = (text: string): number | undefined => {
+  const pattern = new RegExp(
+    `(?<!serves\\s+)\\b${NUMBER_PATTERN}\\b(?!\\s*(?:${SERVING_NOUNS}|minutos?|minutes?|horas?|hours?|anos?|years?|%|€|\\$))`,
+    'g'
+  );
+
+  for (const match of text.matchAll(pattern)) {
+    const value = parseNumber(match[1]);
+    if (value > 0 && value < 1000) {
+      return value;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Extracts a product or brand name: quoted text, or a capitalized name after
+ * "llamado", "called", "producto", "marca"...
+ *
+ * @param prompt - Original prompt (capitalization matters)
+ * @returns The name as written, or undefined
+ */
+const extractProductName = (prompt: string): string | undefined => {
+  const quoted = /["“«]([^"”»]{2,40})["”»]/.exec(prompt);
+  if (quoted) {
+    return quoted[1].trim();
+  }
+
+  const named = new RegExp(
+    `\\b(?:llamad[oa]|denominad[oa]|called|named|producto|product|marca|brand|app)\\s+(${NAME_HEAD}(?:${NAME_TAIL})*)${NAME_END}`,
+    'u'
+  ).exec(prompt);
+  return named?.[1];
+};
+
+/**
+ * Extracts a name introduced by "for" or "para" ("un eslogan para EcoBottle")
+ * @param prompt - Original prompt (capitalization matters)
+ * @returns The name as written, or undefined
+ */
+const extractNameAfterFor = (prompt: string): string | undefined =>
+  new RegExp(`\\b(?:para|for)\\s+(${NAME_HEAD}(?:${NAME_TAIL})*)${NAME_END}`, 'u').exec(
+    prompt
+  )?.[1];
+
+/**
+ * Extracts who a message is addressed to
+ * Known roles ("a mi jefe", "to my boss") are returned in Spanish; names
+ * ("para María", "to John") as written.
+ *
+ * @param prompt - Original prompt (capitalization matters)
+ * @returns The recipient, or undefined
+ */
+const extractRecipient = (prompt: string): string | undefined => {
+  const normalized = normalizeText(prompt);
+  const role =
+    /\b(?:a|al|para|to|for)\s+(?:(?:mi|mis|el|la|los|las|nuestro|nuestra|nuestros|un|una|my|our|the|a)\s+)?([a-z]+)/g;
+
+  for (const match of normalized.matchAll(role)) {
+    const label = RECIPIENT_ROLES[match[1]];
+    if (label) {
+      return label;
+    }
+  }
+
+  const name = new RegExp(
+    `\\b(?:a|para|to|for)\\s+(${NAME_HEAD}(?:${NAME_TAIL})?)${NAME_END}`,
+    'u'
+  ).exec(prompt);
+  return name?.[1];
+};
+
+/**
+ * Extracts every slot a template can honor from a Spanish or English prompt
+ *
+ * @param prompt - The user's input prompt
+ * @returns The slots found; missing slots are left undefined
+ *
+ * @example
+ * ```typescript
+ * extractSlots('Receta vegana para 2 personas');
+ * // { servings: 2, diet: 'vegan' }
+ * extractSlots('Dame 3 nombres de chicas');
+ * // { count: 3 }
+ * ```
+ */
+export const extractSlots = (prompt: string): PromptSlots => {
+  const text = normalizeText(prompt);
+  // In product and slogan prompts "for <Name>" is the brand being described
+  const isProductPrompt = PRODUCT_CATEGORIES.has(detectPromptCategory(prompt) ?? '');
+  const productName =
+    extractProductName(prompt) ?? (isProductPrompt ? extractNameAfterFor(prompt) : undefined);
+  const slots: PromptSlots = {
+    count: extractCount(text),
+    audience: findKeyword(text, AUDIENCE_KEYWORDS),
+    codeLanguage: findKeyword(text, CODE_LANGUAGE_KEYWORDS),
+    servings: extractServings(text),
+    diet: findKeyword(text, DIET_KEYWORDS),
+    productName,
+    recipient: isProductPrompt ? undefined : extractRecipient(prompt),
+    tone: findKeyword(text, TONE_KEYWORDS),
+  };
+
+  // Drop the slots that were not found so callers can spread defaults over them
+  return Object.fromEntries(
+    Object.entries(slots).filter(([, value]) => value !== undefined)
+  ) as PromptSlots;
+};
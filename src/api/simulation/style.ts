@@ -0,0 +1,93 @@
+/**
+ * @fileoverview Response style of the simulated provider
+ * @description Derives a writing style from the system instruction (the active persona),
+ * the way a real model would follow it
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import type { ChatMessage } from '../../types/openai';
+import { normalizeText } from './classifier';
+import { shortenAnswer } from './followUp';
+
+/**
+ * Writing styles the simulated provider can imitate
+ * @type ResponseStyle
+ */
+export type ResponseStyle = 'concise' | 'technical' | 'persuasive' | 'friendly';
+
+/**
+ * Sentences that frame a response in a given style
+ * @interface StylePhrases
+ */
+export interface StylePhrases {
+  /** Prepended to the response; empty for none */
+  opening: string;
+  /** Appended to the response; empty for none */
+  closing: string;
+}
+
+/**
+ * Words that ask for each style, matched on normalized text
+ * The first style that matches wins, so more specific styles come first.
+ * @constant
+ */
+const STYLE_PATTERNS: ReadonlyArray<readonly [ResponseStyle, RegExp]> = [
+  ['concise', /\b(concise|brief|briefly|to the point|conciso|concisa|breve|al grano|escueto)\b/],
+  [
+    'technical',
+    /\b(engineer\w*|technical|developer|programmer|ingenier[oa]s?|tecnic[oa]s?|desarrollador\w*|programador\w*)\b/,
+  ],
+  [
+    'persuasive',
+    /\b(copywriter|copywriting|persuasive|marketing|sell\w*|redactor\w* publicitari[oa]|persuasiv[oa]|vend\w*)\b/,
+  ],
+  ['friendly', /\b(chef|cook\w*|friendly|warm|cheerful|cocin\w*|cercan[oa]|amable|calid[oa])\b/],
+];
+
+/**
+ * Joins the system messages of a conversation
+ * @param messages - Earlier messages of the request
+ * @returns The system instruction, or an empty string
+ */
+export const getSystemInstruction = (messages: readonly ChatMessage[]): string =>
+  messages
+    .filter((message) => message.role === 'system')
+    .map((message) => message.content)
+    .join('\n');
+
+/**
+ * Detects the style a system instruction asks for
+ *
+ * @param instruction - The system instruction
+ * @returns The style, or null when the instruction asks for none the simulator knows
+ *
+ * @example
+ * ```typescript
+ * detectResponseStyle('You are a senior software engineer. Be precise.'); // 'technical'
+ * detectResponseStyle('Eres un chef cercano');                              // 'friendly'
+ * ```
+ */
+export const detectResponseStyle = (instruction: string): ResponseStyle | null => {
+  const text = normalizeText(instruction);
+  return STYLE_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0] ?? null;
+};
+
+/**
+ * Rewrites a response in a style
+ * Concise responses keep half of their lists (or text); every style then adds
+ * its opening and closing sentences.
+ *
+ * @param text - The response
+ * @param style - The style to apply
+ * @param phrases - Opening and closing of the style, in the response language
+ * @returns The styled response
+ */
+export const applyStyle = (
+  text: string,
+  style: ResponseStyle,
+  { opening, closing }: StylePhrases
+): string => {
+  const body = style === 'concise' ? shortenAnswer(text) : text;
+  return [opening, body, closing].filter(Boolean).join('\n\n');
+};
@@ -0,0 +1,620 @@
+/**
+ * @fileoverview English response templates
+ * @description Canned English responses of the simulated provider, filled with the prompt slots
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import type { Audience, CodeLanguage, Diet } from '../slots';
+import {
+  CODE_LANGUAGE_LABELS,
+  DEFAULT_SERVINGS,
+  interleave,
+  MAX_LIST_ITEMS,
+  quotePrompt,
+  renderGroups,
+  resolveCount,
+  type Ingredient,
+  type ItemGroup,
+  type ResponseTemplate,
+  type TemplateSet,
+} from './shared';
+
+/**
+ * How each audience is named in the responses
+ * @constant
+ */
+const AUDIENCE_LABELS: Record<Audience, string> = {
+  children: 'children',
+  teens: 'teenagers',
+  adults: 'adults',
+  seniors: 'seniors',
+  students: 'students',
+  beginners: 'beginners',
+  professionals: 'professionals',
+};
+
+/**
+ * Note appended when the prompt asked for more items than the template has
+ * @param requested - The requested count
+ * @param available - The count actually rendered
+ * @returns The note, or an empty string
+ */
+const shortfallNote = (requested: number | undefined, available: number): string =>
+  requested !== undefined && requested > available
+    ? `\n\n*You asked for ${requested}, but I only have ${available} for now.*`
+    : '';
+
+/**
+ * Popular boy names, grouped
+ * @constant
+ */
+const BOY_NAMES: readonly ItemGroup[] = [
+  { title: 'Classic names', items: ['James', 'William', 'Daniel', 'David', 'Thomas'] },
+  { title: 'Modern names', items: ['Mason', 'Hudson', 'Lucas', 'Mateo', 'Leo'] },
+  { title: 'International names', items: ['Alexander', 'Noah', 'Liam', 'Oliver', 'Ethan'] },
+  { title: 'Spanish names', items: ['Pablo', 'Javier', 'Miguel', 'Antonio', 'Sergio'] },
+];
+
+/**
+ * Popular girl names, grouped
+ * @constant
+ */
+const GIRL_NAMES: readonly ItemGroup[] = [
+  { title: 'Classic names', items: ['Mary', 'Elizabeth', 'Anna', 'Laura', 'Grace'] },
+  { title: 'Modern names', items: ['Harper', 'Sophia', 'Aria', 'Emma', 'Luna'] },
+  {
+    title: 'International names',
+    items: ['Olivia', 'Mia', 'Isabella', 'Charlotte', 'Amelia'],
+  },
+  { title: 'Spanish names', items: ['Lucía', 'Paula', 'Alba', 'Elena', 'Carmen'] },
+];
+
+/**
+ * Builds the names template for one gender
+ * Without a count the whole catalog is shown by group; with a count, that many
+ * names are taken from every group in turn.
+ *
+ * @param noun - "boy" or "girl"
+ * @param groups - The name catalog
+ * @returns The template
+ */
+const createNamesTemplate =
+  (noun: string, groups: readonly ItemGroup[]): ResponseTemplate =>
+  ({ count }) => {
+    if (count === undefined) {
+      return `Here is a list of popular ${noun} names:\n\n${renderGroups(groups)}`;
+    }
+
+    const names = interleave(groups.map((group) => group.items));
+    const total = resolveCount(count, names.length, names.length);
+    const heading =
+      total === 1 ? `Here is a ${noun} name:` : `Here are ${total} ${noun} names:`;
+
+    return `${heading}\n\n${names
+      .slice(0, total)
+      .map((name) => `• ${name}`)
+      .join('\n')}${shortfallNote(count, total)}`;
+  };
+
+/**
+ * Product description: honors product name, audience and tone
+ * @constant
+ */
+const productTemplate: ResponseTemplate = ({ productName, audience, tone }) => {
+  const subject = productName ? `${productName}, an innovative product` : 'an innovative product';
+  const audienceLine = audience ? ` Designed especially for ${AUDIENCE_LABELS[audience]}.` : '';
+  const intro =
+    tone === 'formal'
+      ? `We are pleased to present ${subject} designed to exceed your expectations.`
+      : `Meet ${subject} designed to exceed your expectations.`;
+  const funnyLine =
+    tone === 'funny' ? '\n\n*Side effects: an irresistible urge to recommend it to everyone.* 😄' : '';
+
+  return `**${productName ?? 'Product Description'}**
+
+${intro} Made with premium materials and an ergonomic design, it combines functionality and style.${audienceLine}
+
+**Key features:**
+• Modern, elegant design
+• Durable, sustainable materials
+• Easy to use and maintain
+• Satisfaction guaranteed
+
+**Benefits:**
+✓ Boosts your daily productivity
+✓ Saves time and effort
+✓ Great value for money
+
+*Available now with free shipping!*${funnyLine}`;
+};
+
+/**
+ * Email: honors recipient and tone (formal by default)
+ * @constant
+ */
+const emailTemplate: ResponseTemplate = ({ recipient = '[Name]', tone = 'formal' }) => {
+  if (tone === 'formal') {
+    return `**Subject:** [Your subject here]
+
+Dear ${recipient},
+
+I hope this message finds you well. I am writing to [reason for the email].
+
+[Body of the message with the main details]
+
+Please do not hesitate to contact me should you need any further information or clarification.
+
+Thank you in advance for your time and attention.
+
+Kind regards,
+
+[Your name]
+[Your position]
+[Contact information]`;
+  }
+
+  const postscript =
+    tone === 'funny' ? "\n\nP.S. I promise this is my last email this week... probably. 😄" : '';
+
+  return `**Subject:** [Your subject here]
+
+Hi ${recipient},
+
+Hope all is well! I'm writing to [reason for the email].
+
+[Body of the message with the main details]
+
+If you have any questions, just let me know.
+
+Cheers,
+
+[Your name]${postscript}`;
+};
+
+/**
+ * Short story: honors audience (children get a fairy-tale frame) and tone
+ * @constant
+ */
+const storyTemplate: ResponseTemplate = ({ audience, tone }) => {
+  const forChildren = audience === 'children';
+  const opening = forChildren
+    ? 'Once upon a time, in a small village surrounded by mountains, there was a little girl named Elena who dreamed of exploring the world beyond the horizon.'
+    : 'In a small village surrounded by mountains lived a young woman named Elena who dreamed of exploring the world beyond the horizon.';
+  const owl =
+    tone === 'funny'
+      ? 'a wise, if rather absent-minded, owl who, after mistaking her for a squirrel twice, taught her'
+      : 'a wise old owl who taught her';
+  const ending = forChildren
+    ? '*And they all lived happily ever after. The end.*'
+    : '*And so Elena discovered that the greatest adventure is the one that changes us from within.*';
+
+  return `**The Unexpected Journey**
+
+${opening}
+
+One day, while walking through the forest, she found an old map hidden in the hollow of an ancient tree. The map showed a path to a mysterious place called "The Valley of Dreams".
+
+Without a second thought, Elena packed her bag and set off on her adventure. Along the way she met ${owl} that the real treasure was not at the end of the journey, but in the experiences and friendships she would make along the way.
+
+${ending}`;
+};
+
+/**
+ * Slogan options, grouped
+ * @constant
+ */
+const SLOGANS: readonly ItemGroup[] = [
+  {
+    title: 'Bold options',
+    items: ['Innovation that inspires, quality that lasts', 'Your success, our passion', 'Where dreams come true'],
+  },
+  {
+    title: 'Emotional options',
+    items: [
+      'Because you deserve the best',
+      'Connecting hearts, creating moments',
+      'Excellence is in the details',
+    ],
+  },
+  {
+    title: 'Direct options',
+    items: ['Simple. Effective. Extraordinary.', 'The future starts today', 'More than a product, an experience'],
+  },
+];
+
+/**
+ * Slogans used first when a funny tone is requested
+ * @constant
+ */
+const FUNNY_SLOGANS: ItemGroup = {
+  title: 'Funny options',
+  items: [
+    'So good your in-laws will want one',
+    'Warning: may cause smiles',
+    'We tried it on a Monday and still liked it',
+  ],
+};
+
+/**
+ * Slogans: honors count, product name and tone
+ * @constant
+ */
+const sloganTemplate: ResponseTemplate = ({ count, productName, tone }) => {
+  const groups = tone === 'funny' ? [FUNNY_SLOGANS, ...SLOGANS] : SLOGANS;
+  const slogans = groups.flatMap((group) => group.items);
+  const total = resolveCount(count, slogans.length, slogans.length);
+  const target = productName ? ` for ${productName}` : '';
+
+  let number = 0;
+  const sections = groups
+    .map((group) => {
+      const items = group.items
+        .slice(0, Math.max(0, total - number))
+        .map((slogan) => `${++number}. "${slogan}"`);
+      return items.length > 0 ? `**${group.title}:**\n${items.join('\n')}` : '';
+    })
+    .filter(Boolean);
+
+  return `Here ${total === 1 ? 'is a creative slogan' : 'are some creative slogan options'}${target}:
+
+${sections.join('\n\n')}${shortfallNote(count, total)}
+
+*Pick the one that best represents your brand and values.*`;
+};
+
+/**
+ * Example snippet per programming language
+ * @constant
+ */
+const CODE_SNIPPETS: Partial<Record<CodeLanguage, string>> & { javascript: string } = {
+  javascript: `// Greeting function
+function greet(name) {
+  return \`Hello, \${name}! Welcome.\`;
+}
+
+// Usage example
+const message = greet("User");
+console.log(message);
+
+// Function with validation
+function processData(data) {
+  if (!data || data.length === 0) {
+    throw new Error("Data cannot be empty");
+  }
+
+  return data.map(item => ({
+    ...item,
+    processed: true,
+    date: new Date().toISOString()
+  }));
+}`,
+  typescript: `// Greeting function
+function greet(name: string): string {
+  return \`Hello, \${name}! Welcome.\`;
+}
+
+// Usage example
+const message = greet("User");
+console.log(message);
+
+interface Item {
+  id: number;
+  [key: string]: unknown;
+}
+
+// Function with validation
+function processData(data: Item[]) {
+  if (data.length === 0) {
+    throw new Error("Data cannot be empty");
+  }
+
+  return data.map((item) => ({
+    ...item,
+    processed: true,
+    date: new Date().toISOString(),
+  }));
+}`,
+  python: `from datetime import datetime
+
+
+# Greeting function
+def greet(name: str) -> str:
+    return f"Hello, {name}! Welcome."
+
+
+# Usage example
+message = greet("User")
+print(message)
+
+
+# Function with validation
+def process_data(data: list[dict]) -> list[dict]:
+    if not data:
+        raise ValueError("Data cannot be empty")
+
+    return [
+        {**item, "processed": True, "date": datetime.now().isoformat()}
+        for item in data
+    ]`,
+};
+
+/**
+ * Code example: honors the programming language when a snippet exists for it
+ * @constant
+ */
+const codeTemplate: ResponseTemplate = ({ codeLanguage = 'javascript' }) => {
+  const snippet = CODE_SNIPPETS[codeLanguage];
+  const language = snippet ? codeLanguage : 'javascript';
+  const note = snippet
+    ? ''
+    : `*I don't have ${CODE_LANGUAGE_LABELS[codeLanguage]} examples yet, so here is one in JavaScript.*\n\n`;
+
+  return `${note}Here is a code example:
+
+\`\`\`${language}
+${snippet ?? CODE_SNIPPETS.javascript}
+\`\`\`
+
+*This code follows good practices such as input validation and modern ${CODE_LANGUAGE_LABELS[language]} features.*`;
+};
+
+/**
+ * Formats an ingredient scaled to the number of servings
+ * @param ingredient - The ingredient
+ * @param servings - Number of people
+ * @returns The bullet text
+ */
+const formatIngredient = ({ perPerson, unit, name }: Ingredient, servings: number): string => {
+  if (perPerson === undefined) {
+    return name;
+  }
+  if (unit === 'clove') {
+    const cloves = Math.max(1, Math.round(perPerson * servings));
+    return `${cloves} ${cloves === 1 ? 'clove' : 'cloves'} of ${name}`;
+  }
+  // Round to 10 g so scaled quantities stay readable
+  return `${Math.max(10, Math.round((perPerson * servings) / 10) * 10)}g ${name}`;
+};
+
+/**
+ * How each diet changes the recipe
+ * @constant
+ */
+const DIET_VARIANTS: Record<Diet, { label: string; pasta?: string; cheese: string; topping: string }> =
+  {
+    vegan: {
+      label: 'vegan',
+      cheese: 'Nutritional yeast (instead of cheese)',
+      topping: 'nutritional yeast',
+    },
+    vegetarian: {
+      label: 'vegetarian',
+      cheese: 'Grated vegetarian cheese (no animal rennet)',
+      topping: 'grated cheese',
+    },
+    'gluten-free': {
+      label: 'gluten-free',
+      pasta: 'gluten-free pasta',
+      cheese: 'Grated Parmesan cheese',
+      topping: 'Parmesan cheese',
+    },
+  };
+
+/**
+ * Recipe: honors servings (quantities are scaled) and diet
+ * @constant
+ */
+const recipeTemplate: ResponseTemplate = ({ servings = DEFAULT_SERVINGS, diet }) => {
+  const people = Math.min(Math.max(1, servings), 50);
+  const variant = diet ? DIET_VARIANTS[diet] : undefined;
+  const ingredients: Ingredient[] = [
+    { perPerson: 100, unit: 'g', name: variant?.pasta ?? 'pasta (spaghetti or penne)' },
+    { perPerson: 125, unit: 'g', name: 'ripe tomatoes' },
+    { perPerson: 0.5, unit: 'clove', name: 'garlic' },
+    { name: 'Extra virgin olive oil' },
+    { name: 'Fresh basil' },
+    { name: 'Salt and pepper to taste' },
+    { name: variant?.cheese ?? 'Grated Parmesan cheese' },
+  ];
+
+  return `**Recipe: Pasta with Homemade Tomato Sauce${variant ? ` (${variant.label})` : ''}**
+
+**Ingredients (serves ${people}):**
+${ingredients.map((ingredient) => `• ${formatIngredient(ingredient, people)}`).join('\n')}
+
+**Method:**
+
+1. **Make the sauce:** Blanch the tomatoes, peel them and crush them.
+
+2. **Sauté:** In a pan with oil, brown the chopped garlic without burning it.
+
+3. **Cook:** Add the crushed tomatoes, salt and pepper and simmer for 20 minutes over medium heat.
+
+4. **The pasta:** Boil the pasta in salted water following the package instructions.
+
+5. **Serve:** Toss the pasta with the sauce, then add fresh basil and ${variant?.topping ?? 'Parmesan cheese'}.
+
+*Buon appetito!* 🍝`;
+};
+
+/**
+ * Ordinals used to title list items
+ * @constant
+ */
+const ORDINALS = [
+  'First',
+  'Second',
+  'Third',
+  'Fourth',
+  'Fifth',
+  'Sixth',
+  'Seventh',
+  'Eighth',
+  'Ninth',
+  'Tenth',
+];
+
+/**
+ * Detail lines of list items, reused in turn
+ * @constant
+ */
+const LIST_DETAILS: ReadonlyArray<readonly [string, string]> = [
+  ['Important detail', 'Additional information'],
+  ['Standout feature', 'Key benefit'],
+  ['Relevant point', 'Special consideration'],
+  ['Core aspect', 'Important note'],
+  ['Interesting fact', 'Conclusion'],
+];
+
+/**
+ * Organized list: honors count
+ * @constant
+ */
+const listTemplate: ResponseTemplate = ({ count }) => {
+  const total = resolveCount(count, 5, MAX_LIST_ITEMS);
+  const items = Array.from({ length: total }, (_, index) => {
+    const title = index < ORDINALS.length ? `${ORDINALS[index]} item` : `Item ${index + 1}`;
+    const [first, second] = LIST_DETAILS[index % LIST_DETAILS.length];
+    return `${index + 1}. **${title}**\n   - ${first}\n   - ${second}`;
+  });
+
+  return `Here is an organized list:
+
+**Main Category:**
+
+${items.join('\n\n')}${shortfallNote(count, total)}
+
+*This list can be adapted to your specific needs.*`;
+};
+
+/**
+ * Idea catalog: title and description
+ * @constant
+ */
+const IDEAS: ReadonlyArray<readonly [string, string]> = [
+  ['Digital Innovation', 'Build a technology solution that automates processes and improves efficiency.'],
+  ['User Experience', 'Redesign the interface to make it more intuitive and visually appealing.'],
+  ['Sustainability', 'Adopt eco-friendly practices that reduce environmental impact.'],
+  ['Collaboration', 'Create collaborative workspaces that foster team creativity.'],
+  ['Personalization', 'Offer customizable options that adapt to individual needs.'],
+  ['Community', 'Organize meetups and forums where users share their experiences.'],
+  ['Gamification', 'Add challenges and rewards that keep people motivated.'],
+  ['Accessibility', 'Make sure anyone can use the project without barriers.'],
+];
+
+/**
+ * Creative ideas: honors count and audience
+ * @constant
+ */
+const ideasTemplate: ResponseTemplate = ({ count, audience }) => {
+  const total = resolveCount(count, 5, IDEAS.length);
+  const audienceNote = audience ? ` (designed for ${AUDIENCE_LABELS[audience]})` : '';
+  const ideas = IDEAS.slice(0, total).map(
+    ([title, description], index) => `💡 **Idea ${index + 1}: ${title}**\n${description}`
+  );
+
+  return `**Creative Ideas for Your Project${audienceNote}:**
+
+${ideas.join('\n\n')}${shortfallNote(count, total)}
+
+*Each idea can be developed according to the available resources and goals.*`;
+};
+
+/**
+ * Generic responses for prompts without a confident category
+ * @constant
+ */
+const GENERIC_RESPONSES: TemplateSet['generic'] = [
+  (prompt) => `Based on your request "${quotePrompt(prompt)}", here is my answer:
+
+This is a response generated by the simulated AI. In a production environment, this application would connect to OpenAI or a similar service to provide more specific and detailed answers.
+
+**For better results, try prompts like:**
+• "Give me boy/girl names"
+• "Write a product description"
+• "Write a professional email"
+• "Write a short story"
+• "Give me ideas for a project"
+• "Write a cooking recipe"
+• "Create a marketing slogan"
+
+*This is a demonstration of the application's architecture.*`,
+
+  (prompt) => `I have processed your request: "${quotePrompt(prompt)}"
+
+**Answer:**
+
+This application is designed to showcase a professional React and TypeScript architecture. The simulated API recognizes several types of requests.
+
+**Supported content types:**
+✓ Names (boys/girls)
+✓ Product descriptions
+✓ Professional emails
+✓ Stories and tales
+✓ Marketing slogans
+✓ Programming code
+✓ Cooking recipes
+✓ Organized lists
+✓ Creative ideas
+
+*Try one of these types to see more specific answers.*`,
+];
+
+/**
+ * Openings the variation step may prepend to a response
+ * @constant
+ */
+const OPENINGS = ['Sure!', 'Of course.', 'Happy to help!', "Here's a proposal."];
+
+/**
+ * Closings the variation step may append to a response
+ * @constant
+ */
+const CLOSINGS = [
+  'Would you like me to adjust anything?',
+  'If you need another version, just ask.',
+  'I hope you find it useful.',
+];
+
+/**
+ * English template set
+ * @constant
+ */
+export const enTemplates: TemplateSet = {
+  specific: {
+    nombres_chicos: [createNamesTemplate('boy', BOY_NAMES)],
+    nombres_chicas: [createNamesTemplate('girl', GIRL_NAMES)],
+    producto: [productTemplate],
+    email: [emailTemplate],
+    historia: [storyTemplate],
+    slogan: [sloganTemplate],
+    codigo: [codeTemplate],
+    receta: [recipeTemplate],
+    lista: [listTemplate],
+    ideas: [ideasTemplate],
+  },
+  generic: GENERIC_RESPONSES,
+  openings: OPENINGS,
+  closings: CLOSINGS,
+  followUps: {
+    shorter: "Here's a shorter version of the previous answer:",
+    longer: "Here's a more complete version:",
+    again: "Here's another version:",
+  },
+  styles: {
+    concise: { opening: 'In short:', closing: '' },
+    technical: {
+      opening: '**Technical approach**',
+      closing: '*Notes: validate the inputs, measure before optimizing and document the trade-offs.*',
+    },
+    persuasive: {
+      opening: '✨ **A pitch that speaks to your audience**',
+      closing: '👉 Ready to stand out? Now is the time to act.',
+    },
+    friendly: {
+      opening: "What a great idea! Let's do it 😊",
+      closing: 'Enjoy, and let me know how it goes.',
+    },
+  },
+};
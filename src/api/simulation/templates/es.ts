@@ -0,0 +1,648 @@
+/**
+ * @fileoverview Spanish response templates
+ * @description Canned Spanish responses of the simulated provider, filled with the prompt slots
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import type { Audience, CodeLanguage, Diet } from '../slots';
+import {
+  CODE_LANGUAGE_LABELS,
+  DEFAULT_SERVINGS,
+  interleave,
+  MAX_LIST_ITEMS,
+  quotePrompt,
+  renderGroups,
+  resolveCount,
+  type Ingredient,
+  type ItemGroup,
+  type ResponseTemplate,
+  type TemplateSet,
+} from './shared';
+
+/**
+ * How each audience is named in the responses
+ * @constant
+ */
+const AUDIENCE_LABELS: Record<Audience, string> = {
+  children: 'niños',
+  teens: 'adolescentes',
+  adults: 'adultos',
+  seniors: 'personas mayores',
+  students: 'estudiantes',
+  beginners: 'principiantes',
+  professionals: 'profesionales',
+};
+
+/**
+ * Note appended when the prompt asked for more items than the template has
+ * @param requested - The requested count
+ * @param available - The count actually rendered
+ * @returns The note, or an empty string
+ */
+const shortfallNote = (requested: number | undefined, available: number): string =>
+  requested !== undefined && requested > available
+    ? `\n\n*Pediste ${requested}, pero por ahora solo tengo ${available}.*`
+    : '';
+
+/**
+ * Popular boy names, grouped
+ * @constant
+ */
+const BOY_NAMES: readonly ItemGroup[] = [
+  { title: 'Nombres clásicos', items: ['Alejandro', 'Carlos', 'Daniel', 'David', 'Fernando'] },
+  { title: 'Nombres modernos', items: ['Iker', 'Hugo', 'Lucas', 'Mateo', 'Leo'] },
+  { title: 'Nombres internacionales', items: ['Alexander', 'Noah', 'Liam', 'Oliver', 'Ethan'] },
+  {
+    title: 'Nombres tradicionales españoles',
+    items: ['Pablo', 'Javier', 'Miguel', 'Antonio', 'Sergio'],
+  },
+];
+
+/**
+ * Popular girl names, grouped
+ * @constant
+ */
+const GIRL_NAMES: readonly ItemGroup[] = [
+  { title: 'Nombres clásicos', items: ['María', 'Carmen', 'Ana', 'Laura', 'Isabel'] },
+  { title: 'Nombres modernos', items: ['Lucía', 'Sofía', 'Martina', 'Emma', 'Valentina'] },
+  {
+    title: 'Nombres internacionales',
+    items: ['Olivia', 'Mia', 'Isabella', 'Charlotte', 'Amelia'],
+  },
+  {
+    title: 'Nombres tradicionales españoles',
+    items: ['Elena', 'Paula', 'Alba', 'Nerea', 'Claudia'],
+  },
+];
+
+/**
+ * Builds the names template for one gender
+ * Without a count the whole catalog is shown by group; with a count, that many
+ * names are taken from every group in turn.
+ *
+ * @param singular - "chico" or "chica"
+ * @param groups - The name catalog
+ * @returns The template
+ */
+const createNamesTemplate =
+  (singular: string, groups: readonly ItemGroup[]): ResponseTemplate =>
+  ({ count }) => {
+    if (count === undefined) {
+      return `Aquí tienes una lista de nombres de ${singular}s populares:\n\n${renderGroups(groups)}`;
+    }
+
+    const names = interleave(groups.map((group) => group.items));
+    const total = resolveCount(count, names.length, names.length);
+    const heading =
+      total === 1
+        ? `Aquí tienes un nombre de ${singular}:`
+        : `Aquí tienes ${total} nombres de ${singular}s:`;
+
+    return `${heading}\n\n${names
+      .slice(0, total)
+      .map((name) => `• ${name}`)
+      .join('\n')}${shortfallNote(count, total)}`;
+  };
+
+/**
+ * Product description: honors product name, audience and tone
+ * @constant
+ */
+const productTemplate: ResponseTemplate = ({ productName, audience, tone }) => {
+  const your = tone === 'formal' ? 'sus' : 'tus';
+  const subject = productName ? `${productName}, un producto innovador` : 'un producto innovador';
+  const audienceLine = audience
+    ? ` Pensado especialmente para ${AUDIENCE_LABELS[audience]}.`
+    : '';
+  const funnyLine =
+    tone === 'funny'
+      ? '\n\n*Efectos secundarios: ganas irrefrenables de recomendarlo a todo el mundo.* 😄'
+      : '';
+
+  return `**${productName ?? 'Descripción del Producto'}**
+
+Presentamos ${subject} diseñado para superar ${your} expectativas. Con materiales de primera calidad y un diseño ergonómico, este artículo combina funcionalidad y estilo.${audienceLine}
+
+**Características principales:**
+• Diseño moderno y elegante
+• Materiales duraderos y sostenibles
+• Fácil de usar y mantener
+• Garantía de satisfacción
+
+**Beneficios:**
+✓ Mejora ${your === 'sus' ? 'su' : 'tu'} productividad diaria
+✓ Ahorra tiempo y esfuerzo
+✓ Excelente relación calidad-precio
+
+*¡Disponible ahora con envío gratuito!*${funnyLine}`;
+};
+
+/**
+ * Email: honors recipient and tone (formal by default)
+ * @constant
+ */
+const emailTemplate: ResponseTemplate = ({ recipient = '[Nombre]', tone = 'formal' }) => {
+  if (tone === 'formal') {
+    return `**Asunto:** [Tu asunto aquí]
+
+Estimado/a ${recipient},
+
+Espero que este mensaje le encuentre bien. Me dirijo a usted para [motivo del email].
+
+[Cuerpo del mensaje con los detalles principales]
+
+Quedo a su disposición para cualquier consulta o aclaración que pueda necesitar. No dude en contactarme si requiere información adicional.
+
+Agradezco de antemano su atención y tiempo.
+
+Cordialmente,
+
+[Tu nombre]
+[Tu cargo/posición]
+[Información de contacto]`;
+  }
+
+  const postscript =
+    tone === 'funny'
+      ? '\n\nP. D.: Prometo que este es el último email de la semana... probablemente. 😄'
+      : '';
+
+  return `**Asunto:** [Tu asunto aquí]
+
+Hola, ${recipient}:
+
+¿Qué tal todo? Te escribo para [motivo del email].
+
+[Cuerpo del mensaje con los detalles principales]
+
+Si tienes cualquier duda, dime y lo vemos.
+
+¡Un abrazo!
+
+[Tu nombre]${postscript}`;
+};
+
+/**
+ * Short story: honors audience (children get a fairy-tale frame) and tone
+ * @constant
+ */
+const storyTemplate: ResponseTemplate = ({ audience, tone }) => {
+  const forChildren = audience === 'children';
+  const opening = forChildren
+    ? 'Había una vez, en un pequeño pueblo rodeado de montañas, una niña llamada Elena que soñaba con explorar el mundo más allá del horizonte.'
+    : 'En un pequeño pueblo rodeado de montañas, vivía una joven llamada Elena que soñaba con explorar el mundo más allá del horizonte.';
+  const owl =
+    tone === 'funny'
+      ? 'un búho sabio, aunque bastante despistado, que tras confundirla dos veces con una ardilla le enseñó'
+      : 'un sabio búho que le enseñó';
+  const ending = forChildren
+    ? '*Y colorín colorado, este cuento se ha acabado.*'
+    : '*Y así, Elena descubrió que la mayor aventura es aquella que nos transforma por dentro.*';
+
+  return `**El Viaje Inesperado**
+
+${opening}
+
+Un día, mientras caminaba por el bosque, encontró un antiguo mapa escondido en el hueco de un árbol centenario. El mapa mostraba un camino hacia un lugar misterioso llamado "El Valle de los Sueños".
+
+Sin pensarlo dos veces, Elena preparó su mochila y comenzó su aventura. En el camino, conoció a ${owl} que el verdadero tesoro no estaba al final del viaje, sino en las experiencias y amistades que forjaría durante el camino.
+
+${ending}`;
+};
+
+/**
+ * Slogan options, grouped
+ * @constant
+ */
+const SLOGANS: readonly ItemGroup[] = [
+  {
+    title: 'Opciones impactantes',
+    items: [
+      'Innovación que inspira, calidad que perdura',
+      'Tu éxito, nuestra pasión',
+      'Donde los sueños se hacen realidad',
+    ],
+  },
+  {
+    title: 'Opciones emocionales',
+    items: [
+      'Porque tú mereces lo mejor',
+      'Conectando corazones, creando momentos',
+      'La excelencia está en los detalles',
+    ],
+  },
+  {
+    title: 'Opciones directas',
+    items: [
+      'Simple. Efectivo. Extraordinario.',
+      'El futuro comienza hoy',
+      'Más que un producto, una experiencia',
+    ],
+  },
+];
+
+/**
+ * Slogans used first when a funny tone is requested
+ * @constant
+ */
+const FUNNY_SLOGANS: ItemGroup = {
+  title: 'Opciones divertidas',
+  items: [
+    'Tan bueno que tu suegra querrá uno',
+    'Advertencia: produce sonrisas',
+    'Lo probamos los lunes y aun así nos gusta',
+  ],
+};
+
+/**
+ * Slogans: honors count, product name and tone
+ * @constant
+ */
+const sloganTemplate: ResponseTemplate = ({ count, productName, tone }) => {
+  const groups = tone === 'funny' ? [FUNNY_SLOGANS, ...SLOGANS] : SLOGANS;
+  const slogans = groups.flatMap((group) => group.items);
+  const total = resolveCount(count, slogans.length, slogans.length);
+  const target = productName ? ` para ${productName}` : '';
+
+  let number = 0;
+  const sections = groups
+    .map((group) => {
+      const items = group.items
+        .slice(0, Math.max(0, total - number))
+        .map((slogan) => `${++number}. "${slogan}"`);
+      return items.length > 0 ? `**${group.title}:**\n${items.join('\n')}` : '';
+    })
+    .filter(Boolean);
+
+  return `Aquí tienes ${total === 1 ? 'una opción' : 'varias opciones'} de slogans creativos${target}:
+
+${sections.join('\n\n')}${shortfallNote(count, total)}
+
+*Elige el que mejor represente tu marca y valores.*`;
+};
+
+/**
+ * Example snippet per programming language
+ * @constant
+ */
+const CODE_SNIPPETS: Partial<Record<CodeLanguage, string>> & { javascript: string } = {
+  javascript: `// Función para saludar
+function saludar(nombre) {
+  return \`¡Hola, \${nombre}! Bienvenido/a.\`;
+}
+
+// Ejemplo de uso
+const mensaje = saludar("Usuario");
+console.log(mensaje);
+
+// Función con validación
+function procesarDatos(datos) {
+  if (!datos || datos.length === 0) {
+    throw new Error("Los datos no pueden estar vacíos");
+  }
+
+  return datos.map(item => ({
+    ...item,
+    procesado: true,
+    fecha: new Date().toISOString()
+  }));
+}`,
+  typescript: `// Función para saludar
+function saludar(nombre: string): string {
+  return \`¡Hola, \${nombre}! Bienvenido/a.\`;
+}
+
+// Ejemplo de uso
+const mensaje = saludar("Usuario");
+console.log(mensaje);
+
+interface Dato {
+  id: number;
+  [clave: string]: unknown;
+}
+
+// Función con validación
+function procesarDatos(datos: Dato[]) {
+  if (datos.length === 0) {
+    throw new Error("Los datos no pueden estar vacíos");
+  }
+
+  return datos.map((item) => ({
+    ...item,
+    procesado: true,
+    fecha: new Date().toISOString(),
+  }));
+}`,
+  python: `from datetime import datetime
+
+
+# Función para saludar
+def saludar(nombre: str) -> str:
+    return f"¡Hola, {nombre}! Bienvenido/a."
+
+
+# Ejemplo de uso
+mensaje = saludar("Usuario")
+print(mensaje)
+
+
+# Función con validación
+def procesar_datos(datos: list[dict]) -> list[dict]:
+    if not datos:
+        raise ValueError("Los datos no pueden estar vacíos")
+
+    return [
+        {**item, "procesado": True, "fecha": datetime.now().isoformat()}
+        for item in datos
+    ]`,
+};
+
+/**
+ * Code example: honors the programming language when a snippet exists for it
+ * @constant
+ */
+const codeTemplate: ResponseTemplate = ({ codeLanguage = 'javascript' }) => {
+  const snippet = CODE_SNIPPETS[codeLanguage];
+  const language = snippet ? codeLanguage : 'javascript';
+  const note = snippet
+    ? ''
+    : `*Todavía no tengo ejemplos en ${CODE_LANGUAGE_LABELS[codeLanguage]}, así que aquí va uno en JavaScript.*\n\n`;
+
+  return `${note}Aquí tienes un ejemplo de código:
+
+\`\`\`${language}
+${snippet ?? CODE_SNIPPETS.javascript}
+\`\`\`
+
+*Este código incluye buenas prácticas como validación de entrada y uso de funciones modernas de ${CODE_LANGUAGE_LABELS[language]}.*`;
+};
+
+/**
+ * Formats an ingredient scaled to the number of servings
+ * @param ingredient - The ingredient
+ * @param servings - Number of people
+ * @returns The bullet text
+ */
+const formatIngredient = ({ perPerson, unit, name }: Ingredient, servings: number): string => {
+  if (perPerson === undefined) {
+    return name;
+  }
+  if (unit === 'clove') {
+    const cloves = Math.max(1, Math.round(perPerson * servings));
+    return `${cloves} ${cloves === 1 ? 'diente' : 'dientes'} de ${name}`;
+  }
+  // Round to 10 g so scaled quantities stay readable
+  return `${Math.max(10, Math.round((perPerson * servings) / 10) * 10)}g de ${name}`;
+};
+
+/**
+ * How each diet changes the recipe
+ * @constant
+ */
+const DIET_VARIANTS: Record<Diet, { label: string; pasta?: string; cheese: string; topping: string }> =
+  {
+    vegan: {
+      label: 'vegana',
+      cheese: 'Levadura nutricional (en lugar de queso)',
+      topping: 'levadura nutricional',
+    },
+    vegetarian: {
+      label: 'vegetariana',
+      cheese: 'Queso vegetariano rallado (sin cuajo animal)',
+      topping: 'queso rallado',
+    },
+    'gluten-free': {
+      label: 'sin gluten',
+      pasta: 'pasta sin gluten',
+      cheese: 'Queso parmesano rallado',
+      topping: 'queso parmesano',
+    },
+  };
+
+/**
+ * Recipe: honors servings (quantities are scaled) and diet
+ * @constant
+ */
+const recipeTemplate: ResponseTemplate = ({ servings = DEFAULT_SERVINGS, diet }) => {
+  const people = Math.min(Math.max(1, servings), 50);
+  const variant = diet ? DIET_VARIANTS[diet] : undefined;
+  const ingredients: Ingredient[] = [
+    { perPerson: 100, unit: 'g', name: variant?.pasta ?? 'pasta (espaguetis o penne)' },
+    { perPerson: 125, unit: 'g', name: 'tomates maduros' },
+    { perPerson: 0.5, unit: 'clove', name: 'ajo' },
+    { name: 'Aceite de oliva virgen extra' },
+    { name: 'Albahaca fresca' },
+    { name: 'Sal y pimienta al gusto' },
+    { name: variant?.cheese ?? 'Queso parmesano rallado' },
+  ];
+
+  return `**Receta: Pasta con Salsa de Tomate Casera${variant ? ` (${variant.label})` : ''}**
+
+**Ingredientes (${people} ${people === 1 ? 'persona' : 'personas'}):**
+${ingredients.map((ingredient) => `• ${formatIngredient(ingredient, people)}`).join('\n')}
+
+**Preparación:**
+
+1. **Preparar la salsa:** Escaldar los tomates, pelarlos y triturarlos.
+
+2. **Sofreír:** En una sartén con aceite, dorar el ajo picado sin que se queme.
+
+3. **Cocinar:** Añadir el tomate triturado, sal, pimienta y cocinar 20 minutos a fuego medio.
+
+4. **La pasta:** Hervir la pasta en agua con sal según las instrucciones del paquete.
+
+5. **Servir:** Mezclar la pasta con la salsa, añadir albahaca fresca y ${variant?.topping ?? 'queso parmesano'}.
+
+*¡Buon appetito!* 🍝`;
+};
+
+/**
+ * Ordinals used to title list items
+ * @constant
+ */
+const ORDINALS = [
+  'Primer',
+  'Segundo',
+  'Tercer',
+  'Cuarto',
+  'Quinto',
+  'Sexto',
+  'Séptimo',
+  'Octavo',
+  'Noveno',
+  'Décimo',
+];
+
+/**
+ * Detail lines of list items, reused in turn
+ * @constant
+ */
+const LIST_DETAILS: ReadonlyArray<readonly [string, string]> = [
+  ['Detalle importante', 'Información adicional'],
+  ['Característica destacada', 'Beneficio clave'],
+  ['Punto relevante', 'Consideración especial'],
+  ['Aspecto fundamental', 'Nota importante'],
+  ['Dato interesante', 'Conclusión'],
+];
+
+/**
+ * Organized list: honors count
+ * @constant
+ */
+const listTemplate: ResponseTemplate = ({ count }) => {
+  const total = resolveCount(count, 5, MAX_LIST_ITEMS);
+  const items = Array.from({ length: total }, (_, index) => {
+    const title = index < ORDINALS.length ? `${ORDINALS[index]} elemento` : `Elemento ${index + 1}`;
+    const [first, second] = LIST_DETAILS[index % LIST_DETAILS.length];
+    return `${index + 1}. **${title}**\n   - ${first}\n   - ${second}`;
+  });
+
+  return `Aquí tienes una lista organizada:
+
+**Categoría Principal:**
+
+${items.join('\n\n')}${shortfallNote(count, total)}
+
+*Esta lista puede adaptarse según tus necesidades específicas.*`;
+};
+
+/**
+ * Idea catalog: title and description
+ * @constant
+ */
+const IDEAS: ReadonlyArray<readonly [string, string]> = [
+  [
+    'Innovación Digital',
+    'Implementar una solución tecnológica que automatice procesos y mejore la eficiencia.',
+  ],
+  [
+    'Experiencia del Usuario',
+    'Rediseñar la interfaz para hacerla más intuitiva y atractiva visualmente.',
+  ],
+  ['Sostenibilidad', 'Incorporar prácticas ecológicas que reduzcan el impacto ambiental.'],
+  ['Colaboración', 'Crear espacios de trabajo colaborativo que fomenten la creatividad en equipo.'],
+  [
+    'Personalización',
+    'Ofrecer opciones personalizables que se adapten a las necesidades individuales.',
+  ],
+  ['Comunidad', 'Organizar encuentros y foros donde los usuarios compartan experiencias.'],
+  ['Gamificación', 'Añadir retos y recompensas que mantengan la motivación.'],
+  ['Accesibilidad', 'Garantizar que cualquier persona pueda usar el proyecto sin barreras.'],
+];
+
+/**
+ * Creative ideas: honors count and audience
+ * @constant
+ */
+const ideasTemplate: ResponseTemplate = ({ count, audience }) => {
+  const total = resolveCount(count, 5, IDEAS.length);
+  const audienceNote = audience ? ` (pensadas para ${AUDIENCE_LABELS[audience]})` : '';
+  const ideas = IDEAS.slice(0, total).map(
+    ([title, description], index) => `💡 **Idea ${index + 1}: ${title}**\n${description}`
+  );
+
+  return `**Ideas Creativas para tu Proyecto${audienceNote}:**
+
+${ideas.join('\n\n')}${shortfallNote(count, total)}
+
+*Cada idea puede desarrollarse según los recursos y objetivos disponibles.*`;
+};
+
+/**
+ * Generic responses for prompts without a confident category
+ * @constant
+ */
+const GENERIC_RESPONSES: TemplateSet['generic'] = [
+  (prompt) => `Basándome en tu solicitud "${quotePrompt(prompt)}", aquí está mi respuesta:
+
+Esta es una respuesta generada por la IA simulada. En un entorno de producción, esta aplicación se conectaría a OpenAI o similar para proporcionar respuestas más específicas y detalladas.
+
+**Para obtener mejores resultados, prueba con prompts como:**
+• "Dame nombres de chicos/chicas"
+• "Escribe una descripción de producto"
+• "Crea un email profesional"
+• "Genera una historia corta"
+• "Dame ideas para un proyecto"
+• "Escribe una receta de cocina"
+• "Crea un slogan de marketing"
+
+*Esta es una demostración de la arquitectura de la aplicación.*`,
+
+  (prompt) => `He procesado tu solicitud: "${quotePrompt(prompt)}"
+
+**Respuesta:**
+
+Esta aplicación está diseñada para demostrar una arquitectura profesional de React con TypeScript. La API simulada reconoce varios tipos de solicitudes.
+
+**Tipos de contenido soportados:**
+✓ Nombres (chicos/chicas)
+✓ Descripciones de productos
+✓ Emails profesionales
+✓ Historias y cuentos
+✓ Slogans de marketing
+✓ Código de programación
+✓ Recetas de cocina
+✓ Listas organizadas
+✓ Ideas creativas
+
+*Prueba con uno de estos tipos para ver respuestas más específicas.*`,
+];
+
+/**
+ * Openings the variation step may prepend to a response
+ * @constant
+ */
+const OPENINGS = ['¡Claro!', 'Por supuesto.', '¡Con gusto!', 'Aquí va una propuesta.'];
+
+/**
+ * Closings the variation step may append to a response
+ * @constant
+ */
+const CLOSINGS = [
+  '¿Quieres que ajuste algo?',
+  'Si necesitas otra versión, pídemela.',
+  'Espero que te resulte útil.',
+];
+
+/**
+ * Spanish template set
+ * @constant
+ */
+export const esTemplates: TemplateSet = {
+  specific: {
+    nombres_chicos: [createNamesTemplate('chico', BOY_NAMES)],
+    nombres_chicas: [createNamesTemplate('chica', GIRL_NAMES)],
+    producto: [productTemplate],
+    email: [emailTemplate],
+    historia: [storyTemplate],
+    slogan: [sloganTemplate],
+    codigo: [codeTemplate],
+    receta: [recipeTemplate],
+    lista: [listTemplate],
+    ideas: [ideasTemplate],
+  },
+  generic: GENERIC_RESPONSES,
+  openings: OPENINGS,
+  closings: CLOSINGS,
+  followUps: {
+    shorter: 'Aquí tienes una versión más corta de la respuesta anterior:',
+    longer: 'Aquí tienes una versión más completa:',
+    again: 'Aquí tienes otra versión:',
+  },
+  styles: {
+    concise: { opening: 'En resumen:', closing: '' },
+    technical: {
+      opening: '**Enfoque técnico**',
+      closing: '*Notas: valida las entradas, mide antes de optimizar y documenta las decisiones.*',
+    },
+    persuasive: {
+      opening: '✨ **Una propuesta que conecta con tu público**',
+      closing: '👉 ¿Listo para destacar? Es el momento de dar el paso.',
+    },
+    friendly: {
+      opening: '¡Qué buena idea! Vamos allá 😊',
+      closing: 'Que lo disfrutes, y ya me contarás qué tal.',
+    },
+  },
+};
@@ -0,0 +1,135 @@
+/**
+ * @fileoverview Shared template building blocks
+ * @description Types and helpers used by the Spanish and English response templates
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import type { PromptCategory } from '../categoryRules';
+import type { FollowUpIntent } from '../followUp';
+import type { CodeLanguage, PromptSlots } from '../slots';
+import type { ResponseStyle, StylePhrases } from '../style';
+
+/**
+ * A response template: renders the answer for a category from the prompt slots
+ * Slots the prompt did not mention fall back to the template's defaults.
+ * @type ResponseTemplate
+ */
+export type ResponseTemplate = (slots: PromptSlots) => string;
+
+/**
+ * Clamps a requested count to what a template can produce
+ * @param count - The requested count, if any
+ * @param fallback - Count used when none was requested
+ * @param max - Largest count the template can honor
+ * @returns The count to render
+ */
+export const resolveCount = (count: number | undefined, fallback: number, max: number): number =>
+  Math.min(Math.max(1, count ?? fallback), max);
+
+/**
+ * Takes items from several groups in turn (first of each group, then second...)
+ * @param groups - The groups to interleave
+ * @returns The interleaved items
+ */
+export const interleave = <T>(groups: readonly (readonly T[])[]): T[] => {
+  const longest = Math.max(...groups.map((group) => group.length));
+  const result: T[] = [];
+  for (let index = 0; index < longest; index++) {
+    for (const group of groups) {
+      if (index < group.length) {
+        result.push(group[index]);
+      }
+    }
+  }
+  return result;
+};
+
+/**
+ * Named group of items rendered under a bold heading
+ * @interface ItemGroup
+ */
+export interface ItemGroup {
+  title: string;
+  items: readonly string[];
+}
+
+/**
+ * Renders groups as bold headings followed by bullet lists
+ * @param groups - The groups to render
+ * @returns The Markdown text
+ */
+export const renderGroups = (groups: readonly ItemGroup[]): string =>
+  groups
+    .map((group) => `**${group.title}:**\n${group.items.map((item) => `• ${item}`).join('\n')}`)
+    .join('\n\n');
+
+/**
+ * Display name of each programming language
+ * @constant
+ */
+export const CODE_LANGUAGE_LABELS: Record<CodeLanguage, string> = {
+  javascript: 'JavaScript',
+  typescript: 'TypeScript',
+  python: 'Python',
+  java: 'Java',
+  csharp: 'C#',
+  go: 'Go',
+  rust: 'Rust',
+  php: 'PHP',
+  ruby: 'Ruby',
+  sql: 'SQL',
+  bash: 'Bash',
+};
+
+/**
+ * Ingredient of the recipe, with its quantity per person
+ * @interface Ingredient
+ */
+export interface Ingredient {
+  /** Quantity per person (grams or units); omitted for "to taste" ingredients */
+  perPerson?: number;
+  /** Unit of perPerson: grams or garlic cloves */
+  unit?: 'g' | 'clove';
+  /** Name, in the language of the template */
+  name: string;
+}
+
+/**
+ * Default number of servings of the recipes
+ * @constant
+ */
+export const DEFAULT_SERVINGS = 4;
+
+/**
+ * Largest list the list templates render
+ * @constant
+ */
+export const MAX_LIST_ITEMS = 20;
+
+/**
+ * Every response of one language
+ * @interface TemplateSet
+ */
+export interface TemplateSet {
+  /** Templates per category; the first one is the canonical template used at temperature 0 */
+  specific: Record<PromptCategory, ResponseTemplate[]>;
+  /** Responses for prompts without a confident category */
+  generic: Array<(prompt: string) => string>;
+  /** Sentences the variation step may prepend to a response */
+  openings: readonly string[];
+  /** Sentences the variation step may append to a response */
+  closings: readonly string[];
+  /** Lead-in of the answer to a follow-up on the previous turn */
+  followUps: Record<FollowUpIntent, string>;
+  /** Framing sentences of each style a persona can ask for */
+  styles: Record<ResponseStyle, StylePhrases>;
+}
+
+/**
+ * Shortens a prompt for quoting it in a response
+ * @param prompt - The user's input prompt
+ * @returns At most the first 50 characters, with an ellipsis if cut
+ */
+export const quotePrompt = (prompt: string): string =>
+  `${prompt.substring(0, 50)}${prompt.length > 50 ? '...' : ''}`;
@@ -0,0 +1,183 @@
+/**
+ * @fileoverview Output shaping for the simulated generator
+ * @description Temperature-driven variation and clean truncation of simulated responses
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import type { Random } from './random';
+import type { TemplateSet } from './templates/shared';
+
+/**
+ * Matches a bullet list item (•, -, ✓ or *) at the start of a line
+ * @constant
+ */
+const BULLET_LINE = /^\s*(?:•|-|✓|\*)\s+\S/;
+
+/**
+ * Matches the line that opens or closes a fenced code block
+ * @constant
+ */
+const FENCE_LINE = /^\s*```/;
+
+/**
+ * Matches a first line that already introduces the response ("Here is a list:",
+ * "**Creative ideas:**"), which an opening would only repeat
+ * @constant
+ */
+const LEAD_IN_LINE = /^[^\n]*:\**[ \t]*(?:\n|$)/;
+
+/**
+ * Shuffles every run of consecutive bullet lines, each with the given probability
+ * Numbered lists and fenced code are left untouched.
+ *
+ * @param text - The text to vary
+ * @param probability - Chance that a given bullet run is shuffled
+ * @param random - Seeded random source
+ * @returns The text with some bullet runs reordered
+ */
+const shuffleBulletRuns = (text: string, probability: number, random: Random): string => {
+  const lines = text.split('\n');
+  const output: string[] = [];
+  let run: string[] = [];
+  let inFence = false;
+
+  const flushRun = (): void => {
+    if (run.length > 1 && random.chance(probability)) {
+      output.push(...random.shuffle(run));
+    } else {
+      output.push(...run);
+    }
+    run = [];
+  };
+
+  for (const line of lines) {
+    if (FENCE_LINE.test(line)) {
+      inFence = !inFence;
+    }
+
+    if (!inFence && BULLET_LINE.test(line)) {
+      run.push(line);
+      continue;
+    }
+
+    flushRun();
+    output.push(line);
+  }
+  flushRun();
+
+  return output.join('\n');
+};
+
+/**
+ * Mixes variation into a response according to the temperature
+ * At temperature 0 the text is returned unchanged; higher temperatures make it
+ * more likely that bullet lists are reordered and that an opening or closing
+ * sentence (in the language of the response) is added, each in its own paragraph.
+ * Responses whose first line is already a lead-in get no opening. All choices
+ * come from the seeded random source.
+ *
+ * @param text - The base response
+ * @param temperature - Creativity between 0 and 1
+ * @param random - Seeded random source
+ * @param phrases - Openings and closings of the response language (empty lists add none)
+ * @returns The varied response
+ */
+export const applyVariation = (
+  text: string,
+  temperature: number,
+  random: Random,
+  { openings, closings }: Pick<TemplateSet, 'openings' | 'closings'>
+): string => {
+  if (temperature <= 0) {
+    return text;
+  }
+
+  let result = shuffleBulletRuns(text, temperature, random);
+
+  if (openings.length > 0 && !LEAD_IN_LINE.test(result) && random.chance(temperature * 0.6)) {
+    result = `${random.pick(openings)}\n\n${result}`;
+  }
+
+  if (closings.length > 0 && random.chance(temperature * 0.4)) {
+    result = `${result}\n\n${random.pick(closings)}`;
+  }
+
+  return result;
+};
+
+/**
+ * Finds the end offsets of every sentence or line in a text
+ * A boundary follows ".", "!", "?" or "…" (optionally closed by quotes, asterisks
+ * or parentheses) when followed by whitespace, or sits at a line break.
+ *
+ * @param text - The text to scan
+ * @returns Sorted list of offsets where the text can be cut cleanly
+ */
+const findSentenceBoundaries = (text: string): number[] => {
+  const boundaries: number[] = [];
+  const pattern = /[.!?…]["'»”*)_]*(?=\s|$)|\n/g;
+
+  let match = pattern.exec(text);
+  while (match) {
+    // Cut before a line break, after sentence punctuation
+    boundaries.push(match[0] === '\n' ? match.index : match.index + match[0].length);
+    match = pattern.exec(text);
+  }
+
+  return boundaries;
+};
+
+/**
+ * Truncates a text to at most maxLength characters at a sentence boundary
+ * Falls back to the last word boundary (with an ellipsis) when no sentence
+ * fits, and closes a code fence left open by the cut. A limit below one
+ * character leaves nothing.
+ *
+ * @param text - The text to truncate
+ * @param maxLength - Maximum length in characters
+ * @returns The truncated text and whether it was shortened
+ */
+export const truncateAtSentence = (
+  text: string,
+  maxLength: number
+): { text: string; truncated: boolean } => {
+  if (!Number.isFinite(maxLength) || text.length <= maxLength) {
+    return { text, truncated: false };
+  }
+
+  const limit = Math.max(0, Math.floor(maxLength));
+  const FENCE_CLOSING = '\n```';
+
+  const cutAt = (available: number): string => {
+    if (available < 1) {
+      return '';
+    }
+
+    const boundary = findSentenceBoundaries(text)
+      .filter((offset) => offset > 0 && offset <= available)
+      .pop();
+
+    if (boundary !== undefined) {
+      return text.slice(0, boundary).trimEnd();
+    }
+
+    // No complete sentence fits: cut at the last whitespace and mark the cut
+    const slice = text.slice(0, Math.max(0, available - 1));
+    const lastSpace = slice.search(/\s\S*$/);
+    return `${(lastSpace > 0 ? slice.slice(0, lastSpace) : slice).trimEnd()}…`;
+  };
+
+  const hasOpenFence = (value: string): boolean =>
+    value.split('\n').filter((line) => FENCE_LINE.test(line)).length % 2 === 1;
+
+  let result = cutAt(limit);
+
+  // Keep Markdown valid if the cut landed inside a fenced code block
+  if (hasOpenFence(result)) {
+    const shorter = cutAt(limit - FENCE_CLOSING.length);
+    result = hasOpenFence(shorter) ? shorter + FENCE_CLOSING : shorter;
+  }
+
+  return { text: result, truncated: true };
+};
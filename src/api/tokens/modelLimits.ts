@@ -0,0 +1,85 @@
+/**
+ * @fileoverview Model limits registry
+ * @description Context window and output limits of each model, shared by the form,
+ * the request validation and the providers
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import type { ModelLimits } from '../../types/tokens';
+import { findModelEntry } from './models';
+
+/**
+ * Token limits of the known models
+ * The simulated model gets a small window so its prompt budget stays close to
+ * the 2000 characters the form used to allow.
+ * @constant
+ */
+export const MODEL_LIMITS: Record<string, ModelLimits> = {
+  'simulated-ai-v1': { contextWindow: 1280, maxOutputTokens: 512 },
+  'gpt-4o-mini': { contextWindow: 128_000, maxOutputTokens: 16_384 },
+  'gpt-4o': { contextWindow: 128_000, maxOutputTokens: 16_384 },
+  'gpt-4.1-mini': { contextWindow: 1_047_576, maxOutputTokens: 32_768 },
+  'gpt-4.1': { contextWindow: 1_047_576, maxOutputTokens: 32_768 },
+  'gpt-3.5-turbo': { contextWindow: 16_385, maxOutputTokens: 4096 },
+};
+
+/**
+ * Conservative limits for models missing from the registry (or not known up front)
+ * @constant
+ */
+export const DEFAULT_MODEL_LIMITS: ModelLimits = {
+  contextWindow: 8192,
+  maxOutputTokens: 1024,
+};
+
+/**
+ * Average number of characters per token, used to turn maxLength into tokens
+ * @constant
+ */
+export const CHARS_PER_TOKEN = 4;
+
+/**
+ * Looks up the limits of a model
+ * @param model - Model name, if known
+ * @returns The model limits, or the defaults for unknown models
+ */
+export const getModelLimits = (model?: string): ModelLimits =>
+  (model && findModelEntry(MODEL_LIMITS, model)) || DEFAULT_MODEL_LIMITS;
+
+/**
+ * Converts a maxLength in characters into a completion token budget
+ * @param maxLength - Maximum length of the generated text, in characters
+ * @returns The equivalent number of tokens (at least 1)
+ */
+export const maxLengthToTokens = (maxLength: number): number =>
+  Math.max(1, Math.ceil(maxLength / CHARS_PER_TOKEN));
+
+/**
+ * Tokens reserved for the completion of a request
+ * The requested maxLength when there is one, otherwise the model's largest output.
+ *
+ * @param limits - Limits of the model
+ * @param maxLength - Requested maximum length, in characters
+ * @returns The reserved completion tokens
+ */
+export const getReservedCompletionTokens = (limits: ModelLimits, maxLength?: number): number =>
+  maxLength !== undefined ? maxLengthToTokens(maxLength) : limits.maxOutputTokens;
+
+/**
+ * Largest prompt, in tokens, a model accepts for a request
+ *
+ * @param model - Model name, if known
+ * @param maxLength - Requested maximum length, in characters
+ * @returns The prompt token budget (never negative)
+ *
+ * @example
+ * ```typescript
+ * getPromptTokenBudget('simulated-ai-v1');      // 768
+ * getPromptTokenBudget('simulated-ai-v1', 400); // 1180
+ * ```
+ */
+export const getPromptTokenBudget = (model?: string, maxLength?: number): number => {
+  const limits = getModelLimits(model);
+  return Math.max(0, limits.contextWindow - getReservedCompletionTokens(limits, maxLength));
+};
@@ -0,0 +1,27 @@
+/**
+ * @fileoverview Model name lookup
+ * @description Resolves a model name against the per-model tables (limits, pricing)
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+/**
+ * Looks up the entry of a model in a per-model table
+ * Exact names win; otherwise the longest known name the model starts with is
+ * used, so dated names ("gpt-4o-mini-2024-07-18") share their base entry.
+ *
+ * @param table - Entries keyed by model name
+ * @param model - Model name as reported by the provider
+ * @returns The entry, or null for unknown models
+ */
+export const findModelEntry = <T>(table: Record<string, T>, model: string): T | null => {
+  if (Object.prototype.hasOwnProperty.call(table, model)) {
+    return table[model];
+  }
+
+  const baseName = Object.keys(table)
+    .filter((name) => model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return baseName ? table[baseName] : null;
+};
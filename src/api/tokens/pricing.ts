@@ -0,0 +1,65 @@
+/**
+ * @fileoverview Model pricing
+ * @description Per-model token prices and the cost estimate derived from a token usage
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import type { CostEstimate, ModelPricing, TokenUsage } from '../../types/tokens';
+import { findModelEntry } from './models';
+
+/**
+ * Published prices of the known models, in US dollars per million tokens
+ * Dated model names ("gpt-4o-mini-2024-07-18") use the price of their base name.
+ * @constant
+ */
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  'simulated-ai-v1': { inputPerMillion: 0, outputPerMillion: 0 },
+  'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10 },
+  'gpt-4.1-mini': { inputPerMillion: 0.4, outputPerMillion: 1.6 },
+  'gpt-4.1': { inputPerMillion: 2, outputPerMillion: 8 },
+  'gpt-3.5-turbo': { inputPerMillion: 0.5, outputPerMillion: 1.5 },
+};
+
+/**
+ * Number of tokens the prices are expressed in
+ * @constant
+ */
+const TOKENS_PER_PRICE_UNIT = 1_000_000;
+
+/**
+ * Looks up the price of a model
+ * @param model - Model name as reported by the provider
+ * @returns The pricing, or null for unknown models
+ */
+export const getModelPricing = (model: string): ModelPricing | null =>
+  findModelEntry(MODEL_PRICING, model);
+
+/**
+ * Estimates the cost of a generation from its token usage
+ *
+ * @param model - Model name as reported by the provider
+ * @param usage - Prompt and completion tokens
+ * @returns The estimated cost in US dollars, or null if the model has no known price
+ *
+ * @example
+ * ```typescript
+ * estimateCost('gpt-4o-mini', { promptTokens: 1000, completionTokens: 500, totalTokens: 1500 });
+ * // { inputCost: 0.00015, outputCost: 0.0003, totalCost: 0.00045 }
+ * ```
+ */
+export const estimateCost = (
+  model: string,
+  { promptTokens, completionTokens }: Pick<TokenUsage, 'promptTokens' | 'completionTokens'>
+): CostEstimate | null => {
+  const pricing = getModelPricing(model);
+  if (!pricing) {
+    return null;
+  }
+
+  const inputCost = (promptTokens * pricing.inputPerMillion) / TOKENS_PER_PRICE_UNIT;
+  const outputCost = (completionTokens * pricing.outputPerMillion) / TOKENS_PER_PRICE_UNIT;
+
+  return { inputCost, outputCost, totalCost: inputCost + outputCost };
+};
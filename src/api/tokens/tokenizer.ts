@@ -0,0 +1,198 @@
+/**
+ * @fileoverview BPE tokenizer
+ * @description Offline byte-pair-encoding style tokenizer used to count prompt and
+ * completion tokens without calling the model
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import type { ChatMessage } from '../../types/openai';
+import type { TokenUsage } from '../../types/tokens';
+import { BPE_VOCABULARY } from './vocabulary';
+
+/**
+ * Configuration constants for the tokenizer
+ */
+const TOKENIZER_CONFIG = {
+  /** Maximum number of pre-tokens whose encoding is memoized */
+  CACHE_SIZE: 5000,
+  /** Tokens added by each chat message for its role and delimiters */
+  TOKENS_PER_MESSAGE: 4,
+  /** Tokens that prime the assistant's reply after the last message */
+  TOKENS_PER_REPLY: 3,
+} as const;
+
+/**
+ * Splits text into pre-tokens before merging, like GPT-style tokenizers
+ * Letters and punctuation keep their leading space, numbers are split in
+ * groups of up to three digits and runs of whitespace stand on their own.
+ * @constant
+ */
+const PRE_TOKEN_PATTERN = / ?\p{L}+| ?\p{N}{1,3}| ?[^\s\p{L}\p{N}]+|\s+(?!\S)|\s+/gu;
+
+/**
+ * Separator used to build merge keys (never appears in a symbol)
+ * @constant
+ */
+const MERGE_KEY_SEPARATOR = '\u0000';
+
+/**
+ * Builds the merge key of two adjacent symbols
+ * @param left - Left symbol
+ * @param right - Right symbol
+ * @returns The key used in the merge table
+ */
+const toMergeKey = (left: string, right: string): string =>
+  `${left}${MERGE_KEY_SEPARATOR}${right}`;
+
+/**
+ * Applies BPE merges to a sequence of symbols
+ * Repeatedly merges the adjacent pair with the lowest rank until no known
+ * pair is left.
+ *
+ * @param symbols - The symbols to merge (modified in place)
+ * @param ranks - Merge key → rank
+ * @returns The merged symbols
+ */
+const applyMerges = (symbols: string[], ranks: ReadonlyMap<string, number>): string[] => {
+  while (symbols.length > 1) {
+    let bestIndex = -1;
+    let bestRank = Infinity;
+
+    for (let index = 0; index < symbols.length - 1; index++) {
+      const rank = ranks.get(toMergeKey(symbols[index], symbols[index + 1]));
+      if (rank !== undefined && rank < bestRank) {
+        bestRank = rank;
+        bestIndex = index;
+      }
+    }
+
+    if (bestIndex === -1) {
+      break;
+    }
+
+    symbols.splice(bestIndex, 2, symbols[bestIndex] + symbols[bestIndex + 1]);
+  }
+
+  return symbols;
+};
+
+/**
+ * Derives the ranked merge table from the bundled vocabulary
+ * Every entry (with and without a leading space, lowercase and capitalized) is
+ * first encoded with the merges learned so far; new merges then join what is
+ * left from left to right. New merges always rank after the existing ones, so
+ * every entry keeps encoding to a single token.
+ *
+ * @param vocabulary - Ranked subwords
+ * @returns Merge key → rank (lower merges first)
+ */
+const buildMergeRanks = (vocabulary: readonly string[]): ReadonlyMap<string, number> => {
+  const ranks = new Map<string, number>();
+
+  for (const entry of vocabulary) {
+    const capitalized = entry.charAt(0).toUpperCase() + entry.slice(1);
+    for (const word of [entry, ` ${entry}`, capitalized, ` ${capitalized}`]) {
+      const [first, ...rest] = applyMerges(Array.from(word), ranks);
+      let merged = first;
+      for (const symbol of rest) {
+        const key = toMergeKey(merged, symbol);
+        if (!ranks.has(key)) {
+          ranks.set(key, ranks.size);
+        }
+        merged += symbol;
+      }
+    }
+  }
+
+  return ranks;
+};
+
+/**
+ * Merge table, built once when the module loads
+ * @constant
+ */
+const MERGE_RANKS = buildMergeRanks(BPE_VOCABULARY);
+
+/**
+ * Memoized encodings of recently seen pre-tokens
+ * @constant
+ */
+const encodingCache = new Map<string, string[]>();
+
+/**
+ * Encodes a single pre-token, starting from its characters
+ * @param preToken - One pre-token
+ * @returns Its tokens
+ */
+const encodePreToken = (preToken: string): string[] => {
+  const cached = encodingCache.get(preToken);
+  if (cached) {
+    return cached;
+  }
+
+  const tokens = applyMerges(Array.from(preToken), MERGE_RANKS);
+
+  if (encodingCache.size >= TOKENIZER_CONFIG.CACHE_SIZE) {
+    encodingCache.clear();
+  }
+  encodingCache.set(preToken, tokens);
+
+  return tokens;
+};
+
+/**
+ * Splits text into tokens
+ * Characters the vocabulary does not cover are one token each, so counts for
+ * unusual scripts are an upper bound rather than an exact match with a
+ * specific model.
+ *
+ * @param text - The text to tokenize
+ * @returns The tokens, in order; joining them gives back the text
+ *
+ * @example
+ * ```typescript
+ * tokenize('Write a story'); // ['Write', ' a', ' story']
+ * ```
+ */
+export const tokenize = (text: string): string[] =>
+  (text.match(PRE_TOKEN_PATTERN) ?? []).flatMap(encodePreToken);
+
+/**
+ * Counts the tokens of a text
+ * @param text - The text to measure
+ * @returns Number of tokens
+ */
+export const countTokens = (text: string): number => tokenize(text).length;
+
+/**
+ * Counts the tokens of a conversation
+ * Each message adds a few tokens for its role and delimiters, like the chat
+ * format of OpenAI models.
+ *
+ * @param messages - The conversation sent to the model
+ * @returns The number of prompt tokens
+ */
+export const countChatTokens = (messages: readonly ChatMessage[]): number =>
+  messages.reduce<number>(
+    (total, message) => total + TOKENIZER_CONFIG.TOKENS_PER_MESSAGE + countTokens(message.content),
+    TOKENIZER_CONFIG.TOKENS_PER_REPLY
+  );
+
+/**
+ * Counts prompt and completion tokens separately
+ *
+ * @param messages - The conversation sent to the model
+ * @param completion - The generated text
+ * @returns The token usage of the generation
+ */
+export const countUsage = (messages: readonly ChatMessage[], completion: string): TokenUsage => {
+  const promptTokens = countChatTokens(messages);
+  const completionTokens = countTokens(completion);
+
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+  };
+};
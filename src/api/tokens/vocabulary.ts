@@ -0,0 +1,56 @@
+/**
+ * @fileoverview Bundled BPE vocabulary
+ * @description Ranked subword list the tokenizer derives its merge table from
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+/**
+ * Subwords known to the tokenizer, most frequent first
+ * Covers common English and Spanish words, stems and affixes plus a few
+ * Markdown and code fragments. Each entry is also learned with a leading
+ * space and capitalized, the way GPT-style tokenizers store word-initial
+ * tokens. The rank of a merge is the position of the first entry that
+ * needs it, so earlier entries win when two merges compete.
+ * @constant
+ */
+export const BPE_VOCABULARY: readonly string[] = [
+  // Very frequent English words
+  'the', 'and', 'to', 'of', 'in', 'is', 'it', 'you', 'that', 'for', 'on', 'with', 'as', 'are',
+  'be', 'this', 'was', 'have', 'or', 'at', 'by', 'not', 'from', 'an', 'can', 'your', 'all',
+  'will', 'we', 'more', 'about', 'what', 'how', 'there', 'which', 'their', 'one', 'they', 'if',
+  'has', 'but', 'do', 'so', 'out', 'up', 'use', 'like', 'new', 'make', 'write', 'give', 'create',
+  'generate', 'explain', 'list', 'story', 'name', 'names', 'email', 'product', 'recipe', 'code',
+  'idea', 'ideas', 'simple', 'short', 'description', 'marketing', 'people', 'time', 'data',
+  // Very frequent Spanish words
+  'de', 'la', 'que', 'el', 'en', 'los', 'las', 'un', 'una', 'por', 'con', 'para', 'del', 'se',
+  'no', 'es', 'al', 'lo', 'como', 'más', 'su', 'sus', 'le', 'ya', 'muy', 'sin', 'sobre', 'este',
+  'esta', 'pero', 'también', 'cuando', 'todo', 'entre', 'hasta', 'desde', 'dame', 'escribe',
+  'crea', 'genera', 'explica', 'lista', 'historia', 'nombre', 'nombres', 'correo', 'producto',
+  'receta', 'código', 'idea', 'personas', 'tiempo', 'datos', 'chicos', 'chicas', 'corto',
+  // English affixes and stems
+  'ing', 'ed', 'er', 'ers', 'es', 'ly', 'tion', 'tions', 'ment', 'ments', 'ness', 'able', 'ible',
+  'ful', 'less', 'ous', 'ive', 'ity', 'al', 'ally', 'ize', 'ise', 'est', 're', 'un', 'pre', 'con',
+  'com', 'pro', 'ex', 'dis', 'inter', 'over', 'under',
+  // Spanish affixes and stems
+  'ción', 'ciones', 'sión', 'mente', 'ado', 'ada', 'ados', 'adas', 'ido', 'ida', 'ar', 'er',
+  'ir', 'ando', 'iendo', 'ente', 'ante', 'dad', 'ismo', 'ista', 'oso', 'osa', 'ito', 'ita',
+  'ero', 'era', 'ía', 'ías', 'os', 'as', 'des',
+  // Frequent letter pairs, so unknown words still compress
+  'th', 'he', 'an', 'in', 'er', 'on', 're', 'ed', 'nd', 'ou', 'en', 'es', 'or', 'ar', 'te', 'ti',
+  'st', 'al', 'is', 'it', 'le', 'ra', 'ro', 'co', 'de', 'la', 'ta', 'to', 'ma', 'na', 'ca', 'ci',
+  'io', 'ia', 'ue', 'qu', 'ch', 'll', 'rr', 'ad', 'do', 'no', 'lo', 'mo', 'po', 'so',
+  'ob', 'ot', 'ap', 'pl', 'li', 'nt', 'ea', 'ai', 'ng', 'ri', 've', 'pa', 'pe', 'ba', 'be',
+  'bo', 'ga', 'ge', 'go', 'mi', 'pi', 'si', 'vi', 'ut', 'ul', 'ol', 'il', 'el', 'us', 'um',
+  'ic', 'id', 'ig', 'im', 'ip', 'ow', 'ay', 'ey', 'ee', 'oo', 'sh', 'wh', 'ck', 'ct', 'pr',
+  'tr', 'br', 'cr', 'gr', 'fr', 'bl', 'cl', 'fl', 'gl', 'sp', 'sc', 'sk', 'sm', 'sn', 'sw',
+  // Markdown and code fragments
+  '**', '```', '//', '/*', '*/', '=>', '===', '!==', '()', '{}', '[]', '();', 'function',
+  'const', 'let', 'return', 'import', 'export', 'def', 'class', 'self', 'print', 'true',
+  'false', 'null', 'string', 'number',
+  // Single characters, so a leading space always merges with them
+  ...'abcdefghijklmnopqrstuvwxyzáéíóúñü',
+  ...'.,:;!?¡¿()[]{}<>=+-*/#"\'`|&%$@_',
+  // Numbers of up to three digits, the longest digit run of a pre-token
+  ...Array.from({ length: 1000 }, (_, number) => String(number)),
+];
@@ -0,0 +1,180 @@
+/**
+ * @fileoverview Request validation
+ * @description Validation rules shared by the client and the local API server
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import type { GenerateTextRequest, ApiError, PromptValidationResult } from '../types/api';
+import type { ChatMessage } from '../types/openai';
+import { isChatMessage, toChatMessages } from './conversation';
+import { getModelLimits, getReservedCompletionTokens } from './tokens/modelLimits';
+import { countChatTokens } from './tokens/tokenizer';
+
+/**
+ * Configuration constants for request validation
+ * The upper bound is not a constant: it is the token budget of the model (see
+ * tokens/modelLimits.ts).
+ */
+export const API_CONFIG = {
+  /** Minimum prompt length required */
+  MIN_PROMPT_LENGTH: 3,
+  /** Maximum number of candidates per request */
+  MAX_CANDIDATES: 5,
+  /** Lowest accepted temperature */
+  MIN_TEMPERATURE: 0,
+  /** Highest accepted temperature */
+  MAX_TEMPERATURE: 1,
+} as const;
+
+/**
+ * Counts the prompt tokens of a request: its conversation (system instruction and
+ * earlier messages, if any) followed by the trimmed prompt, as chat messages
+ *
+ * @param request - The request, or the part of it that is sent as messages
+ * @returns Tokens the request uses before the completion
+ */
+export const countRequestTokens = (
+  request: Pick<GenerateTextRequest, 'prompt' | 'messages'>
+): number =>
+  countChatTokens(toChatMessages({ ...request, prompt: request.prompt.trim() }));
+
+/**
+ * Validates the request payload
+ * The conversation (earlier messages and the prompt) plus the tokens reserved
+ * for the completion (maxLength, or the model's largest output) must fit in
+ * the context window of the model.
+ *
+ * @param request - The request to validate
+ * @param model - Model the request will be sent to; unknown models get conservative limits
+ * @throws ApiError if validation fails
+ */
+export const validateRequest = (request: GenerateTextRequest, model?: string): void => {
+  if (!request.prompt || typeof request.prompt !== 'string') {
+    const error: ApiError = {
+      code: 'INVALID_PROMPT',
+      message: 'El prompt es requerido y debe ser una cadena de texto',
+      status: 400,
+    };
+    throw error;
+  }
+
+  const trimmedPrompt = request.prompt.trim();
+
+  if (trimmedPrompt.length < API_CONFIG.MIN_PROMPT_LENGTH) {
+    const error: ApiError = {
+      code: 'PROMPT_TOO_SHORT',
+      message: `El prompt debe tener al menos ${API_CONFIG.MIN_PROMPT_LENGTH} caracteres`,
+      status: 400,
+    };
+    throw error;
+  }
+
+  if (
+    request.messages !== undefined &&
+    (!Array.isArray(request.messages) || !request.messages.every(isChatMessage))
+  ) {
+    const error: ApiError = {
+      code: 'INVALID_MESSAGES',
+      message: 'El historial debe ser una lista de mensajes con rol y contenido de texto',
+      status: 400,
+    };
+    throw error;
+  }
+
+  if (
+    request.n !== undefined &&
+    (!Number.isInteger(request.n) || request.n < 1 || request.n > API_CONFIG.MAX_CANDIDATES)
+  ) {
+    const error: ApiError = {
+      code: 'INVALID_CANDIDATE_COUNT',
+      message: `El número de candidatos debe ser un entero entre 1 y ${API_CONFIG.MAX_CANDIDATES}`,
+      status: 400,
+    };
+    throw error;
+  }
+
+  if (
+    request.temperature !== undefined &&
+    (typeof request.temperature !== 'number' ||
+      !Number.isFinite(request.temperature) ||
+      request.temperature < API_CONFIG.MIN_TEMPERATURE ||
+      request.temperature > API_CONFIG.MAX_TEMPERATURE)
+  ) {
+    const error: ApiError = {
+      code: 'INVALID_PARAMETERS',
+      message:
+        `La temperatura debe ser un número entre ${API_CONFIG.MIN_TEMPERATURE} ` +
+        `y ${API_CONFIG.MAX_TEMPERATURE}`,
+      status: 400,
+    };
+    throw error;
+  }
+
+  if (
+    request.maxLength !== undefined &&
+    (!Number.isInteger(request.maxLength) || request.maxLength < 1)
+  ) {
+    const error: ApiError = {
+      code: 'INVALID_PARAMETERS',
+      message: 'La longitud máxima debe ser un entero positivo',
+      status: 400,
+    };
+    throw error;
+  }
+
+  if (request.seed !== undefined && !Number.isInteger(request.seed)) {
+    const error: ApiError = {
+      code: 'INVALID_PARAMETERS',
+      message: 'La semilla debe ser un número entero',
+      status: 400,
+    };
+    throw error;
+  }
+
+  const limits = getModelLimits(model);
+  const promptTokens = countRequestTokens(request);
+  const completionTokens = getReservedCompletionTokens(limits, request.maxLength);
+  const excess = promptTokens + completionTokens - limits.contextWindow;
+
+  if (excess > 0) {
+    const error: ApiError = {
+      code: 'CONTEXT_LENGTH_EXCEEDED',
+      message:
+        `El prompt supera en ${excess} tokens el contexto del modelo ` +
+        `(${limits.contextWindow} tokens, ${completionTokens} reservados para la respuesta)`,
+      status: 400,
+      contextLength: {
+        promptTokens,
+        completionTokens,
+        contextWindow: limits.contextWindow,
+        excess,
+      },
+    };
+    throw error;
+  }
+};
+
+/**
+ * Validates a prompt without making an API call
+ * Useful for real-time form validation
+ * 
+ * @param prompt - The prompt to validate
+ * @param model - Model the prompt will be sent to
+ * @param maxLength - Requested maximum length of the answer, in characters
+ * @param messages - Earlier turns of the conversation, if any
+ * @returns Validation result with isValid flag and, when invalid, the ApiError
+ */
+export const validatePrompt = (
+  prompt: string,
+  model?: string,
+  maxLength?: number,
+  messages?: ChatMessage[]
+): PromptValidationResult => {
+  try {
+    validateRequest({ prompt, maxLength, messages }, model);
+    return { isValid: true };
+  } catch (error) {
+    return { isValid: false, error: error as ApiError };
+  }
+};
@@ -0,0 +1,204 @@
+/**
+ * @fileoverview CandidateComparison component for comparing generated candidates
+ * @description Grid of the candidates generated for one prompt, each with its own
+ * metadata and actions to copy it, choose it as the result or discard it
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import React, { useCallback, useState } from 'react';
+import { useI18n } from '../hooks/useI18n';
+import { formatCost } from '../i18n';
+import type { GenerationCandidate } from '../types/api';
+
+/**
+ * Props interface for the CandidateComparison component
+ * @interface CandidateComparisonProps
+ */
+interface CandidateComparisonProps {
+  /** The candidates to compare, in generation order */
+  candidates: GenerationCandidate[];
+  /** Callback when a candidate is chosen as the result */
+  onChoose: (index: number) => void;
+  /** Callback when a candidate is discarded */
+  onDiscard: (index: number) => void;
+}
+
+/**
+ * Feedback of the last copy, shown on the button of the copied candidate
+ * @interface CopyFeedback
+ */
+interface CopyFeedback {
+  index: number;
+  state: 'copied' | 'error';
+}
+
+/**
+ * Shared classes of the small action buttons
+ * @constant
+ */
+const ACTION_BUTTON_CLASSES = `
+  px-2.5
+  py-1
+  text-xs
+  font-medium
+  rounded-lg
+  border
+  border-gray-200
+  dark:border-gray-600
+  text-gray-700
+  dark:text-gray-200
+  hover:bg-gray-100
+  dark:hover:bg-gray-700
+  transition-colors
+  duration-200
+`;
+
+/**
+ * CandidateComparison Component
+ *
+ * Shows the candidates side by side (one column on small screens) with:
+ * - The full text of each candidate, scrollable when long
+ * - Its own token counts, estimated cost, seed and finish reason
+ * - Copy, choose (keeps it and discards the others) and discard buttons
+ *
+ * @param {CandidateComparisonProps} props - Component props
+ * @returns {JSX.Element} The rendered comparison grid
+ *
+ * @example
+ * ```tsx
+ * <CandidateComparison
+ *   candidates={candidates}
+ *   onChoose={chooseCandidate}
+ *   onDiscard={discardCandidate}
+ * />
+ * ```
+ */
+const CandidateComparison: React.FC<CandidateComparisonProps> = ({
+  candidates,
+  onChoose,
+  onDiscard,
+}) => {
+  const { locale, t } = useI18n();
+  const [copyFeedback, setCopyFeedback] = useState<CopyFeedback | null>(null);
+
+  /**
+   * Copies a candidate to the clipboard and shows the outcome for 2 seconds
+   */
+  const handleCopy = useCallback(async (index: number, text: string): Promise<void> => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopyFeedback({ index, state: 'copied' });
+    } catch (error) {
+      console.error('Failed to copy text:', error);
+      setCopyFeedback({ index, state: 'error' });
+    }
+    setTimeout(() => {
+      setCopyFeedback((current) => (current?.index === index ? null : current));
+    }, 2000);
+  }, []);
+
+  return (
+    <ul className="grid gap-4 sm:grid-cols-2" aria-label={t('candidates.label')}>
+      {candidates.map(({ result, metadata }, index) => {
+        const feedback = copyFeedback?.index === index ? copyFeedback.state : null;
+
+        return (
+          <li
+            key={`${index}-${metadata?.seed ?? ''}`}
+            className="
+              flex
+              flex-col
+              rounded-xl
+              border
+              border-gray-200
+              dark:border-gray-700
+              overflow-hidden
+            "
+          >
+            <div className="flex items-center justify-between gap-2 px-3 py-2 bg-gray-50 dark:bg-gray-750 border-b border-gray-200 dark:border-gray-700">
+              <span className="text-sm font-semibold text-gray-800 dark:text-gray-200">
+                {t('candidates.title', { number: index + 1 })}
+              </span>
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                {metadata?.seed !== undefined && t('candidates.seed', { seed: metadata.seed })}
+                {metadata?.finishReason === 'length' && ` • ${t('candidates.truncated')}`}
+              </span>
+            </div>
+
+            <p className="flex-1 max-h-72 overflow-y-auto p-3 text-sm text-gray-700 dark:text-gray-300 leading-relaxed whitespace-pre-wrap">
+              {result}
+            </p>
+
+            <div className="px-3 py-2 border-t border-gray-200 dark:border-gray-700 space-y-2">
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {t('result.stats', { words: result.split(' ').length, characters: result.length })}
+                {metadata?.promptTokens !== undefined &&
+                  metadata.completionTokens !== undefined && (
+                    <>
+                      {' • '}
+                      {t('result.tokens', {
+                        prompt: metadata.promptTokens,
+                        completion: metadata.completionTokens,
+                      })}
+                    </>
+                  )}
+                {metadata?.estimatedCost !== undefined && (
+                  <>
+                    {' • '}
+                    {t('result.cost', { cost: formatCost(locale, metadata.estimatedCost) })}
+                  </>
+                )}
+              </p>
+              <div className="flex flex-wrap gap-1.5">
+                <button
+                  type="button"
+                  onClick={() => void handleCopy(index, result)}
+                  className={`
+                    ${ACTION_BUTTON_CLASSES}
+                    ${feedback === 'copied' ? 'text-green-700 dark:text-green-300 border-green-300' : ''}
+                    ${feedback === 'error' ? 'text-red-600 dark:text-red-400 border-red-300' : ''}
+                  `}
+                >
+                  {feedback === 'copied'
+                    ? t('result.copied')
+                    : feedback === 'error'
+                      ? t('result.copyFailed')
+                      : t('result.copy')}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onChoose(index)}
+                  className="
+                    px-2.5
+                    py-1
+                    text-xs
+                    font-semibold
+                    text-white
+                    bg-gradient-to-r
+                    from-indigo-600
+                    to-purple-600
+                    hover:from-indigo-700
+                    hover:to-purple-700
+                    rounded-lg
+                  "
+                >
+                  {t('candidates.choose')}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onDiscard(index)}
+                  className={ACTION_BUTTON_CLASSES}
+                >
+                  {t('candidates.discard')}
+                </button>
+              </div>
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default CandidateComparison;
@@ -0,0 +1,214 @@
+/**
+ * @fileoverview ChatInput component for the conversation mode
+ * @description Compact follow-up input under the transcript
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import React, { useState, useCallback } from 'react';
+import { useI18n } from '../hooks/useI18n';
+import type { ApiError, PromptValidationResult } from '../types/api';
+
+/**
+ * Props interface for the ChatInput component
+ * @interface ChatInputProps
+ */
+interface ChatInputProps {
+  /** Callback with the trimmed message when it is sent */
+  onSend: (message: string) => void;
+  /** Optional callback to cancel the answer in progress */
+  onStop?: () => void;
+  /** Whether an answer is being generated */
+  isLoading: boolean;
+  /** Optional validation function for the message */
+  validateMessage?: (message: string) => PromptValidationResult;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * ChatInput Component
+ *
+ * A single-row message box that:
+ * - Sends with Enter and inserts a new line with Shift + Enter
+ * - Validates the message against the conversation before sending
+ * - Turns its button into "Stop" while an answer is generated
+ *
+ * @param {ChatInputProps} props - Component props
+ * @returns {JSX.Element} The rendered input
+ *
+ * @example
+ * ```tsx
+ * <ChatInput onSend={send} onStop={abort} isLoading={isLoading} validateMessage={validate} />
+ * ```
+ */
+const ChatInput: React.FC<ChatInputProps> = ({
+  onSend,
+  onStop,
+  isLoading,
+  validateMessage,
+  className = '',
+}) => {
+  const { t, translateError } = useI18n();
+
+  // State for the message being written
+  const [message, setMessage] = useState<string>('');
+
+  // State for validation error, translated when rendered
+  const [validationError, setValidationError] = useState<ApiError | null>(null);
+
+  /**
+   * Validates and sends the message, then clears the input
+   */
+  const send = useCallback((): void => {
+    if (isLoading || !message.trim()) {
+      return;
+    }
+
+    if (validateMessage) {
+      const validation = validateMessage(message);
+      if (!validation.isValid) {
+        setValidationError(validation.error ?? null);
+        return;
+      }
+    }
+
+    setValidationError(null);
+    onSend(message.trim());
+    setMessage('');
+  }, [isLoading, message, onSend, validateMessage]);
+
+  /**
+   * Handles form submission
+   */
+  const handleSubmit = useCallback(
+    (event: React.FormEvent<HTMLFormElement>): void => {
+      event.preventDefault();
+      send();
+    },
+    [send]
+  );
+
+  /**
+   * Handles keyboard shortcuts
+   * Enter sends, Shift + Enter inserts a new line
+   */
+  const handleKeyDown = useCallback(
+    (event: React.KeyboardEvent<HTMLTextAreaElement>): void => {
+      if (event.key === 'Enter' && !event.shiftKey && !event.nativeEvent.isComposing) {
+        event.preventDefault();
+        send();
+      }
+    },
+    [send]
+  );
+
+  return (
+    <form onSubmit={handleSubmit} className={`w-full ${className}`} noValidate>
+      <div
+        className={`
+          flex
+          items-end
+          gap-2
+          p-2
+          rounded-xl
+          border-2
+          transition-all
+          duration-200
+          ${
+            validationError
+              ? 'border-red-400 dark:border-red-500'
+              : 'border-gray-200 dark:border-gray-600 focus-within:border-indigo-500 dark:focus-within:border-indigo-400'
+          }
+          bg-white
+          dark:bg-gray-800
+        `}
+      >
+        <textarea
+          name="message"
+          value={message}
+          onChange={(event) => {
+            setMessage(event.target.value);
+            setValidationError(null);
+          }}
+          onKeyDown={handleKeyDown}
+          placeholder={t('chat.placeholder')}
+          aria-label={t('chat.inputLabel')}
+          aria-invalid={!!validationError}
+          rows={1}
+          className="
+            flex-1
+            max-h-40
+            px-2
+            py-2
+            text-gray-800
+            dark:text-gray-200
+            bg-transparent
+            placeholder-gray-400
+            dark:placeholder-gray-500
+            resize-none
+            focus:outline-none
+          "
+        />
+
+        {isLoading && onStop ? (
+          <button
+            type="button"
+            onClick={onStop}
+            className="
+              px-4
+              py-2
+              text-sm
+              font-semibold
+              text-gray-700
+              dark:text-gray-200
+              bg-gray-100
+              dark:bg-gray-700
+              hover:bg-gray-200
+              dark:hover:bg-gray-600
+              rounded-lg
+              transition-colors
+              duration-200
+            "
+          >
+            {t('chat.stop')}
+          </button>
+        ) : (
+          <button
+            type="submit"
+            disabled={isLoading || !message.trim()}
+            className="
+              px-4
+              py-2
+              text-sm
+              font-semibold
+              text-white
+              bg-gradient-to-r
+              from-indigo-600
+              to-purple-600
+              hover:from-indigo-700
+              hover:to-purple-700
+              rounded-lg
+              transition-all
+              duration-200
+              disabled:opacity-50
+              disabled:cursor-not-allowed
+            "
+          >
+            {t('chat.send')}
+          </button>
+        )}
+      </div>
+
+      {validationError ? (
+        <p className="mt-2 text-sm text-red-500 dark:text-red-400" role="alert">
+          {translateError(validationError)}
+        </p>
+      ) : (
+        <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">{t('chat.hint')}</p>
+      )}
+    </form>
+  );
+};
+
+export default ChatInput;
@@ -0,0 +1,179 @@
+/**
+ * @fileoverview ChatTranscript component for the conversation mode
+ * @description Scrolling list of user and assistant turns, with the answer being streamed
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import React, { useEffect, useRef } from 'react';
+import { useI18n } from '../hooks/useI18n';
+import { formatCost } from '../i18n';
+import type { ChatTurn } from '../types/chat';
+
+/**
+ * Props interface for the ChatTranscript component
+ * @interface ChatTranscriptProps
+ */
+interface ChatTranscriptProps {
+  /** Turns of the conversation, oldest first */
+  turns: ChatTurn[];
+  /** Text of the answer received so far while it is streamed */
+  partial?: string;
+  /** Whether an answer is being generated */
+  isLoading?: boolean;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * ChatTranscript Component
+ *
+ * Renders the conversation as chat bubbles:
+ * - User turns on the right, assistant turns on the left
+ * - Token usage and cost under each answer, when reported
+ * - Unanswered user turns flagged as failed
+ * - The answer in progress with a blinking caret
+ * - Scrolls to the newest message as the conversation grows
+ *
+ * @param {ChatTranscriptProps} props - Component props
+ * @returns {JSX.Element} The rendered transcript
+ *
+ * @example
+ * ```tsx
+ * <ChatTranscript turns={turns} partial={partial} isLoading={isLoading} />
+ * ```
+ */
+const ChatTranscript: React.FC<ChatTranscriptProps> = ({
+  turns,
+  partial = '',
+  isLoading = false,
+  className = '',
+}) => {
+  const { locale, t } = useI18n();
+
+  // Ref to the scrolling container
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  /**
+   * Keeps the newest message in view
+   */
+  useEffect(() => {
+    const container = scrollRef.current;
+    if (container) {
+      container.scrollTop = container.scrollHeight;
+    }
+  }, [turns, partial, isLoading]);
+
+  return (
+    <div
+      ref={scrollRef}
+      className={`
+        max-h-[28rem]
+        overflow-y-auto
+        flex
+        flex-col
+        gap-4
+        pr-1
+        ${className}
+      `}
+      role="log"
+      aria-live="polite"
+      aria-label={t('chat.transcriptLabel')}
+    >
+      {turns.length === 0 && !isLoading && (
+        <p className="py-8 text-center text-sm text-gray-500 dark:text-gray-400">
+          {t('chat.empty')}
+        </p>
+      )}
+
+      {turns.map((turn) => {
+        const isUser = turn.role === 'user';
+        const metadata = turn.metadata;
+
+        return (
+          <div
+            key={turn.id}
+            className={`flex flex-col ${isUser ? 'items-end' : 'items-start'}`}
+          >
+            <div
+              className={`
+                max-w-[85%]
+                px-4
+                py-3
+                rounded-2xl
+                whitespace-pre-wrap
+                leading-relaxed
+                ${
+                  isUser
+                    ? 'bg-indigo-600 text-white rounded-br-sm'
+                    : 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200 rounded-bl-sm'
+                }
+                ${turn.failed ? 'opacity-60' : ''}
+              `}
+            >
+              {turn.content}
+            </div>
+
+            {turn.failed && (
+              <span className="mt-1 text-xs text-red-600 dark:text-red-400">
+                {t('chat.failed')}
+              </span>
+            )}
+
+            {metadata?.promptTokens !== undefined && metadata.completionTokens !== undefined && (
+              <span className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                {t('result.tokens', {
+                  prompt: metadata.promptTokens,
+                  completion: metadata.completionTokens,
+                })}
+                {metadata.estimatedCost !== undefined &&
+                  ` • ${t('result.cost', { cost: formatCost(locale, metadata.estimatedCost) })}`}
+              </span>
+            )}
+          </div>
+        );
+      })}
+
+      {/* Answer in progress */}
+      {isLoading && (
+        <div className="flex flex-col items-start">
+          <div
+            className="
+              max-w-[85%]
+              px-4
+              py-3
+              rounded-2xl
+              rounded-bl-sm
+              whitespace-pre-wrap
+              leading-relaxed
+              bg-gray-100
+              text-gray-800
+              dark:bg-gray-700
+              dark:text-gray-200
+            "
+            aria-busy="true"
+          >
+            {partial || (
+              <span className="text-gray-500 dark:text-gray-400">{t('chat.thinking')}</span>
+            )}
+            <span
+              className="
+                inline-block
+                w-2
+                h-5
+                ml-0.5
+                align-text-bottom
+                bg-indigo-500
+                dark:bg-indigo-400
+                animate-pulse
+              "
+              aria-hidden="true"
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChatTranscript;
@@ -0,0 +1,186 @@
+/**
+ * @fileoverview CodeBlock component for fenced code in results
+ * @description Syntax-highlighted code block with its language, a copy button and a
+ * download button
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import React, { useCallback, useMemo, useState } from 'react';
+import { useI18n } from '../hooks/useI18n';
+import { guessLanguage, highlightCode, LANGUAGES, resolveLanguage } from '../highlight';
+import type { TokenKind } from '../types/highlight';
+
+/**
+ * Props interface for the CodeBlock component
+ * @interface CodeBlockProps
+ */
+interface CodeBlockProps {
+  /** The code */
+  code: string;
+  /** Language tag of the fence, null when the fence has none */
+  language: string | null;
+}
+
+/**
+ * Copy button states
+ * @type CopyState
+ */
+type CopyState = 'idle' | 'copied' | 'error';
+
+/**
+ * Base name of downloaded snippets
+ * @constant
+ */
+const DOWNLOAD_BASE_NAME = 'snippet';
+
+/**
+ * Color of each kind of token, on the dark background of the block
+ * @constant
+ */
+const TOKEN_CLASSES: Record<TokenKind, string> = {
+  plain: '',
+  comment: 'text-gray-500 italic',
+  keyword: 'text-purple-300',
+  builtin: 'text-amber-300',
+  string: 'text-green-300',
+  number: 'text-orange-300',
+  function: 'text-sky-300',
+  property: 'text-cyan-300',
+  variable: 'text-pink-300',
+  operator: 'text-gray-300',
+  punctuation: 'text-gray-400',
+  tag: 'text-rose-300',
+  attribute: 'text-yellow-200',
+};
+
+/**
+ * Shared classes of the header buttons
+ * @constant
+ */
+const HEADER_BUTTON_CLASSES = `
+  px-2
+  py-0.5
+  rounded
+  text-gray-300
+  hover:text-white
+  hover:bg-gray-700
+  transition-colors
+  duration-200
+`;
+
+/**
+ * Starts the download of a text file
+ *
+ * @param text - File contents
+ * @param fileName - Suggested file name
+ * @param mimeType - MIME type of the file
+ */
+const downloadText = (text: string, fileName: string, mimeType: string): void => {
+  const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * CodeBlock Component
+ *
+ * Renders a fenced code block:
+ * - Highlights JavaScript, TypeScript, Python, JSON, SQL, Bash and HTML offline
+ * - Guesses the language when the fence has no tag, and says it was detected
+ * - Shows other tagged languages, and code it cannot guess, without colors
+ * - Copies the code, and downloads it as a file with the extension of its language
+ *
+ * @param {CodeBlockProps} props - Component props
+ * @returns {JSX.Element} The rendered code block
+ *
+ * @example
+ * ```tsx
+ * <CodeBlock code={'print("Hi")'} language="python" />
+ * ```
+ */
+const CodeBlock: React.FC<CodeBlockProps> = ({ code, language }) => {
+  const { t } = useI18n();
+  const [copyState, setCopyState] = useState<CopyState>('idle');
+
+  // A tag the highlighter does not know is kept as the label, without guessing
+  const resolved = useMemo(
+    () => (language ? resolveLanguage(language) : guessLanguage(code)),
+    [code, language]
+  );
+  const tokens = useMemo(() => (resolved ? highlightCode(code, resolved) : null), [code, resolved]);
+
+  const definition = resolved ? LANGUAGES[resolved] : null;
+  const label = definition
+    ? language
+      ? definition.label
+      : t('code.detected', { language: definition.label })
+    : (language ?? t('code.plain'));
+  const fileName = `${DOWNLOAD_BASE_NAME}.${definition?.extension ?? 'txt'}`;
+
+  /**
+   * Copies the code, with feedback on the button
+   */
+  const handleCopy = useCallback(async (): Promise<void> => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopyState('copied');
+    } catch (error) {
+      console.error('Failed to copy code:', error);
+      setCopyState('error');
+    }
+    setTimeout(() => {
+      setCopyState('idle');
+    }, 2000);
+  }, [code]);
+
+  return (
+    <div className="rounded-lg overflow-hidden bg-gray-900 text-sm">
+      <div className="flex items-center justify-between gap-2 px-3 py-1.5 bg-gray-800 text-xs">
+        <span className="text-gray-400 font-medium">{label}</span>
+        <div className="flex items-center gap-1">
+          <button
+            type="button"
+            onClick={() => void handleCopy()}
+            className={HEADER_BUTTON_CLASSES}
+            aria-label={t('code.copyLabel', { language: label })}
+          >
+            {copyState === 'copied'
+              ? t('result.copied')
+              : copyState === 'error'
+                ? t('result.copyFailed')
+                : t('result.copy')}
+          </button>
+          <button
+            type="button"
+            onClick={() => downloadText(code, fileName, definition?.mimeType ?? 'text/plain')}
+            className={HEADER_BUTTON_CLASSES}
+            title={t('code.downloadLabel', { fileName })}
+          >
+            {t('code.download')}
+          </button>
+        </div>
+      </div>
+      <pre className="p-4 overflow-x-auto text-gray-100 font-mono leading-relaxed">
+        <code>
+          {tokens
+            ? tokens.map((token, index) =>
+                token.kind === 'plain' ? (
+                  <React.Fragment key={index}>{token.text}</React.Fragment>
+                ) : (
+                  <span key={index} className={TOKEN_CLASSES[token.kind]}>
+                    {token.text}
+                  </span>
+                )
+              )
+            : code}
+        </code>
+      </pre>
+    </div>
+  );
+};
+
+export default CodeBlock;
@@ -0,0 +1,369 @@
+/**
+ * @fileoverview CompareDialog component for diffing two generations
+ * @description Dialog to pick any two results, from the current session or the stored
+ * history, and show their word-level diff
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import DiffView from './DiffView';
+import { useHistory } from '../hooks/useHistory';
+import { useI18n } from '../hooks/useI18n';
+import { formatDateTime } from '../i18n';
+import { getVersionLabel } from '../versions';
+import type { CompareTarget, DiffSource } from '../types/diff';
+import type { HistoryEntry } from '../types/history';
+import type { VersionTree } from '../types/versions';
+
+/**
+ * Props interface for the CompareDialog component
+ * @interface CompareDialogProps
+ */
+interface CompareDialogProps {
+  /** Versions generated in the current session for the current prompt */
+  versionTree: VersionTree | null;
+  /** Result selected as the first (older) side when the dialog opens */
+  initialBefore?: CompareTarget | null;
+  /** Result selected as the second (newer) side when the dialog opens */
+  initialAfter?: CompareTarget | null;
+  /** Callback when the dialog is closed */
+  onClose: () => void;
+}
+
+/**
+ * Which side of the comparison a picker sets
+ * @type CompareSide
+ */
+type CompareSide = 'before' | 'after';
+
+/**
+ * Longest prompt excerpt shown in a picker option
+ * @constant
+ */
+const MAX_OPTION_PROMPT_LENGTH = 60;
+
+/**
+ * Shortens a prompt for a picker option
+ *
+ * @param prompt - The prompt
+ * @returns The prompt, cut with an ellipsis when too long
+ */
+const toExcerpt = (prompt: string): string =>
+  prompt.length > MAX_OPTION_PROMPT_LENGTH
+    ? `${prompt.slice(0, MAX_OPTION_PROMPT_LENGTH - 1).trimEnd()}…`
+    : prompt;
+
+/**
+ * CompareDialog Component
+ *
+ * A modal dialog that:
+ * - Picks the two texts to compare among the session results and the stored history
+ * - Searches the history to find older results
+ * - Swaps the two sides
+ * - Shows the word diff in the inline or split layout
+ * - Closes with Escape or the close button
+ *
+ * @param {CompareDialogProps} props - Component props
+ * @returns {JSX.Element} The rendered dialog
+ *
+ * @example
+ * ```tsx
+ * <CompareDialog
+ *   versionTree={versionTree}
+ *   initialAfter={{ kind: 'version', versionId: currentVersionId }}
+ *   onClose={closeCompare}
+ * />
+ * ```
+ */
+const CompareDialog: React.FC<CompareDialogProps> = ({
+  versionTree,
+  initialBefore = null,
+  initialAfter = null,
+  onClose,
+}) => {
+  const { locale, t } = useI18n();
+  const { entries, search, setSearch, hasMore, loadMore, isAvailable } = useHistory();
+
+  /**
+   * Versions of the session as comparison sources
+   */
+  const sessionSources = useMemo((): DiffSource[] => {
+    if (!versionTree) {
+      return [];
+    }
+    return versionTree.versions.map((version) => {
+      const label = t('versions.label', { label: getVersionLabel(versionTree, version.id) });
+      return {
+        id: `version:${version.id}`,
+        label: `${label} · ${toExcerpt(version.prompt)}`,
+        text: version.result,
+      };
+    });
+  }, [versionTree, t]);
+
+  /**
+   * Turns a history entry into a comparison source
+   */
+  const toHistorySource = useCallback(
+    (entry: HistoryEntry): DiffSource => ({
+      id: `history:${entry.id}`,
+      label: `${formatDateTime(locale, entry.createdAt)} · ${toExcerpt(entry.prompt)}`,
+      text: entry.result,
+    }),
+    [locale]
+  );
+
+  /**
+   * History entries as comparison sources
+   */
+  const historySources = useMemo(
+    (): DiffSource[] => entries.map(toHistorySource),
+    [entries, toHistorySource]
+  );
+
+  /**
+   * Finds the source of a preselected result
+   */
+  const resolveTarget = (target: CompareTarget | null): DiffSource | null => {
+    if (!target) {
+      return null;
+    }
+    if (target.kind === 'history') {
+      return toHistorySource(target.entry);
+    }
+    return sessionSources.find((source) => source.id === `version:${target.versionId}`) ?? null;
+  };
+
+  const [before, setBefore] = useState<DiffSource | null>(() => resolveTarget(initialBefore));
+  const [after, setAfter] = useState<DiffSource | null>(() => resolveTarget(initialAfter));
+
+  /**
+   * Closes the dialog with Escape
+   */
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent): void => {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  /**
+   * Sets one side of the comparison from a picker value
+   */
+  const handlePick = (side: CompareSide, id: string): void => {
+    // The selected texts stay listed even when a search hides them from the history
+    const source = [...sessionSources, ...historySources, before, after].find(
+      (candidate) => candidate?.id === id
+    );
+    if (side === 'before') {
+      setBefore(source ?? null);
+    } else {
+      setAfter(source ?? null);
+    }
+  };
+
+  /**
+   * Renders the picker of one side
+   */
+  const renderPicker = (side: CompareSide, selected: DiffSource | null): React.ReactNode => {
+    const isListed = (source: DiffSource | null): boolean =>
+      !!source &&
+      [...sessionSources, ...historySources].some((candidate) => candidate.id === source.id);
+
+    return (
+      <div className="flex-1 min-w-0">
+        <label
+          htmlFor={`compare-${side}`}
+          className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1"
+        >
+          {t(`compare.${side}`)}
+        </label>
+        <select
+          id={`compare-${side}`}
+          value={selected?.id ?? ''}
+          onChange={(event) => handlePick(side, event.target.value)}
+          className="
+            w-full
+            px-2
+            py-1.5
+            text-sm
+            rounded-lg
+            border-2
+            border-gray-200
+            dark:border-gray-600
+            focus:border-indigo-500
+            focus:outline-none
+            bg-white
+            dark:bg-gray-800
+            text-gray-800
+            dark:text-gray-200
+          "
+        >
+          <option value="">{t('compare.pick')}</option>
+          {selected && !isListed(selected) && <option value={selected.id}>{selected.label}</option>}
+          {sessionSources.length > 0 && (
+            <optgroup label={t('compare.session')}>
+              {sessionSources.map((source) => (
+                <option key={source.id} value={source.id}>
+                  {source.label}
+                </option>
+              ))}
+            </optgroup>
+          )}
+          {historySources.length > 0 && (
+            <optgroup label={t('compare.history')}>
+              {historySources.map((source) => (
+                <option key={source.id} value={source.id}>
+                  {source.label}
+                </option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+      </div>
+    );
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-30 flex items-center justify-center p-4 bg-gray-900/50"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="compare-dialog-title"
+        onClick={(event) => event.stopPropagation()}
+        className="
+          w-full
+          max-w-4xl
+          max-h-[90vh]
+          overflow-y-auto
+          bg-white
+          dark:bg-gray-800
+          rounded-2xl
+          shadow-xl
+          border
+          border-gray-200
+          dark:border-gray-700
+          p-6
+          space-y-4
+        "
+      >
+        {/* Header */}
+        <div className="flex items-start justify-between gap-4">
+          <h2
+            id="compare-dialog-title"
+            className="text-lg font-semibold text-gray-900 dark:text-white"
+          >
+            {t('compare.title')}
+          </h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-1 text-gray-500 hover:text-gray-800 dark:hover:text-gray-200"
+            aria-label={t('compare.close')}
+          >
+            <svg
+              className="w-5 h-5"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+              aria-hidden="true"
+            >
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* History search */}
+        {isAvailable && (
+          <div className="flex items-center gap-2">
+            <input
+              type="search"
+              value={search}
+              onChange={(event) => setSearch(event.target.value)}
+              placeholder={t('history.searchPlaceholder')}
+              aria-label={t('history.searchLabel')}
+              className="
+                flex-1
+                px-3
+                py-1.5
+                text-sm
+                rounded-lg
+                border-2
+                border-gray-200
+                dark:border-gray-600
+                focus:border-indigo-500
+                focus:outline-none
+                bg-white
+                dark:bg-gray-800
+                text-gray-800
+                dark:text-gray-200
+              "
+            />
+            {hasMore && (
+              <button
+                type="button"
+                onClick={() => void loadMore()}
+                className="text-xs font-medium text-indigo-600 dark:text-indigo-300 hover:underline"
+              >
+                {t('history.loadMore')}
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* Pickers */}
+        <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+          {renderPicker('before', before)}
+          <button
+            type="button"
+            onClick={() => {
+              setBefore(after);
+              setAfter(before);
+            }}
+            className="
+              self-center
+              sm:self-end
+              px-2.5
+              py-1.5
+              text-xs
+              font-medium
+              rounded-lg
+              border
+              border-gray-200
+              dark:border-gray-600
+              text-gray-700
+              dark:text-gray-200
+              hover:bg-gray-100
+              dark:hover:bg-gray-700
+            "
+            aria-label={t('compare.swap')}
+          >
+            ⇄
+          </button>
+          {renderPicker('after', after)}
+        </div>
+
+        {/* Diff */}
+        {before && after ? (
+          <DiffView
+            before={before.text}
+            after={after.text}
+            beforeLabel={before.label}
+            afterLabel={after.label}
+          />
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400">{t('compare.empty')}</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CompareDialog;
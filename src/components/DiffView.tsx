@@ -0,0 +1,189 @@
+/**
+ * @fileoverview DiffView component for comparing two texts
+ * @description Word-level diff of two texts with additions and removals highlighted,
+ * in an inline or a split layout
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import React, { useMemo, useState } from 'react';
+import { diffWords, getDiffStats } from '../diff';
+import { useI18n } from '../hooks/useI18n';
+import type { DiffLayout, DiffSegment } from '../types/diff';
+
+/**
+ * Props interface for the DiffView component
+ * @interface DiffViewProps
+ */
+interface DiffViewProps {
+  /** The first (older) text */
+  before: string;
+  /** The second (newer) text */
+  after: string;
+  /** Heading of the first text in the split layout */
+  beforeLabel: string;
+  /** Heading of the second text in the split layout */
+  afterLabel: string;
+  /** Layout shown first */
+  initialLayout?: DiffLayout;
+}
+
+/**
+ * Classes of each kind of segment
+ * @constant
+ */
+const SEGMENT_CLASSES: Record<DiffSegment['type'], string> = {
+  equal: '',
+  added: 'bg-green-100 text-green-900 dark:bg-green-900/40 dark:text-green-200 rounded-sm',
+  removed:
+    'bg-red-100 text-red-900 line-through decoration-red-400 dark:bg-red-900/40 dark:text-red-200 rounded-sm',
+};
+
+/**
+ * Classes of the text panes
+ * @constant
+ */
+const PANE_CLASSES = `
+  p-3
+  rounded-lg
+  border
+  border-gray-200
+  dark:border-gray-700
+  text-sm
+  text-gray-700
+  dark:text-gray-300
+  leading-relaxed
+  whitespace-pre-wrap
+  break-words
+`;
+
+/**
+ * Renders diff segments, added and removed text marked up with <ins> and <del>
+ *
+ * @param segments - The segments to render
+ * @returns The rendered segments
+ */
+const renderSegments = (segments: DiffSegment[]): React.ReactNode =>
+  segments.map(({ type, text }, index) => {
+    if (type === 'added') {
+      return (
+        <ins key={index} className={`no-underline ${SEGMENT_CLASSES.added}`}>
+          {text}
+        </ins>
+      );
+    }
+    if (type === 'removed') {
+      return (
+        <del key={index} className={SEGMENT_CLASSES.removed}>
+          {text}
+        </del>
+      );
+    }
+    return <span key={index}>{text}</span>;
+  });
+
+/**
+ * DiffView Component
+ *
+ * Shows the word-level changes between two texts:
+ * - Inline: one text with removed words struck through and added words highlighted
+ * - Split: the two texts side by side, removals marked on the left and additions on the right
+ * - Counts of added and removed words
+ *
+ * @param {DiffViewProps} props - Component props
+ * @returns {JSX.Element} The rendered diff
+ *
+ * @example
+ * ```tsx
+ * <DiffView before={original} after={edited} beforeLabel="Original" afterLabel="Edited" />
+ * ```
+ */
+const DiffView: React.FC<DiffViewProps> = ({
+  before,
+  after,
+  beforeLabel,
+  afterLabel,
+  initialLayout = 'inline',
+}) => {
+  const { t } = useI18n();
+  const [layout, setLayout] = useState<DiffLayout>(initialLayout);
+
+  const segments = useMemo(() => diffWords(before, after), [before, after]);
+  const stats = useMemo(() => getDiffStats(segments), [segments]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-xs text-gray-600 dark:text-gray-400">
+          {stats.added === 0 && stats.removed === 0 && before === after ? (
+            t('diff.identical')
+          ) : (
+            <>
+              <span className="text-green-700 dark:text-green-300">
+                {t('diff.added', { count: stats.added })}
+              </span>
+              {' • '}
+              <span className="text-red-700 dark:text-red-300">
+                {t('diff.removed', { count: stats.removed })}
+              </span>
+            </>
+          )}
+        </p>
+        <div
+          className="inline-flex rounded-lg border border-gray-200 dark:border-gray-600 overflow-hidden"
+          role="group"
+          aria-label={t('diff.layout')}
+        >
+          {(['inline', 'split'] as const).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setLayout(option)}
+              aria-pressed={layout === option}
+              className={`
+                px-2.5
+                py-1
+                text-xs
+                font-medium
+                transition-colors
+                duration-200
+                ${
+                  layout === option
+                    ? 'bg-indigo-600 text-white'
+                    : 'text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700'
+                }
+              `}
+            >
+              {t(`diff.layouts.${option}`)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {layout === 'inline' ? (
+        <div className={PANE_CLASSES}>{renderSegments(segments)}</div>
+      ) : (
+        <div className="grid gap-3 sm:grid-cols-2">
+          <div>
+            <p className="mb-1 text-xs font-medium text-gray-500 dark:text-gray-400 truncate">
+              {beforeLabel}
+            </p>
+            <div className={PANE_CLASSES}>
+              {renderSegments(segments.filter((segment) => segment.type !== 'added'))}
+            </div>
+          </div>
+          <div>
+            <p className="mb-1 text-xs font-medium text-gray-500 dark:text-gray-400 truncate">
+              {afterLabel}
+            </p>
+            <div className={PANE_CLASSES}>
+              {renderSegments(segments.filter((segment) => segment.type !== 'removed'))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DiffView;
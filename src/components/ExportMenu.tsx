@@ -0,0 +1,208 @@
+/**
+ * @fileoverview ExportMenu component for downloading a result
+ * @description A menu button that downloads the result as Markdown, plain text, HTML, JSON or
+ * a Word document
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useI18n } from '../hooks/useI18n';
+import { EXPORT_FORMATS, exportResult } from '../export';
+import type { ExportedFile, ExportFormat, ExportSource } from '../types/export';
+
+/**
+ * Props interface for the ExportMenu component
+ * @interface ExportMenuProps
+ */
+interface ExportMenuProps {
+  /** The result to export, with its prompt, parameters and metadata */
+  source: ExportSource;
+  /** Whether the menu button is disabled */
+  disabled?: boolean;
+}
+
+/**
+ * Starts the download of an exported file
+ *
+ * @param file - The file
+ */
+const downloadFile = ({ data, fileName, mimeType }: ExportedFile): void => {
+  const url = URL.createObjectURL(new Blob([data], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * ExportMenu Component
+ *
+ * Lists the export formats under a button:
+ * - Markdown (.md) and plain text (.txt) with the text of the result
+ * - A standalone, styled web page (.html) with the prompt and the rendered result
+ * - JSON (.json) with the prompt, the parameters and the generation metadata
+ * - A Word document (.docx), built in the browser
+ *
+ * Files are named after the prompt and the date of the result. The menu closes after a
+ * download, on Escape and on a click outside it.
+ *
+ * @param {ExportMenuProps} props - Component props
+ * @returns {JSX.Element} The export menu
+ *
+ * @example
+ * ```tsx
+ * <ExportMenu source={{ ...version, result: text }} />
+ * ```
+ */
+const ExportMenu: React.FC<ExportMenuProps> = ({ source, disabled = false }) => {
+  const { locale, t } = useI18n();
+  const [isOpen, setOpen] = useState<boolean>(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const buttonRef = useRef<HTMLButtonElement>(null);
+
+  /**
+   * Closes the menu on Escape and on clicks outside it
+   */
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+    const handleKeyDown = (event: KeyboardEvent): void => {
+      if (event.key === 'Escape') {
+        setOpen(false);
+        buttonRef.current?.focus();
+      }
+    };
+    const handleMouseDown = (event: MouseEvent): void => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('mousedown', handleMouseDown);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('mousedown', handleMouseDown);
+    };
+  }, [isOpen]);
+
+  /**
+   * Downloads the result in a format and closes the menu
+   */
+  const handleExport = useCallback(
+    (format: ExportFormat): void => {
+      setOpen(false);
+      try {
+        downloadFile(exportResult(source, format, locale));
+      } catch (error) {
+        console.error('Failed to export result:', error);
+      }
+    },
+    [source, locale]
+  );
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        ref={buttonRef}
+        type="button"
+        onClick={() => setOpen((open) => !open)}
+        disabled={disabled}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        aria-label={t('export.label')}
+        className="
+          flex
+          items-center
+          gap-1.5
+          px-3
+          py-1.5
+          text-sm
+          font-medium
+          text-gray-700
+          dark:text-gray-200
+          bg-white
+          dark:bg-gray-600
+          hover:bg-gray-100
+          dark:hover:bg-gray-500
+          rounded-lg
+          border
+          border-gray-200
+          dark:border-gray-500
+          transition-colors
+          duration-200
+          disabled:opacity-50
+          disabled:cursor-not-allowed
+        "
+      >
+        <svg
+          className="w-4 h-4"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+          aria-hidden="true"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4"
+          />
+        </svg>
+        <span>{t('export.button')}</span>
+      </button>
+
+      {isOpen && (
+        <div
+          role="menu"
+          aria-label={t('export.label')}
+          className="
+            absolute
+            right-0
+            z-20
+            mt-1
+            w-64
+            py-1
+            bg-white
+            dark:bg-gray-700
+            rounded-lg
+            border
+            border-gray-200
+            dark:border-gray-600
+            shadow-lg
+          "
+        >
+          {EXPORT_FORMATS.map(({ format }) => (
+            <button
+              key={format}
+              type="button"
+              role="menuitem"
+              onClick={() => handleExport(format)}
+              className="
+                block
+                w-full
+                px-4
+                py-2
+                text-left
+                text-sm
+                text-gray-700
+                dark:text-gray-200
+                hover:bg-gray-100
+                dark:hover:bg-gray-600
+                focus:outline-none
+                focus:bg-gray-100
+                dark:focus:bg-gray-600
+              "
+            >
+              {t(`export.formats.${format}`)}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -5,8 +5,18 @@
  * @version 1.0.0
  */
 
-import React, { useState, useCallback, useRef, useEffect } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { InlineLoader } from './Loader';
+import PromptTemplateLibrary from './PromptTemplateLibrary';
+import { withSystemInstruction } from '../api/conversation';
+import { createApiError } from '../api/errors';
+import { getPromptTokenBudget } from '../api/tokens/modelLimits';
+import { API_CONFIG, countRequestTokens } from '../api/validation';
+import { estimateCost } from '../api/tokens/pricing';
+import { useI18n } from '../hooks/useI18n';
+import { formatCost } from '../i18n';
+import type { ApiError, PromptValidationResult } from '../types/api';
+import type { CounterMode } from '../types/tokens';
 
 /**
  * Props interface for the GeneratorForm component
@@ -18,31 +28,30 @@ interface GeneratorFormProps {
   /** Whether the form is currently in loading state */
   isLoading: boolean;
   /** Optional validation function for the prompt */
-  validatePrompt?: (prompt: string) => { isValid: boolean; error?: string };
+  validatePrompt?: (prompt: string) => PromptValidationResult;
+  /** Model the prompt will be sent to, used to price it in token mode */
+  model?: string;
+  /** System instruction sent before the prompt (the active persona), counted in the budget */
+  systemInstruction?: string;
+  /** Number of candidates generated per submission */
+  candidateCount?: number;
+  /** Optional callback to change the number of candidates; shows the selector when set */
+  onCandidateCountChange?: (count: number) => void;
   /** Optional placeholder text for the textarea */
   placeholder?: string;
   /** Additional CSS classes */
   className?: string;
 }
 
-/**
- * Example prompts to help users get started
- * @constant
- */
-const EXAMPLE_PROMPTS = [
-  'Write a creative story about a robot learning to paint',
-  'Explain quantum computing in simple terms',
-  'Generate a technical specification for a REST API',
-  'Create a marketing tagline for an eco-friendly product',
-];
-
 /**
  * GeneratorForm Component
  * 
  * A professional form component for AI text generation that includes:
- * - Textarea with character count
+ * - Textarea with a character or token count (click the counter to switch),
+ *   colored as the prompt approaches the model's token budget
  * - Real-time validation
- * - Example prompts for inspiration
+ * - A prompt template library with a variables form and a preview of the final prompt
+ * - A selector for the number of candidates to generate and compare
  * - Loading state handling
  * - Keyboard shortcuts (Ctrl/Cmd + Enter to submit)
  * 
@@ -62,20 +71,29 @@ const GeneratorForm: React.FC<GeneratorFormProps> = ({
   onSubmit,
   isLoading,
   validatePrompt,
-  placeholder = 'Enter your prompt here... Be as specific as possible for better results.',
+  model,
+  systemInstruction,
+  candidateCount = 1,
+  onCandidateCountChange,
+  placeholder,
   className = '',
 }) => {
+  const { locale, t, translateError } = useI18n();
+
   // State for the prompt input
   const [prompt, setPrompt] = useState<string>('');
   
-  // State for validation error
-  const [validationError, setValidationError] = useState<string | null>(null);
+  // State for validation error, translated when rendered
+  const [validationError, setValidationError] = useState<ApiError | null>(null);
+
+  // What the counter under the textarea measures
+  const [counterMode, setCounterMode] = useState<CounterMode>('characters');
   
   // Ref for the textarea element
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
-  // Character limit for the prompt
-  const MAX_CHARACTERS = 2000;
+  // Prompt token budget of the model, from the shared model-limits registry
+  const tokenBudget = useMemo(() => getPromptTokenBudget(model), [model]);
 
   /**
    * Handles changes to the textarea input
@@ -84,11 +102,6 @@ const GeneratorForm: React.FC<GeneratorFormProps> = ({
   const handleChange = useCallback(
     (event: React.ChangeEvent<HTMLTextAreaElement>): void => {
       const value = event.target.value;
-      
-      // Enforce character limit
-      if (value.length > MAX_CHARACTERS) {
-        return;
-      }
 
       setPrompt(value);
 
@@ -112,14 +125,16 @@ const GeneratorForm: React.FC<GeneratorFormProps> = ({
       if (validatePrompt) {
         const validation = validatePrompt(prompt);
         if (!validation.isValid) {
-          setValidationError(validation.error || 'Invalid prompt');
+          setValidationError(
+            validation.error ?? createApiError('INVALID_PROMPT', 'Prompt inválido', 400)
+          );
           return;
         }
       }
 
       // Basic validation if no custom validator provided
       if (!prompt.trim()) {
-        setValidationError('Please enter a prompt');
+        setValidationError(createApiError('INVALID_PROMPT', 'El prompt es requerido', 400));
         return;
       }
 
@@ -150,15 +165,22 @@ const GeneratorForm: React.FC<GeneratorFormProps> = ({
   );
 
   /**
-   * Handles clicking on an example prompt
+   * Handles using the final prompt of a template
    * Sets the prompt and focuses the textarea
    */
-  const handleExampleClick = useCallback((example: string): void => {
-    setPrompt(example);
+  const handleTemplateUse = useCallback((templatePrompt: string): void => {
+    setPrompt(templatePrompt);
     setValidationError(null);
     textareaRef.current?.focus();
   }, []);
 
+  /**
+   * Switches the counter between characters and tokens
+   */
+  const handleCounterToggle = useCallback((): void => {
+    setCounterMode((mode) => (mode === 'characters' ? 'tokens' : 'characters'));
+  }, []);
+
   /**
    * Auto-resize textarea based on content
    */
@@ -170,9 +192,23 @@ const GeneratorForm: React.FC<GeneratorFormProps> = ({
     }
   }, [prompt]);
 
-  // Calculate character count percentage for visual indicator
-  const characterPercentage = (prompt.length / MAX_CHARACTERS) * 100;
-  const isNearLimit = characterPercentage > 80;
+  // Calculate token budget percentage for visual indicator, counting the prompt
+  // (after the system instruction) with the same function as the request validation
+  const promptTokens = useMemo(
+    () =>
+      prompt.trim()
+        ? countRequestTokens({ prompt, messages: withSystemInstruction([], systemInstruction) })
+        : 0,
+    [prompt, systemInstruction]
+  );
+  const budgetPercentage = tokenBudget > 0 ? (promptTokens / tokenBudget) * 100 : 100;
+  const isOverLimit = budgetPercentage > 100;
+  const isNearLimit = budgetPercentage > 80;
+
+  const promptCost =
+    counterMode === 'tokens' && model
+      ? estimateCost(model, { promptTokens, completionTokens: 0 })
+      : null;
 
   return (
     <form
@@ -186,7 +222,7 @@ const GeneratorForm: React.FC<GeneratorFormProps> = ({
           htmlFor="prompt-input"
           className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
         >
-          Your Prompt
+          {t('form.label')}
         </label>
         
         <div
@@ -214,7 +250,7 @@ const GeneratorForm: React.FC<GeneratorFormProps> = ({
             value={prompt}
             onChange={handleChange}
             onKeyDown={handleKeyDown}
-            placeholder={placeholder}
+            placeholder={placeholder ?? t('form.placeholder')}
             disabled={isLoading}
             rows={4}
             className={`
@@ -236,8 +272,15 @@ const GeneratorForm: React.FC<GeneratorFormProps> = ({
             aria-invalid={!!validationError}
           />
 
-          {/* Character count indicator */}
-          <div
+          {/* Character / token count indicator, click to switch */}
+          <button
+            type="button"
+            onClick={handleCounterToggle}
+            title={
+              counterMode === 'characters'
+                ? t('form.counter.showTokens')
+                : t('form.counter.showCharacters')
+            }
             className={`
               absolute
               bottom-2
@@ -245,15 +288,27 @@ const GeneratorForm: React.FC<GeneratorFormProps> = ({
               text-xs
               font-medium
               transition-colors
+              hover:text-indigo-500
+              dark:hover:text-indigo-400
               ${
-                isNearLimit
-                  ? 'text-amber-500 dark:text-amber-400'
-                  : 'text-gray-400 dark:text-gray-500'
+                isOverLimit
+                  ? 'text-red-500 dark:text-red-400'
+                  : isNearLimit
+                    ? 'text-amber-500 dark:text-amber-400'
+                    : 'text-gray-400 dark:text-gray-500'
               }
             `}
           >
-            {prompt.length} / {MAX_CHARACTERS}
-          </div>
+            {counterMode === 'characters' ? (
+              t('form.counter.characters', { count: prompt.length })
+            ) : (
+              <>
+                {t('form.counter.tokens', { count: promptTokens, max: tokenBudget })}
+                {promptCost &&
+                  ` • ${t('form.counter.cost', { cost: formatCost(locale, promptCost.totalCost) })}`}
+              </>
+            )}
+          </button>
         </div>
 
         {/* Validation error message */}
@@ -277,51 +332,63 @@ const GeneratorForm: React.FC<GeneratorFormProps> = ({
                 d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
               />
             </svg>
-            {validationError}
+            {translateError(validationError)}
           </p>
         )}
 
         {/* Keyboard shortcut hint */}
         <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
-          Press <kbd className="px-1.5 py-0.5 bg-gray-100 dark:bg-gray-700 rounded text-xs font-mono">Ctrl</kbd> + <kbd className="px-1.5 py-0.5 bg-gray-100 dark:bg-gray-700 rounded text-xs font-mono">Enter</kbd> to generate
+          {t('form.shortcutPrefix')} <kbd className="px-1.5 py-0.5 bg-gray-100 dark:bg-gray-700 rounded text-xs font-mono">Ctrl</kbd> + <kbd className="px-1.5 py-0.5 bg-gray-100 dark:bg-gray-700 rounded text-xs font-mono">Enter</kbd> {t('form.shortcutSuffix')}
         </p>
       </div>
 
-      {/* Example prompts section */}
-      <div className="space-y-2">
-        <p className="text-sm font-medium text-gray-600 dark:text-gray-400">
-          Try an example:
-        </p>
-        <div className="flex flex-wrap gap-2">
-          {EXAMPLE_PROMPTS.map((example, index) => (
-            <button
-              key={index}
-              type="button"
-              onClick={() => handleExampleClick(example)}
-              disabled={isLoading}
-              className="
-                px-3
-                py-1.5
-                text-xs
-                font-medium
-                text-indigo-600
-                dark:text-indigo-400
-                bg-indigo-50
-                dark:bg-indigo-900/30
-                hover:bg-indigo-100
-                dark:hover:bg-indigo-900/50
-                rounded-full
-                transition-colors
-                duration-200
-                disabled:opacity-50
-                disabled:cursor-not-allowed
-              "
-            >
-              {example.length > 40 ? `${example.substring(0, 40)}...` : example}
-            </button>
-          ))}
+      {/* Prompt template library */}
+      <PromptTemplateLibrary
+        currentPrompt={prompt}
+        onUsePrompt={handleTemplateUse}
+        disabled={isLoading}
+      />
+
+      {/* Number of candidates */}
+      {onCandidateCountChange && (
+        <div className="flex items-center justify-end gap-2">
+          <label
+            htmlFor="candidate-count"
+            className="text-sm font-medium text-gray-700 dark:text-gray-300"
+          >
+            {t('candidates.countLabel')}
+          </label>
+          <select
+            id="candidate-count"
+            value={candidateCount}
+            onChange={(event) => onCandidateCountChange(Number(event.target.value))}
+            disabled={isLoading}
+            className="
+              px-2
+              py-1
+              text-sm
+              rounded-lg
+              border-2
+              border-gray-200
+              dark:border-gray-600
+              focus:border-indigo-500
+              focus:outline-none
+              bg-white
+              dark:bg-gray-800
+              text-gray-800
+              dark:text-gray-200
+            "
+          >
+            {Array.from({ length: API_CONFIG.MAX_CANDIDATES }, (_, index) => index + 1).map(
+              (count) => (
+                <option key={count} value={count}>
+                  {count}
+                </option>
+              )
+            )}
+          </select>
         </div>
-      </div>
+      )}
 
       {/* Submit button */}
       <button
@@ -364,7 +431,7 @@ const GeneratorForm: React.FC<GeneratorFormProps> = ({
         {isLoading ? (
           <>
             <InlineLoader />
-            <span>Generating...</span>
+            <span>{t('form.submitting')}</span>
           </>
         ) : (
           <>
@@ -382,7 +449,7 @@ const GeneratorForm: React.FC<GeneratorFormProps> = ({
                 d="M13 10V3L4 14h7v7l9-11h-7z"
               />
             </svg>
-            <span>Generate with AI</span>
+            <span>{t('form.submit')}</span>
           </>
         )}
       </button>
@@ -0,0 +1,262 @@
+/**
+ * @fileoverview HistoryEntryCard component for one stored generation
+ * @description History panel item with its favorite star, tags, collection and actions
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import React, { useCallback, useState } from 'react';
+import { useI18n } from '../hooks/useI18n';
+import { HISTORY_CONFIG, HISTORY_DRAG_TYPE, normalizeTag } from '../history';
+import { formatDateTime } from '../i18n';
+import type { HistoryCollection, HistoryEntry, HistoryEntryChanges } from '../types/history';
+
+/**
+ * Props interface for the HistoryEntryCard component
+ * @interface HistoryEntryCardProps
+ */
+interface HistoryEntryCardProps {
+  /** The stored generation */
+  entry: HistoryEntry;
+  /** Every collection, for the collection picker */
+  collections: HistoryCollection[];
+  /** Whether the result and the organizing controls are shown */
+  isExpanded: boolean;
+  /** Whether the delete button is waiting for its confirmation */
+  isPendingDelete: boolean;
+  /** Callback to show or hide the result */
+  onToggle: () => void;
+  /** Callback to star, tag or move the entry */
+  onUpdate: (changes: HistoryEntryChanges) => void;
+  /** Callback when a tag chip is clicked, to filter by it */
+  onTagClick: (tag: string) => void;
+  /** Callback to run the generation again */
+  onRerun: () => void;
+  /** Optional callback to diff the result with another one */
+  onCompare?: () => void;
+  /** Callback of the delete button (first click asks for confirmation) */
+  onDelete: () => void;
+}
+
+/**
+ * Shared classes of the small action buttons
+ * @constant
+ */
+const ACTION_BUTTON_CLASSES = `
+  px-2.5
+  py-1
+  text-xs
+  font-medium
+  rounded-lg
+  border
+  border-gray-200
+  dark:border-gray-600
+  text-gray-700
+  dark:text-gray-200
+  hover:bg-gray-100
+  dark:hover:bg-gray-700
+  transition-colors
+  duration-200
+`;
+
+/**
+ * HistoryEntryCard Component
+ *
+ * One item of the history panel. It:
+ * - Shows the prompt, the date, the model and the tags
+ * - Stars and unstars the result
+ * - Can be dragged onto a collection of the filter bar
+ * - When expanded, shows the result and the system instruction, and edits
+ *   the tags and the collection
+ * - Runs the generation again, compares it with another result or deletes it
+ *
+ * @param {HistoryEntryCardProps} props - Component props
+ * @returns {JSX.Element} The rendered list item
+ */
+const HistoryEntryCard: React.FC<HistoryEntryCardProps> = ({
+  entry,
+  collections,
+  isExpanded,
+  isPendingDelete,
+  onToggle,
+  onUpdate,
+  onTagClick,
+  onRerun,
+  onCompare,
+  onDelete,
+}) => {
+  const { locale, t } = useI18n();
+  const [newTag, setNewTag] = useState<string>('');
+
+  /**
+   * Adds the typed tag
+   */
+  const handleAddTag = useCallback(
+    (event: React.FormEvent<HTMLFormElement>): void => {
+      event.preventDefault();
+      const tag = normalizeTag(newTag);
+      if (tag && !entry.tags.includes(tag)) {
+        onUpdate({ tags: [...entry.tags, tag] });
+      }
+      setNewTag('');
+    },
+    [newTag, entry.tags, onUpdate]
+  );
+
+  /**
+   * Starts dragging the entry towards a collection
+   */
+  const handleDragStart = useCallback(
+    (event: React.DragEvent<HTMLLIElement>): void => {
+      event.dataTransfer.setData(HISTORY_DRAG_TYPE, entry.id);
+      event.dataTransfer.effectAllowed = 'move';
+    },
+    [entry.id]
+  );
+
+  const collectionName = collections.find(
+    (collection) => collection.id === entry.collectionId
+  )?.name;
+
+  return (
+    <li
+      draggable
+      onDragStart={handleDragStart}
+      className="p-3 rounded-xl border border-gray-200 dark:border-gray-700 cursor-grab active:cursor-grabbing"
+    >
+      <div className="flex items-start gap-2">
+        <button
+          type="button"
+          onClick={onToggle}
+          aria-expanded={isExpanded}
+          className="flex-1 text-left"
+        >
+          <span className="block text-sm font-medium text-gray-900 dark:text-white line-clamp-2">
+            {entry.prompt}
+          </span>
+          <span className="block mt-1 text-xs text-gray-500 dark:text-gray-400">
+            {formatDateTime(locale, entry.createdAt)}
+            {entry.metadata && ` • ${entry.metadata.model}`}
+            {collectionName && ` • ${collectionName}`}
+          </span>
+        </button>
+        <button
+          type="button"
+          onClick={() => onUpdate({ isFavorite: !entry.isFavorite })}
+          aria-pressed={entry.isFavorite}
+          title={entry.isFavorite ? t('history.unstar') : t('history.star')}
+          className={`
+            text-lg
+            leading-none
+            ${
+              entry.isFavorite
+                ? 'text-amber-400'
+                : 'text-gray-300 dark:text-gray-600 hover:text-amber-300'
+            }
+          `}
+        >
+          <span aria-hidden="true">★</span>
+          <span className="sr-only">
+            {entry.isFavorite ? t('history.unstar') : t('history.star')}
+          </span>
+        </button>
+      </div>
+
+      {/* Tags */}
+      {entry.tags.length > 0 && (
+        <div className="flex flex-wrap gap-1 mt-2">
+          {entry.tags.map((tag) => (
+            <span
+              key={tag}
+              className="inline-flex items-center text-xs rounded-full bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300"
+            >
+              <button
+                type="button"
+                onClick={() => onTagClick(tag)}
+                className="px-2 py-0.5 hover:underline"
+              >
+                #{tag}
+              </button>
+              {isExpanded && (
+                <button
+                  type="button"
+                  onClick={() => onUpdate({ tags: entry.tags.filter((other) => other !== tag) })}
+                  aria-label={t('history.removeTag', { tag })}
+                  className="pr-2 hover:text-red-500"
+                >
+                  ×
+                </button>
+              )}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {isExpanded && (
+        <div className="mt-2 space-y-2">
+          {entry.parameters.systemInstruction && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              <span className="font-medium">{t('history.systemInstruction')}:</span>{' '}
+              {entry.parameters.systemInstruction}
+            </p>
+          )}
+          <p className="max-h-60 overflow-y-auto p-2 text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap rounded-lg bg-gray-50 dark:bg-gray-900/40">
+            {entry.result}
+          </p>
+
+          {/* Tag and collection editors */}
+          <div className="flex flex-wrap gap-2">
+            {entry.tags.length < HISTORY_CONFIG.MAX_TAGS && (
+              <form onSubmit={handleAddTag} className="flex-1 min-w-[8rem]">
+                <input
+                  value={newTag}
+                  onChange={(event) => setNewTag(event.target.value)}
+                  placeholder={t('history.addTag')}
+                  aria-label={t('history.addTag')}
+                  maxLength={HISTORY_CONFIG.MAX_TAG_LENGTH}
+                  className="w-full px-2 py-1 text-xs rounded-lg border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-200 focus:border-indigo-500 focus:outline-none"
+                />
+              </form>
+            )}
+            <select
+              value={entry.collectionId ?? ''}
+              onChange={(event) => onUpdate({ collectionId: event.target.value || null })}
+              aria-label={t('history.collection')}
+              className="px-2 py-1 text-xs rounded-lg border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-200"
+            >
+              <option value="">{t('history.noCollection')}</option>
+              {collections.map((collection) => (
+                <option key={collection.id} value={collection.id}>
+                  {collection.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-1.5 mt-2">
+        {onCompare && (
+          <button type="button" onClick={onCompare} className={ACTION_BUTTON_CLASSES}>
+            {t('history.compare')}
+          </button>
+        )}
+        <button type="button" onClick={onRerun} className={ACTION_BUTTON_CLASSES}>
+          {t('history.rerun')}
+        </button>
+        <button
+          type="button"
+          onClick={onDelete}
+          className={`
+            ${ACTION_BUTTON_CLASSES}
+            ${isPendingDelete ? 'text-red-600 dark:text-red-400 border-red-300' : ''}
+          `}
+        >
+          {isPendingDelete ? t('history.confirmDelete') : t('history.delete')}
+        </button>
+      </div>
+    </li>
+  );
+};
+
+export default HistoryEntryCard;
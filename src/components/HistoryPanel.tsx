@@ -0,0 +1,500 @@
+/**
+ * @fileoverview HistoryPanel component for browsing past generations
+ * @description Side panel with full-text search, date groups, favorites, tag and collection
+ * views, drag-to-collection, re-run, delete and clear-all
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import HistoryEntryCard from './HistoryEntryCard';
+import { useHistory } from '../hooks/useHistory';
+import { useI18n } from '../hooks/useI18n';
+import { groupHistoryByDate, HISTORY_CONFIG, HISTORY_DRAG_TYPE } from '../history';
+import type { HistoryEntry, HistoryFilter } from '../types/history';
+
+/**
+ * Props interface for the HistoryPanel component
+ * @interface HistoryPanelProps
+ */
+interface HistoryPanelProps {
+  /** Callback to run a stored generation again */
+  onRerun: (entry: HistoryEntry) => void;
+  /** Optional callback to diff a stored result with another one */
+  onCompare?: (entry: HistoryEntry) => void;
+  /** Callback when the panel is closed */
+  onClose: () => void;
+}
+
+/**
+ * Shared classes of the small action buttons
+ * @constant
+ */
+const ACTION_BUTTON_CLASSES = `
+  px-2.5
+  py-1
+  text-xs
+  font-medium
+  rounded-lg
+  border
+  border-gray-200
+  dark:border-gray-600
+  text-gray-700
+  dark:text-gray-200
+  hover:bg-gray-100
+  dark:hover:bg-gray-700
+  transition-colors
+  duration-200
+  disabled:opacity-50
+`;
+
+/**
+ * Classes of a filter chip
+ * @param isActive - Whether the chip is the current view
+ * @param isDropTarget - Whether an entry is being dragged over it
+ * @returns The chip classes
+ */
+const getFilterChipClasses = (isActive: boolean, isDropTarget = false): string => `
+  px-3
+  py-1
+  text-xs
+  font-medium
+  rounded-full
+  border
+  transition-colors
+  duration-200
+  ${
+    isDropTarget
+      ? 'border-indigo-500 bg-indigo-100 dark:bg-indigo-900/50 text-indigo-700 dark:text-indigo-200'
+      : isActive
+        ? 'border-indigo-600 bg-indigo-600 text-white'
+        : 'border-gray-200 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700'
+  }
+`;
+
+/**
+ * HistoryPanel Component
+ *
+ * A side panel that:
+ * - Lists stored generations newest first, grouped by date
+ * - Searches prompts, results and tags as the user types
+ * - Switches between every generation, favorites, a tag and a collection
+ * - Creates and deletes collections, which accept entries dropped on them
+ * - Reads older generations on demand ("Load more")
+ * - Expands a generation to show its result and parameters, and to edit its tags and collection
+ * - Runs a generation again with its parameters, or deletes it after a confirmation
+ * - Opens the comparison of a stored result with another one
+ * - Clears the whole history after a confirmation
+ * - Closes with Escape or the close button
+ *
+ * @param {HistoryPanelProps} props - Component props
+ * @returns {JSX.Element} The rendered panel
+ *
+ * @example
+ * ```tsx
+ * {isHistoryOpen && <HistoryPanel onRerun={rerun} onClose={() => setHistoryOpen(false)} />}
+ * ```
+ */
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ onRerun, onCompare, onClose }) => {
+  const { t } = useI18n();
+  const {
+    entries,
+    search,
+    setSearch,
+    filter,
+    setFilter,
+    tags,
+    collections,
+    hasMore,
+    isLoading,
+    isAvailable,
+    loadMore,
+    update,
+    remove,
+    clear,
+    createCollection,
+    deleteCollection,
+  } = useHistory();
+
+  // Entry whose result is shown
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  // Entry (or the whole history) waiting for the delete confirmation
+  const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+  const [isConfirmingClear, setConfirmingClear] = useState<boolean>(false);
+  const [isConfirmingCollectionDelete, setConfirmingCollectionDelete] = useState<boolean>(false);
+
+  // Name of the collection being created, null while the name field is hidden
+  const [newCollectionName, setNewCollectionName] = useState<string | null>(null);
+
+  // Collection an entry is being dragged over
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+
+  const groups = useMemo(() => groupHistoryByDate(entries), [entries]);
+
+  /**
+   * Closes the panel with Escape
+   */
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent): void => {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  /**
+   * Deletes an entry on the second click
+   */
+  const handleDelete = useCallback(
+    (id: string): void => {
+      if (pendingDeleteId !== id) {
+        setPendingDeleteId(id);
+        return;
+      }
+      setPendingDeleteId(null);
+      void remove(id);
+    },
+    [pendingDeleteId, remove]
+  );
+
+  /**
+   * Switches the view, dropping any pending confirmation
+   */
+  const handleFilterChange = useCallback(
+    (next: HistoryFilter): void => {
+      setFilter(next);
+      setConfirmingCollectionDelete(false);
+    },
+    [setFilter]
+  );
+
+  /**
+   * Creates the collection with the typed name and shows it
+   */
+  const handleCreateCollection = useCallback(
+    async (event: React.FormEvent<HTMLFormElement>): Promise<void> => {
+      event.preventDefault();
+      if (newCollectionName === null || !newCollectionName.trim()) {
+        return;
+      }
+
+      const collection = await createCollection(newCollectionName);
+      setNewCollectionName(null);
+      if (collection) {
+        handleFilterChange({ kind: 'collection', collectionId: collection.id });
+      }
+    },
+    [newCollectionName, createCollection, handleFilterChange]
+  );
+
+  /**
+   * Deletes the collection being viewed on the second click
+   */
+  const handleDeleteCollection = useCallback((): void => {
+    if (filter.kind !== 'collection') {
+      return;
+    }
+    if (!isConfirmingCollectionDelete) {
+      setConfirmingCollectionDelete(true);
+      return;
+    }
+    setConfirmingCollectionDelete(false);
+    void deleteCollection(filter.collectionId);
+  }, [filter, isConfirmingCollectionDelete, deleteCollection]);
+
+  /**
+   * Accepts a dragged history entry over a collection chip
+   */
+  const handleDragOver = useCallback(
+    (event: React.DragEvent<HTMLButtonElement>, collectionId: string): void => {
+      if (event.dataTransfer.types.includes(HISTORY_DRAG_TYPE)) {
+        event.preventDefault();
+        event.dataTransfer.dropEffect = 'move';
+        setDropTargetId(collectionId);
+      }
+    },
+    []
+  );
+
+  /**
+   * Moves the dropped history entry to the collection
+   */
+  const handleDrop = useCallback(
+    (event: React.DragEvent<HTMLButtonElement>, collectionId: string): void => {
+      event.preventDefault();
+      setDropTargetId(null);
+      const id = event.dataTransfer.getData(HISTORY_DRAG_TYPE);
+      if (id) {
+        void update(id, { collectionId });
+      }
+    },
+    [update]
+  );
+
+  /**
+   * Clears the history on the second click
+   */
+  const handleClear = useCallback((): void => {
+    if (!isConfirmingClear) {
+      setConfirmingClear(true);
+      return;
+    }
+    setConfirmingClear(false);
+    void clear();
+  }, [isConfirmingClear, clear]);
+
+  return (
+    <div className="fixed inset-0 z-20 flex justify-end bg-gray-900/50" onClick={onClose}>
+      <aside
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="history-panel-title"
+        onClick={(event) => event.stopPropagation()}
+        className="
+          w-full
+          max-w-md
+          h-full
+          flex
+          flex-col
+          bg-white
+          dark:bg-gray-800
+          shadow-xl
+          border-l
+          border-gray-200
+          dark:border-gray-700
+        "
+      >
+        {/* Header and search */}
+        <div className="p-4 space-y-3 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center justify-between gap-4">
+            <h2
+              id="history-panel-title"
+              className="text-lg font-semibold text-gray-900 dark:text-white"
+            >
+              {t('history.title')}
+            </h2>
+            <button
+              type="button"
+              onClick={onClose}
+              className="p-1 text-gray-500 hover:text-gray-800 dark:hover:text-gray-200"
+              aria-label={t('history.close')}
+            >
+              <svg
+                className="w-5 h-5"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+                aria-hidden="true"
+              >
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+          <input
+            type="search"
+            value={search}
+            onChange={(event) => setSearch(event.target.value)}
+            placeholder={t('history.searchPlaceholder')}
+            aria-label={t('history.searchLabel')}
+            className="
+              w-full
+              px-3
+              py-2
+              text-sm
+              rounded-lg
+              border-2
+              border-gray-200
+              dark:border-gray-600
+              focus:border-indigo-500
+              focus:outline-none
+              bg-white
+              dark:bg-gray-800
+              text-gray-800
+              dark:text-gray-200
+            "
+          />
+
+          {/* Views: every entry, favorites, collections (drop targets) and tags */}
+          {isAvailable && (
+            <div className="flex flex-wrap items-center gap-1.5">
+              <button
+                type="button"
+                onClick={() => handleFilterChange({ kind: 'all' })}
+                aria-pressed={filter.kind === 'all'}
+                className={getFilterChipClasses(filter.kind === 'all')}
+              >
+                {t('history.filters.all')}
+              </button>
+              <button
+                type="button"
+                onClick={() => handleFilterChange({ kind: 'favorites' })}
+                aria-pressed={filter.kind === 'favorites'}
+                className={getFilterChipClasses(filter.kind === 'favorites')}
+              >
+                ★ {t('history.filters.favorites')}
+              </button>
+              {collections.map((collection) => {
+                const isActive =
+                  filter.kind === 'collection' && filter.collectionId === collection.id;
+
+                return (
+                  <button
+                    key={collection.id}
+                    type="button"
+                    onClick={() =>
+                      handleFilterChange({ kind: 'collection', collectionId: collection.id })
+                    }
+                    onDragOver={(event) => handleDragOver(event, collection.id)}
+                    onDragLeave={() => setDropTargetId(null)}
+                    onDrop={(event) => handleDrop(event, collection.id)}
+                    aria-pressed={isActive}
+                    title={t('history.dropHint')}
+                    className={getFilterChipClasses(isActive, dropTargetId === collection.id)}
+                  >
+                    {collection.name}
+                  </button>
+                );
+              })}
+              {newCollectionName === null ? (
+                <button
+                  type="button"
+                  onClick={() => setNewCollectionName('')}
+                  className="px-2 py-1 text-xs font-medium text-indigo-600 dark:text-indigo-300 hover:underline"
+                >
+                  + {t('history.newCollection')}
+                </button>
+              ) : (
+                <form onSubmit={handleCreateCollection} className="flex gap-1">
+                  <input
+                    value={newCollectionName}
+                    onChange={(event) => setNewCollectionName(event.target.value)}
+                    onKeyDown={(event) => {
+                      if (event.key === 'Escape') {
+                        // Keep Escape from closing the whole panel
+                        event.stopPropagation();
+                        setNewCollectionName(null);
+                      }
+                    }}
+                    placeholder={t('history.collectionName')}
+                    aria-label={t('history.collectionName')}
+                    maxLength={HISTORY_CONFIG.MAX_COLLECTION_NAME_LENGTH}
+                    autoFocus
+                    className="w-36 px-2 py-1 text-xs rounded-lg border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-200 focus:border-indigo-500 focus:outline-none"
+                  />
+                  <button type="submit" className={ACTION_BUTTON_CLASSES}>
+                    {t('history.createCollection')}
+                  </button>
+                </form>
+              )}
+              {tags.length > 0 && (
+                <select
+                  value={filter.kind === 'tag' ? filter.tag : ''}
+                  onChange={(event) =>
+                    handleFilterChange(
+                      event.target.value ? { kind: 'tag', tag: event.target.value } : { kind: 'all' }
+                    )
+                  }
+                  aria-label={t('history.filters.tag')}
+                  className="ml-auto px-2 py-1 text-xs rounded-lg border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-200"
+                >
+                  <option value="">{t('history.filters.tag')}</option>
+                  {tags.map((tag) => (
+                    <option key={tag} value={tag}>
+                      #{tag}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+          )}
+
+          {filter.kind === 'collection' && (
+            <div className="flex justify-end">
+              <button
+                type="button"
+                onClick={handleDeleteCollection}
+                className={`
+                  ${ACTION_BUTTON_CLASSES}
+                  ${isConfirmingCollectionDelete ? 'text-red-600 dark:text-red-400 border-red-300' : ''}
+                `}
+              >
+                {isConfirmingCollectionDelete
+                  ? t('history.confirmDeleteCollection')
+                  : t('history.deleteCollection')}
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* Entries */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-5" aria-busy={isLoading}>
+          {!isAvailable && (
+            <p className="text-sm text-amber-600 dark:text-amber-400">{t('history.unavailable')}</p>
+          )}
+
+          {isAvailable && !isLoading && entries.length === 0 && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {search.trim() || filter.kind !== 'all' ? t('history.noMatches') : t('history.empty')}
+            </p>
+          )}
+
+          {groups.map(({ group, entries: groupEntries }) => (
+            <section key={group}>
+              <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-2">
+                {t(`history.groups.${group}`)}
+              </h3>
+              <ul className="space-y-2">
+                {groupEntries.map((entry) => (
+                  <HistoryEntryCard
+                    key={entry.id}
+                    entry={entry}
+                    collections={collections}
+                    isExpanded={expandedId === entry.id}
+                    isPendingDelete={pendingDeleteId === entry.id}
+                    onToggle={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                    onUpdate={(changes) => void update(entry.id, changes)}
+                    onTagClick={(tag) => handleFilterChange({ kind: 'tag', tag })}
+                    onRerun={() => onRerun(entry)}
+                    onCompare={onCompare && (() => onCompare(entry))}
+                    onDelete={() => handleDelete(entry.id)}
+                  />
+                ))}
+              </ul>
+            </section>
+          ))}
+
+          {hasMore && (
+            <button
+              type="button"
+              onClick={() => void loadMore()}
+              disabled={isLoading}
+              className={`${ACTION_BUTTON_CLASSES} w-full`}
+            >
+              {t('history.loadMore')}
+            </button>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-gray-200 dark:border-gray-700 flex justify-end">
+          <button
+            type="button"
+            onClick={handleClear}
+            disabled={!isAvailable || entries.length === 0}
+            className={`
+              ${ACTION_BUTTON_CLASSES}
+              ${isConfirmingClear ? 'text-red-600 dark:text-red-400 border-red-300' : ''}
+            `}
+          >
+            {isConfirmingClear ? t('history.confirmClear') : t('history.clear')}
+          </button>
+        </div>
+      </aside>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -6,16 +6,20 @@
  */
 
 import React from 'react';
+import { useI18n } from '../hooks/useI18n';
+import type { RetryStatus } from '../types/api';
 
 /**
  * Props interface for the Loader component
  * @interface LoaderProps
  */
 interface LoaderProps {
-  /** Optional loading message to display */
+  /** Optional loading message to display (defaults to a translated "Generating...") */
   message?: string;
   /** Size variant of the loader */
   size?: 'sm' | 'md' | 'lg';
+  /** Retry progress, shown below the message while a failed attempt is retried */
+  retry?: RetryStatus | null;
   /** Additional CSS classes */
   className?: string;
 }
@@ -59,13 +63,20 @@ const TEXT_SIZE_CLASSES = {
  * 
  * // Large size with custom class
  * <Loader size="lg" message="Processing..." className="my-8" />
+ * 
+ * // While retrying a transient failure
+ * <Loader retry={{ attempt: 2, maxAttempts: 3 }} />
  * ```
  */
 const Loader: React.FC<LoaderProps> = ({
-  message = 'Generating...',
+  message,
   size = 'md',
+  retry = null,
   className = '',
 }) => {
+  const { t } = useI18n();
+  const displayedMessage = message ?? t('loader.default');
+
   return (
     <div
       className={`flex flex-col items-center justify-center gap-4 ${className}`}
@@ -121,7 +132,7 @@ const Loader: React.FC<LoaderProps> = ({
       </div>
 
       {/* Loading message */}
-      {message && (
+      {displayedMessage && (
         <p
           className={`
             ${TEXT_SIZE_CLASSES[size]}
@@ -131,12 +142,19 @@ const Loader: React.FC<LoaderProps> = ({
             animate-pulse
           `}
         >
-          {message}
+          {displayedMessage}
+        </p>
+      )}
+
+      {/* Retry indicator */}
+      {retry && (
+        <p className="text-sm font-medium text-amber-600 dark:text-amber-400">
+          {t('loader.retrying', { attempt: retry.attempt, maxAttempts: retry.maxAttempts })}
         </p>
       )}
 
       {/* Screen reader text */}
-      <span className="sr-only">Loading, please wait...</span>
+      <span className="sr-only">{t('loader.screenReader')}</span>
     </div>
   );
 };
@@ -0,0 +1,96 @@
+/**
+ * @fileoverview LocaleSwitcher component
+ * @description Header control that changes the UI language
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import React, { useCallback } from 'react';
+import { useI18n } from '../hooks/useI18n';
+import { isLocale, LOCALES } from '../i18n';
+
+/**
+ * Props interface for the LocaleSwitcher component
+ * @interface LocaleSwitcherProps
+ */
+interface LocaleSwitcherProps {
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * LocaleSwitcher Component
+ *
+ * Compact select listing every supported locale by its native name.
+ * The choice is persisted by the I18nProvider.
+ *
+ * @param {LocaleSwitcherProps} props - Component props
+ * @returns {JSX.Element} The rendered locale switcher
+ *
+ * @example
+ * ```tsx
+ * <LocaleSwitcher className="ml-4" />
+ * ```
+ */
+const LocaleSwitcher: React.FC<LocaleSwitcherProps> = ({ className = '' }) => {
+  const { locale, setLocale, t } = useI18n();
+
+  /**
+   * Applies the selected locale
+   */
+  const handleChange = useCallback(
+    (event: React.ChangeEvent<HTMLSelectElement>): void => {
+      if (isLocale(event.target.value)) {
+        setLocale(event.target.value);
+      }
+    },
+    [setLocale]
+  );
+
+  return (
+    <label className={`flex items-center gap-2 ${className}`}>
+      <span className="sr-only">{t('header.language')}</span>
+      <svg
+        className="w-4 h-4 text-gray-500 dark:text-gray-400"
+        fill="none"
+        stroke="currentColor"
+        viewBox="0 0 24 24"
+        aria-hidden="true"
+      >
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth={2}
+          d="M3 5h12M9 3v2m1.048 9.5A18.022 18.022 0 016.412 9m6.088 9h7M11 21l5-10 5 10M12.751 5C11.783 10.77 8.07 15.61 3 18.129"
+        />
+      </svg>
+      <select
+        value={locale}
+        onChange={handleChange}
+        className="
+          text-sm
+          text-gray-700
+          dark:text-gray-300
+          bg-transparent
+          border
+          border-gray-200
+          dark:border-gray-700
+          rounded-lg
+          px-2
+          py-1
+          focus:outline-none
+          focus:ring-2
+          focus:ring-indigo-500
+        "
+      >
+        {LOCALES.map(({ code, name }) => (
+          <option key={code} value={code}>
+            {name}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export default LocaleSwitcher;
@@ -0,0 +1,231 @@
+/**
+ * @fileoverview MarkdownContent component for rendering generated Markdown
+ * @description Renders Markdown as React elements: headings, lists, emphasis, tables, links
+ * and code blocks. No HTML from the text is ever injected.
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import React, { useMemo } from 'react';
+import CodeBlock from './CodeBlock';
+import { parseMarkdown } from '../markdown';
+import type { MarkdownBlock, MarkdownInline } from '../types/markdown';
+
+/**
+ * Props interface for the MarkdownContent component
+ * @interface MarkdownContentProps
+ */
+interface MarkdownContentProps {
+  /** The Markdown text */
+  source: string;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * Classes of each heading level
+ * @constant
+ */
+const HEADING_CLASSES: Record<1 | 2 | 3 | 4 | 5 | 6, string> = {
+  1: 'text-2xl font-bold',
+  2: 'text-xl font-bold',
+  3: 'text-lg font-semibold',
+  4: 'text-base font-semibold',
+  5: 'text-sm font-semibold',
+  6: 'text-sm font-semibold text-gray-600 dark:text-gray-400',
+};
+
+/**
+ * Text alignment classes of table columns
+ * @constant
+ */
+const ALIGNMENT_CLASSES = {
+  left: 'text-left',
+  center: 'text-center',
+  right: 'text-right',
+} as const;
+
+/**
+ * Renders inline nodes
+ *
+ * @param nodes - The inline nodes
+ * @returns The rendered text
+ */
+const renderInline = (nodes: MarkdownInline[]): React.ReactNode =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return <React.Fragment key={index}>{node.text}</React.Fragment>;
+      case 'strong':
+        return (
+          <strong key={index} className="font-semibold text-gray-900 dark:text-white">
+            {renderInline(node.children)}
+          </strong>
+        );
+      case 'emphasis':
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case 'strikethrough':
+        return <del key={index}>{renderInline(node.children)}</del>;
+      case 'code':
+        return (
+          <code
+            key={index}
+            className="px-1 py-0.5 rounded bg-gray-100 dark:bg-gray-700 font-mono text-[0.9em]"
+          >
+            {node.text}
+          </code>
+        );
+      case 'link':
+        return (
+          <a
+            key={index}
+            href={node.href}
+            title={node.title}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className="text-indigo-600 dark:text-indigo-300 underline hover:no-underline"
+          >
+            {renderInline(node.children)}
+          </a>
+        );
+      case 'break':
+        return <br key={index} />;
+    }
+  });
+
+/**
+ * Renders blocks
+ *
+ * @param blocks - The blocks
+ * @returns The rendered blocks
+ */
+const renderBlocks = (blocks: MarkdownBlock[]): React.ReactNode =>
+  blocks.map((block, index) => {
+    switch (block.type) {
+      case 'heading': {
+        const Heading = `h${block.level}` as const;
+        return (
+          <Heading
+            key={index}
+            className={`${HEADING_CLASSES[block.level]} text-gray-900 dark:text-white`}
+          >
+            {renderInline(block.children)}
+          </Heading>
+        );
+      }
+      case 'paragraph':
+        return <p key={index}>{renderInline(block.children)}</p>;
+      case 'code':
+        return <CodeBlock key={index} code={block.text} language={block.language} />;
+      case 'blockquote':
+        return (
+          <blockquote
+            key={index}
+            className="pl-4 border-l-4 border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-400 space-y-3"
+          >
+            {renderBlocks(block.children)}
+          </blockquote>
+        );
+      case 'list': {
+        const items = block.items.map((item, position) => (
+          <li key={position} className="space-y-1">
+            {renderBlocks(item)}
+          </li>
+        ));
+        return block.ordered ? (
+          <ol key={index} start={block.start} className="pl-6 list-decimal space-y-1">
+            {items}
+          </ol>
+        ) : (
+          <ul key={index} className="pl-6 list-disc space-y-1">
+            {items}
+          </ul>
+        );
+      }
+      case 'table':
+        return (
+          <div key={index} className="overflow-x-auto">
+            <table className="min-w-full text-sm border-collapse">
+              <thead>
+                <tr>
+                  {block.header.map((cell, column) => (
+                    <th
+                      key={column}
+                      className={`
+                        px-3
+                        py-2
+                        font-semibold
+                        border-b-2
+                        border-gray-200
+                        dark:border-gray-600
+                        ${ALIGNMENT_CLASSES[block.align[column] ?? 'left']}
+                      `}
+                    >
+                      {renderInline(cell)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {block.rows.map((row, rowIndex) => (
+                  <tr key={rowIndex} className="border-b border-gray-100 dark:border-gray-700">
+                    {row.map((cell, column) => (
+                      <td
+                        key={column}
+                        className={`px-3 py-2 ${ALIGNMENT_CLASSES[block.align[column] ?? 'left']}`}
+                      >
+                        {renderInline(cell)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      case 'rule':
+        return <hr key={index} className="border-gray-200 dark:border-gray-700" />;
+    }
+  });
+
+/**
+ * MarkdownContent Component
+ *
+ * Renders the Markdown of a generated text:
+ * - ATX and setext headings, paragraphs with their line breaks and blockquotes
+ * - Bulleted ("-", "*", "•") and numbered lists, nested by indentation
+ * - Bold, italics, strikethrough and inline code
+ * - Tables with column alignment
+ * - Links to http(s) and mailto URLs only, opened in a new tab; other links stay text
+ * - Fenced code blocks, syntax-highlighted, each with its own copy and download buttons
+ *
+ * Every node becomes a React element, so HTML in the text is escaped like any other text.
+ *
+ * @param {MarkdownContentProps} props - Component props
+ * @returns {JSX.Element} The rendered Markdown
+ *
+ * @example
+ * ```tsx
+ * <MarkdownContent source={result} />
+ * ```
+ */
+const MarkdownContent: React.FC<MarkdownContentProps> = ({ source, className = '' }) => {
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+
+  return (
+    <div
+      className={`
+        space-y-3
+        text-gray-700
+        dark:text-gray-300
+        leading-relaxed
+        break-words
+        ${className}
+      `}
+    >
+      {renderBlocks(blocks)}
+    </div>
+  );
+};
+
+export default MarkdownContent;
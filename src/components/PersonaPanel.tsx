@@ -0,0 +1,416 @@
+/**
+ * @fileoverview PersonaPanel component for managing personas
+ * @description Dialog to pick the active persona and to create, edit, duplicate and delete personas
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useI18n } from '../hooks/useI18n';
+import { usePersonas } from '../hooks/usePersonas';
+import { PERSONA_LIMITS, validatePersonaDraft } from '../personas';
+import type { Persona, PersonaDraft, PersonaDraftError } from '../types/persona';
+
+/**
+ * Props interface for the PersonaPanel component
+ * @interface PersonaPanelProps
+ */
+interface PersonaPanelProps {
+  /** Callback when the panel is closed */
+  onClose: () => void;
+}
+
+/**
+ * What the editor is working on: a new persona or an existing one
+ * @type EditorTarget
+ */
+type EditorTarget = { kind: 'new' } | { kind: 'edit'; persona: Persona };
+
+/**
+ * Empty draft of a new persona
+ * @constant
+ */
+const EMPTY_DRAFT: PersonaDraft = { name: '', instruction: '' };
+
+/**
+ * Shared classes of the small action buttons
+ * @constant
+ */
+const ACTION_BUTTON_CLASSES = `
+  px-2.5
+  py-1
+  text-xs
+  font-medium
+  rounded-lg
+  border
+  border-gray-200
+  dark:border-gray-600
+  text-gray-700
+  dark:text-gray-200
+  hover:bg-gray-100
+  dark:hover:bg-gray-700
+  transition-colors
+  duration-200
+`;
+
+/**
+ * PersonaPanel Component
+ *
+ * A modal dialog that:
+ * - Lists the saved personas and marks the active one
+ * - Activates a persona, or none
+ * - Creates and edits personas (name and system instruction) with validation
+ * - Duplicates personas and deletes them after a confirmation
+ * - Closes with Escape or the close button
+ *
+ * @param {PersonaPanelProps} props - Component props
+ * @returns {JSX.Element} The rendered dialog
+ *
+ * @example
+ * ```tsx
+ * {isPanelOpen && <PersonaPanel onClose={() => setPanelOpen(false)} />}
+ * ```
+ */
+const PersonaPanel: React.FC<PersonaPanelProps> = ({ onClose }) => {
+  const { t } = useI18n();
+  const {
+    personas,
+    activePersona,
+    setActivePersona,
+    createPersona,
+    updatePersona,
+    duplicatePersona,
+    deletePersona,
+  } = usePersonas();
+
+  // Persona being created or edited, if any
+  const [editorTarget, setEditorTarget] = useState<EditorTarget | null>(null);
+  const [draft, setDraft] = useState<PersonaDraft>(EMPTY_DRAFT);
+  const [draftError, setDraftError] = useState<PersonaDraftError | null>(null);
+
+  // Persona waiting for the delete confirmation
+  const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+
+  /**
+   * Closes the dialog with Escape
+   */
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent): void => {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  /**
+   * Opens the editor for a new or an existing persona
+   */
+  const openEditor = useCallback((target: EditorTarget): void => {
+    setEditorTarget(target);
+    setDraft(target.kind === 'edit' ? { ...target.persona } : EMPTY_DRAFT);
+    setDraftError(null);
+    setPendingDeleteId(null);
+  }, []);
+
+  /**
+   * Saves the draft, or shows why it cannot be saved
+   */
+  const handleSave = useCallback(
+    (event: React.FormEvent<HTMLFormElement>): void => {
+      event.preventDefault();
+      if (!editorTarget) {
+        return;
+      }
+
+      const error = validatePersonaDraft(draft);
+      if (error) {
+        setDraftError(error);
+        return;
+      }
+
+      if (editorTarget.kind === 'edit') {
+        updatePersona(editorTarget.persona.id, draft);
+      } else {
+        createPersona(draft);
+      }
+      setEditorTarget(null);
+    },
+    [draft, editorTarget, createPersona, updatePersona]
+  );
+
+  /**
+   * Deletes a persona on the second click
+   */
+  const handleDelete = useCallback(
+    (id: string): void => {
+      if (pendingDeleteId !== id) {
+        setPendingDeleteId(id);
+        return;
+      }
+      deletePersona(id);
+      setPendingDeleteId(null);
+      if (editorTarget?.kind === 'edit' && editorTarget.persona.id === id) {
+        setEditorTarget(null);
+      }
+    },
+    [pendingDeleteId, deletePersona, editorTarget]
+  );
+
+  return (
+    <div
+      className="fixed inset-0 z-20 flex items-center justify-center p-4 bg-gray-900/50"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="persona-panel-title"
+        onClick={(event) => event.stopPropagation()}
+        className="
+          w-full
+          max-w-2xl
+          max-h-[90vh]
+          overflow-y-auto
+          bg-white
+          dark:bg-gray-800
+          rounded-2xl
+          shadow-xl
+          border
+          border-gray-200
+          dark:border-gray-700
+          p-6
+        "
+      >
+        {/* Header */}
+        <div className="flex items-start justify-between gap-4 mb-4">
+          <div>
+            <h2
+              id="persona-panel-title"
+              className="text-lg font-semibold text-gray-900 dark:text-white"
+            >
+              {t('personas.title')}
+            </h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+              {t('personas.description')}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-1 text-gray-500 hover:text-gray-800 dark:hover:text-gray-200"
+            aria-label={t('personas.close')}
+          >
+            <svg
+              className="w-5 h-5"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+              aria-hidden="true"
+            >
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Persona list */}
+        <ul className="space-y-2 mb-4">
+          <li className="flex items-center justify-between gap-3 p-3 rounded-xl border border-gray-200 dark:border-gray-700">
+            <span className="text-sm text-gray-700 dark:text-gray-300">{t('personas.none')}</span>
+            <button
+              type="button"
+              onClick={() => setActivePersona(null)}
+              disabled={!activePersona}
+              className={`${ACTION_BUTTON_CLASSES} disabled:opacity-50 disabled:cursor-default`}
+            >
+              {activePersona ? t('personas.use') : t('personas.inUse')}
+            </button>
+          </li>
+
+          {personas.map((persona) => {
+            const isActive = activePersona?.id === persona.id;
+
+            return (
+              <li
+                key={persona.id}
+                className={`
+                  p-3
+                  rounded-xl
+                  border
+                  ${
+                    isActive
+                      ? 'border-indigo-400 dark:border-indigo-500 bg-indigo-50/60 dark:bg-indigo-900/20'
+                      : 'border-gray-200 dark:border-gray-700'
+                  }
+                `}
+              >
+                <div className="flex items-center justify-between gap-3">
+                  <span className="font-medium text-gray-900 dark:text-white truncate">
+                    {persona.name}
+                  </span>
+                  <div className="flex flex-wrap justify-end gap-1.5">
+                    <button
+                      type="button"
+                      onClick={() => setActivePersona(persona.id)}
+                      disabled={isActive}
+                      className={`${ACTION_BUTTON_CLASSES} disabled:opacity-50 disabled:cursor-default`}
+                    >
+                      {isActive ? t('personas.inUse') : t('personas.use')}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => openEditor({ kind: 'edit', persona })}
+                      className={ACTION_BUTTON_CLASSES}
+                    >
+                      {t('personas.edit')}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        duplicatePersona(persona.id, t('personas.copyName', { name: persona.name }))
+                      }
+                      className={ACTION_BUTTON_CLASSES}
+                    >
+                      {t('personas.duplicate')}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(persona.id)}
+                      className={`
+                        ${ACTION_BUTTON_CLASSES}
+                        ${pendingDeleteId === persona.id ? 'text-red-600 dark:text-red-400 border-red-300' : ''}
+                      `}
+                    >
+                      {pendingDeleteId === persona.id
+                        ? t('personas.confirmDelete')
+                        : t('personas.delete')}
+                    </button>
+                  </div>
+                </div>
+                <p className="mt-1 text-sm text-gray-600 dark:text-gray-400 line-clamp-2">
+                  {persona.instruction}
+                </p>
+              </li>
+            );
+          })}
+        </ul>
+
+        {/* Editor */}
+        {editorTarget ? (
+          <form onSubmit={handleSave} className="space-y-3" noValidate>
+            <div>
+              <label
+                htmlFor="persona-name"
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+              >
+                {t('personas.nameLabel')}
+              </label>
+              <input
+                id="persona-name"
+                value={draft.name}
+                onChange={(event) => setDraft((prev) => ({ ...prev, name: event.target.value }))}
+                maxLength={PERSONA_LIMITS.MAX_NAME_LENGTH}
+                className="
+                  w-full
+                  px-3
+                  py-2
+                  rounded-lg
+                  border-2
+                  border-gray-200
+                  dark:border-gray-600
+                  focus:border-indigo-500
+                  focus:outline-none
+                  bg-white
+                  dark:bg-gray-800
+                  text-gray-800
+                  dark:text-gray-200
+                "
+              />
+            </div>
+            <div>
+              <label
+                htmlFor="persona-instruction"
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+              >
+                {t('personas.instructionLabel')}
+              </label>
+              <textarea
+                id="persona-instruction"
+                value={draft.instruction}
+                onChange={(event) =>
+                  setDraft((prev) => ({ ...prev, instruction: event.target.value }))
+                }
+                placeholder={t('personas.instructionPlaceholder')}
+                rows={4}
+                className="
+                  w-full
+                  px-3
+                  py-2
+                  rounded-lg
+                  border-2
+                  border-gray-200
+                  dark:border-gray-600
+                  focus:border-indigo-500
+                  focus:outline-none
+                  bg-white
+                  dark:bg-gray-800
+                  text-gray-800
+                  dark:text-gray-200
+                  resize-y
+                "
+              />
+            </div>
+
+            {draftError && (
+              <p className="text-sm text-red-500 dark:text-red-400" role="alert">
+                {t(`personas.errors.${draftError}`, {
+                  maxName: PERSONA_LIMITS.MAX_NAME_LENGTH,
+                  maxInstruction: PERSONA_LIMITS.MAX_INSTRUCTION_LENGTH,
+                })}
+              </p>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={() => setEditorTarget(null)}
+                className={ACTION_BUTTON_CLASSES}
+              >
+                {t('personas.cancel')}
+              </button>
+              <button
+                type="submit"
+                className="
+                  px-4
+                  py-1.5
+                  text-sm
+                  font-semibold
+                  text-white
+                  bg-gradient-to-r
+                  from-indigo-600
+                  to-purple-600
+                  hover:from-indigo-700
+                  hover:to-purple-700
+                  rounded-lg
+                "
+              >
+                {t('personas.save')}
+              </button>
+            </div>
+          </form>
+        ) : (
+          <button
+            type="button"
+            onClick={() => openEditor({ kind: 'new' })}
+            className="text-sm font-medium text-indigo-600 dark:text-indigo-300 hover:underline"
+          >
+            + {t('personas.new')}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PersonaPanel;
@@ -0,0 +1,354 @@
+/**
+ * @fileoverview PromptTemplateLibrary component for reusable prompts
+ * @description Template chips with save, import and export actions, and the variables form of the selected template
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import React, { useCallback, useRef, useState } from 'react';
+import TemplateVariablesForm from './TemplateVariablesForm';
+import { useI18n } from '../hooks/useI18n';
+import { usePromptTemplates } from '../hooks/usePromptTemplates';
+import { TEMPLATE_LIMITS } from '../promptTemplates';
+import type { MessageKey } from '../types/i18n';
+
+/**
+ * Props interface for the PromptTemplateLibrary component
+ * @interface PromptTemplateLibraryProps
+ */
+interface PromptTemplateLibraryProps {
+  /** Prompt currently in the textarea, saved by "Save prompt as template" */
+  currentPrompt: string;
+  /** Callback with the final prompt of a template */
+  onUsePrompt: (prompt: string) => void;
+  /** Whether the library is disabled (e.g. while generating) */
+  disabled?: boolean;
+}
+
+/**
+ * Outcome of the last import, shown under the actions
+ * @type ImportNotice
+ */
+type ImportNotice = { kind: 'success'; count: number } | { kind: 'error'; key: MessageKey };
+
+/**
+ * File name of the exported library
+ * @constant
+ */
+const EXPORT_FILE_NAME = 'generador-ia-templates.json';
+
+/**
+ * Shared classes of the small action buttons
+ * @constant
+ */
+const ACTION_BUTTON_CLASSES = `
+  px-2.5
+  py-1
+  text-xs
+  font-medium
+  rounded-lg
+  border
+  border-gray-200
+  dark:border-gray-600
+  text-gray-700
+  dark:text-gray-200
+  hover:bg-gray-100
+  dark:hover:bg-gray-700
+  transition-colors
+  duration-200
+  disabled:opacity-50
+  disabled:cursor-not-allowed
+`;
+
+/**
+ * Starts the download of a JSON document
+ *
+ * @param json - File contents
+ * @param fileName - Suggested file name
+ */
+const downloadJson = (json: string, fileName: string): void => {
+  const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * PromptTemplateLibrary Component
+ *
+ * Rendered inside GeneratorForm, under the prompt textarea. It:
+ * - Shows the saved templates as chips; selecting one opens its variables form
+ * - Saves the current prompt (with its {{variables}}) as a new template
+ * - Imports templates from a JSON file and exports the library as JSON
+ *
+ * Every control is a plain button, so nothing here submits the prompt form.
+ *
+ * @param {PromptTemplateLibraryProps} props - Component props
+ * @returns {JSX.Element} The rendered library
+ *
+ * @example
+ * ```tsx
+ * <PromptTemplateLibrary currentPrompt={prompt} onUsePrompt={setPrompt} disabled={isLoading} />
+ * ```
+ */
+const PromptTemplateLibrary: React.FC<PromptTemplateLibraryProps> = ({
+  currentPrompt,
+  onUsePrompt,
+  disabled = false,
+}) => {
+  const { t } = useI18n();
+  const { templates, createTemplate, deleteTemplate, importTemplates, exportTemplates } =
+    usePromptTemplates();
+
+  // Template whose variables form is open
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  // Name of the template being saved, null while the name field is hidden
+  const [newName, setNewName] = useState<string | null>(null);
+  const [isNameMissing, setNameMissing] = useState<boolean>(false);
+
+  const [importNotice, setImportNotice] = useState<ImportNotice | null>(null);
+
+  // Hidden file input opened by the import button
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const selectedTemplate = templates.find((template) => template.id === selectedId) ?? null;
+
+  /**
+   * Saves the current prompt under the entered name
+   */
+  const handleSave = useCallback((): void => {
+    if (newName === null) {
+      return;
+    }
+    if (!newName.trim()) {
+      setNameMissing(true);
+      return;
+    }
+
+    const template = createTemplate({ name: newName, body: currentPrompt });
+    setSelectedId(template.id);
+    setNewName(null);
+  }, [newName, currentPrompt, createTemplate]);
+
+  /**
+   * Saves with Enter and cancels with Escape, without submitting the prompt form
+   */
+  const handleNameKeyDown = useCallback(
+    (event: React.KeyboardEvent<HTMLInputElement>): void => {
+      if (event.key === 'Enter') {
+        event.preventDefault();
+        handleSave();
+      } else if (event.key === 'Escape') {
+        setNewName(null);
+      }
+    },
+    [handleSave]
+  );
+
+  /**
+   * Reads the chosen file and adds its templates to the library
+   */
+  const handleFileChange = useCallback(
+    async (event: React.ChangeEvent<HTMLInputElement>): Promise<void> => {
+      const file = event.target.files?.[0];
+      // Allow choosing the same file again
+      event.target.value = '';
+      if (!file) {
+        return;
+      }
+
+      const result = importTemplates(await file.text());
+      setImportNotice(
+        result.ok
+          ? { kind: 'success', count: result.drafts.length }
+          : { kind: 'error', key: `templates.errors.${result.error}` }
+      );
+    },
+    [importTemplates]
+  );
+
+  /**
+   * Deletes a template and closes its form
+   */
+  const handleDelete = useCallback(
+    (id: string): void => {
+      deleteTemplate(id);
+      setSelectedId(null);
+    },
+    [deleteTemplate]
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm font-medium text-gray-600 dark:text-gray-400">
+          {t('templates.title')}
+        </p>
+        <div className="flex flex-wrap gap-1.5">
+          <button
+            type="button"
+            onClick={() => {
+              setNewName('');
+              setNameMissing(false);
+            }}
+            disabled={disabled || !currentPrompt.trim() || newName !== null}
+            className={ACTION_BUTTON_CLASSES}
+          >
+            {t('templates.saveCurrent')}
+          </button>
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={disabled}
+            className={ACTION_BUTTON_CLASSES}
+          >
+            {t('templates.import')}
+          </button>
+          <button
+            type="button"
+            onClick={() => downloadJson(exportTemplates(), EXPORT_FILE_NAME)}
+            disabled={templates.length === 0}
+            className={ACTION_BUTTON_CLASSES}
+          >
+            {t('templates.export')}
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleFileChange}
+            className="hidden"
+            aria-hidden="true"
+            tabIndex={-1}
+          />
+        </div>
+      </div>
+
+      {importNotice && (
+        <p
+          className={`text-xs ${
+            importNotice.kind === 'success'
+              ? 'text-green-600 dark:text-green-400'
+              : 'text-red-500 dark:text-red-400'
+          }`}
+          role="status"
+        >
+          {importNotice.kind === 'success'
+            ? t('templates.imported', { count: importNotice.count })
+            : t(importNotice.key)}
+        </p>
+      )}
+
+      {/* Name of the template being saved */}
+      {newName !== null && (
+        <div className="space-y-1">
+          <label
+            htmlFor="template-name"
+            className="block text-xs font-medium text-gray-600 dark:text-gray-400"
+          >
+            {t('templates.nameLabel')}
+          </label>
+          <div className="flex gap-2">
+            <input
+              id="template-name"
+              value={newName}
+              onChange={(event) => {
+                setNewName(event.target.value);
+                setNameMissing(false);
+              }}
+              onKeyDown={handleNameKeyDown}
+              maxLength={TEMPLATE_LIMITS.MAX_NAME_LENGTH}
+              autoFocus
+              className="
+                flex-1
+                px-3
+                py-1.5
+                text-sm
+                rounded-lg
+                border-2
+                border-gray-200
+                dark:border-gray-600
+                focus:border-indigo-500
+                focus:outline-none
+                bg-white
+                dark:bg-gray-800
+                text-gray-800
+                dark:text-gray-200
+              "
+              aria-invalid={isNameMissing}
+            />
+            <button type="button" onClick={handleSave} className={ACTION_BUTTON_CLASSES}>
+              {t('templates.save')}
+            </button>
+            <button
+              type="button"
+              onClick={() => setNewName(null)}
+              className={ACTION_BUTTON_CLASSES}
+            >
+              {t('templates.cancel')}
+            </button>
+          </div>
+          {isNameMissing && (
+            <p className="text-xs text-red-500 dark:text-red-400" role="alert">
+              {t('templates.errors.NAME_REQUIRED')}
+            </p>
+          )}
+          <p className="text-xs text-gray-500 dark:text-gray-400">{t('templates.syntaxHint')}</p>
+        </div>
+      )}
+
+      {/* Template chips */}
+      {templates.length > 0 ? (
+        <div className="flex flex-wrap gap-2">
+          {templates.map((template) => (
+            <button
+              key={template.id}
+              type="button"
+              onClick={() => setSelectedId(template.id === selectedId ? null : template.id)}
+              disabled={disabled}
+              aria-pressed={template.id === selectedId}
+              title={template.body}
+              className={`
+                px-3
+                py-1.5
+                text-xs
+                font-medium
+                rounded-full
+                transition-colors
+                duration-200
+                disabled:opacity-50
+                disabled:cursor-not-allowed
+                ${
+                  template.id === selectedId
+                    ? 'text-white bg-indigo-600 dark:bg-indigo-500'
+                    : 'text-indigo-600 dark:text-indigo-400 bg-indigo-50 dark:bg-indigo-900/30 hover:bg-indigo-100 dark:hover:bg-indigo-900/50'
+                }
+              `}
+            >
+              {template.name.length > 40 ? `${template.name.substring(0, 40)}...` : template.name}
+            </button>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500 dark:text-gray-400">{t('templates.empty')}</p>
+      )}
+
+      {/* Variables form of the selected template */}
+      {selectedTemplate && (
+        <TemplateVariablesForm
+          key={selectedTemplate.id}
+          template={selectedTemplate}
+          onUse={onUsePrompt}
+          onDelete={handleDelete}
+          onClose={() => setSelectedId(null)}
+          disabled={disabled}
+        />
+      )}
+    </div>
+  );
+};
+
+export default PromptTemplateLibrary;
@@ -5,7 +5,17 @@
  * @version 1.0.0
  */
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
+import CandidateComparison from './CandidateComparison';
+import DiffView from './DiffView';
+import ExportMenu from './ExportMenu';
+import MarkdownContent from './MarkdownContent';
+import { useI18n } from '../hooks/useI18n';
+import { formatCost } from '../i18n';
+import { markdownToPlainText } from '../markdown';
+import type { GenerationCandidate, GenerationMetadata } from '../types/api';
+import type { CopyFormat } from '../types/markdown';
+import type { ResultVersion } from '../types/versions';
 
 /**
  * Props interface for the ResultBox component
@@ -14,6 +24,22 @@ import React, { useState, useCallback } from 'react';
 interface ResultBoxProps {
   /** The generated text to display */
   text: string;
+  /** Whether the text is still being streamed in */
+  isStreaming?: boolean;
+  /** Metadata of the generation, used to show token usage and cost */
+  metadata?: GenerationMetadata | null;
+  /** Whether the text was served from the response cache */
+  isCached?: boolean;
+  /** Version shown, exported with its prompt and parameters; without it there is no export */
+  version?: ResultVersion | null;
+  /** Candidates to compare instead of a single text, when several were generated */
+  candidates?: GenerationCandidate[] | null;
+  /** Optional callback when a candidate is chosen as the result */
+  onChooseCandidate?: (index: number) => void;
+  /** Optional callback when a candidate is discarded */
+  onDiscardCandidate?: (index: number) => void;
+  /** Optional callback to generate a fresh result for the same prompt */
+  onRegenerate?: () => void;
   /** Optional callback when the result is cleared */
   onClear?: () => void;
   /** Optional callback when the text is copied */
@@ -28,11 +54,42 @@ interface ResultBoxProps {
  */
 type CopyState = 'idle' | 'copied' | 'error';
 
+/**
+ * What the content area shows for a single result
+ * @type ContentView
+ */
+type ContentView = 'text' | 'editing' | 'changes';
+
+/**
+ * How the single text is shown: its rendered Markdown or its source
+ * @type TextFormat
+ */
+type TextFormat = 'rendered' | 'raw';
+
+/**
+ * Classes of the segmented toggle buttons
+ * @constant
+ */
+const TOGGLE_BUTTON_CLASSES = `
+  px-2.5
+  py-1
+  text-xs
+  font-medium
+  transition-colors
+  duration-200
+`;
+
 /**
  * ResultBox Component
  * 
  * Displays the AI-generated text in a styled container with:
- * - Copy to clipboard functionality
+ * - Progressive rendering with a blinking caret while streaming
+ * - The Markdown of the text rendered (sanitized) or shown as its source
+ * - Prompt/completion token counts and estimated cost, when reported
+ * - Copy to clipboard, as the Markdown source or as plain text
+ * - Editing the result, with the word diff between the original and the edited text
+ * - A side-by-side comparison of several candidates, to choose one or discard some
+ * - "From cache" indicator and regenerate button
  * - Clear/reset button
  * - Smooth animations
  * - Responsive design
@@ -51,20 +108,71 @@ type CopyState = 'idle' | 'copied' | 'error';
  */
 const ResultBox: React.FC<ResultBoxProps> = ({
   text,
+  isStreaming = false,
+  metadata = null,
+  isCached = false,
+  version = null,
+  candidates = null,
+  onChooseCandidate,
+  onDiscardCandidate,
+  onRegenerate,
   onClear,
   onCopy,
   className = '',
 }) => {
+  const { locale, t } = useI18n();
+
   // State for copy button feedback
   const [copyState, setCopyState] = useState<CopyState>('idle');
 
+  // Text edited by the user, null while the result is unedited
+  const [editedText, setEditedText] = useState<string | null>(null);
+  const [view, setView] = useState<ContentView>('text');
+
+  const [format, setFormat] = useState<TextFormat>('rendered');
+  const [copyFormat, setCopyFormat] = useState<CopyFormat>('markdown');
+
+  const displayedText = editedText ?? text;
+
+  /**
+   * Drops the edits when another result is shown
+   */
+  useEffect(() => {
+    setEditedText(null);
+    setView('text');
+  }, [text]);
+
+  /**
+   * Opens the editor, or closes it and forgets edits that changed nothing
+   */
+  const handleToggleEdit = useCallback((): void => {
+    if (view !== 'editing') {
+      setView('editing');
+      return;
+    }
+    if (editedText === text) {
+      setEditedText(null);
+    }
+    setView('text');
+  }, [view, editedText, text]);
+
+  /**
+   * Restores the generated text
+   */
+  const handleRevert = useCallback((): void => {
+    setEditedText(null);
+    setView('text');
+  }, []);
+
   /**
    * Handles copying text to clipboard
    * Provides visual feedback on success/failure
    */
   const handleCopy = useCallback(async (): Promise<void> => {
     try {
-      await navigator.clipboard.writeText(text);
+      await navigator.clipboard.writeText(
+        copyFormat === 'plain' ? markdownToPlainText(displayedText) : displayedText
+      );
       setCopyState('copied');
       onCopy?.();
       
@@ -81,7 +189,7 @@ const ResultBox: React.FC<ResultBoxProps> = ({
         setCopyState('idle');
       }, 2000);
     }
-  }, [text, onCopy]);
+  }, [displayedText, copyFormat, onCopy]);
 
   /**
    * Returns the appropriate icon and text for the copy button
@@ -106,7 +214,7 @@ const ResultBox: React.FC<ResultBoxProps> = ({
               />
             </svg>
           ),
-          label: 'Copied!',
+          label: t('result.copied'),
         };
       case 'error':
         return {
@@ -126,7 +234,7 @@ const ResultBox: React.FC<ResultBoxProps> = ({
               />
             </svg>
           ),
-          label: 'Failed',
+          label: t('result.copyFailed'),
         };
       default:
         return {
@@ -146,13 +254,32 @@ const ResultBox: React.FC<ResultBoxProps> = ({
               />
             </svg>
           ),
-          label: 'Copy',
+          label: t('result.copy'),
         };
     }
   };
 
   const { icon, label } = getCopyButtonContent();
 
+  const isComparing = !isStreaming && !!candidates && candidates.length > 1;
+
+  // Blinking caret at the end of the streamed text
+  const caret = (
+    <span
+      className="
+        inline-block
+        w-2
+        h-5
+        ml-0.5
+        align-text-bottom
+        bg-indigo-500
+        dark:bg-indigo-400
+        animate-blink
+      "
+      aria-hidden="true"
+    />
+  );
+
   return (
     <div
       className={`
@@ -204,42 +331,187 @@ const ResultBox: React.FC<ResultBoxProps> = ({
             />
           </svg>
           <h3 className="font-semibold text-gray-800 dark:text-gray-200">
-            AI Generated Response
+            {t('result.title')}
           </h3>
+          {isCached && (
+            <span
+              className="
+                px-2
+                py-0.5
+                text-xs
+                font-medium
+                text-amber-700
+                dark:text-amber-300
+                bg-amber-100
+                dark:bg-amber-900/40
+                rounded-full
+              "
+              title={t('result.cachedHint')}
+            >
+              {t('result.cached')}
+            </span>
+          )}
         </div>
 
         {/* Action buttons */}
         <div className="flex items-center gap-2">
-          {/* Copy button */}
-          <button
-            onClick={handleCopy}
-            className={`
-              flex
-              items-center
-              gap-1.5
-              px-3
-              py-1.5
-              text-sm
-              font-medium
-              rounded-lg
-              transition-all
-              duration-200
-              ${
-                copyState === 'copied'
-                  ? 'bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-300'
-                  : copyState === 'error'
-                  ? 'bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-300'
-                  : 'bg-white text-gray-700 hover:bg-gray-100 dark:bg-gray-600 dark:text-gray-200 dark:hover:bg-gray-500'
-              }
-              border
-              border-gray-200
-              dark:border-gray-500
-            `}
-            aria-label={label}
-          >
-            {icon}
-            <span>{label}</span>
-          </button>
+          {/* Copy button (each candidate has its own while comparing) */}
+          {!isComparing && (
+            <button
+              onClick={handleCopy}
+              disabled={isStreaming}
+              className={`
+                flex
+                items-center
+                gap-1.5
+                px-3
+                py-1.5
+                text-sm
+                font-medium
+                rounded-lg
+                transition-all
+                duration-200
+                ${
+                  copyState === 'copied'
+                    ? 'bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-300'
+                    : copyState === 'error'
+                    ? 'bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-300'
+                    : 'bg-white text-gray-700 hover:bg-gray-100 dark:bg-gray-600 dark:text-gray-200 dark:hover:bg-gray-500'
+                }
+                border
+                border-gray-200
+                dark:border-gray-500
+                disabled:opacity-50
+                disabled:cursor-not-allowed
+              `}
+              aria-label={label}
+            >
+              {icon}
+              <span>{label}</span>
+            </button>
+          )}
+          {!isComparing && (
+            <select
+              value={copyFormat}
+              onChange={(event) => setCopyFormat(event.target.value as CopyFormat)}
+              disabled={isStreaming}
+              aria-label={t('result.copyFormat')}
+              className="
+                py-1.5
+                pl-2
+                pr-7
+                text-sm
+                rounded-lg
+                border
+                border-gray-200
+                dark:border-gray-500
+                bg-white
+                dark:bg-gray-600
+                text-gray-700
+                dark:text-gray-200
+                disabled:opacity-50
+                disabled:cursor-not-allowed
+              "
+            >
+              <option value="markdown">{t('result.copyFormats.markdown')}</option>
+              <option value="plain">{t('result.copyFormats.plain')}</option>
+            </select>
+          )}
+
+          {/* Export menu (exports the edited text when there are edits) */}
+          {version && !isStreaming && !isComparing && (
+            <ExportMenu source={{ ...version, result: displayedText }} />
+          )}
+
+          {/* Edit button */}
+          {!isStreaming && !isComparing && (
+            <button
+              onClick={handleToggleEdit}
+              className="
+                flex
+                items-center
+                gap-1.5
+                px-3
+                py-1.5
+                text-sm
+                font-medium
+                text-gray-700
+                dark:text-gray-200
+                bg-white
+                dark:bg-gray-600
+                hover:bg-gray-100
+                dark:hover:bg-gray-500
+                rounded-lg
+                border
+                border-gray-200
+                dark:border-gray-500
+                transition-colors
+                duration-200
+              "
+              aria-pressed={view === 'editing'}
+            >
+              <svg
+                className="w-4 h-4"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+                aria-hidden="true"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z"
+                />
+              </svg>
+              <span>{view === 'editing' ? t('result.doneEditing') : t('result.edit')}</span>
+            </button>
+          )}
+
+          {/* Regenerate button (skips the cache) */}
+          {onRegenerate && !isStreaming && (
+            <button
+              onClick={onRegenerate}
+              className="
+                flex
+                items-center
+                gap-1.5
+                px-3
+                py-1.5
+                text-sm
+                font-medium
+                text-indigo-600
+                dark:text-indigo-300
+                bg-white
+                dark:bg-gray-600
+                hover:bg-indigo-50
+                dark:hover:bg-gray-500
+                rounded-lg
+                border
+                border-gray-200
+                dark:border-gray-500
+                transition-colors
+                duration-200
+              "
+              aria-label={t('result.regenerateLabel')}
+            >
+              <svg
+                className="w-4 h-4"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+                aria-hidden="true"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M13 10V3L4 14h7v7l9-11h-7z"
+                />
+              </svg>
+              <span>{t('result.regenerate')}</span>
+            </button>
+          )}
 
           {/* Clear button */}
           {onClear && (
@@ -266,7 +538,7 @@ const ResultBox: React.FC<ResultBoxProps> = ({
                 transition-colors
                 duration-200
               "
-              aria-label="Clear result"
+              aria-label={t('result.clearLabel')}
             >
               <svg
                 className="w-4 h-4"
@@ -282,25 +554,137 @@ const ResultBox: React.FC<ResultBoxProps> = ({
                   d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
                 />
               </svg>
-              <span>New</span>
+              <span>{t('result.new')}</span>
             </button>
           )}
         </div>
       </div>
 
-      {/* Content area */}
+      {/* Content area: the candidates side by side, the editor, the edits or the single text */}
       <div className="p-6">
-        <p
-          className="
-            text-gray-700
-            dark:text-gray-300
-            leading-relaxed
-            whitespace-pre-wrap
-            text-base
-          "
-        >
-          {text}
-        </p>
+        {!isComparing && view !== 'editing' && (
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-4 text-xs">
+            <div className="flex flex-wrap items-center gap-2">
+              {editedText !== null && (
+                <>
+                  <span
+                    className="
+                      px-2
+                      py-0.5
+                      font-medium
+                      text-indigo-700
+                      dark:text-indigo-300
+                      bg-indigo-100
+                      dark:bg-indigo-900/40
+                      rounded-full
+                    "
+                  >
+                    {t('result.edited')}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => setView(view === 'changes' ? 'text' : 'changes')}
+                    className="font-medium text-indigo-600 dark:text-indigo-300 hover:underline"
+                  >
+                    {view === 'changes' ? t('result.showEdited') : t('result.showChanges')}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleRevert}
+                    className="font-medium text-gray-600 dark:text-gray-300 hover:underline"
+                  >
+                    {t('result.revert')}
+                  </button>
+                </>
+              )}
+            </div>
+            {view === 'text' && (
+              <div
+                className="inline-flex rounded-lg border border-gray-200 dark:border-gray-600 overflow-hidden"
+                role="group"
+                aria-label={t('result.format')}
+              >
+                {(['rendered', 'raw'] as const).map((option) => (
+                  <button
+                    key={option}
+                    type="button"
+                    onClick={() => setFormat(option)}
+                    aria-pressed={format === option}
+                    className={`
+                      ${TOGGLE_BUTTON_CLASSES}
+                      ${
+                        format === option
+                          ? 'bg-indigo-600 text-white'
+                          : 'text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700'
+                      }
+                    `}
+                  >
+                    {t(`result.formats.${option}`)}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+        {isComparing && candidates ? (
+          <CandidateComparison
+            candidates={candidates}
+            onChoose={(index) => onChooseCandidate?.(index)}
+            onDiscard={(index) => onDiscardCandidate?.(index)}
+          />
+        ) : view === 'editing' ? (
+          <textarea
+            value={displayedText}
+            onChange={(event) => setEditedText(event.target.value)}
+            rows={Math.min(20, Math.max(6, displayedText.split('\n').length + 1))}
+            aria-label={t('result.editLabel')}
+            className="
+              w-full
+              px-3
+              py-2
+              text-base
+              leading-relaxed
+              rounded-lg
+              border-2
+              border-gray-200
+              dark:border-gray-600
+              focus:border-indigo-500
+              focus:outline-none
+              bg-white
+              dark:bg-gray-800
+              text-gray-700
+              dark:text-gray-300
+              resize-y
+            "
+          />
+        ) : view === 'changes' && editedText !== null ? (
+          <DiffView
+            before={text}
+            after={editedText}
+            beforeLabel={t('result.original')}
+            afterLabel={t('result.edited')}
+          />
+        ) : format === 'rendered' ? (
+          <div aria-live={isStreaming ? 'polite' : undefined} aria-busy={isStreaming}>
+            <MarkdownContent source={displayedText} className="text-base" />
+            {isStreaming && caret}
+          </div>
+        ) : (
+          <p
+            className="
+              text-gray-700
+              dark:text-gray-300
+              leading-relaxed
+              whitespace-pre-wrap
+              text-base
+            "
+            aria-live={isStreaming ? 'polite' : undefined}
+            aria-busy={isStreaming}
+          >
+            {displayedText}
+            {isStreaming && caret}
+          </p>
+        )}
       </div>
 
       {/* Footer with metadata */}
@@ -321,10 +705,38 @@ const ResultBox: React.FC<ResultBoxProps> = ({
           justify-between
         "
       >
+        {isComparing && candidates ? (
+          <span>{t('candidates.hint', { count: candidates.length })}</span>
+        ) : (
+          <span>
+            {t('result.stats', {
+              words: displayedText.split(' ').length,
+              characters: displayedText.length,
+            })}
+            {metadata?.promptTokens !== undefined && metadata.completionTokens !== undefined && (
+              <>
+                {' • '}
+                {t('result.tokens', {
+                  prompt: metadata.promptTokens,
+                  completion: metadata.completionTokens,
+                })}
+              </>
+            )}
+            {metadata?.estimatedCost !== undefined && (
+              <>
+                {' • '}
+                {t('result.cost', { cost: formatCost(locale, metadata.estimatedCost) })}
+              </>
+            )}
+          </span>
+        )}
         <span>
-          {text.split(' ').length} words • {text.length} characters
+          {isStreaming
+            ? t('result.generating')
+            : isCached
+              ? t('result.cached')
+              : t('result.generatedNow')}
         </span>
-        <span>Generated just now</span>
       </div>
     </div>
   );
@@ -0,0 +1,260 @@
+/**
+ * @fileoverview TemplateVariablesForm component for filling in a prompt template
+ * @description Generated inputs for the variables of a template with a live preview of the final prompt
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import React, { useCallback, useMemo, useState } from 'react';
+import { useI18n } from '../hooks/useI18n';
+import { getMissingVariables, parseTemplateVariables, renderTemplate } from '../promptTemplates';
+import type { PromptTemplate, TemplateValues, TemplateVariable } from '../types/promptTemplate';
+
+/**
+ * Props interface for the TemplateVariablesForm component
+ * @interface TemplateVariablesFormProps
+ */
+interface TemplateVariablesFormProps {
+  /** Template being filled in */
+  template: PromptTemplate;
+  /** Callback with the final prompt when the user applies it */
+  onUse: (prompt: string) => void;
+  /** Callback to delete the template */
+  onDelete: (id: string) => void;
+  /** Callback when the form is closed */
+  onClose: () => void;
+  /** Whether the controls are disabled (e.g. while generating) */
+  disabled?: boolean;
+}
+
+/**
+ * Shared classes of the variable inputs
+ * @constant
+ */
+const INPUT_CLASSES = `
+  w-full
+  px-3
+  py-1.5
+  text-sm
+  rounded-lg
+  border-2
+  border-gray-200
+  dark:border-gray-600
+  focus:border-indigo-500
+  focus:outline-none
+  bg-white
+  dark:bg-gray-800
+  text-gray-800
+  dark:text-gray-200
+  disabled:opacity-50
+`;
+
+/**
+ * Keeps Enter in a single-line input from submitting the surrounding prompt form
+ * @param event - Keyboard event of the input
+ */
+const preventSubmitOnEnter = (event: React.KeyboardEvent<HTMLInputElement>): void => {
+  if (event.key === 'Enter') {
+    event.preventDefault();
+  }
+};
+
+/**
+ * TemplateVariablesForm Component
+ *
+ * Rendered under the template library when a template is selected. It:
+ * - Generates one input per variable: text, number or multi-line, by its declared type
+ * - Shows the default value of a variable as its placeholder
+ * - Previews the final prompt as the user types
+ * - Hands the final prompt to the parent, which puts it in the prompt textarea
+ * - Deletes the template after a confirmation
+ *
+ * Reset its values by keying it on the template id.
+ *
+ * @param {TemplateVariablesFormProps} props - Component props
+ * @returns {JSX.Element} The rendered variables form
+ *
+ * @example
+ * ```tsx
+ * <TemplateVariablesForm
+ *   key={template.id}
+ *   template={template}
+ *   onUse={setPrompt}
+ *   onDelete={deleteTemplate}
+ *   onClose={() => setSelectedId(null)}
+ * />
+ * ```
+ */
+const TemplateVariablesForm: React.FC<TemplateVariablesFormProps> = ({
+  template,
+  onUse,
+  onDelete,
+  onClose,
+  disabled = false,
+}) => {
+  const { t } = useI18n();
+  const [values, setValues] = useState<TemplateValues>({});
+  const [isConfirmingDelete, setConfirmingDelete] = useState<boolean>(false);
+
+  const variables = useMemo(() => parseTemplateVariables(template.body), [template.body]);
+  const preview = useMemo(() => renderTemplate(template.body, values), [template.body, values]);
+  const missing = useMemo(() => getMissingVariables(variables, values), [variables, values]);
+
+  /**
+   * Stores the value of one variable
+   */
+  const handleValueChange = useCallback((name: string, value: string): void => {
+    setValues((prev) => ({ ...prev, [name]: value }));
+  }, []);
+
+  /**
+   * Deletes the template on the second click
+   */
+  const handleDelete = useCallback((): void => {
+    if (!isConfirmingDelete) {
+      setConfirmingDelete(true);
+      return;
+    }
+    onDelete(template.id);
+  }, [isConfirmingDelete, onDelete, template.id]);
+
+  /**
+   * Renders the input matching the type of a variable
+   */
+  const renderInput = (variable: TemplateVariable): React.ReactElement => {
+    const id = `template-variable-${variable.name}`;
+    const commonProps = {
+      id,
+      value: values[variable.name] ?? '',
+      placeholder: variable.defaultValue,
+      disabled,
+      className: INPUT_CLASSES,
+    };
+
+    if (variable.type === 'multiline') {
+      return (
+        <textarea
+          {...commonProps}
+          rows={3}
+          onChange={(event) => handleValueChange(variable.name, event.target.value)}
+        />
+      );
+    }
+
+    return (
+      <input
+        {...commonProps}
+        type={variable.type === 'number' ? 'number' : 'text'}
+        onChange={(event) => handleValueChange(variable.name, event.target.value)}
+        onKeyDown={preventSubmitOnEnter}
+      />
+    );
+  };
+
+  return (
+    <div className="p-4 space-y-3 rounded-xl border border-indigo-200 dark:border-indigo-800 bg-indigo-50/40 dark:bg-indigo-900/10">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-sm font-semibold text-gray-800 dark:text-gray-200 truncate">
+          {template.name}
+        </p>
+        <button
+          type="button"
+          onClick={onClose}
+          className="text-xs text-gray-500 hover:text-gray-800 dark:hover:text-gray-200"
+        >
+          {t('templates.close')}
+        </button>
+      </div>
+
+      {/* Generated inputs */}
+      {variables.length > 0 ? (
+        <fieldset className="grid gap-3 sm:grid-cols-2">
+          <legend className="sr-only">{t('templates.variablesTitle')}</legend>
+          {variables.map((variable) => (
+            <div
+              key={variable.name}
+              className={variable.type === 'multiline' ? 'sm:col-span-2' : undefined}
+            >
+              <label
+                htmlFor={`template-variable-${variable.name}`}
+                className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1"
+              >
+                {variable.name}
+              </label>
+              {renderInput(variable)}
+            </div>
+          ))}
+        </fieldset>
+      ) : (
+        <p className="text-xs text-gray-500 dark:text-gray-400">{t('templates.noVariables')}</p>
+      )}
+
+      {/* Live preview */}
+      <div>
+        <p className="text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+          {t('templates.preview')}
+        </p>
+        <p
+          className="text-sm text-gray-800 dark:text-gray-200 whitespace-pre-wrap p-3 rounded-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700"
+          aria-live="polite"
+        >
+          {preview}
+        </p>
+        {missing.length > 0 && (
+          <p className="mt-1 text-xs text-amber-600 dark:text-amber-400">
+            {t('templates.missing', { names: missing.join(', ') })}
+          </p>
+        )}
+      </div>
+
+      <div className="flex flex-wrap justify-between gap-2">
+        <button
+          type="button"
+          onClick={handleDelete}
+          disabled={disabled}
+          className={`
+            px-2.5
+            py-1
+            text-xs
+            font-medium
+            rounded-lg
+            border
+            disabled:opacity-50
+            ${
+              isConfirmingDelete
+                ? 'text-red-600 dark:text-red-400 border-red-300'
+                : 'text-gray-700 dark:text-gray-200 border-gray-200 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700'
+            }
+          `}
+        >
+          {isConfirmingDelete ? t('templates.confirmDelete') : t('templates.delete')}
+        </button>
+        <button
+          type="button"
+          onClick={() => onUse(preview)}
+          disabled={disabled || missing.length > 0}
+          className="
+            px-4
+            py-1.5
+            text-sm
+            font-semibold
+            text-white
+            bg-gradient-to-r
+            from-indigo-600
+            to-purple-600
+            hover:from-indigo-700
+            hover:to-purple-700
+            rounded-lg
+            disabled:from-gray-400
+            disabled:to-gray-500
+            disabled:cursor-not-allowed
+          "
+        >
+          {t('templates.use')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TemplateVariablesForm;
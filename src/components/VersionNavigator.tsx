@@ -0,0 +1,344 @@
+/**
+ * @fileoverview VersionNavigator component for the result version tree
+ * @description Steps through the versions generated for a prompt, shows the parameters of
+ * each one and forks new versions from it
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useI18n } from '../hooks/useI18n';
+import {
+  findVersion,
+  getForks,
+  getSiblings,
+  getVersionLabel,
+  getVersionPosition,
+} from '../versions';
+import type { VersionTree } from '../types/versions';
+
+/**
+ * Props interface for the VersionNavigator component
+ * @interface VersionNavigatorProps
+ */
+interface VersionNavigatorProps {
+  /** Every version generated for the prompt */
+  tree: VersionTree;
+  /** Version shown as the result */
+  currentVersionId: string;
+  /** Callback to show another version */
+  onSelect: (id: string) => void;
+  /** Callback to generate a new version from a version with the given prompt */
+  onFork: (id: string, prompt: string) => void;
+  /** Optional callback to diff two versions, the current one being the second */
+  onCompare?: (beforeId: string, afterId: string) => void;
+  /** Whether a generation is in progress */
+  disabled?: boolean;
+}
+
+/**
+ * Shared classes of the small action buttons
+ * @constant
+ */
+const ACTION_BUTTON_CLASSES = `
+  px-2.5
+  py-1
+  text-xs
+  font-medium
+  rounded-lg
+  border
+  border-gray-200
+  dark:border-gray-600
+  text-gray-700
+  dark:text-gray-200
+  hover:bg-gray-100
+  dark:hover:bg-gray-700
+  transition-colors
+  duration-200
+  disabled:opacity-50
+  disabled:cursor-not-allowed
+`;
+
+/**
+ * VersionNavigator Component
+ *
+ * A bar above the result that:
+ * - Steps back and forth between sibling versions ("2 of 5")
+ * - Links to the version the current one was forked from, and to its own forks
+ * - Shows the prompt and the parameters that produced the version
+ * - Forks a new version from the current one, with an editable copy of its prompt
+ * - Compares the current version with the previous sibling (or the parent)
+ *
+ * @param {VersionNavigatorProps} props - Component props
+ * @returns {JSX.Element | null} The rendered bar, or null if the version is not in the tree
+ *
+ * @example
+ * ```tsx
+ * <VersionNavigator
+ *   tree={versionTree}
+ *   currentVersionId={currentVersionId}
+ *   onSelect={selectVersion}
+ *   onFork={(id, prompt) => forkVersion(id, prompt)}
+ * />
+ * ```
+ */
+const VersionNavigator: React.FC<VersionNavigatorProps> = ({
+  tree,
+  currentVersionId,
+  onSelect,
+  onFork,
+  onCompare,
+  disabled = false,
+}) => {
+  const { t } = useI18n();
+
+  // Prompt of the fork being edited, null while the editor is closed
+  const [forkPrompt, setForkPrompt] = useState<string | null>(null);
+
+  const version = findVersion(tree, currentVersionId);
+
+  const navigation = useMemo(() => {
+    if (!version) {
+      return null;
+    }
+    const siblings = getSiblings(tree, version);
+    const position = getVersionPosition(tree, version);
+    return {
+      position,
+      label: getVersionLabel(tree, version.id),
+      previous: siblings[position.index - 2],
+      next: siblings[position.index],
+      parent: version.parentId ? findVersion(tree, version.parentId) : undefined,
+      forks: getForks(tree, version.id),
+    };
+  }, [tree, version]);
+
+  /**
+   * Closes the fork editor when another version is shown
+   */
+  useEffect(() => {
+    setForkPrompt(null);
+  }, [currentVersionId]);
+
+  /**
+   * Generates the fork and closes the editor
+   */
+  const handleForkSubmit = useCallback(
+    (event: React.FormEvent<HTMLFormElement>): void => {
+      event.preventDefault();
+      const prompt = forkPrompt?.trim();
+      if (!prompt || !version) {
+        return;
+      }
+      setForkPrompt(null);
+      onFork(version.id, prompt);
+    },
+    [forkPrompt, version, onFork]
+  );
+
+  if (!version || !navigation) {
+    return null;
+  }
+
+  const { position, label, previous, next, parent, forks } = navigation;
+  // The version the current one most likely evolved from
+  const counterpart = previous ?? parent ?? next;
+  const { temperature, maxLength, systemInstruction } = version.parameters;
+  const seed = version.metadata?.seed ?? version.parameters.seed;
+
+  return (
+    <div
+      className="
+        mb-4
+        p-4
+        rounded-xl
+        border
+        border-gray-200
+        dark:border-gray-700
+        bg-gray-50
+        dark:bg-gray-800/60
+        space-y-3
+      "
+    >
+      {/* Version and sibling navigation */}
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <span className="text-sm font-semibold text-gray-800 dark:text-gray-200">
+            {t('versions.label', { label })}
+          </span>
+          <div className="flex items-center gap-1" role="group" aria-label={t('versions.navigation')}>
+            <button
+              type="button"
+              onClick={() => previous && onSelect(previous.id)}
+              disabled={disabled || !previous}
+              className={ACTION_BUTTON_CLASSES}
+              aria-label={t('versions.previous')}
+            >
+              ‹
+            </button>
+            <span className="text-xs text-gray-600 dark:text-gray-400 tabular-nums" aria-live="polite">
+              {t('versions.position', { index: position.index, total: position.total })}
+            </span>
+            <button
+              type="button"
+              onClick={() => next && onSelect(next.id)}
+              disabled={disabled || !next}
+              className={ACTION_BUTTON_CLASSES}
+              aria-label={t('versions.next')}
+            >
+              ›
+            </button>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-1.5">
+          {onCompare && counterpart && (
+            <button
+              type="button"
+              onClick={() => onCompare(counterpart.id, version.id)}
+              disabled={disabled}
+              className={ACTION_BUTTON_CLASSES}
+            >
+              {t('versions.compare')}
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => setForkPrompt(forkPrompt === null ? version.prompt : null)}
+            disabled={disabled}
+            className={ACTION_BUTTON_CLASSES}
+            aria-expanded={forkPrompt !== null}
+          >
+            {t('versions.fork')}
+          </button>
+        </div>
+      </div>
+
+      {/* Parent and forks */}
+      {(parent || forks.length > 0) && (
+        <div className="flex flex-wrap items-center gap-1.5 text-xs text-gray-600 dark:text-gray-400">
+          {parent && (
+            <button
+              type="button"
+              onClick={() => onSelect(parent.id)}
+              disabled={disabled}
+              className={ACTION_BUTTON_CLASSES}
+            >
+              {t('versions.forkedFrom', { label: getVersionLabel(tree, parent.id) })}
+            </button>
+          )}
+          {forks.length > 0 && <span>{t('versions.forks')}</span>}
+          {forks.map((fork) => (
+            <button
+              key={fork.id}
+              type="button"
+              onClick={() => onSelect(fork.id)}
+              disabled={disabled}
+              className={ACTION_BUTTON_CLASSES}
+              title={fork.prompt}
+            >
+              {getVersionLabel(tree, fork.id)}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Prompt and parameters of the version */}
+      <dl className="grid grid-cols-[auto,1fr] gap-x-3 gap-y-1 text-xs">
+        <dt className="text-gray-500 dark:text-gray-400">{t('versions.prompt')}</dt>
+        <dd className="text-gray-700 dark:text-gray-300 line-clamp-2" title={version.prompt}>
+          {version.prompt}
+        </dd>
+        <dt className="text-gray-500 dark:text-gray-400">{t('versions.parameters')}</dt>
+        <dd className="text-gray-700 dark:text-gray-300">
+          {[
+            t('versions.temperature', {
+              value: temperature ?? t('versions.defaultValue'),
+            }),
+            t('versions.maxLength', { value: maxLength ?? t('versions.defaultValue') }),
+            t('versions.seed', { value: seed ?? t('versions.defaultValue') }),
+            version.metadata?.model,
+          ]
+            .filter(Boolean)
+            .join(' • ')}
+        </dd>
+        {systemInstruction && (
+          <>
+            <dt className="text-gray-500 dark:text-gray-400">{t('history.systemInstruction')}</dt>
+            <dd className="text-gray-700 dark:text-gray-300 line-clamp-2" title={systemInstruction}>
+              {systemInstruction}
+            </dd>
+          </>
+        )}
+      </dl>
+
+      {/* Fork editor */}
+      {forkPrompt !== null && (
+        <form onSubmit={handleForkSubmit} className="space-y-2">
+          <label
+            htmlFor="fork-prompt"
+            className="block text-xs font-medium text-gray-700 dark:text-gray-300"
+          >
+            {t('versions.forkPromptLabel', { label })}
+          </label>
+          <textarea
+            id="fork-prompt"
+            value={forkPrompt}
+            onChange={(event) => setForkPrompt(event.target.value)}
+            rows={3}
+            className="
+              w-full
+              px-3
+              py-2
+              text-sm
+              rounded-lg
+              border-2
+              border-gray-200
+              dark:border-gray-600
+              focus:border-indigo-500
+              focus:outline-none
+              bg-white
+              dark:bg-gray-800
+              text-gray-800
+              dark:text-gray-200
+              resize-y
+            "
+          />
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setForkPrompt(null)}
+              className={ACTION_BUTTON_CLASSES}
+            >
+              {t('versions.cancel')}
+            </button>
+            <button
+              type="submit"
+              disabled={disabled || !forkPrompt.trim()}
+              className="
+                px-3
+                py-1
+                text-xs
+                font-semibold
+                text-white
+                bg-gradient-to-r
+                from-indigo-600
+                to-purple-600
+                hover:from-indigo-700
+                hover:to-purple-700
+                disabled:from-gray-400
+                disabled:to-gray-500
+                disabled:cursor-not-allowed
+                rounded-lg
+              "
+            >
+              {t('versions.generateFork')}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default VersionNavigator;
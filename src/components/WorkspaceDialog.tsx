@@ -0,0 +1,459 @@
+/**
+ * @fileoverview WorkspaceDialog component for moving the whole workspace
+ * @description Dialog to download the workspace as a versioned JSON bundle and to import a bundle
+ * after previewing it and choosing how its conflicts are resolved
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useI18n } from '../hooks/useI18n';
+import { useWorkspace } from '../hooks/useWorkspace';
+import {
+  DEFAULT_IMPORT_OPTIONS,
+  WORKSPACE_FILE_NAME,
+  WORKSPACE_SCHEMA_VERSION,
+  WORKSPACE_SECTIONS,
+  parseWorkspaceBundle,
+} from '../workspace';
+import type {
+  ConflictResolution,
+  SectionImportOptions,
+  WorkspaceBundle,
+  WorkspaceImportError,
+  WorkspaceImportOptions,
+  WorkspaceImportPreview,
+  WorkspaceImportSummary,
+  WorkspaceSection,
+} from '../types/workspace';
+
+/**
+ * Props interface for the WorkspaceDialog component
+ * @interface WorkspaceDialogProps
+ */
+interface WorkspaceDialogProps {
+  /** Callback when the dialog is closed */
+  onClose: () => void;
+}
+
+/**
+ * Where the import stands
+ * @type ImportState
+ */
+type ImportState =
+  | { kind: 'idle' }
+  | { kind: 'error'; error: WorkspaceImportError | 'FAILED' }
+  | { kind: 'preview'; bundle: WorkspaceBundle; preview: WorkspaceImportPreview }
+  | { kind: 'done'; summary: WorkspaceImportSummary };
+
+/**
+ * Conflict resolutions, in the order they are offered
+ * @constant
+ */
+const RESOLUTIONS: ConflictResolution[] = ['merge', 'replace', 'skip'];
+
+/**
+ * Shared classes of the small action buttons
+ * @constant
+ */
+const ACTION_BUTTON_CLASSES = `
+  px-2.5
+  py-1
+  text-xs
+  font-medium
+  rounded-lg
+  border
+  border-gray-200
+  dark:border-gray-600
+  text-gray-700
+  dark:text-gray-200
+  hover:bg-gray-100
+  dark:hover:bg-gray-700
+  transition-colors
+  duration-200
+  disabled:opacity-50
+  disabled:cursor-not-allowed
+`;
+
+/**
+ * Starts the download of a JSON document
+ *
+ * @param json - File contents
+ * @param fileName - Suggested file name
+ */
+const downloadJson = (json: string, fileName: string): void => {
+  const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * WorkspaceDialog Component
+ *
+ * A modal dialog that:
+ * - Downloads the history, collections, templates, personas and settings as one bundle
+ * - Reads a bundle file, migrating older schema versions, and previews what it would change
+ * - Lets each section be left out and its conflicts merged, replaced or skipped
+ * - Shows what the import added and updated
+ * - Closes with Escape or the close button
+ *
+ * @param {WorkspaceDialogProps} props - Component props
+ * @returns {JSX.Element} The rendered dialog
+ *
+ * @example
+ * ```tsx
+ * {isWorkspaceOpen && <WorkspaceDialog onClose={() => setWorkspaceOpen(false)} />}
+ * ```
+ */
+const WorkspaceDialog: React.FC<WorkspaceDialogProps> = ({ onClose }) => {
+  const { t } = useI18n();
+  const { exportWorkspace, previewImport, importWorkspace } = useWorkspace();
+
+  const [importState, setImportState] = useState<ImportState>({ kind: 'idle' });
+  const [options, setOptions] = useState<WorkspaceImportOptions>(DEFAULT_IMPORT_OPTIONS);
+  const [isBusy, setIsBusy] = useState(false);
+  const [exportFailed, setExportFailed] = useState(false);
+
+  // Hidden file input opened by the import button
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  /**
+   * Closes the dialog with Escape
+   */
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent): void => {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  /**
+   * Downloads the current workspace
+   */
+  const handleExport = useCallback(async (): Promise<void> => {
+    setIsBusy(true);
+    try {
+      downloadJson(await exportWorkspace(), WORKSPACE_FILE_NAME);
+      setExportFailed(false);
+    } catch {
+      setExportFailed(true);
+    } finally {
+      setIsBusy(false);
+    }
+  }, [exportWorkspace]);
+
+  /**
+   * Reads the chosen file and previews its import
+   */
+  const handleFileChange = useCallback(
+    async (event: React.ChangeEvent<HTMLInputElement>): Promise<void> => {
+      const file = event.target.files?.[0];
+      // Allow choosing the same file again
+      event.target.value = '';
+      if (!file) {
+        return;
+      }
+
+      setIsBusy(true);
+      try {
+        const result = parseWorkspaceBundle(await file.text());
+        if (!result.ok) {
+          setImportState({ kind: 'error', error: result.error });
+          return;
+        }
+
+        const preview = await previewImport(result.bundle, result.sourceVersion, result.invalid);
+        setOptions(DEFAULT_IMPORT_OPTIONS);
+        setImportState({ kind: 'preview', bundle: result.bundle, preview });
+      } catch {
+        setImportState({ kind: 'error', error: 'FAILED' });
+      } finally {
+        setIsBusy(false);
+      }
+    },
+    [previewImport]
+  );
+
+  /**
+   * Imports the previewed bundle with the chosen options
+   */
+  const handleImport = useCallback(async (): Promise<void> => {
+    if (importState.kind !== 'preview') {
+      return;
+    }
+
+    setIsBusy(true);
+    try {
+      const summary = await importWorkspace(importState.bundle, options);
+      setImportState({ kind: 'done', summary });
+    } catch {
+      setImportState({ kind: 'error', error: 'FAILED' });
+    } finally {
+      setIsBusy(false);
+    }
+  }, [importState, importWorkspace, options]);
+
+  /**
+   * Changes the import choices of one section
+   */
+  const updateSection = useCallback(
+    (section: WorkspaceSection, changes: Partial<SectionImportOptions>): void => {
+      setOptions((prev) => ({ ...prev, [section]: { ...prev[section], ...changes } }));
+    },
+    []
+  );
+
+  const hasSelection =
+    importState.kind === 'preview' &&
+    WORKSPACE_SECTIONS.some(
+      (section) => options[section].include && importState.preview.sections[section].total > 0
+    );
+
+  return (
+    <div
+      className="fixed inset-0 z-20 flex items-center justify-center p-4 bg-gray-900/50"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="workspace-dialog-title"
+        onClick={(event) => event.stopPropagation()}
+        className="
+          w-full
+          max-w-2xl
+          max-h-[90vh]
+          overflow-y-auto
+          bg-white
+          dark:bg-gray-800
+          rounded-2xl
+          shadow-xl
+          border
+          border-gray-200
+          dark:border-gray-700
+          p-6
+        "
+      >
+        {/* Header */}
+        <div className="flex items-start justify-between gap-4 mb-4">
+          <div>
+            <h2
+              id="workspace-dialog-title"
+              className="text-lg font-semibold text-gray-900 dark:text-white"
+            >
+              {t('workspace.title')}
+            </h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+              {t('workspace.description')}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-1 text-gray-500 hover:text-gray-800 dark:hover:text-gray-200"
+            aria-label={t('workspace.close')}
+          >
+            <svg
+              className="w-5 h-5"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+              aria-hidden="true"
+            >
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Export */}
+        <section className="p-3 mb-4 rounded-xl border border-gray-200 dark:border-gray-700">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h3 className="font-medium text-gray-900 dark:text-white">
+              {t('workspace.export.title')}
+            </h3>
+            <button
+              type="button"
+              onClick={handleExport}
+              disabled={isBusy}
+              className={ACTION_BUTTON_CLASSES}
+            >
+              {t('workspace.export.download')}
+            </button>
+          </div>
+          <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+            {t('workspace.export.description')}
+          </p>
+          {exportFailed && (
+            <p className="mt-1 text-xs text-red-500 dark:text-red-400" role="status">
+              {t('workspace.export.failed')}
+            </p>
+          )}
+        </section>
+
+        {/* Import */}
+        <section className="p-3 rounded-xl border border-gray-200 dark:border-gray-700">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h3 className="font-medium text-gray-900 dark:text-white">
+              {t('workspace.import.title')}
+            </h3>
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isBusy}
+              className={ACTION_BUTTON_CLASSES}
+            >
+              {t('workspace.import.choose')}
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              onChange={handleFileChange}
+              className="hidden"
+              aria-hidden="true"
+              tabIndex={-1}
+            />
+          </div>
+          <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+            {t('workspace.import.description')}
+          </p>
+
+          {importState.kind === 'error' && (
+            <p className="mt-2 text-xs text-red-500 dark:text-red-400" role="status">
+              {t(`workspace.errors.${importState.error}`)}
+            </p>
+          )}
+
+          {importState.kind === 'preview' && (
+            <div className="mt-3 space-y-3">
+              {importState.preview.sourceVersion < WORKSPACE_SCHEMA_VERSION && (
+                <p className="text-xs text-indigo-600 dark:text-indigo-400" role="status">
+                  {t('workspace.import.migrated', {
+                    from: importState.preview.sourceVersion,
+                    to: WORKSPACE_SCHEMA_VERSION,
+                  })}
+                </p>
+              )}
+              {importState.preview.invalid > 0 && (
+                <p className="text-xs text-amber-600 dark:text-amber-400" role="status">
+                  {t('workspace.import.invalid', { count: importState.preview.invalid })}
+                </p>
+              )}
+
+              <ul className="space-y-2">
+                {WORKSPACE_SECTIONS.map((section) => {
+                  const counts = importState.preview.sections[section];
+                  const isEmpty = counts.total === 0;
+
+                  return (
+                    <li
+                      key={section}
+                      className="flex flex-wrap items-center justify-between gap-2 p-2 rounded-lg bg-gray-50 dark:bg-gray-900/40"
+                    >
+                      <label className="flex items-center gap-2 text-sm font-medium text-gray-800 dark:text-gray-200">
+                        <input
+                          type="checkbox"
+                          checked={options[section].include && !isEmpty}
+                          onChange={(event) =>
+                            updateSection(section, { include: event.target.checked })
+                          }
+                          disabled={isEmpty || isBusy}
+                          className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                        />
+                        {t(`workspace.sections.${section}`)}
+                      </label>
+                      <span className="text-xs text-gray-600 dark:text-gray-400">
+                        {t('workspace.counts', { ...counts })}
+                      </span>
+                      {counts.conflicts > 0 && (
+                        <select
+                          value={options[section].resolution}
+                          onChange={(event) =>
+                            updateSection(section, {
+                              resolution: event.target.value as ConflictResolution,
+                            })
+                          }
+                          disabled={!options[section].include || isBusy}
+                          aria-label={t('workspace.resolutionLabel', {
+                            section: t(`workspace.sections.${section}`),
+                          })}
+                          className="px-2 py-1 text-xs rounded-lg border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-200"
+                        >
+                          {RESOLUTIONS.map((resolution) => (
+                            <option key={resolution} value={resolution}>
+                              {t(`workspace.resolutions.${resolution}`)}
+                            </option>
+                          ))}
+                        </select>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {t('workspace.resolutionHelp')}
+              </p>
+
+              <div className="flex justify-end gap-2">
+                <button
+                  type="button"
+                  onClick={() => setImportState({ kind: 'idle' })}
+                  disabled={isBusy}
+                  className={ACTION_BUTTON_CLASSES}
+                >
+                  {t('workspace.import.cancel')}
+                </button>
+                <button
+                  type="button"
+                  onClick={handleImport}
+                  disabled={!hasSelection || isBusy}
+                  className="
+                    px-4
+                    py-1.5
+                    text-sm
+                    font-semibold
+                    text-white
+                    bg-gradient-to-r
+                    from-indigo-600
+                    to-purple-600
+                    hover:from-indigo-700
+                    hover:to-purple-700
+                    rounded-lg
+                    disabled:opacity-50
+                    disabled:cursor-not-allowed
+                  "
+                >
+                  {t('workspace.import.apply')}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {importState.kind === 'done' && (
+            <div className="mt-3" role="status">
+              <p className="text-sm text-green-600 dark:text-green-400">
+                {t('workspace.import.done')}
+              </p>
+              <ul className="mt-1 text-xs text-gray-600 dark:text-gray-400">
+                {WORKSPACE_SECTIONS.map((section) => (
+                  <li key={section}>
+                    {t(`workspace.sections.${section}`)}:{' '}
+                    {t('workspace.summary', { ...importState.summary[section] })}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default WorkspaceDialog;
@@ -0,0 +1,212 @@
+/**
+ * @fileoverview Word diff
+ * @description Word-level diff between two texts, based on the longest common subsequence
+ * of their words, whitespace and punctuation
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import type { DiffOperation, DiffSegment, DiffStats } from '../types/diff';
+
+/**
+ * Largest LCS table (tokens of the first text times tokens of the second) computed exactly;
+ * bigger changed regions are reported as one removal and one addition
+ * @constant
+ */
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Splits a text into words (with inner apostrophes and hyphens), whitespace runs and
+ * single punctuation marks
+ * @constant
+ */
+const TOKEN_PATTERN = /\s+|[\p{L}\p{N}_]+(?:['’-][\p{L}\p{N}_]+)*|[^\s\p{L}\p{N}_]/gu;
+
+/**
+ * Matches a token that counts as a word in the stats
+ * @constant
+ */
+const WORD_PATTERN = /[\p{L}\p{N}]/u;
+
+/**
+ * Splits a text into diff tokens
+ * Concatenating the tokens gives the text back.
+ *
+ * @param text - The text
+ * @returns The tokens
+ */
+export const tokenizeForDiff = (text: string): string[] => text.match(TOKEN_PATTERN) ?? [];
+
+/**
+ * Diffs two token lists with a longest common subsequence table
+ *
+ * @param before - Tokens of the first text
+ * @param after - Tokens of the second text
+ * @returns One operation per token, in reading order
+ */
+const diffTokens = (before: string[], after: string[]): Array<[DiffOperation, string]> => {
+  const rows = before.length;
+  const columns = after.length;
+
+  if (rows * columns > MAX_DIFF_CELLS) {
+    return [
+      ...before.map((token): [DiffOperation, string] => ['removed', token]),
+      ...after.map((token): [DiffOperation, string] => ['added', token]),
+    ];
+  }
+
+  // lengths[i * (columns + 1) + j] = LCS length of before[i..] and after[j..]
+  const width = columns + 1;
+  const lengths = new Uint32Array((rows + 1) * width);
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = columns - 1; j >= 0; j--) {
+      lengths[i * width + j] =
+        before[i] === after[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const operations: Array<[DiffOperation, string]> = [];
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < columns) {
+    if (before[i] === after[j]) {
+      operations.push(['equal', before[i]]);
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      operations.push(['removed', before[i]]);
+      i++;
+    } else {
+      operations.push(['added', after[j]]);
+      j++;
+    }
+  }
+  for (; i < rows; i++) {
+    operations.push(['removed', before[i]]);
+  }
+  for (; j < columns; j++) {
+    operations.push(['added', after[j]]);
+  }
+
+  return operations;
+};
+
+/**
+ * Groups per-token operations into segments
+ * Whitespace left unchanged between two changes is folded into them, and every run of
+ * changes is reported as its removal followed by its addition, so "quick brown" to
+ * "slow red" reads as one replacement instead of alternating single words.
+ *
+ * @param operations - One operation per token
+ * @returns The merged segments
+ */
+const toSegments = (operations: Array<[DiffOperation, string]>): DiffSegment[] => {
+  const segments: DiffSegment[] = [];
+  let removed = '';
+  let added = '';
+
+  const flushChange = (): void => {
+    if (removed) {
+      segments.push({ type: 'removed', text: removed });
+    }
+    if (added) {
+      segments.push({ type: 'added', text: added });
+    }
+    removed = '';
+    added = '';
+  };
+
+  operations.forEach(([type, token], index) => {
+    const isChangeOpen = removed !== '' || added !== '';
+    const next = operations[index + 1];
+    const isBridge =
+      type === 'equal' &&
+      isChangeOpen &&
+      /^\s+$/.test(token) &&
+      next !== undefined &&
+      next[0] !== 'equal';
+
+    if (type === 'removed' || isBridge) {
+      removed += token;
+    }
+    if (type === 'added' || isBridge) {
+      added += token;
+    }
+    if (type === 'equal' && !isBridge) {
+      flushChange();
+      const last = segments[segments.length - 1];
+      if (last?.type === 'equal') {
+        last.text += token;
+      } else {
+        segments.push({ type: 'equal', text: token });
+      }
+    }
+  });
+  flushChange();
+
+  return segments;
+};
+
+/**
+ * Computes the word-level diff of two texts
+ * The common beginning and end are matched first, so only the changed region
+ * goes through the LCS table.
+ *
+ * @param before - The first (older) text
+ * @param after - The second (newer) text
+ * @returns The segments, in reading order; equal, removed and added text interleaved
+ *
+ * @example
+ * ```typescript
+ * diffWords('The quick fox', 'The slow fox');
+ * // [{ type: 'equal', text: 'The ' }, { type: 'removed', text: 'quick' },
+ * //  { type: 'added', text: 'slow' }, { type: 'equal', text: ' fox' }]
+ * ```
+ */
+export const diffWords = (before: string, after: string): DiffSegment[] => {
+  const beforeTokens = tokenizeForDiff(before);
+  const afterTokens = tokenizeForDiff(after);
+
+  let start = 0;
+  while (
+    start < beforeTokens.length &&
+    start < afterTokens.length &&
+    beforeTokens[start] === afterTokens[start]
+  ) {
+    start++;
+  }
+
+  let beforeEnd = beforeTokens.length;
+  let afterEnd = afterTokens.length;
+  while (
+    beforeEnd > start &&
+    afterEnd > start &&
+    beforeTokens[beforeEnd - 1] === afterTokens[afterEnd - 1]
+  ) {
+    beforeEnd--;
+    afterEnd--;
+  }
+
+  return toSegments([
+    ...beforeTokens.slice(0, start).map((token): [DiffOperation, string] => ['equal', token]),
+    ...diffTokens(beforeTokens.slice(start, beforeEnd), afterTokens.slice(start, afterEnd)),
+    ...beforeTokens.slice(beforeEnd).map((token): [DiffOperation, string] => ['equal', token]),
+  ]);
+};
+
+/**
+ * Counts the added, removed and unchanged words of a diff
+ *
+ * @param segments - The diff segments
+ * @returns The word counts
+ */
+export const getDiffStats = (segments: DiffSegment[]): DiffStats => {
+  const stats: DiffStats = { added: 0, removed: 0, unchanged: 0 };
+  for (const { type, text } of segments) {
+    const words = tokenizeForDiff(text).filter((token) => WORD_PATTERN.test(token)).length;
+    stats[type === 'equal' ? 'unchanged' : type] += words;
+  }
+  return stats;
+};
@@ -0,0 +1,467 @@
+/**
+ * @fileoverview DOCX export
+ * @description Builds a Word document from a result in the browser: its Markdown becomes
+ * WordprocessingML with headings, lists, tables, links and code, packaged as a ZIP archive
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import { formatDateTime } from '../i18n';
+import { parseMarkdown } from '../markdown';
+import { createZip } from './zip';
+import type { ExportSource } from '../types/export';
+import type { Locale } from '../types/i18n';
+import type { MarkdownBlock, MarkdownInline } from '../types/markdown';
+
+/**
+ * XML namespaces and relationship types of the package
+ * @constant
+ */
+const NS = {
+  W: 'http://schemas.openxmlformats.org/wordprocessingml/2006/main',
+  R: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+  CONTENT_TYPES: 'http://schemas.openxmlformats.org/package/2006/content-types',
+  RELATIONSHIPS: 'http://schemas.openxmlformats.org/package/2006/relationships',
+  OFFICE_DOCUMENT: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument',
+  CORE_PROPERTIES: 'http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties',
+  STYLES: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles',
+  HYPERLINK: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink',
+} as const;
+
+/**
+ * XML declaration of every part
+ * @constant
+ */
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+/**
+ * Page layout, in twentieths of a point: A4 with 2.54 cm margins
+ * @constant
+ */
+const PAGE = {
+  WIDTH: 11906,
+  HEIGHT: 16838,
+  MARGIN: 1440,
+} as const;
+
+/**
+ * Indentation of each list level and of blockquotes, in twentieths of a point
+ * @constant
+ */
+const INDENT = 360;
+
+/**
+ * Bullet of each list level; deeper levels reuse the last one
+ * @constant
+ */
+const BULLETS = ['•', '◦', '▪'];
+
+/**
+ * Language tag of the document for each locale
+ * @constant
+ */
+const DOCUMENT_LANGUAGES: Record<Locale, string> = {
+  es: 'es-ES',
+  en: 'en-US',
+};
+
+/**
+ * Formatting applied to a run of text
+ * @interface RunFormat
+ */
+interface RunFormat {
+  bold?: boolean;
+  italic?: boolean;
+  strike?: boolean;
+  /** Character style of the run (inline code, hyperlinks) */
+  style?: 'InlineCode' | 'Hyperlink';
+}
+
+/**
+ * State shared while the blocks of the document are rendered
+ * @interface RenderContext
+ */
+interface RenderContext {
+  /** Targets of the hyperlinks found so far; link n is relationship rId(n + 2) */
+  links: string[];
+  /** Left indentation of the current blocks */
+  indent: number;
+  /** Whether the current blocks are inside a blockquote */
+  quoted: boolean;
+}
+
+/**
+ * Code points that XML 1.0 does not allow: control characters other than tab and newlines,
+ * lone surrogates, U+FFFE and U+FFFF
+ * @constant
+ */
+const INVALID_XML_CHARACTERS = /[^\t\n\r\u0020-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu;
+
+/**
+ * Escapes text for XML content and attribute values
+ * Characters that XML 1.0 does not allow are dropped.
+ *
+ * @param text - The text
+ * @returns The escaped text
+ */
+const escapeXml = (text: string): string =>
+  text
+    .replace(INVALID_XML_CHARACTERS, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Builds a run of text; tabs and newlines become their WordprocessingML elements
+ *
+ * @param text - The text
+ * @param format - Its formatting
+ * @returns The run
+ */
+const run = (text: string, format: RunFormat = {}): string => {
+  const properties = [
+    format.style ? `<w:rStyle w:val="${format.style}"/>` : '',
+    format.bold ? '<w:b/>' : '',
+    format.italic ? '<w:i/>' : '',
+    format.strike ? '<w:strike/>' : '',
+  ].join('');
+  const content = text
+    .split(/(\t|\r?\n)/)
+    .map((part) => {
+      if (part === '\t') {
+        return '<w:tab/>';
+      }
+      if (part === '\n' || part === '\r\n') {
+        return '<w:br/>';
+      }
+      return part ? `<w:t xml:space="preserve">${escapeXml(part)}</w:t>` : '';
+    })
+    .join('');
+  return `<w:r>${properties ? `<w:rPr>${properties}</w:rPr>` : ''}${content}</w:r>`;
+};
+
+/**
+ * Builds a paragraph
+ *
+ * @param content - Its runs
+ * @param properties - Its paragraph properties, in schema order
+ * @returns The paragraph
+ */
+const paragraph = (content: string, properties = ''): string =>
+  `<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ''}${content}</w:p>`;
+
+/**
+ * Builds the properties of a body paragraph: its style and indentation
+ *
+ * @param context - Render state
+ * @param style - Paragraph style; blockquotes use the Quote style
+ * @param hanging - Hanging indentation, for list items
+ * @returns The paragraph properties
+ */
+const bodyProperties = (context: RenderContext, style?: string, hanging = 0): string => {
+  const paragraphStyle = style ?? (context.quoted ? 'Quote' : undefined);
+  const indent =
+    context.indent > 0
+      ? `<w:ind w:left="${context.indent}"${hanging ? ` w:hanging="${hanging}"` : ''}/>`
+      : '';
+  return `${paragraphStyle ? `<w:pStyle w:val="${paragraphStyle}"/>` : ''}${indent}`;
+};
+
+/**
+ * Renders inline nodes as runs
+ *
+ * @param nodes - The inline nodes
+ * @param context - Render state, where hyperlink targets are collected
+ * @param format - Formatting inherited from the enclosing nodes
+ * @returns The runs
+ */
+const renderInline = (nodes: MarkdownInline[], context: RenderContext, format: RunFormat = {}): string =>
+  nodes
+    .map((node) => {
+      switch (node.type) {
+        case 'text':
+          return run(node.text, format);
+        case 'strong':
+          return renderInline(node.children, context, { ...format, bold: true });
+        case 'emphasis':
+          return renderInline(node.children, context, { ...format, italic: true });
+        case 'strikethrough':
+          return renderInline(node.children, context, { ...format, strike: true });
+        case 'code':
+          return run(node.text, { ...format, style: 'InlineCode' });
+        case 'link': {
+          context.links.push(node.href);
+          const children = renderInline(node.children, context, { ...format, style: 'Hyperlink' });
+          return `<w:hyperlink r:id="rId${context.links.length + 1}">${children}</w:hyperlink>`;
+        }
+        case 'break':
+          return '<w:r><w:br/></w:r>';
+      }
+    })
+    .join('');
+
+/**
+ * Renders a table with a repeated, bold header row
+ *
+ * @param block - The table
+ * @param context - Render state
+ * @returns The table
+ */
+const renderTable = (block: Extract<MarkdownBlock, { type: 'table' }>, context: RenderContext): string => {
+  const columnWidth = Math.floor((PAGE.WIDTH - PAGE.MARGIN * 2) / Math.max(block.header.length, 1));
+  const border = (side: string): string =>
+    `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="D1D5DB"/>`;
+
+  const row = (cells: MarkdownInline[][], header: boolean): string => {
+    const content = block.header
+      .map((_, column) => {
+        const runs = renderInline(cells[column] ?? [], context, { bold: header });
+        const properties = `<w:spacing w:after="0"/><w:jc w:val="${block.align[column] ?? 'left'}"/>`;
+        return `<w:tc><w:tcPr><w:tcW w:w="${columnWidth}" w:type="dxa"/></w:tcPr>${paragraph(runs, properties)}</w:tc>`;
+      })
+      .join('');
+    return `<w:tr>${header ? '<w:trPr><w:tblHeader/></w:trPr>' : ''}${content}</w:tr>`;
+  };
+
+  return (
+    '<w:tbl><w:tblPr><w:tblW w:w="0" w:type="auto"/>' +
+    `<w:tblBorders>${['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(border).join('')}</w:tblBorders>` +
+    '<w:tblCellMar><w:top w:w="60" w:type="dxa"/><w:left w:w="108" w:type="dxa"/>' +
+    '<w:bottom w:w="60" w:type="dxa"/><w:right w:w="108" w:type="dxa"/></w:tblCellMar></w:tblPr>' +
+    `<w:tblGrid>${block.header.map(() => `<w:gridCol w:w="${columnWidth}"/>`).join('')}</w:tblGrid>` +
+    row(block.header, true) +
+    block.rows.map((cells) => row(cells, false)).join('') +
+    '</w:tbl>'
+  );
+};
+
+/**
+ * Renders a list; each item starts with its bullet or number and a hanging indent
+ *
+ * @param block - The list
+ * @param context - Render state
+ * @param depth - Nesting level of the list
+ * @returns The paragraphs of the list
+ */
+const renderList = (
+  block: Extract<MarkdownBlock, { type: 'list' }>,
+  context: RenderContext,
+  depth: number
+): string => {
+  const itemContext = { ...context, indent: context.indent + INDENT };
+  return block.items
+    .map((item, position) => {
+      const marker = block.ordered
+        ? `${block.start + position}.`
+        : BULLETS[Math.min(depth, BULLETS.length - 1)];
+      const [first, ...rest] = item;
+      const lead =
+        first?.type === 'paragraph'
+          ? renderInline(first.children, itemContext)
+          : '';
+      const remaining = first?.type === 'paragraph' ? rest : item;
+      return (
+        paragraph(`${run(`${marker}\t`)}${lead}`, bodyProperties(itemContext, undefined, INDENT)) +
+        renderBlocks(remaining, itemContext, depth + 1)
+      );
+    })
+    .join('');
+};
+
+/**
+ * Renders blocks as body elements
+ *
+ * @param blocks - The blocks
+ * @param context - Render state
+ * @param depth - Nesting level of the lists among the blocks
+ * @returns The body elements
+ */
+const renderBlocks = (blocks: MarkdownBlock[], context: RenderContext, depth = 0): string =>
+  blocks
+    .map((block) => {
+      switch (block.type) {
+        case 'heading':
+          return paragraph(
+            renderInline(block.children, context),
+            bodyProperties(context, `Heading${block.level}`)
+          );
+        case 'paragraph':
+          return paragraph(renderInline(block.children, context), bodyProperties(context));
+        case 'code':
+          return paragraph(run(block.text.replace(/\n$/, '')), bodyProperties(context, 'Code'));
+        case 'blockquote':
+          return renderBlocks(
+            block.children,
+            { ...context, indent: context.indent + INDENT, quoted: true },
+            depth
+          );
+        case 'list':
+          return renderList(block, context, depth);
+        case 'table':
+          return renderTable(block, context);
+        case 'rule':
+          return paragraph(
+            '',
+            '<w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="D1D5DB"/></w:pBdr>'
+          );
+      }
+    })
+    .join('');
+
+/**
+ * Builds the style part: default font, headings, quotes, code and hyperlinks
+ *
+ * @param locale - Language of the document
+ * @returns The styles
+ */
+const buildStyles = (locale: Locale): string => {
+  const headingSizes = [36, 30, 26, 24, 22, 22];
+  const headings = headingSizes
+    .map(
+      (size, index) =>
+        `<w:style w:type="paragraph" w:styleId="Heading${index + 1}">` +
+        `<w:name w:val="heading ${index + 1}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>` +
+        `<w:pPr><w:keepNext/><w:spacing w:before="${index < 2 ? 360 : 240}" w:after="120"/>` +
+        `<w:outlineLvl w:val="${index}"/></w:pPr>` +
+        `<w:rPr><w:b/><w:color w:val="111827"/><w:sz w:val="${size}"/><w:szCs w:val="${size}"/></w:rPr>` +
+        '</w:style>'
+    )
+    .join('');
+
+  return (
+    XML_DECLARATION +
+    `<w:styles xmlns:w="${NS.W}">` +
+    '<w:docDefaults><w:rPrDefault><w:rPr>' +
+    '<w:rFonts w:ascii="Calibri" w:eastAsia="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/>' +
+    '<w:color w:val="374151"/><w:sz w:val="22"/><w:szCs w:val="22"/>' +
+    `<w:lang w:val="${DOCUMENT_LANGUAGES[locale]}"/>` +
+    '</w:rPr></w:rPrDefault><w:pPrDefault><w:pPr>' +
+    '<w:spacing w:after="160" w:line="276" w:lineRule="auto"/>' +
+    '</w:pPr></w:pPrDefault></w:docDefaults>' +
+    '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>' +
+    headings +
+    '<w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/>' +
+    '<w:pPr><w:pBdr><w:left w:val="single" w:sz="18" w:space="8" w:color="D1D5DB"/></w:pBdr></w:pPr>' +
+    '<w:rPr><w:color w:val="4B5563"/></w:rPr></w:style>' +
+    '<w:style w:type="paragraph" w:styleId="Code"><w:name w:val="Code"/><w:basedOn w:val="Normal"/>' +
+    '<w:pPr><w:shd w:val="clear" w:color="auto" w:fill="F3F4F6"/><w:spacing w:after="160" w:line="240" w:lineRule="auto"/></w:pPr>' +
+    '<w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/><w:color w:val="111827"/>' +
+    '<w:sz w:val="19"/><w:szCs w:val="19"/></w:rPr></w:style>' +
+    '<w:style w:type="paragraph" w:styleId="Prompt"><w:name w:val="Prompt"/><w:basedOn w:val="Normal"/>' +
+    '<w:pPr><w:spacing w:after="80"/></w:pPr><w:rPr><w:i/><w:color w:val="4B5563"/></w:rPr></w:style>' +
+    '<w:style w:type="paragraph" w:styleId="Meta"><w:name w:val="Meta"/><w:basedOn w:val="Normal"/>' +
+    '<w:pPr><w:pBdr><w:bottom w:val="single" w:sz="6" w:space="8" w:color="E5E7EB"/></w:pBdr>' +
+    '<w:spacing w:after="360"/></w:pPr>' +
+    '<w:rPr><w:color w:val="9CA3AF"/><w:sz w:val="18"/><w:szCs w:val="18"/></w:rPr></w:style>' +
+    '<w:style w:type="character" w:styleId="InlineCode"><w:name w:val="Inline Code"/>' +
+    '<w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/>' +
+    '<w:shd w:val="clear" w:color="auto" w:fill="F3F4F6"/></w:rPr></w:style>' +
+    '<w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/>' +
+    '<w:rPr><w:color w:val="4F46E5"/><w:u w:val="single"/></w:rPr></w:style>' +
+    '</w:styles>'
+  );
+};
+
+/**
+ * Builds a Word document from a result
+ * The document opens with the prompt and the model, followed by the Markdown of the result.
+ * The file is written entirely in the browser; its parts are stored without compression.
+ *
+ * @param source - The result, its prompt and metadata
+ * @param title - Title of the document, stored in its properties
+ * @param locale - Language of the document and of its dates
+ * @param exportedAt - Date of the file, stored in the archive
+ * @returns The .docx file
+ *
+ * @example
+ * ```typescript
+ * const bytes = buildDocx(source, 'Receta de paella', 'es', new Date());
+ * ```
+ */
+export const buildDocx = (
+  source: ExportSource,
+  title: string,
+  locale: Locale,
+  exportedAt: Date
+): Uint8Array => {
+  const context: RenderContext = { links: [], indent: 0, quoted: false };
+  const meta = [source.metadata?.model, formatDateTime(locale, source.createdAt)]
+    .filter(Boolean)
+    .join(' · ');
+  const blocks = parseMarkdown(source.result);
+
+  const body =
+    paragraph(run(source.prompt), '<w:pStyle w:val="Prompt"/>') +
+    paragraph(run(meta), '<w:pStyle w:val="Meta"/>') +
+    renderBlocks(blocks, context) +
+    // The body must not end with a table
+    (blocks[blocks.length - 1]?.type === 'table' ? paragraph('') : '');
+
+  const document =
+    XML_DECLARATION +
+    `<w:document xmlns:w="${NS.W}" xmlns:r="${NS.R}"><w:body>` +
+    body +
+    `<w:sectPr><w:pgSz w:w="${PAGE.WIDTH}" w:h="${PAGE.HEIGHT}"/>` +
+    `<w:pgMar w:top="${PAGE.MARGIN}" w:right="${PAGE.MARGIN}" w:bottom="${PAGE.MARGIN}" ` +
+    `w:left="${PAGE.MARGIN}" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr>` +
+    '</w:body></w:document>';
+
+  const documentRelationships =
+    XML_DECLARATION +
+    `<Relationships xmlns="${NS.RELATIONSHIPS}">` +
+    `<Relationship Id="rId1" Type="${NS.STYLES}" Target="styles.xml"/>` +
+    context.links
+      .map(
+        (href, index) =>
+          `<Relationship Id="rId${index + 2}" Type="${NS.HYPERLINK}" Target="${escapeXml(href)}" TargetMode="External"/>`
+      )
+      .join('') +
+    '</Relationships>';
+
+  const created = new Date(source.createdAt).toISOString().replace(/\.\d{3}Z$/, 'Z');
+  const coreProperties =
+    XML_DECLARATION +
+    '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ' +
+    'xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" ' +
+    'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">' +
+    `<dc:title>${escapeXml(title)}</dc:title>` +
+    '<dc:creator>Generador IA</dc:creator>' +
+    `<dc:language>${DOCUMENT_LANGUAGES[locale]}</dc:language>` +
+    `<dcterms:created xsi:type="dcterms:W3CDTF">${created}</dcterms:created>` +
+    '</cp:coreProperties>';
+
+  return createZip(
+    [
+      {
+        path: '[Content_Types].xml',
+        content:
+          XML_DECLARATION +
+          `<Types xmlns="${NS.CONTENT_TYPES}">` +
+          '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+          '<Default Extension="xml" ContentType="application/xml"/>' +
+          '<Override PartName="/word/document.xml" ' +
+          'ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+          '<Override PartName="/word/styles.xml" ' +
+          'ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>' +
+          '<Override PartName="/docProps/core.xml" ' +
+          'ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>' +
+          '</Types>',
+      },
+      {
+        path: '_rels/.rels',
+        content:
+          XML_DECLARATION +
+          `<Relationships xmlns="${NS.RELATIONSHIPS}">` +
+          `<Relationship Id="rId1" Type="${NS.OFFICE_DOCUMENT}" Target="word/document.xml"/>` +
+          `<Relationship Id="rId2" Type="${NS.CORE_PROPERTIES}" Target="docProps/core.xml"/>` +
+          '</Relationships>',
+      },
+      { path: 'docProps/core.xml', content: coreProperties },
+      { path: 'word/document.xml', content: document },
+      { path: 'word/styles.xml', content: buildStyles(locale) },
+      { path: 'word/_rels/document.xml.rels', content: documentRelationships },
+    ],
+    exportedAt
+  );
+};
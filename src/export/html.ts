@@ -0,0 +1,226 @@
+/**
+ * @fileoverview Standalone HTML export
+ * @description Renders a result as a self-contained, styled HTML page: its Markdown, the prompt
+ * and the model, with highlighted code and no external resources
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import { guessLanguage, highlightCode, resolveLanguage } from '../highlight';
+import { formatDateTime } from '../i18n';
+import { parseMarkdown } from '../markdown';
+import type { ExportSource } from '../types/export';
+import type { Locale } from '../types/i18n';
+import type { MarkdownBlock, MarkdownInline } from '../types/markdown';
+
+/**
+ * Stylesheet of the page, embedded so the file works offline
+ * @constant
+ */
+const STYLESHEET = `
+  *, *::before, *::after { box-sizing: border-box; }
+  body {
+    margin: 0;
+    padding: 2rem 1rem;
+    background: #f9fafb;
+    color: #374151;
+    font: 16px/1.65 system-ui, -apple-system, "Segoe UI", Roboto, sans-serif;
+  }
+  main {
+    max-width: 48rem;
+    margin: 0 auto;
+    padding: 2rem;
+    background: #fff;
+    border-radius: 0.75rem;
+    box-shadow: 0 1px 3px rgba(0, 0, 0, 0.1);
+  }
+  header { margin-bottom: 1.5rem; padding-bottom: 1rem; border-bottom: 1px solid #e5e7eb; }
+  .prompt { margin: 0 0 0.5rem; color: #4b5563; font-style: italic; white-space: pre-wrap; }
+  .meta { margin: 0; color: #9ca3af; font-size: 0.875rem; }
+  article > :first-child { margin-top: 0; }
+  h1, h2, h3, h4, h5, h6 { color: #111827; line-height: 1.3; margin: 1.5em 0 0.5em; }
+  p, ul, ol, blockquote, pre, table { margin: 0 0 1em; }
+  ul, ol { padding-left: 1.5rem; }
+  li > p { margin: 0; }
+  a { color: #4f46e5; }
+  blockquote { padding-left: 1rem; border-left: 4px solid #d1d5db; color: #4b5563; }
+  hr { border: 0; border-top: 1px solid #e5e7eb; margin: 1.5em 0; }
+  code { font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; font-size: 0.9em; }
+  :not(pre) > code { padding: 0.1em 0.3em; border-radius: 0.25rem; background: #f3f4f6; }
+  pre {
+    padding: 1rem;
+    overflow-x: auto;
+    border-radius: 0.5rem;
+    background: #111827;
+    color: #f3f4f6;
+    line-height: 1.5;
+  }
+  table { width: 100%; border-collapse: collapse; font-size: 0.875rem; }
+  th, td { padding: 0.5rem 0.75rem; border-bottom: 1px solid #e5e7eb; }
+  th { border-bottom-width: 2px; color: #111827; }
+  .tok-comment { color: #6b7280; font-style: italic; }
+  .tok-keyword { color: #d8b4fe; }
+  .tok-builtin { color: #fcd34d; }
+  .tok-string { color: #86efac; }
+  .tok-number { color: #fdba74; }
+  .tok-function { color: #7dd3fc; }
+  .tok-property { color: #67e8f9; }
+  .tok-variable { color: #f9a8d4; }
+  .tok-operator { color: #d1d5db; }
+  .tok-punctuation { color: #9ca3af; }
+  .tok-tag { color: #fda4af; }
+  .tok-attribute { color: #fef08a; }
+  @media print {
+    body { padding: 0; background: #fff; }
+    main { max-width: none; padding: 0; box-shadow: none; }
+  }
+`;
+
+/**
+ * Escapes text for HTML content and attribute values
+ *
+ * @param text - The text
+ * @returns The escaped text
+ */
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Renders inline nodes
+ *
+ * @param nodes - The inline nodes
+ * @returns The HTML
+ */
+const renderInline = (nodes: MarkdownInline[]): string =>
+  nodes
+    .map((node) => {
+      switch (node.type) {
+        case 'text':
+          return escapeHtml(node.text);
+        case 'strong':
+          return `<strong>${renderInline(node.children)}</strong>`;
+        case 'emphasis':
+          return `<em>${renderInline(node.children)}</em>`;
+        case 'strikethrough':
+          return `<del>${renderInline(node.children)}</del>`;
+        case 'code':
+          return `<code>${escapeHtml(node.text)}</code>`;
+        case 'link': {
+          const title = node.title ? ` title="${escapeHtml(node.title)}"` : '';
+          return `<a href="${escapeHtml(node.href)}"${title} rel="noopener noreferrer nofollow">${renderInline(node.children)}</a>`;
+        }
+        case 'break':
+          return '<br>';
+      }
+    })
+    .join('');
+
+/**
+ * Renders a code block, highlighted when its language is known or can be guessed
+ *
+ * @param code - The code
+ * @param tag - Language tag of the fence
+ * @returns The HTML
+ */
+const renderCode = (code: string, tag: string | null): string => {
+  const language = tag ? resolveLanguage(tag) : guessLanguage(code);
+  const content = language
+    ? highlightCode(code, language)
+        .map(({ kind, text }) =>
+          kind === 'plain' ? escapeHtml(text) : `<span class="tok-${kind}">${escapeHtml(text)}</span>`
+        )
+        .join('')
+    : escapeHtml(code);
+  const className = language ? ` class="language-${language}"` : '';
+  return `<pre><code${className}>${content}</code></pre>`;
+};
+
+/**
+ * Renders blocks
+ *
+ * @param blocks - The blocks
+ * @returns The HTML, one block per line
+ */
+const renderBlocks = (blocks: MarkdownBlock[]): string =>
+  blocks
+    .map((block) => {
+      switch (block.type) {
+        case 'heading':
+          return `<h${block.level}>${renderInline(block.children)}</h${block.level}>`;
+        case 'paragraph':
+          return `<p>${renderInline(block.children)}</p>`;
+        case 'code':
+          return renderCode(block.text, block.language);
+        case 'blockquote':
+          return `<blockquote>\n${renderBlocks(block.children)}\n</blockquote>`;
+        case 'list': {
+          const items = block.items.map((item) => `<li>${renderBlocks(item)}</li>`).join('\n');
+          return block.ordered
+            ? `<ol${block.start !== 1 ? ` start="${block.start}"` : ''}>\n${items}\n</ol>`
+            : `<ul>\n${items}\n</ul>`;
+        }
+        case 'table': {
+          const cell = (tag: 'th' | 'td', content: MarkdownInline[], column: number): string => {
+            const align = block.align[column] ?? 'left';
+            return `<${tag} style="text-align: ${align}">${renderInline(content)}</${tag}>`;
+          };
+          const header = block.header.map((content, column) => cell('th', content, column)).join('');
+          const rows = block.rows
+            .map((row) => `<tr>${row.map((content, column) => cell('td', content, column)).join('')}</tr>`)
+            .join('\n');
+          return `<table>\n<thead><tr>${header}</tr></thead>\n<tbody>\n${rows}\n</tbody>\n</table>`;
+        }
+        case 'rule':
+          return '<hr>';
+      }
+    })
+    .join('\n');
+
+/**
+ * Renders a result as a standalone HTML page
+ * The Markdown of the result is rendered like in the app; raw HTML in it is escaped and links
+ * are limited to http(s) and mailto URLs.
+ *
+ * @param source - The result, its prompt and metadata
+ * @param title - Title of the page
+ * @param locale - Language of the page and of its dates
+ * @returns The HTML document
+ *
+ * @example
+ * ```typescript
+ * const html = renderHtmlDocument(source, 'Receta de paella', 'es');
+ * ```
+ */
+export const renderHtmlDocument = (source: ExportSource, title: string, locale: Locale): string => {
+  const meta = [source.metadata?.model, formatDateTime(locale, source.createdAt)]
+    .filter(Boolean)
+    .join(' · ');
+
+  return `<!DOCTYPE html>
+<html lang="${locale}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="generator" content="Generador IA">
+<title>${escapeHtml(title)}</title>
+<style>${STYLESHEET}</style>
+</head>
+<body>
+<main>
+<header>
+<p class="prompt">${escapeHtml(source.prompt)}</p>
+<p class="meta"><time datetime="${new Date(source.createdAt).toISOString()}">${escapeHtml(meta)}</time></p>
+</header>
+<article>
+${renderBlocks(parseMarkdown(source.result))}
+</article>
+</main>
+</body>
+</html>
+`;
+};
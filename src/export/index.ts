@@ -0,0 +1,177 @@
+/**
+ * @fileoverview Result export
+ * @description Turns a result into a downloadable Markdown, plain text, HTML, JSON or DOCX
+ * file, named after its prompt and date
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import { markdownToPlainText } from '../markdown';
+import { buildDocx } from './docx';
+import { renderHtmlDocument } from './html';
+import type { ExportedFile, ExportFormat, ExportSource, ResultExport } from '../types/export';
+import type { Locale } from '../types/i18n';
+
+/**
+ * Export formats, in menu order, with their MIME types
+ * @constant
+ */
+export const EXPORT_FORMATS: ReadonlyArray<{ format: ExportFormat; mimeType: string }> = [
+  { format: 'md', mimeType: 'text/markdown;charset=utf-8' },
+  { format: 'txt', mimeType: 'text/plain;charset=utf-8' },
+  { format: 'html', mimeType: 'text/html;charset=utf-8' },
+  { format: 'json', mimeType: 'application/json' },
+  {
+    format: 'docx',
+    mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  },
+];
+
+/**
+ * Longest slug taken from the prompt for file names
+ * @constant
+ */
+const MAX_SLUG_LENGTH = 50;
+
+/**
+ * Longest document title taken from the prompt
+ * @constant
+ */
+const MAX_TITLE_LENGTH = 80;
+
+/**
+ * File name used when the prompt has no letters or digits
+ * @constant
+ */
+const FALLBACK_NAME = 'resultado';
+
+/**
+ * Turns a prompt into a file-name slug: lowercase ASCII words joined by hyphens
+ * The slug is cut at a word boundary when the prompt is long.
+ *
+ * @param prompt - The prompt
+ * @returns The slug, empty when the prompt has no letters or digits
+ */
+const slugify = (prompt: string): string => {
+  const slug = prompt
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  if (slug.length <= MAX_SLUG_LENGTH) {
+    return slug;
+  }
+  const cut = slug.slice(0, MAX_SLUG_LENGTH + 1);
+  const boundary = cut.lastIndexOf('-');
+  return boundary > 0 ? cut.slice(0, boundary) : cut.slice(0, MAX_SLUG_LENGTH);
+};
+
+/**
+ * Formats a timestamp for file names as "YYYY-MM-DD-HHmm" in local time
+ *
+ * @param timestamp - The timestamp
+ * @returns The formatted date
+ */
+const formatFileDate = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const pad = (value: number): string => String(value).padStart(2, '0');
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}-` +
+    `${pad(date.getHours())}${pad(date.getMinutes())}`
+  );
+};
+
+/**
+ * Builds the name of an exported file from the prompt and the date of the result
+ *
+ * @param prompt - The prompt
+ * @param timestamp - When the result was generated
+ * @param format - Export format, used as the extension
+ * @returns The file name
+ *
+ * @example
+ * ```typescript
+ * buildExportFileName('Escribe una receta de paella', Date.now(), 'md');
+ * // 'escribe-una-receta-de-paella-2025-03-04-1030.md'
+ * ```
+ */
+export const buildExportFileName = (prompt: string, timestamp: number, format: ExportFormat): string =>
+  `${slugify(prompt) || FALLBACK_NAME}-${formatFileDate(timestamp)}.${format}`;
+
+/**
+ * Builds the title of HTML and DOCX exports: the first line of the prompt, shortened
+ *
+ * @param prompt - The prompt
+ * @returns The title
+ */
+const buildTitle = (prompt: string): string => {
+  const firstLine = prompt.trim().split('\n')[0].trim();
+  return firstLine.length > MAX_TITLE_LENGTH
+    ? `${firstLine.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…`
+    : firstLine || FALLBACK_NAME;
+};
+
+/**
+ * Builds the contents of a JSON export
+ *
+ * @param source - The result, its prompt and metadata
+ * @param exportedAt - When the file is exported
+ * @returns The exported result
+ */
+const toResultExport = (source: ExportSource, exportedAt: Date): ResultExport => ({
+  kind: 'generador-ia/result',
+  version: 1,
+  exportedAt: exportedAt.toISOString(),
+  createdAt: new Date(source.createdAt).toISOString(),
+  prompt: source.prompt,
+  parameters: source.parameters,
+  result: source.result,
+  metadata: source.metadata,
+});
+
+/**
+ * Exports a result to a file
+ * - md: the Markdown of the result as written
+ * - txt: the result with its Markdown syntax removed
+ * - html: a standalone, styled page with the prompt and the rendered result
+ * - json: the prompt, its parameters, the result and the generation metadata
+ * - docx: a Word document with the prompt and the formatted result, built in the browser
+ *
+ * @param source - The result, its prompt and metadata
+ * @param format - Export format
+ * @param locale - Language of the HTML and DOCX documents
+ * @param exportedAt - When the file is exported
+ * @returns The file
+ *
+ * @example
+ * ```typescript
+ * const file = exportResult(source, 'docx', 'es');
+ * ```
+ */
+export const exportResult = (
+  source: ExportSource,
+  format: ExportFormat,
+  locale: Locale,
+  exportedAt: Date = new Date()
+): ExportedFile => {
+  const fileName = buildExportFileName(source.prompt, source.createdAt, format);
+  const mimeType = EXPORT_FORMATS.find((option) => option.format === format)?.mimeType ?? 'text/plain';
+
+  const title = buildTitle(source.prompt);
+
+  switch (format) {
+    case 'md':
+      return { fileName, mimeType, data: source.result };
+    case 'txt':
+      return { fileName, mimeType, data: markdownToPlainText(source.result) };
+    case 'html':
+      return { fileName, mimeType, data: renderHtmlDocument(source, title, locale) };
+    case 'json': {
+      const data = JSON.stringify(toResultExport(source, exportedAt), null, 2);
+      return { fileName, mimeType, data: `${data}\n` };
+    }
+    case 'docx':
+      return { fileName, mimeType, data: buildDocx(source, title, locale, exportedAt) };
+  }
+};
@@ -0,0 +1,143 @@
+/**
+ * @fileoverview ZIP archive writer
+ * @description Builds uncompressed ("stored") ZIP archives in the browser, as used by the
+ * DOCX export
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import type { ZipEntry } from '../types/export';
+
+/**
+ * ZIP record signatures and fields
+ */
+const ZIP = {
+  LOCAL_FILE_HEADER: 0x04034b50,
+  CENTRAL_DIRECTORY_HEADER: 0x02014b50,
+  END_OF_CENTRAL_DIRECTORY: 0x06054b50,
+  /** Version needed to extract: 2.0 */
+  VERSION: 20,
+  /** General purpose flag: file names are UTF-8 */
+  UTF8_FLAG: 0x0800,
+  /** Compression method: stored */
+  STORED: 0,
+} as const;
+
+/**
+ * CRC-32 lookup table (polynomial 0xEDB88320)
+ * @constant
+ */
+const CRC_TABLE = Array.from({ length: 256 }, (_, byte) => {
+  let crc = byte;
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+  }
+  return crc >>> 0;
+});
+
+/**
+ * Computes the CRC-32 of some bytes
+ *
+ * @param bytes - The bytes
+ * @returns The checksum
+ */
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Encodes a date as MS-DOS time and date fields
+ * DOS dates start in 1980; earlier dates are clamped.
+ *
+ * @param date - The date, in local time
+ * @returns The time and date fields
+ */
+const toDosDateTime = (date: Date): { time: number; date: number } => {
+  const year = Math.max(1980, date.getFullYear());
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+};
+
+/**
+ * Builds a ZIP archive without compression
+ *
+ * @param entries - The files, in archive order
+ * @param modifiedAt - Modification date of every file
+ * @returns The archive
+ *
+ * @example
+ * ```typescript
+ * const archive = createZip([{ path: 'hello.txt', content: 'Hello' }], new Date());
+ * ```
+ */
+export const createZip = (entries: ZipEntry[], modifiedAt: Date): Uint8Array => {
+  const encoder = new TextEncoder();
+  const { time, date } = toDosDateTime(modifiedAt);
+
+  const files = entries.map(({ path, content }) => {
+    const data = typeof content === 'string' ? encoder.encode(content) : content;
+    return { name: encoder.encode(path), data, crc: crc32(data) };
+  });
+
+  const localSize = files.reduce((size, file) => size + 30 + file.name.length + file.data.length, 0);
+  const centralSize = files.reduce((size, file) => size + 46 + file.name.length, 0);
+  const archive = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(archive.buffer);
+
+  let offset = 0;
+  const offsets: number[] = [];
+
+  // Local file headers, each followed by its data
+  for (const file of files) {
+    offsets.push(offset);
+    view.setUint32(offset, ZIP.LOCAL_FILE_HEADER, true);
+    view.setUint16(offset + 4, ZIP.VERSION, true);
+    view.setUint16(offset + 6, ZIP.UTF8_FLAG, true);
+    view.setUint16(offset + 8, ZIP.STORED, true);
+    view.setUint16(offset + 10, time, true);
+    view.setUint16(offset + 12, date, true);
+    view.setUint32(offset + 14, file.crc, true);
+    view.setUint32(offset + 18, file.data.length, true);
+    view.setUint32(offset + 22, file.data.length, true);
+    view.setUint16(offset + 26, file.name.length, true);
+    view.setUint16(offset + 28, 0, true);
+    archive.set(file.name, offset + 30);
+    archive.set(file.data, offset + 30 + file.name.length);
+    offset += 30 + file.name.length + file.data.length;
+  }
+
+  // Central directory
+  const centralOffset = offset;
+  files.forEach((file, index) => {
+    view.setUint32(offset, ZIP.CENTRAL_DIRECTORY_HEADER, true);
+    view.setUint16(offset + 4, ZIP.VERSION, true);
+    view.setUint16(offset + 6, ZIP.VERSION, true);
+    view.setUint16(offset + 8, ZIP.UTF8_FLAG, true);
+    view.setUint16(offset + 10, ZIP.STORED, true);
+    view.setUint16(offset + 12, time, true);
+    view.setUint16(offset + 14, date, true);
+    view.setUint32(offset + 16, file.crc, true);
+    view.setUint32(offset + 20, file.data.length, true);
+    view.setUint32(offset + 24, file.data.length, true);
+    view.setUint16(offset + 28, file.name.length, true);
+    // Extra field, comment, disk number, attributes: all zero
+    view.setUint32(offset + 42, offsets[index], true);
+    archive.set(file.name, offset + 46);
+    offset += 46 + file.name.length;
+  });
+
+  // End of central directory
+  view.setUint32(offset, ZIP.END_OF_CENTRAL_DIRECTORY, true);
+  view.setUint16(offset + 8, files.length, true);
+  view.setUint16(offset + 10, files.length, true);
+  view.setUint32(offset + 12, offset - centralOffset, true);
+  view.setUint32(offset + 16, centralOffset, true);
+
+  return archive;
+};
@@ -0,0 +1,193 @@
+/**
+ * @fileoverview Syntax highlighter
+ * @description Offline highlighting of code blocks: splits code into tokens with the grammar of
+ * its language, resolves fence tags and guesses the language of untagged code
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import { LANGUAGES } from './languages';
+import type {
+  HighlightLanguage,
+  HighlightToken,
+  LanguageDefinition,
+  TokenKind,
+} from '../types/highlight';
+
+export { LANGUAGES } from './languages';
+
+/**
+ * Lowest signal score for a guess; below it the code is shown without highlighting
+ * @constant
+ */
+const MIN_GUESS_SCORE = 3;
+
+/**
+ * Finds the language named by a fence tag
+ *
+ * @param tag - The info string of the fence ("js", "Python", "language-ts")
+ * @returns The language, or null when it is not highlighted
+ *
+ * @example
+ * ```typescript
+ * resolveLanguage('py'); // 'python'
+ * resolveLanguage('rust'); // null
+ * ```
+ */
+export const resolveLanguage = (tag: string | null | undefined): HighlightLanguage | null => {
+  const alias = tag?.trim().toLowerCase().replace(/^language-/, '');
+  if (!alias) {
+    return null;
+  }
+  const match = (Object.keys(LANGUAGES) as HighlightLanguage[]).find((language) =>
+    LANGUAGES[language].aliases.includes(alias)
+  );
+  return match ?? null;
+};
+
+/**
+ * Guesses the language of untagged code
+ * Valid JSON is recognized by parsing it; other languages score the weighted signals of their
+ * grammar, and TypeScript adds its own signals to the JavaScript ones.
+ *
+ * @param code - The code
+ * @returns The most likely language, or null when no language scores enough
+ *
+ * @example
+ * ```typescript
+ * guessLanguage('def greet(name):\n    print(name)'); // 'python'
+ * ```
+ */
+export const guessLanguage = (code: string): HighlightLanguage | null => {
+  const trimmed = code.trim();
+  if (!trimmed) {
+    return null;
+  }
+  if (/^[[{]/.test(trimmed)) {
+    try {
+      JSON.parse(trimmed);
+      return 'json';
+    } catch {
+      // Not JSON: score it like any other code
+    }
+  }
+
+  const scores = {} as Record<HighlightLanguage, number>;
+  for (const language of Object.keys(LANGUAGES) as HighlightLanguage[]) {
+    scores[language] = LANGUAGES[language].signals.reduce(
+      (score, [pattern, weight]) => (pattern.test(code) ? score + weight : score),
+      0
+    );
+  }
+  if (scores.typescript > 0) {
+    scores.typescript += scores.javascript;
+  }
+
+  let best: HighlightLanguage | null = null;
+  for (const language of Object.keys(scores) as HighlightLanguage[]) {
+    if (scores[language] >= MIN_GUESS_SCORE && (!best || scores[language] > scores[best])) {
+      best = language;
+    }
+  }
+  return best;
+};
+
+/**
+ * Decides the kind of an identifier: keyword, builtin, function name or plain
+ *
+ * @param definition - Grammar of the language
+ * @param word - The identifier
+ * @param rest - Code after the identifier
+ * @returns The kind of the identifier
+ */
+const classifyIdentifier = (definition: LanguageDefinition, word: string, rest: string): TokenKind => {
+  const key = definition.caseInsensitive ? word.toLowerCase() : word;
+  if (definition.keywords.has(key)) {
+    return 'keyword';
+  }
+  if (definition.builtins.has(key)) {
+    return 'builtin';
+  }
+  return /^\s*\(/.test(rest) ? 'function' : 'plain';
+};
+
+/**
+ * Reads the token at a position with the first rule that matches there
+ *
+ * @param definition - Grammar of the language
+ * @param code - The code
+ * @param index - Current position
+ * @returns The tokens of the match, or null when no rule matches
+ */
+const readTokens = (
+  definition: LanguageDefinition,
+  code: string,
+  index: number
+): HighlightToken[] | null => {
+  for (const { kind, pattern, split } of definition.rules) {
+    pattern.lastIndex = index;
+    const match = pattern.exec(code);
+    if (!match || match[0] === '') {
+      continue;
+    }
+    const text = match[0];
+    if (split) {
+      return split(text);
+    }
+    return [
+      {
+        kind:
+          kind === 'identifier'
+            ? classifyIdentifier(definition, text, code.slice(index + text.length, index + text.length + 40))
+            : kind,
+        text,
+      },
+    ];
+  }
+  return null;
+};
+
+/**
+ * Splits code into highlighted tokens
+ * Concatenating the tokens gives the code back; neighbouring tokens of the same kind are merged.
+ *
+ * @param code - The code
+ * @param language - Its language
+ * @returns The tokens
+ *
+ * @example
+ * ```typescript
+ * highlightCode('const a = 1;', 'javascript');
+ * // [{ kind: 'keyword', text: 'const' }, { kind: 'plain', text: ' a ' },
+ * //  { kind: 'operator', text: '=' }, { kind: 'plain', text: ' ' },
+ * //  { kind: 'number', text: '1' }, { kind: 'punctuation', text: ';' }]
+ * ```
+ */
+export const highlightCode = (code: string, language: HighlightLanguage): HighlightToken[] => {
+  const definition = LANGUAGES[language];
+  const tokens: HighlightToken[] = [];
+
+  const push = ({ kind, text }: HighlightToken): void => {
+    const last = tokens[tokens.length - 1];
+    if (last?.kind === kind) {
+      last.text += text;
+    } else {
+      tokens.push({ kind, text });
+    }
+  };
+
+  let index = 0;
+  while (index < code.length) {
+    const read = readTokens(definition, code, index);
+    const length = read?.reduce((total, token) => total + token.text.length, 0) ?? 0;
+    if (read && length > 0) {
+      read.forEach(push);
+      index += length;
+    } else {
+      push({ kind: 'plain', text: code[index] });
+      index++;
+    }
+  }
+
+  return tokens;
+};
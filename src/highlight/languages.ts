@@ -0,0 +1,306 @@
+/**
+ * @fileoverview Grammars of the highlighted languages
+ * @description Token patterns, keywords, file details and detection signals of JavaScript,
+ * TypeScript, Python, JSON, SQL, Bash and HTML
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import type {
+  HighlightLanguage,
+  HighlightToken,
+  LanguageDefinition,
+  TokenRule,
+} from '../types/highlight';
+
+/**
+ * Creates a sticky rule
+ *
+ * @param kind - Kind of the matched text
+ * @param source - Pattern of the rule
+ * @param split - Optional splitter of the match
+ * @returns The rule
+ */
+const rule = (kind: TokenRule['kind'], source: RegExp, split?: TokenRule['split']): TokenRule => ({
+  kind,
+  pattern: new RegExp(source.source, `${source.flags}y`),
+  split,
+});
+
+/**
+ * Quoted strings on one line, with backslash escapes; an unclosed quote runs to the line end
+ * @constant
+ */
+const QUOTED_STRING = /"(?:\\.|[^"\\\n])*"?|'(?:\\.|[^'\\\n])*'?/;
+
+/**
+ * Decimal, hexadecimal and binary numbers with separators, exponents and BigInt suffix
+ * @constant
+ */
+const C_STYLE_NUMBER = /(?:0[xX][\da-fA-F_]+|0[bB][01_]+|\d[\d_]*(?:\.\d[\d_]*)?(?:[eE][+-]?\d+)?n?|\.\d+)\b/;
+
+/**
+ * Keywords shared by JavaScript and TypeScript
+ * @constant
+ */
+const JAVASCRIPT_KEYWORDS = [
+  'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger',
+  'default', 'delete', 'do', 'else', 'export', 'extends', 'finally', 'for', 'from',
+  'function', 'if', 'import', 'in', 'instanceof', 'let', 'new', 'of', 'return', 'static',
+  'super', 'switch', 'this', 'throw', 'try', 'typeof', 'var', 'void', 'while', 'with', 'yield',
+];
+
+/**
+ * Literals and globals shared by JavaScript and TypeScript
+ * @constant
+ */
+const JAVASCRIPT_BUILTINS = [
+  'true', 'false', 'null', 'undefined', 'NaN', 'Infinity', 'console', 'window', 'document',
+  'Math', 'JSON', 'Promise', 'Array', 'Object', 'String', 'Number', 'Boolean', 'Date',
+  'Error', 'Map', 'Set', 'RegExp', 'Symbol', 'BigInt',
+];
+
+/**
+ * Rules shared by JavaScript and TypeScript
+ * @constant
+ */
+const JAVASCRIPT_RULES: TokenRule[] = [
+  rule('comment', /\/\/.*|\/\*[\s\S]*?(?:\*\/|$)/),
+  rule('string', /`(?:\\[\s\S]|[^\\`])*`?/),
+  rule('string', QUOTED_STRING),
+  rule('number', C_STYLE_NUMBER),
+  rule('attribute', /@[A-Za-z_$][\w$]*/),
+  rule('identifier', /[A-Za-z_$][\w$]*/),
+  rule('operator', /=>|[-+*/%=!<>&|^~?:]+/),
+  rule('punctuation', /[{}()[\];,.]/),
+];
+
+/**
+ * Splits an HTML tag into its name, attributes and values
+ *
+ * @param tag - The whole tag, from "<" to ">"
+ * @returns The tokens of the tag
+ */
+const splitHtmlTag = (tag: string): HighlightToken[] => {
+  const tokens: HighlightToken[] = [];
+  const pattern = /(<\/?)([^\s/>]+)|("[^"]*"|'[^']*')|([^\s=/>"']+)|(\/?>|[=/])|\s+|[\s\S]/g;
+  for (const [text, open, name, value, attribute, punctuation] of tag.matchAll(pattern)) {
+    if (open) {
+      tokens.push({ kind: 'punctuation', text: open }, { kind: 'tag', text: name });
+    } else if (value) {
+      tokens.push({ kind: 'string', text: value });
+    } else if (attribute) {
+      tokens.push({ kind: 'attribute', text: attribute });
+    } else {
+      tokens.push({ kind: punctuation ? 'punctuation' : 'plain', text });
+    }
+  }
+  return tokens;
+};
+
+/**
+ * Every highlighted language
+ * @constant
+ */
+export const LANGUAGES: Record<HighlightLanguage, LanguageDefinition> = {
+  javascript: {
+    label: 'JavaScript',
+    aliases: ['javascript', 'js', 'jsx', 'mjs', 'cjs', 'node'],
+    extension: 'js',
+    mimeType: 'text/javascript',
+    rules: JAVASCRIPT_RULES,
+    keywords: new Set(JAVASCRIPT_KEYWORDS),
+    builtins: new Set(JAVASCRIPT_BUILTINS),
+    signals: [
+      [/\b(?:const|let|var)\s+[\w$]+\s*=/, 2],
+      [/\bfunction\s*[\w$]*\s*\(/, 2],
+      [/=>/, 1],
+      [/\bconsole\.\w+\(/, 2],
+      [/\brequire\(\s*['"]/, 3],
+      [/\bimport\s+.+\s+from\s+['"]/, 2],
+      [/\bexport\s+(?:default|const|function|class)\b/, 2],
+      [/===|!==/, 2],
+      [/;\s*$/m, 1],
+    ],
+  },
+  typescript: {
+    label: 'TypeScript',
+    aliases: ['typescript', 'ts', 'tsx', 'mts', 'cts'],
+    extension: 'ts',
+    mimeType: 'text/typescript',
+    rules: JAVASCRIPT_RULES,
+    keywords: new Set([
+      ...JAVASCRIPT_KEYWORDS,
+      'abstract', 'as', 'declare', 'enum', 'implements', 'interface', 'keyof', 'namespace',
+      'private', 'protected', 'public', 'readonly', 'satisfies', 'type',
+    ]),
+    builtins: new Set([
+      ...JAVASCRIPT_BUILTINS,
+      'any', 'boolean', 'never', 'number', 'object', 'string', 'unknown', 'Record', 'Partial',
+      'Readonly', 'Pick', 'Omit',
+    ]),
+    // Scored on top of the JavaScript signals
+    signals: [
+      [/\binterface\s+\w+\s*(?:<[^>]*>\s*)?\{/, 4],
+      [/\btype\s+\w+\s*(?:<[^>]*>\s*)?=/, 4],
+      [/[\w)\]]\??:\s*(?:string|number|boolean|void|any|unknown|never)\b/, 4],
+      [/\b(?:public|private|protected|readonly)\s+\w+/, 2],
+      [/\bas\s+(?:const|string|number|unknown)\b/, 3],
+      [/\w<[\w\s,[\]|]+>\(/, 2],
+    ],
+  },
+  python: {
+    label: 'Python',
+    aliases: ['python', 'py', 'python3', 'py3'],
+    extension: 'py',
+    mimeType: 'text/x-python',
+    rules: [
+      rule('comment', /#.*/),
+      rule('string', /[rRbBuUfF]{0,2}(?:"""[\s\S]*?(?:"""|$)|'''[\s\S]*?(?:'''|$))/),
+      rule('string', new RegExp(`[rRbBuUfF]{0,2}(?:${QUOTED_STRING.source})`)),
+      rule('number', /(?:0[xX][\da-fA-F_]+|0[bB][01_]+|0[oO][0-7_]+|\d[\d_]*(?:\.\d[\d_]*)?(?:[eE][+-]?\d+)?j?|\.\d+)\b/),
+      rule('attribute', /@[A-Za-z_][\w.]*/),
+      rule('identifier', /[A-Za-z_]\w*/),
+      rule('operator', /->|[-+*/%=!<>&|^~:]+/),
+      rule('punctuation', /[{}()[\];,.]/),
+    ],
+    keywords: new Set([
+      'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del',
+      'elif', 'else', 'except', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is',
+      'lambda', 'match', 'nonlocal', 'not', 'or', 'pass', 'raise', 'return', 'try', 'while',
+      'with', 'yield',
+    ]),
+    builtins: new Set([
+      'True', 'False', 'None', 'self', 'cls', 'print', 'len', 'range', 'enumerate', 'zip', 'map',
+      'filter', 'open', 'input', 'int', 'float', 'str', 'bool', 'list', 'dict', 'set', 'tuple',
+      'isinstance', 'super', 'sorted', 'sum', 'min', 'max', 'Exception', 'ValueError',
+      'TypeError', 'KeyError',
+    ]),
+    signals: [
+      [/^\s*def\s+\w+\s*\(.*\)\s*(?:->\s*[^:]+)?:\s*$/m, 4],
+      [/^\s*class\s+\w+(?:\(.*\))?:\s*$/m, 3],
+      [/^\s*(?:from\s+[\w.]+\s+)?import\s+[\w.]+(?:\s+as\s+\w+)?\s*$/m, 3],
+      [/^\s*(?:if|elif|for|while|with|try|except.*|else)\b.*:\s*$/m, 2],
+      [/\bprint\(/, 2],
+      [/\b(?:None|True|False|elif|self)\b/, 2],
+      [/^\s*@\w+/m, 1],
+    ],
+  },
+  json: {
+    label: 'JSON',
+    aliases: ['json', 'jsonc', 'json5', 'geojson'],
+    extension: 'json',
+    mimeType: 'application/json',
+    rules: [
+      rule('property', /"(?:\\.|[^"\\\n])*"(?=\s*:)/),
+      rule('string', /"(?:\\.|[^"\\\n])*"?/),
+      rule('number', /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/),
+      rule('comment', /\/\/.*|\/\*[\s\S]*?(?:\*\/|$)/),
+      rule('identifier', /[A-Za-z_]\w*/),
+      rule('punctuation', /[{}[\],:]/),
+    ],
+    keywords: new Set(),
+    builtins: new Set(['true', 'false', 'null']),
+    // Valid JSON is recognized by parsing it; these catch fragments
+    signals: [
+      [/^\s*[[{]\s*"[^"\n]+"\s*:/, 4],
+      [/"[^"\n]+"\s*:\s*(?:"|\d|true|false|null|\[|\{)/, 2],
+    ],
+  },
+  sql: {
+    label: 'SQL',
+    aliases: ['sql', 'mysql', 'postgres', 'postgresql', 'psql', 'pgsql', 'sqlite', 'plsql', 'tsql'],
+    extension: 'sql',
+    mimeType: 'application/sql',
+    rules: [
+      rule('comment', /--.*|\/\*[\s\S]*?(?:\*\/|$)/),
+      rule('string', /'(?:''|[^'])*'?/),
+      rule('property', /"(?:""|[^"])*"?|`[^`]*`?/),
+      rule('number', /\d+(?:\.\d+)?\b/),
+      rule('variable', /[:@$]\w+|\?/),
+      rule('identifier', /[A-Za-z_][\w$]*/),
+      rule('operator', /[-+*/%=<>!|]+/),
+      rule('punctuation', /[(),;.]/),
+    ],
+    keywords: new Set([
+      'add', 'all', 'alter', 'and', 'as', 'asc', 'begin', 'between', 'by', 'case', 'check',
+      'column', 'commit', 'constraint', 'create', 'cross', 'database', 'default', 'delete',
+      'desc', 'distinct', 'drop', 'else', 'end', 'exists', 'foreign', 'from', 'full', 'group',
+      'having', 'if', 'in', 'index', 'inner', 'insert', 'into', 'is', 'join', 'key', 'left',
+      'like', 'limit', 'not', 'null', 'offset', 'on', 'or', 'order', 'outer', 'primary',
+      'references', 'returning', 'right', 'rollback', 'select', 'set', 'table', 'then',
+      'transaction', 'union', 'unique', 'update', 'values', 'view', 'when', 'where', 'with',
+    ]),
+    builtins: new Set([
+      'int', 'integer', 'bigint', 'smallint', 'serial', 'decimal', 'numeric', 'float', 'real',
+      'varchar', 'char', 'text', 'boolean', 'date', 'time', 'timestamp', 'true', 'false',
+      'count', 'sum', 'avg', 'min', 'max', 'coalesce', 'now',
+    ]),
+    caseInsensitive: true,
+    signals: [
+      [/\bselect\b[\s\S]+?\bfrom\b/i, 4],
+      [/\binsert\s+into\b/i, 4],
+      [/\bupdate\s+\w+\s+set\b/i, 4],
+      [/\bdelete\s+from\b/i, 4],
+      [/\bcreate\s+(?:table|index|view|database)\b/i, 4],
+      [/\b(?:where|group\s+by|order\s+by|inner\s+join|left\s+join)\b/i, 1],
+    ],
+  },
+  bash: {
+    label: 'Bash',
+    aliases: ['bash', 'sh', 'shell', 'zsh', 'console', 'terminal', 'shellscript'],
+    extension: 'sh',
+    mimeType: 'application/x-sh',
+    rules: [
+      rule('comment', /(?<=^|\s)#.*/),
+      rule('variable', /\$(?:\{[^}\n]*\}?|\(\(?|[A-Za-z_]\w*|[0-9@#?$!*-])/),
+      rule('string', /"(?:\\[\s\S]|[^"\\])*"?|'[^']*'?/),
+      rule('attribute', /(?<=\s)--?[A-Za-z][\w-]*/),
+      rule('number', /\b\d+\b/),
+      rule('identifier', /[A-Za-z_][\w-]*/),
+      rule('operator', /&&|\|\||[|&;<>!=]+/),
+      rule('punctuation', /[(){}[\]]/),
+    ],
+    keywords: new Set([
+      'if', 'then', 'else', 'elif', 'fi', 'for', 'while', 'until', 'do', 'done', 'case', 'esac',
+      'in', 'function', 'return', 'select', 'time',
+    ]),
+    builtins: new Set([
+      'echo', 'printf', 'cd', 'pwd', 'export', 'source', 'read', 'exit', 'set', 'unset',
+      'local', 'alias', 'test', 'eval', 'exec', 'shift', 'trap', 'sudo', 'ls', 'cp', 'mv', 'rm',
+      'mkdir', 'cat', 'grep', 'sed', 'awk', 'chmod', 'curl', 'git', 'npm', 'npx', 'pip',
+    ]),
+    signals: [
+      [/^#!.*\b(?:ba|z)?sh\b/, 8],
+      [/^\s*\$\s+\w/m, 3],
+      [/^\s*(?:sudo|apt(?:-get)?|brew|npm|npx|yarn|pip3?|git|cd|mkdir|chmod|curl|export|echo)\s/m, 3],
+      [/^\s*(?:fi|done|esac)\s*$/m, 3],
+      [/\$\{?\w+\}?/, 1],
+      [/\s--?[a-z][\w-]*/, 1],
+    ],
+  },
+  html: {
+    label: 'HTML',
+    aliases: ['html', 'htm', 'xhtml', 'xml', 'svg'],
+    extension: 'html',
+    mimeType: 'text/html',
+    rules: [
+      rule('comment', /<!--[\s\S]*?(?:-->|$)/),
+      rule('keyword', /<!doctype[^>]*>/i),
+      rule(
+        'tag',
+        /<\/?[A-Za-z][\w:-]*(?:\s+[^\s"'=/>]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*\s*\/?>/,
+        splitHtmlTag
+      ),
+      rule('builtin', /&(?:#\d+|#x[\da-fA-F]+|\w+);/),
+      rule('plain', /[^<&]+/),
+    ],
+    keywords: new Set(),
+    builtins: new Set(),
+    signals: [
+      [/^\s*<!doctype\s+html/i, 8],
+      [/<(?:html|head|body|div|span|p|a|ul|li|section|header|footer|script|style)[\s>]/i, 3],
+      [/<\/\w+>/, 2],
+    ],
+  },
+};
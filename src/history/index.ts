@@ -0,0 +1,604 @@
+/**
+ * @fileoverview Generation history
+ * @description Stores every generation in IndexedDB and reads it back in pages, with
+ * full-text search, date grouping, favorites, tags and collections; storage failures
+ * never break generation
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import {
+  isIndexedDbAvailable,
+  runTransaction,
+  STORES,
+  withStore,
+} from '../storage/database';
+import type {
+  HistoryCollection,
+  HistoryDateGroup,
+  HistoryEntry,
+  HistoryEntryChanges,
+  HistoryEntryDraft,
+  HistoryFilter,
+  HistoryGroup,
+  HistoryPage,
+  HistoryQuery,
+} from '../types/history';
+
+/**
+ * Configuration constants for the history
+ */
+export const HISTORY_CONFIG = {
+  /** Entries read per page */
+  PAGE_SIZE: 30,
+  /** Maximum number of tags of an entry */
+  MAX_TAGS: 10,
+  /** Maximum length of a tag */
+  MAX_TAG_LENGTH: 30,
+  /** Maximum length of a collection name */
+  MAX_COLLECTION_NAME_LENGTH: 40,
+} as const;
+
+/**
+ * Date buckets, newest first, with the maximum age in calendar days of their entries
+ * @constant
+ */
+const DATE_GROUPS: ReadonlyArray<{ group: HistoryDateGroup; maxAgeDays: number }> = [
+  { group: 'today', maxAgeDays: 0 },
+  { group: 'yesterday', maxAgeDays: 1 },
+  { group: 'lastWeek', maxAgeDays: 7 },
+  { group: 'lastMonth', maxAgeDays: 30 },
+  { group: 'older', maxAgeDays: Infinity },
+];
+
+/**
+ * Length of a day in milliseconds
+ * @constant
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Drag-and-drop data type of a history entry id, dropped onto a collection
+ * @constant
+ */
+export const HISTORY_DRAG_TYPE = 'application/x-generador-ia-history-entry';
+
+/**
+ * View that shows every entry
+ * @constant
+ */
+const ALL_ENTRIES: HistoryFilter = { kind: 'all' };
+
+/**
+ * Callbacks notified after every change to the history
+ */
+const listeners = new Set<() => void>();
+
+/**
+ * Creates an entry id that sorts in creation order
+ * The timestamp is zero-padded so the ids compare correctly as strings.
+ *
+ * @param now - Creation timestamp in milliseconds
+ * @returns A new id
+ */
+export const createHistoryId = (now: number): string =>
+  `history-${now.toString(36).padStart(9, '0')}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Normalizes text for the full-text search
+ * Case and accents are ignored and whitespace is collapsed.
+ *
+ * @param text - Raw text
+ * @returns The normalized text
+ */
+export const normalizeSearchText = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * Normalizes a tag: trimmed, lowercase, single spaces and no leading "#"
+ *
+ * @param tag - Tag typed by the user
+ * @returns The normalized tag, empty if nothing is left
+ */
+export const normalizeTag = (tag: string): string =>
+  tag
+    .trim()
+    .replace(/^#+/, '')
+    .replace(/\s+/g, ' ')
+    .toLowerCase()
+    .slice(0, HISTORY_CONFIG.MAX_TAG_LENGTH)
+    .trim();
+
+/**
+ * Normalizes a tag list, dropping empty tags and duplicates
+ *
+ * @param tags - Tags typed by the user
+ * @returns At most MAX_TAGS normalized tags, in their original order
+ */
+export const normalizeTags = (tags: string[]): string[] =>
+  [...new Set(tags.map(normalizeTag).filter(Boolean))].slice(0, HISTORY_CONFIG.MAX_TAGS);
+
+/**
+ * Builds the text matched by the full-text search
+ * @param entry - Prompt, result and tags of an entry
+ * @returns The normalized text
+ */
+const buildSearchText = ({
+  prompt,
+  result,
+  tags,
+}: Pick<HistoryEntry, 'prompt' | 'result' | 'tags'>): string =>
+  normalizeSearchText([prompt, result, ...tags].join('\n'));
+
+/**
+ * Creates a history entry for a finished generation
+ *
+ * @param draft - Prompt, parameters, result and metadata
+ * @param now - Current timestamp in milliseconds
+ * @returns The entry to store
+ */
+export const createHistoryEntry = (
+  draft: HistoryEntryDraft,
+  now: number = Date.now()
+): HistoryEntry => ({
+  ...draft,
+  id: createHistoryId(now),
+  createdAt: now,
+  isFavorite: false,
+  tags: [],
+  collectionId: null,
+  searchText: buildSearchText({ ...draft, tags: [] }),
+});
+
+/**
+ * Fills in the fields added after an entry was stored
+ * Entries written before favorites, tags and collections existed lack them.
+ *
+ * @param value - Record read from the history store
+ * @returns The complete entry
+ */
+const toHistoryEntry = (value: unknown): HistoryEntry => {
+  const entry = value as HistoryEntry;
+  return {
+    ...entry,
+    isFavorite: entry.isFavorite ?? false,
+    tags: entry.tags ?? [],
+    collectionId: entry.collectionId ?? null,
+  };
+};
+
+/**
+ * Checks whether an entry belongs to a view
+ * Tag and collection views are answered by indexes; this check covers the rest.
+ *
+ * @param entry - The entry
+ * @param filter - The view
+ * @returns True if the entry is shown in the view
+ */
+const matchesFilter = (entry: HistoryEntry, filter: HistoryFilter): boolean => {
+  switch (filter.kind) {
+    case 'favorites':
+      return entry.isFavorite;
+    case 'tag':
+      return entry.tags.includes(filter.tag);
+    case 'collection':
+      return entry.collectionId === filter.collectionId;
+    default:
+      return true;
+  }
+};
+
+/**
+ * Opens a cursor over the entries of a view, newest first
+ * Tag and collection views walk their index, whose entries are ordered by id for a given key.
+ *
+ * @param store - The history store
+ * @param filter - The view
+ * @param before - Only entries older than this id, when reading past the first page
+ * @returns The cursor request
+ */
+const openHistoryCursor = (
+  store: IDBObjectStore,
+  filter: HistoryFilter,
+  before: string | undefined
+): IDBRequest<IDBCursorWithValue | null> => {
+  if (filter.kind === 'tag') {
+    return store.index('tags').openCursor(IDBKeyRange.only(filter.tag), 'prev');
+  }
+  if (filter.kind === 'collection') {
+    return store.index('collectionId').openCursor(IDBKeyRange.only(filter.collectionId), 'prev');
+  }
+  const range = before === undefined ? null : IDBKeyRange.upperBound(before, true);
+  return store.openCursor(range, 'prev');
+};
+
+/**
+ * Creates a collection id
+ * @returns A new id
+ */
+export const createCollectionId = (): string =>
+  `collection-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Splits a search query into normalized words
+ * @param text - The query typed by the user
+ * @returns The words to match
+ */
+const toSearchTerms = (text: string | undefined): string[] =>
+  text ? normalizeSearchText(text).split(' ').filter(Boolean) : [];
+
+/**
+ * Groups entries into relative date buckets
+ * Days are calendar days in the local time zone.
+ *
+ * @param entries - Entries, newest first
+ * @param now - Current timestamp in milliseconds
+ * @returns The non-empty buckets, newest first
+ */
+export const groupHistoryByDate = (
+  entries: HistoryEntry[],
+  now: number = Date.now()
+): HistoryGroup[] => {
+  const startOfToday = new Date(now).setHours(0, 0, 0, 0);
+  const groups: HistoryGroup[] = [];
+
+  for (const entry of entries) {
+    const ageDays = Math.max(0, Math.ceil((startOfToday - entry.createdAt) / DAY_MS));
+    const { group } =
+      DATE_GROUPS.find(({ maxAgeDays }) => ageDays <= maxAgeDays) ??
+      DATE_GROUPS[DATE_GROUPS.length - 1];
+
+    const last = groups[groups.length - 1];
+    if (last?.group === group) {
+      last.entries.push(entry);
+    } else {
+      groups.push({ group, entries: [entry] });
+    }
+  }
+
+  return groups;
+};
+
+/**
+ * Subscribes to changes of the history
+ *
+ * @param listener - Called after any entry or collection is added, changed or deleted
+ * @returns Function that removes the subscription
+ */
+export const subscribeToHistory = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Notifies every subscriber of a change
+ */
+const notifyListeners = (): void => {
+  listeners.forEach((listener) => listener());
+};
+
+/**
+ * Stores a finished generation, ignoring storage errors (quota, private mode...)
+ *
+ * @param draft - Prompt, parameters, result and metadata
+ * @returns The stored entry, or null if it could not be stored
+ */
+export const addHistoryEntry = async (draft: HistoryEntryDraft): Promise<HistoryEntry | null> => {
+  if (!isIndexedDbAvailable()) {
+    return null;
+  }
+
+  const entry = createHistoryEntry(draft);
+  try {
+    await withStore(STORES.HISTORY, 'readwrite', (store) => store.put(entry));
+    notifyListeners();
+    return entry;
+  } catch (error) {
+    console.warn('History write failed:', error);
+    return null;
+  }
+};
+
+/**
+ * Reads a page of entries, newest first
+ * Entries are read with a cursor and the scan stops as soon as the page is
+ * full, so large histories are never loaded at once.
+ *
+ * @param query - Search words, view, position and page size
+ * @returns The page, or an empty page on any storage error
+ */
+export const queryHistory = async ({
+  text,
+  filter = ALL_ENTRIES,
+  before,
+  limit = HISTORY_CONFIG.PAGE_SIZE,
+}: HistoryQuery = {}): Promise<HistoryPage> => {
+  if (!isIndexedDbAvailable()) {
+    return { entries: [], hasMore: false };
+  }
+
+  const terms = toSearchTerms(text);
+  const matches: HistoryEntry[] = [];
+
+  try {
+    await runTransaction(STORES.HISTORY, 'readonly', (transaction) => {
+      const store = transaction.objectStore(STORES.HISTORY);
+      const request = openHistoryCursor(store, filter, before);
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          return;
+        }
+
+        // Index cursors cannot start at an id, so jump to the previous page's last entry
+        if (before !== undefined && (cursor.primaryKey as string) >= before) {
+          if ((cursor.primaryKey as string) > before) {
+            cursor.continuePrimaryKey(cursor.key, before);
+          } else {
+            cursor.continue();
+          }
+          return;
+        }
+
+        const entry = toHistoryEntry(cursor.value);
+        if (
+          matchesFilter(entry, filter) &&
+          terms.every((term) => entry.searchText.includes(term))
+        ) {
+          matches.push(entry);
+        }
+
+        // One extra match tells whether there is another page
+        if (matches.length <= limit) {
+          cursor.continue();
+        }
+      };
+    });
+  } catch (error) {
+    console.warn('History read failed:', error);
+    return { entries: [], hasMore: false };
+  }
+
+  return { entries: matches.slice(0, limit), hasMore: matches.length > limit };
+};
+
+/**
+ * Stars, tags or moves an entry to a collection
+ * Tags are normalized and the searchable text is rebuilt with them.
+ *
+ * @param id - The entry id
+ * @param changes - The fields to change
+ */
+export const updateHistoryEntry = async (
+  id: string,
+  changes: HistoryEntryChanges
+): Promise<void> => {
+  if (!isIndexedDbAvailable()) {
+    return;
+  }
+
+  try {
+    await runTransaction(STORES.HISTORY, 'readwrite', (transaction) => {
+      const store = transaction.objectStore(STORES.HISTORY);
+      const request = store.get(id);
+
+      request.onsuccess = () => {
+        if (!request.result) {
+          return;
+        }
+
+        const entry = { ...toHistoryEntry(request.result), ...changes };
+        entry.tags = normalizeTags(entry.tags);
+        entry.searchText = buildSearchText(entry);
+        store.put(entry);
+      };
+    });
+    notifyListeners();
+  } catch (error) {
+    console.warn('History update failed:', error);
+  }
+};
+
+/**
+ * Lists every tag in use, alphabetically
+ * Reads the keys of the tags index only, not the entries.
+ *
+ * @returns The tags, or an empty list on any storage error
+ */
+export const listHistoryTags = async (): Promise<string[]> => {
+  if (!isIndexedDbAvailable()) {
+    return [];
+  }
+
+  const tags: string[] = [];
+  try {
+    await runTransaction(STORES.HISTORY, 'readonly', (transaction) => {
+      const request = transaction
+        .objectStore(STORES.HISTORY)
+        .index('tags')
+        .openKeyCursor(null, 'nextunique');
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          tags.push(cursor.key as string);
+          cursor.continue();
+        }
+      };
+    });
+  } catch (error) {
+    console.warn('History tags read failed:', error);
+    return [];
+  }
+
+  return tags;
+};
+
+/**
+ * Lists the collections, oldest first
+ * @returns The collections, or an empty list on any storage error
+ */
+export const listCollections = async (): Promise<HistoryCollection[]> => {
+  if (!isIndexedDbAvailable()) {
+    return [];
+  }
+
+  try {
+    const collections = await withStore<HistoryCollection[]>(
+      STORES.COLLECTIONS,
+      'readonly',
+      (store) => store.getAll()
+    );
+    return collections.sort((a, b) => a.createdAt - b.createdAt);
+  } catch (error) {
+    console.warn('Collections read failed:', error);
+    return [];
+  }
+};
+
+/**
+ * Creates a collection
+ *
+ * @param name - Name of the collection
+ * @returns The new collection, or null if the name is empty or it could not be stored
+ */
+export const createCollection = async (name: string): Promise<HistoryCollection | null> => {
+  const trimmed = name.trim().slice(0, HISTORY_CONFIG.MAX_COLLECTION_NAME_LENGTH);
+  if (!trimmed || !isIndexedDbAvailable()) {
+    return null;
+  }
+
+  const collection: HistoryCollection = {
+    id: createCollectionId(),
+    name: trimmed,
+    createdAt: Date.now(),
+  };
+  try {
+    await withStore(STORES.COLLECTIONS, 'readwrite', (store) => store.put(collection));
+    notifyListeners();
+    return collection;
+  } catch (error) {
+    console.warn('Collection write failed:', error);
+    return null;
+  }
+};
+
+/**
+ * Deletes a collection; its entries stay in the history without a collection
+ * @param id - The collection id
+ */
+export const deleteCollection = async (id: string): Promise<void> => {
+  if (!isIndexedDbAvailable()) {
+    return;
+  }
+
+  try {
+    await runTransaction([STORES.HISTORY, STORES.COLLECTIONS], 'readwrite', (transaction) => {
+      transaction.objectStore(STORES.COLLECTIONS).delete(id);
+
+      const request = transaction
+        .objectStore(STORES.HISTORY)
+        .index('collectionId')
+        .openCursor(IDBKeyRange.only(id));
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          cursor.update({ ...toHistoryEntry(cursor.value), collectionId: null });
+          cursor.continue();
+        }
+      };
+    });
+    notifyListeners();
+  } catch (error) {
+    console.warn('Collection delete failed:', error);
+  }
+};
+
+/**
+ * Reads every entry and collection, for a workspace export
+ *
+ * @returns The entries and collections, oldest first
+ * @throws Error if IndexedDB is unavailable or cannot be read
+ */
+export const readAllHistory = async (): Promise<{
+  entries: HistoryEntry[];
+  collections: HistoryCollection[];
+}> => {
+  const [entries, collections] = await Promise.all([
+    withStore<unknown[]>(STORES.HISTORY, 'readonly', (store) => store.getAll()),
+    withStore<HistoryCollection[]>(STORES.COLLECTIONS, 'readonly', (store) => store.getAll()),
+  ]);
+  return {
+    entries: entries.map(toHistoryEntry),
+    collections: collections.sort((a, b) => a.createdAt - b.createdAt),
+  };
+};
+
+/**
+ * Writes imported entries and collections in one transaction
+ * Entries keep their ids, so an entry that already exists is overwritten; their search text
+ * is rebuilt.
+ *
+ * @param entries - Entries to write, without their search text
+ * @param collections - Collections to write
+ * @throws Error if IndexedDB is unavailable or the transaction fails
+ */
+export const importHistoryRecords = async (
+  entries: Array<Omit<HistoryEntry, 'searchText'>>,
+  collections: HistoryCollection[]
+): Promise<void> => {
+  if (entries.length === 0 && collections.length === 0) {
+    return;
+  }
+
+  await runTransaction([STORES.HISTORY, STORES.COLLECTIONS], 'readwrite', (transaction) => {
+    const collectionStore = transaction.objectStore(STORES.COLLECTIONS);
+    collections.forEach((collection) => collectionStore.put(collection));
+
+    const historyStore = transaction.objectStore(STORES.HISTORY);
+    entries.forEach((entry) => historyStore.put({ ...entry, searchText: buildSearchText(entry) }));
+  });
+  notifyListeners();
+};
+
+/**
+ * Deletes an entry
+ * @param id - The entry id
+ */
+export const deleteHistoryEntry = async (id: string): Promise<void> => {
+  if (!isIndexedDbAvailable()) {
+    return;
+  }
+
+  try {
+    await withStore(STORES.HISTORY, 'readwrite', (store) => store.delete(id));
+    notifyListeners();
+  } catch (error) {
+    console.warn('History delete failed:', error);
+  }
+};
+
+/**
+ * Deletes every entry; collections are kept, empty
+ */
+export const clearHistory = async (): Promise<void> => {
+  if (!isIndexedDbAvailable()) {
+    return;
+  }
+
+  try {
+    await withStore(STORES.HISTORY, 'readwrite', (store) => store.clear());
+    notifyListeners();
+  } catch (error) {
+    console.warn('History clear failed:', error);
+  }
+};
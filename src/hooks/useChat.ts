@@ -0,0 +1,301 @@
+/**
+ * @fileoverview Custom hook for multi-turn conversations
+ * @description Keeps the transcript of a conversation and sends every follow-up with
+ * the earlier turns as history
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import { useState, useCallback, useRef } from 'react';
+import { activeModel, generateText, validatePrompt } from '../api/generateText';
+import { withSystemInstruction } from '../api/conversation';
+import { toApiError } from '../api/errors';
+import type {
+  GenerateTextRequest,
+  GenerationHookOptions,
+  PromptValidationResult,
+} from '../types/api';
+import type { ChatState, ChatTurn } from '../types/chat';
+import type { ChatMessage } from '../types/openai';
+
+/**
+ * Initial state for the conversation hook
+ * @constant {ChatState}
+ */
+const INITIAL_STATE: ChatState = {
+  turns: [],
+  status: 'idle',
+  partial: '',
+  isStreaming: false,
+  retry: null,
+  error: null,
+  isLoading: false,
+};
+
+/**
+ * Return type for the useChat hook
+ * @interface UseChatReturn
+ */
+interface UseChatReturn extends ChatState {
+  /** Function to send a new user message */
+  send: (prompt: string) => Promise<void>;
+  /** Function to start a new conversation */
+  reset: () => void;
+  /** Function to validate a message against the conversation so far */
+  validate: (prompt: string) => PromptValidationResult;
+  /** Function to cancel the answer being generated */
+  abort: () => void;
+  /** Model of the active provider, when known before sending */
+  model: string | undefined;
+}
+
+/**
+ * Builds the history sent with the next message
+ * Failed user turns got no answer, so they are left out.
+ *
+ * @param turns - Transcript of the conversation
+ * @returns The earlier messages, oldest first
+ */
+const toHistory = (turns: ChatTurn[]): ChatMessage[] =>
+  turns.filter((turn) => !turn.failed).map(({ role, content }) => ({ role, content }));
+
+/**
+ * Custom hook for managing a conversation with the generator
+ *
+ * Sibling of useGenerateText for the conversation mode. It:
+ * - Keeps the transcript as a list of user and assistant turns
+ * - Sends each message with the earlier turns as `messages`
+ * - Exposes the streamed answer through `partial` until it is complete
+ * - Marks user turns whose answer failed, so they are not sent again as history
+ * - Prepends the system instruction of the active persona to every request
+ *
+ * @param {GenerationHookOptions} options - Optional system instruction
+ * @returns {UseChatReturn} Object containing state and control functions
+ *
+ * @example
+ * ```tsx
+ * function Conversation() {
+ *   const { turns, partial, send, isLoading } = useChat();
+ *
+ *   return (
+ *     <>
+ *       <ChatTranscript turns={turns} partial={partial} />
+ *       <ChatInput onSend={send} isLoading={isLoading} />
+ *     </>
+ *   );
+ * }
+ * ```
+ */
+export const useChat = ({ systemInstruction }: GenerationHookOptions = {}): UseChatReturn => {
+  // Main state with the transcript and the status of the last request
+  const [state, setState] = useState<ChatState>(INITIAL_STATE);
+
+  // Ref to track if a request is in progress (for preventing race conditions)
+  const isGeneratingRef = useRef<boolean>(false);
+
+  // Ref for abort controller to cancel ongoing requests
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Counter used to build turn identifiers
+  const nextTurnIdRef = useRef<number>(0);
+
+  // Ref to the current system instruction, read when a message is sent
+  const systemInstructionRef = useRef<string | undefined>(systemInstruction);
+  systemInstructionRef.current = systemInstruction;
+
+  /**
+   * Creates a transcript turn
+   * @param message - Role and content of the turn
+   * @returns The turn with a fresh identifier
+   */
+  const createTurn = useCallback((message: ChatMessage): ChatTurn => {
+    nextTurnIdRef.current += 1;
+    return { ...message, id: `turn-${nextTurnIdRef.current}`, createdAt: Date.now() };
+  }, []);
+
+  /**
+   * Sends a user message and appends the answer to the transcript
+   *
+   * @param {string} prompt - The new user message
+   * @returns {Promise<void>}
+   */
+  const send = useCallback(async (prompt: string): Promise<void> => {
+    // Prevent multiple simultaneous requests
+    if (isGeneratingRef.current) {
+      console.warn('Generation already in progress');
+      return;
+    }
+
+    const history = withSystemInstruction(toHistory(state.turns), systemInstructionRef.current);
+
+    // Validate the message, with the history, before making the API call
+    const validation = validatePrompt(prompt, activeModel, undefined, history);
+    if (!validation.isValid) {
+      setState((prev) => ({
+        ...prev,
+        status: 'error',
+        error: validation.error ?? null,
+      }));
+      return;
+    }
+
+    const userTurn = createTurn({ role: 'user', content: prompt.trim() });
+
+    // Create new abort controller for this request
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    isGeneratingRef.current = true;
+
+    setState((prev) => ({
+      ...prev,
+      turns: [...prev.turns, userTurn],
+      status: 'loading',
+      partial: '',
+      isStreaming: false,
+      retry: null,
+      error: null,
+      isLoading: true,
+    }));
+
+    try {
+      const request: GenerateTextRequest = {
+        prompt: userTurn.content,
+        messages: history,
+      };
+
+      // Make the API call, appending streamed fragments as they arrive
+      const response = await generateText(request, {
+        signal: controller.signal,
+        onChunk: (chunk) => {
+          if (controller.signal.aborted) {
+            return;
+          }
+          setState((prev) => ({
+            ...prev,
+            partial: prev.partial + chunk,
+            isStreaming: true,
+          }));
+        },
+        onRetry: ({ attempt, maxAttempts }) => {
+          if (controller.signal.aborted) {
+            return;
+          }
+          // Discard text streamed by the failed attempt
+          setState((prev) => ({
+            ...prev,
+            partial: '',
+            isStreaming: false,
+            retry: { attempt, maxAttempts },
+          }));
+        },
+      });
+
+      // Check if the request was aborted
+      if (controller.signal.aborted) {
+        return;
+      }
+
+      const assistantTurn: ChatTurn = {
+        ...createTurn({ role: 'assistant', content: response.result }),
+        metadata: response.metadata,
+      };
+
+      setState((prev) => ({
+        ...prev,
+        turns: [...prev.turns, assistantTurn],
+        status: 'success',
+        partial: '',
+        isStreaming: false,
+        retry: null,
+        isLoading: false,
+      }));
+    } catch (error) {
+      // Check if the request was aborted
+      if (controller.signal.aborted) {
+        return;
+      }
+
+      // Handle API errors (already retried if they were transient)
+      const apiError = toApiError(error);
+      setState((prev) => ({
+        ...prev,
+        turns: prev.turns.map((turn) =>
+          turn.id === userTurn.id ? { ...turn, failed: true } : turn
+        ),
+        status: 'error',
+        partial: '',
+        isStreaming: false,
+        retry: null,
+        error: apiError,
+        isLoading: false,
+      }));
+    } finally {
+      if (abortControllerRef.current === controller) {
+        isGeneratingRef.current = false;
+      }
+    }
+  }, [state.turns, createTurn]);
+
+  /**
+   * Starts a new conversation
+   * Aborts the answer in progress and clears the transcript
+   */
+  const reset = useCallback((): void => {
+    if (abortControllerRef.current) {
+      abortControllerRef.current.abort();
+    }
+
+    isGeneratingRef.current = false;
+    setState(INITIAL_STATE);
+  }, []);
+
+  /**
+   * Validates a message against the conversation so far
+   *
+   * @param {string} prompt - The message to validate
+   * @returns {PromptValidationResult} Validation result
+   */
+  const validate = useCallback(
+    (prompt: string): PromptValidationResult =>
+      validatePrompt(
+        prompt,
+        activeModel,
+        undefined,
+        withSystemInstruction(toHistory(state.turns), systemInstructionRef.current)
+      ),
+    [state.turns]
+  );
+
+  /**
+   * Cancels the answer being generated
+   * The unanswered user turn is marked as failed.
+   */
+  const abort = useCallback((): void => {
+    if (abortControllerRef.current && isGeneratingRef.current) {
+      abortControllerRef.current.abort();
+      isGeneratingRef.current = false;
+      setState((prev) => ({
+        ...prev,
+        turns: prev.turns.map((turn, index) =>
+          index === prev.turns.length - 1 && turn.role === 'user' ? { ...turn, failed: true } : turn
+        ),
+        status: 'idle',
+        partial: '',
+        isStreaming: false,
+        retry: null,
+        isLoading: false,
+      }));
+    }
+  }, []);
+
+  return {
+    ...state,
+    send,
+    reset,
+    validate,
+    abort,
+    model: activeModel,
+  };
+};
+
+export default useChat;
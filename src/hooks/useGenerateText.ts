@@ -7,8 +7,28 @@
  */
 
 import { useState, useCallback, useRef } from 'react';
-import { generateText, validatePrompt } from '../api/generateText';
-import type { GenerationState, GenerateTextRequest, ApiError } from '../types/api';
+import { activeModel, generateText, validatePrompt } from '../api/generateText';
+import { withSystemInstruction } from '../api/conversation';
+import { toApiError } from '../api/errors';
+import { addHistoryEntry } from '../history';
+import {
+  addVersion,
+  createVersionTree,
+  findIdenticalVersion,
+  findTreeByPrompt,
+  findTreeOfVersion,
+  findVersion,
+} from '../versions';
+import type {
+  GenerationCandidate,
+  GenerationHookOptions,
+  GenerationMetadata,
+  GenerationState,
+  GenerateTextRequest,
+  PromptValidationResult,
+} from '../types/api';
+import type { GenerationParameters } from '../types/history';
+import type { ResultVersion, VersionTree } from '../types/versions';
 
 /**
  * Initial state for the generation hook
@@ -17,25 +37,78 @@ import type { GenerationState, GenerateTextRequest, ApiError } from '../types/ap
 const INITIAL_STATE: GenerationState = {
   status: 'idle',
   data: null,
+  metadata: null,
+  candidates: null,
+  versionTree: null,
+  currentVersionId: null,
+  partial: '',
+  isStreaming: false,
+  retry: null,
   error: null,
   isLoading: false,
   isSuccess: false,
   isError: false,
 };
 
+/**
+ * Per-call options for the generate function
+ * @interface GenerateRequestOptions
+ */
+interface GenerateRequestOptions {
+  /** Skip the response cache and always call the provider */
+  bypassCache?: boolean;
+  /** Parameters to send instead of the current ones (used to run a history entry again) */
+  parameters?: GenerationParameters;
+  /** Number of candidates to generate and compare (1 when omitted) */
+  candidateCount?: number;
+  /** Version the result is forked from; by default it is a new version of the prompt */
+  parentId?: string;
+}
+
+/**
+ * The request behind the shown result, which regenerate sends again
+ * @interface LastRequest
+ */
+interface LastRequest {
+  /** The submitted prompt, trimmed */
+  prompt: string;
+  /** Parameters of the request, with the system instruction that was sent */
+  parameters: GenerationParameters;
+  /** Version the result is forked from, null for a version of the original prompt */
+  parentId: string | null;
+  /** Number of candidates requested */
+  candidateCount: number;
+}
+
 /**
  * Return type for the useGenerateText hook
  * @interface UseGenerateTextReturn
  */
 interface UseGenerateTextReturn extends GenerationState {
   /** Function to trigger text generation */
-  generate: (prompt: string) => Promise<void>;
+  generate: (prompt: string, options?: GenerateRequestOptions) => Promise<void>;
+  /** Function to generate the current version again with the same parameters, skipping the response cache */
+  regenerate: () => Promise<void>;
+  /** Function to show another version of the tree */
+  selectVersion: (id: string) => void;
+  /** Function to generate a new version from a version, usually with an edited prompt */
+  forkVersion: (
+    id: string,
+    prompt: string,
+    options?: Pick<GenerateRequestOptions, 'candidateCount'>
+  ) => Promise<void>;
+  /** Function to keep one of the compared candidates as the result, discarding the others */
+  chooseCandidate: (index: number) => void;
+  /** Function to drop one of the compared candidates; the last one left becomes the result */
+  discardCandidate: (index: number) => void;
   /** Function to reset the state to initial values */
   reset: () => void;
-  /** Function to validate a prompt without generating */
-  validate: (prompt: string) => { isValid: boolean; error?: string };
+  /** Function to validate a prompt, and the maxLength it will be sent with, without generating */
+  validate: (prompt: string, maxLength?: number) => PromptValidationResult;
   /** Abort controller for cancelling ongoing requests */
   abort: () => void;
+  /** Model of the active provider, when known before sending */
+  model: string | undefined;
 }
 
 /**
@@ -43,10 +116,17 @@ interface UseGenerateTextReturn extends GenerationState {
  * 
  * This hook encapsulates all the logic for:
  * - Making API calls to generate text
+ * - Exposing streamed text progressively through `partial`
+ * - Reporting automatic retries of transient failures through `retry`
  * - Managing loading, success, and error states
  * - Providing validation utilities
  * - Handling request cancellation
+ * - Prepending the system instruction of the active persona to every request
+ * - Generating several candidates and keeping the one the user chooses
+ * - Keeping every regeneration and fork of a prompt in a version tree
+ * - Recording every successful generation in the history (the chosen candidate)
  * 
+ * @param {GenerationHookOptions} options - Optional system instruction
  * @returns {UseGenerateTextReturn} Object containing state and control functions
  * 
  * @example
@@ -59,14 +139,16 @@ interface UseGenerateTextReturn extends GenerationState {
  *   };
  * 
  *   if (isLoading) return <Loader />;
- *   if (isError) return <Error message={error} />;
+ *   if (isError) return <Error message={translateError(error)} />;
  *   if (data) return <Result text={data} />;
  * 
  *   return <Form onSubmit={handleSubmit} />;
  * }
  * ```
  */
-export const useGenerateText = (): UseGenerateTextReturn => {
+export const useGenerateText = ({
+  systemInstruction,
+}: GenerationHookOptions = {}): UseGenerateTextReturn => {
   // Main state for tracking generation status and results
   const [state, setState] = useState<GenerationState>(INITIAL_STATE);
   
@@ -76,21 +158,100 @@ export const useGenerateText = (): UseGenerateTextReturn => {
   // Ref for abort controller to cancel ongoing requests
   const abortControllerRef = useRef<AbortController | null>(null);
 
+  // Ref to the request behind the shown result, used by regenerate
+  const lastRequestRef = useRef<LastRequest | null>(null);
+
+  // Ref to the version tree of every prompt generated in this session, by tree id
+  const treesRef = useRef<Map<string, VersionTree>>(new Map());
+
+  // Ref to the current system instruction, read when a request is sent
+  const systemInstructionRef = useRef<string | undefined>(systemInstruction);
+  systemInstructionRef.current = systemInstruction;
+
+  /**
+   * Adds the result of the last request to its version tree and records it in the history
+   * A fork goes to the tree of its parent; anything else to the tree of its prompt, created
+   * on the first generation. A result identical to an existing version (a cached answer)
+   * shows that version again instead of adding a copy.
+   *
+   * @param {string} result - The generated text
+   * @param {GenerationMetadata | null} metadata - Metadata of the generation
+   * @returns The updated tree and the version, or null if no request was sent
+   */
+  const recordVersion = useCallback(
+    (
+      result: string,
+      metadata: GenerationMetadata | null
+    ): { tree: VersionTree; version: ResultVersion } | null => {
+      const lastRequest = lastRequestRef.current;
+      if (!lastRequest) {
+        return null;
+      }
+
+      const { prompt, parameters, parentId } = lastRequest;
+      const trees = treesRef.current;
+      const tree =
+        (parentId
+          ? findTreeOfVersion(trees.values(), parentId)
+          : findTreeByPrompt(trees.values(), prompt)) ?? createVersionTree(prompt);
+      const draft = { parentId, prompt, parameters, result, metadata };
+
+      const identical = findIdenticalVersion(tree, draft);
+      if (identical) {
+        return { tree, version: identical };
+      }
+
+      // Record the generation; storage errors are logged and ignored
+      void addHistoryEntry({ prompt, parameters, result, metadata });
+
+      const added = addVersion(tree, draft);
+      trees.set(added.tree.id, added.tree);
+      return added;
+    },
+    []
+  );
+
   /**
    * Generates text based on the provided prompt
    * Handles all state transitions and error handling
    * 
    * @param {string} prompt - The user's input prompt
+   * @param {GenerateRequestOptions} options - Optional per-call settings
    * @returns {Promise<void>}
    */
-  const generate = useCallback(async (prompt: string): Promise<void> => {
+  const generate = useCallback(async (
+    prompt: string,
+    {
+      bypassCache = false,
+      parameters,
+      candidateCount = 1,
+      parentId,
+    }: GenerateRequestOptions = {}
+  ): Promise<void> => {
+    const { systemInstruction: instruction, ...requestParameters } = parameters ?? {
+      systemInstruction: systemInstructionRef.current,
+    };
+    const messages = withSystemInstruction([], instruction);
+
     // Validate the prompt before making the API call
-    const validation = validatePrompt(prompt);
+    const validation = validatePrompt(
+      prompt,
+      activeModel,
+      requestParameters.maxLength,
+      messages
+    );
     if (!validation.isValid) {
       setState({
         status: 'error',
         data: null,
-        error: validation.error || 'Invalid prompt',
+        metadata: null,
+        candidates: null,
+        versionTree: null,
+        currentVersionId: null,
+        partial: '',
+        isStreaming: false,
+        retry: null,
+        error: validation.error ?? null,
         isLoading: false,
         isSuccess: false,
         isError: true,
@@ -109,14 +270,31 @@ export const useGenerateText = (): UseGenerateTextReturn => {
       abortControllerRef.current.abort();
     }
 
+    lastRequestRef.current = {
+      prompt: prompt.trim(),
+      parameters: instruction
+        ? { ...requestParameters, systemInstruction: instruction }
+        : requestParameters,
+      parentId: parentId ?? null,
+      candidateCount,
+    };
+
     // Create new abort controller for this request
-    abortControllerRef.current = new AbortController();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     isGeneratingRef.current = true;
 
     // Set loading state
     setState({
       status: 'loading',
       data: null,
+      metadata: null,
+      candidates: null,
+      versionTree: null,
+      currentVersionId: null,
+      partial: '',
+      isStreaming: false,
+      retry: null,
       error: null,
       isLoading: true,
       isSuccess: false,
@@ -126,21 +304,67 @@ export const useGenerateText = (): UseGenerateTextReturn => {
     try {
       // Prepare the request payload
       const request: GenerateTextRequest = {
+        ...requestParameters,
         prompt: prompt.trim(),
       };
+      if (messages.length > 0) {
+        request.messages = messages;
+      }
+      if (candidateCount > 1) {
+        request.n = candidateCount;
+      }
 
-      // Make the API call
-      const response = await generateText(request);
+      // Make the API call, appending streamed fragments as they arrive
+      const response = await generateText(request, {
+        signal: controller.signal,
+        bypassCache,
+        onChunk: (chunk) => {
+          if (controller.signal.aborted) {
+            return;
+          }
+          setState((prev) => ({
+            ...prev,
+            partial: prev.partial + chunk,
+            isStreaming: true,
+          }));
+        },
+        onRetry: ({ attempt, maxAttempts }) => {
+          if (controller.signal.aborted) {
+            return;
+          }
+          // Discard text streamed by the failed attempt
+          setState((prev) => ({
+            ...prev,
+            partial: '',
+            isStreaming: false,
+            retry: { attempt, maxAttempts },
+          }));
+        },
+      });
 
       // Check if the request was aborted
-      if (abortControllerRef.current?.signal.aborted) {
+      if (controller.signal.aborted) {
         return;
       }
 
+      // Several candidates become a version once the user chooses one
+      const candidates =
+        response.candidates && response.candidates.length > 1 ? response.candidates : null;
+      const kept = candidates
+        ? null
+        : recordVersion(response.result, response.metadata ?? null);
+
       // Update state with successful response
       setState({
         status: 'success',
         data: response.result,
+        metadata: response.metadata ?? null,
+        candidates,
+        versionTree: kept?.tree ?? null,
+        currentVersionId: kept?.version.id ?? null,
+        partial: '',
+        isStreaming: false,
+        retry: null,
         error: null,
         isLoading: false,
         isSuccess: true,
@@ -148,28 +372,177 @@ export const useGenerateText = (): UseGenerateTextReturn => {
       });
     } catch (error) {
       // Check if the request was aborted
-      if (abortControllerRef.current?.signal.aborted) {
+      if (controller.signal.aborted) {
         return;
       }
 
-      // Handle API errors
-      const apiError = error as ApiError;
+      // Handle API errors (already retried if they were transient)
+      const apiError = toApiError(error);
       setState({
         status: 'error',
         data: null,
-        error: apiError.message || 'An unexpected error occurred',
+        metadata: null,
+        candidates: null,
+        versionTree: null,
+        currentVersionId: null,
+        partial: '',
+        isStreaming: false,
+        retry: null,
+        error: apiError,
         isLoading: false,
         isSuccess: false,
         isError: true,
       });
     } finally {
-      isGeneratingRef.current = false;
+      // A newer request may have started after this one was aborted; leave its flag alone
+      if (abortControllerRef.current === controller) {
+        isGeneratingRef.current = false;
+      }
     }
-  }, []);
+  }, [recordVersion]);
+
+  /**
+   * Generates the current version again with the same parameters, bypassing the response cache
+   * The result is a new sibling of that version. Does nothing if no prompt has been submitted yet.
+   */
+  const regenerate = useCallback(async (): Promise<void> => {
+    const lastRequest = lastRequestRef.current;
+    if (!lastRequest) {
+      return;
+    }
+    await generate(lastRequest.prompt, {
+      bypassCache: true,
+      parameters: lastRequest.parameters,
+      candidateCount: lastRequest.candidateCount,
+      parentId: lastRequest.parentId ?? undefined,
+    });
+  }, [generate]);
+
+  /**
+   * Shows another version of the current tree
+   * Regenerating afterwards creates a sibling of that version.
+   *
+   * @param {string} id - Identifier of the version
+   */
+  const selectVersion = useCallback(
+    (id: string): void => {
+      const version = state.versionTree ? findVersion(state.versionTree, id) : undefined;
+      if (!version) {
+        return;
+      }
+
+      lastRequestRef.current = {
+        prompt: version.prompt,
+        parameters: version.parameters,
+        parentId: version.parentId,
+        candidateCount: lastRequestRef.current?.candidateCount ?? 1,
+      };
+      setState((prev) => ({
+        ...prev,
+        data: version.result,
+        metadata: version.metadata,
+        candidates: null,
+        currentVersionId: version.id,
+      }));
+    },
+    [state.versionTree]
+  );
+
+  /**
+   * Generates a child of a version with the version's parameters, bypassing the response cache
+   *
+   * @param {string} id - Identifier of the version to fork
+   * @param {string} prompt - Prompt of the fork, usually an edited copy of the version's prompt
+   * @param {Pick<GenerateRequestOptions, 'candidateCount'>} options - Optional number of candidates
+   */
+  const forkVersion = useCallback(
+    async (
+      id: string,
+      prompt: string,
+      { candidateCount }: Pick<GenerateRequestOptions, 'candidateCount'> = {}
+    ): Promise<void> => {
+      const tree = findTreeOfVersion(treesRef.current.values(), id);
+      const version = tree ? findVersion(tree, id) : undefined;
+      if (!version) {
+        return;
+      }
+      await generate(prompt, {
+        bypassCache: true,
+        parameters: version.parameters,
+        candidateCount,
+        parentId: version.id,
+      });
+    },
+    [generate]
+  );
+
+  /**
+   * Makes a candidate the result of the generation: a new version, recorded in the history
+   *
+   * @param {GenerationCandidate} candidate - The candidate to keep
+   */
+  const keepCandidate = useCallback(
+    (candidate: GenerationCandidate): void => {
+      const kept = recordVersion(candidate.result, candidate.metadata ?? null);
+      setState((prev) => ({
+        ...prev,
+        data: candidate.result,
+        metadata: candidate.metadata ?? null,
+        candidates: null,
+        versionTree: kept?.tree ?? prev.versionTree,
+        currentVersionId: kept?.version.id ?? prev.currentVersionId,
+      }));
+    },
+    [recordVersion]
+  );
+
+  /**
+   * Keeps one of the compared candidates, discarding the others
+   * Does nothing if no comparison is in progress or the index is out of range
+   *
+   * @param {number} index - Index of the winning candidate
+   */
+  const chooseCandidate = useCallback(
+    (index: number): void => {
+      const candidate = state.candidates?.[index];
+      if (candidate) {
+        keepCandidate(candidate);
+      }
+    },
+    [state.candidates, keepCandidate]
+  );
+
+  /**
+   * Drops one of the compared candidates
+   * When only one candidate is left it becomes the result.
+   *
+   * @param {number} index - Index of the candidate to drop
+   */
+  const discardCandidate = useCallback(
+    (index: number): void => {
+      if (!state.candidates?.[index]) {
+        return;
+      }
+
+      const remaining = state.candidates.filter((_, position) => position !== index);
+      if (remaining.length === 1) {
+        keepCandidate(remaining[0]);
+        return;
+      }
+      setState((prev) => ({
+        ...prev,
+        data: remaining[0].result,
+        metadata: remaining[0].metadata ?? null,
+        candidates: remaining,
+      }));
+    },
+    [state.candidates, keepCandidate]
+  );
 
   /**
    * Resets the hook state to initial values
-   * Useful for clearing results and starting fresh
+   * Useful for clearing results and starting fresh; the version trees are kept, so
+   * generating the same prompt again adds a version to its tree.
    */
   const reset = useCallback((): void => {
     // Abort any ongoing request
@@ -186,10 +559,16 @@ export const useGenerateText = (): UseGenerateTextReturn => {
    * Useful for real-time form validation
    * 
    * @param {string} prompt - The prompt to validate
-   * @returns {{ isValid: boolean; error?: string }} Validation result
+   * @param {number} [maxLength] - Maximum answer length the request will ask for, if any
+   * @returns {PromptValidationResult} Validation result
    */
-  const validate = useCallback((prompt: string): { isValid: boolean; error?: string } => {
-    return validatePrompt(prompt);
+  const validate = useCallback((prompt: string, maxLength?: number): PromptValidationResult => {
+    return validatePrompt(
+      prompt,
+      activeModel,
+      maxLength,
+      withSystemInstruction([], systemInstructionRef.current)
+    );
   }, []);
 
   /**
@@ -203,6 +582,7 @@ export const useGenerateText = (): UseGenerateTextReturn => {
       setState((prev) => ({
         ...prev,
         status: 'idle',
+        isStreaming: false,
         isLoading: false,
       }));
     }
@@ -211,9 +591,15 @@ export const useGenerateText = (): UseGenerateTextReturn => {
   return {
     ...state,
     generate,
+    regenerate,
+    selectVersion,
+    forkVersion,
+    chooseCandidate,
+    discardCandidate,
     reset,
     validate,
     abort,
+    model: activeModel,
   };
 };
 
@@ -0,0 +1,214 @@
+/**
+ * @fileoverview Custom hook for the generation history
+ * @description Reads the stored generations page by page, searches and filters them, and
+ * organizes them with favorites, tags and collections
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  clearHistory,
+  createCollection,
+  deleteCollection,
+  deleteHistoryEntry,
+  HISTORY_CONFIG,
+  listCollections,
+  listHistoryTags,
+  queryHistory,
+  subscribeToHistory,
+  updateHistoryEntry,
+} from '../history';
+import { isIndexedDbAvailable } from '../storage/database';
+import type {
+  HistoryCollection,
+  HistoryEntry,
+  HistoryEntryChanges,
+  HistoryFilter,
+} from '../types/history';
+
+/**
+ * Delay before a search is run, so typing does not query on every key
+ * @constant
+ */
+const SEARCH_DEBOUNCE_MS = 250;
+
+/**
+ * Return type for the useHistory hook
+ * @interface UseHistoryReturn
+ */
+interface UseHistoryReturn {
+  /** Loaded entries matching the search and the view, newest first */
+  entries: HistoryEntry[];
+  /** Search text */
+  search: string;
+  /** Function to change the search text */
+  setSearch: (search: string) => void;
+  /** Current view: every entry, favorites, a tag or a collection */
+  filter: HistoryFilter;
+  /** Function to change the view */
+  setFilter: (filter: HistoryFilter) => void;
+  /** Every tag in use, alphabetically */
+  tags: string[];
+  /** Every collection, oldest first */
+  collections: HistoryCollection[];
+  /** Whether older matching entries can be loaded */
+  hasMore: boolean;
+  /** Whether a page is being read */
+  isLoading: boolean;
+  /** Whether the browser can store the history at all */
+  isAvailable: boolean;
+  /** Function to read the next page */
+  loadMore: () => Promise<void>;
+  /** Function to star, tag or move an entry to a collection */
+  update: (id: string, changes: HistoryEntryChanges) => Promise<void>;
+  /** Function to delete an entry */
+  remove: (id: string) => Promise<void>;
+  /** Function to delete every entry */
+  clear: () => Promise<void>;
+  /** Function to create a collection */
+  createCollection: (name: string) => Promise<HistoryCollection | null>;
+  /** Function to delete a collection, keeping its entries */
+  deleteCollection: (id: string) => Promise<void>;
+}
+
+/**
+ * Custom hook for browsing and organizing the generation history
+ *
+ * Only the first page is read up front; older entries are read on demand
+ * with loadMore. The search is debounced, and the list, the tags and the
+ * collections are read again whenever the stored history changes.
+ *
+ * @returns {UseHistoryReturn} The entries, the search, the view and the actions
+ *
+ * @example
+ * ```tsx
+ * function RecentPrompts() {
+ *   const { entries } = useHistory();
+ *   return <ul>{entries.map((entry) => <li key={entry.id}>{entry.prompt}</li>)}</ul>;
+ * }
+ * ```
+ */
+export const useHistory = (): UseHistoryReturn => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [search, setSearch] = useState<string>('');
+  const [filter, setFilter] = useState<HistoryFilter>({ kind: 'all' });
+  const [tags, setTags] = useState<string[]>([]);
+  const [collections, setCollections] = useState<HistoryCollection[]>([]);
+  const [hasMore, setHasMore] = useState<boolean>(false);
+  const [isLoading, setLoading] = useState<boolean>(true);
+
+  // Counter of issued reads; answers of superseded reads are dropped
+  const queryIdRef = useRef<number>(0);
+
+  // Number of loaded entries, kept when the list is read again after a change
+  const loadedCountRef = useRef<number>(0);
+  loadedCountRef.current = entries.length;
+
+  /**
+   * Reads the newest entries for a search text and a view
+   */
+  const loadFirstPage = useCallback(
+    async (text: string, view: HistoryFilter, limit?: number): Promise<void> => {
+      const queryId = ++queryIdRef.current;
+      setLoading(true);
+
+      const page = await queryHistory({ text, filter: view, limit });
+      if (queryId !== queryIdRef.current) {
+        return;
+      }
+
+      setEntries(page.entries);
+      setHasMore(page.hasMore);
+      setLoading(false);
+    },
+    []
+  );
+
+  /**
+   * Reads the tags and the collections shown in the filter bar
+   */
+  const loadFilters = useCallback(async (): Promise<void> => {
+    const [nextTags, nextCollections] = await Promise.all([listHistoryTags(), listCollections()]);
+    setTags(nextTags);
+    setCollections(nextCollections);
+  }, []);
+
+  // Read the first page when the search or the view changes, once the user stops typing
+  useEffect(() => {
+    const timeout = window.setTimeout(
+      () => void loadFirstPage(search, filter),
+      SEARCH_DEBOUNCE_MS
+    );
+    return () => window.clearTimeout(timeout);
+  }, [search, filter, loadFirstPage]);
+
+  useEffect(() => {
+    void loadFilters();
+  }, [loadFilters]);
+
+  // Read the loaded entries and the filters again after every change to the stored history
+  useEffect(
+    () =>
+      subscribeToHistory(() => {
+        void loadFirstPage(
+          search,
+          filter,
+          Math.max(loadedCountRef.current, HISTORY_CONFIG.PAGE_SIZE)
+        );
+        void loadFilters();
+      }),
+    [search, filter, loadFirstPage, loadFilters]
+  );
+
+  // Fall back to every entry when the filtered tag or collection disappears
+  useEffect(() => {
+    if (
+      (filter.kind === 'tag' && !tags.includes(filter.tag)) ||
+      (filter.kind === 'collection' &&
+        !collections.some((collection) => collection.id === filter.collectionId))
+    ) {
+      setFilter({ kind: 'all' });
+    }
+  }, [filter, tags, collections]);
+
+  const loadMore = useCallback(async (): Promise<void> => {
+    const last = entries[entries.length - 1];
+    if (!last || !hasMore) {
+      return;
+    }
+
+    const queryId = ++queryIdRef.current;
+    setLoading(true);
+
+    const page = await queryHistory({ text: search, filter, before: last.id });
+    if (queryId !== queryIdRef.current) {
+      return;
+    }
+
+    setEntries((prev) => [...prev, ...page.entries]);
+    setHasMore(page.hasMore);
+    setLoading(false);
+  }, [entries, hasMore, search, filter]);
+
+  return {
+    entries,
+    search,
+    setSearch,
+    filter,
+    setFilter,
+    tags,
+    collections,
+    hasMore,
+    isLoading,
+    isAvailable: isIndexedDbAvailable(),
+    loadMore,
+    update: updateHistoryEntry,
+    remove: deleteHistoryEntry,
+    clear: clearHistory,
+    createCollection,
+    deleteCollection,
+  };
+};
+
+export default useHistory;
@@ -0,0 +1,34 @@
+/**
+ * @fileoverview Custom hook for translations
+ * @description Gives components the active locale and translation helpers
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import { useContext } from 'react';
+import { I18nContext } from '../i18n/context';
+import type { I18nContextValue } from '../types/i18n';
+
+/**
+ * Custom hook for accessing the i18n context
+ *
+ * @returns {I18nContextValue} The active locale, setLocale, t and translateError
+ * @throws Error if used outside of an I18nProvider
+ *
+ * @example
+ * ```tsx
+ * function Greeting() {
+ *   const { t } = useI18n();
+ *   return <p>{t('status.ready')}</p>;
+ * }
+ * ```
+ */
+export const useI18n = (): I18nContextValue => {
+  const context = useContext(I18nContext);
+  if (!context) {
+    throw new Error('useI18n must be used within an I18nProvider');
+  }
+  return context;
+};
+
+export default useI18n;
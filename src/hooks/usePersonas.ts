@@ -0,0 +1,34 @@
+/**
+ * @fileoverview Custom hook for personas
+ * @description Gives components the saved personas, the active one and their actions
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import { useContext } from 'react';
+import { PersonaContext } from '../personas/context';
+import type { PersonaContextValue } from '../types/persona';
+
+/**
+ * Custom hook for accessing the persona context
+ *
+ * @returns {PersonaContextValue} The personas, the active persona and the actions to manage them
+ * @throws Error if used outside of a PersonaProvider
+ *
+ * @example
+ * ```tsx
+ * function ActivePersona() {
+ *   const { activePersona } = usePersonas();
+ *   return <span>{activePersona?.name}</span>;
+ * }
+ * ```
+ */
+export const usePersonas = (): PersonaContextValue => {
+  const context = useContext(PersonaContext);
+  if (!context) {
+    throw new Error('usePersonas must be used within a PersonaProvider');
+  }
+  return context;
+};
+
+export default usePersonas;
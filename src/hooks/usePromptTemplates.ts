@@ -0,0 +1,108 @@
+/**
+ * @fileoverview Custom hook for the prompt template library
+ * @description Keeps the saved templates in sync with localStorage and imports/exports them as JSON
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { useI18n } from './useI18n';
+import {
+  createTemplateFromDraft,
+  loadPromptTemplates,
+  parseTemplatesJson,
+  serializeTemplates,
+  storePromptTemplates,
+  subscribeToPromptTemplates,
+} from '../promptTemplates';
+import type {
+  PromptTemplate,
+  PromptTemplateDraft,
+  TemplateImportResult,
+} from '../types/promptTemplate';
+
+/**
+ * Return type for the usePromptTemplates hook
+ * @interface UsePromptTemplatesReturn
+ */
+interface UsePromptTemplatesReturn {
+  /** Saved templates, oldest first */
+  templates: PromptTemplate[];
+  /** Function to save a new template */
+  createTemplate: (draft: PromptTemplateDraft) => PromptTemplate;
+  /** Function to delete a template */
+  deleteTemplate: (id: string) => void;
+  /** Function to add the templates of a JSON file to the library */
+  importTemplates: (json: string) => TemplateImportResult;
+  /** Function to serialize the whole library as JSON */
+  exportTemplates: () => string;
+}
+
+/**
+ * Custom hook for managing the prompt template library
+ *
+ * Templates are read from localStorage (the first visit gets the seed
+ * templates in the active locale) and every change is written back. Lists
+ * replaced from outside, such as by a workspace import, are read again.
+ * Must be used inside an I18nProvider.
+ *
+ * @returns {UsePromptTemplatesReturn} The templates and the actions to manage them
+ *
+ * @example
+ * ```tsx
+ * function TemplateNames() {
+ *   const { templates } = usePromptTemplates();
+ *   return <ul>{templates.map((template) => <li key={template.id}>{template.name}</li>)}</ul>;
+ * }
+ * ```
+ */
+export const usePromptTemplates = (): UsePromptTemplatesReturn => {
+  const { locale } = useI18n();
+  const [templates, setTemplates] = useState<PromptTemplate[]>(() =>
+    loadPromptTemplates(locale)
+  );
+
+  // Persist every change, including the seed templates of the first visit
+  useEffect(() => {
+    storePromptTemplates(templates);
+  }, [templates]);
+
+  // Read the templates again when they are replaced, e.g. by a workspace import
+  useEffect(
+    () => subscribeToPromptTemplates(() => setTemplates(loadPromptTemplates(locale))),
+    [locale]
+  );
+
+  const createTemplate = useCallback((draft: PromptTemplateDraft): PromptTemplate => {
+    const template = createTemplateFromDraft(draft);
+    setTemplates((prev) => [...prev, template]);
+    return template;
+  }, []);
+
+  const deleteTemplate = useCallback((id: string): void => {
+    setTemplates((prev) => prev.filter((template) => template.id !== id));
+  }, []);
+
+  const importTemplates = useCallback((json: string): TemplateImportResult => {
+    const result = parseTemplatesJson(json);
+    if (result.ok) {
+      setTemplates((prev) => [...prev, ...result.drafts.map(createTemplateFromDraft)]);
+    }
+    return result;
+  }, []);
+
+  const exportTemplates = useCallback(
+    (): string => serializeTemplates(templates),
+    [templates]
+  );
+
+  return {
+    templates,
+    createTemplate,
+    deleteTemplate,
+    importTemplates,
+    exportTemplates,
+  };
+};
+
+export default usePromptTemplates;
@@ -0,0 +1,131 @@
+/**
+ * @fileoverview Custom hook for workspace bundles
+ * @description Gathers the history, collections, templates, personas and settings into a bundle,
+ * previews the import of a bundle and applies it to every store
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import { useCallback } from 'react';
+import { useI18n } from './useI18n';
+import { usePersonas } from './usePersonas';
+import { importHistoryRecords, readAllHistory } from '../history';
+import { loadPromptTemplates, replacePromptTemplates } from '../promptTemplates';
+import { isIndexedDbAvailable } from '../storage/database';
+import {
+  planWorkspaceImport,
+  previewWorkspaceImport,
+  serializeWorkspace,
+} from '../workspace';
+import type {
+  WorkspaceBundle,
+  WorkspaceImportOptions,
+  WorkspaceImportPreview,
+  WorkspaceImportSummary,
+  WorkspaceSnapshot,
+} from '../types/workspace';
+
+/**
+ * Return type for the useWorkspace hook
+ * @interface UseWorkspaceReturn
+ */
+interface UseWorkspaceReturn {
+  /** Function to serialize the whole workspace as a bundle */
+  exportWorkspace: () => Promise<string>;
+  /** Function to preview what importing a bundle would change */
+  previewImport: (
+    bundle: WorkspaceBundle,
+    sourceVersion: number,
+    invalid: number
+  ) => Promise<WorkspaceImportPreview>;
+  /** Function to import a bundle with the chosen options */
+  importWorkspace: (
+    bundle: WorkspaceBundle,
+    options: WorkspaceImportOptions
+  ) => Promise<WorkspaceImportSummary>;
+}
+
+/**
+ * Custom hook for exporting and importing the whole workspace
+ *
+ * The history and its collections are read from IndexedDB, the templates from
+ * localStorage, and the personas and settings from their providers. An import
+ * writes the history first, so a storage failure changes nothing else; the
+ * template library, the personas and the language then update in place.
+ * Must be used inside an I18nProvider and a PersonaProvider.
+ *
+ * @returns {UseWorkspaceReturn} The export, preview and import actions
+ *
+ * @example
+ * ```tsx
+ * const { exportWorkspace } = useWorkspace();
+ * const json = await exportWorkspace();
+ * ```
+ */
+export const useWorkspace = (): UseWorkspaceReturn => {
+  const { locale, setLocale } = useI18n();
+  const { personas, activePersona, setActivePersona, replacePersonas } = usePersonas();
+
+  /**
+   * Reads the current workspace
+   * @throws Error if the history cannot be read
+   */
+  const loadSnapshot = useCallback(async (): Promise<WorkspaceSnapshot> => {
+    const { entries, collections } = isIndexedDbAvailable()
+      ? await readAllHistory()
+      : { entries: [], collections: [] };
+    return {
+      settings: { locale, activePersonaId: activePersona?.id ?? null },
+      personas,
+      templates: loadPromptTemplates(locale),
+      collections,
+      history: entries,
+    };
+  }, [locale, personas, activePersona]);
+
+  const exportWorkspace = useCallback(
+    async (): Promise<string> => serializeWorkspace(await loadSnapshot()),
+    [loadSnapshot]
+  );
+
+  const previewImport = useCallback(
+    async (
+      bundle: WorkspaceBundle,
+      sourceVersion: number,
+      invalid: number
+    ): Promise<WorkspaceImportPreview> =>
+      previewWorkspaceImport(await loadSnapshot(), bundle, sourceVersion, invalid),
+    [loadSnapshot]
+  );
+
+  const importWorkspace = useCallback(
+    async (
+      bundle: WorkspaceBundle,
+      options: WorkspaceImportOptions
+    ): Promise<WorkspaceImportSummary> => {
+      const plan = planWorkspaceImport(await loadSnapshot(), bundle, options);
+
+      await importHistoryRecords(plan.history, plan.collections);
+      if (plan.templates) {
+        replacePromptTemplates(plan.templates);
+      }
+      if (plan.personas) {
+        replacePersonas(plan.personas);
+      }
+      if (plan.settings) {
+        setLocale(plan.settings.locale);
+        setActivePersona(plan.settings.activePersonaId);
+      }
+      return plan.summary;
+    },
+    [loadSnapshot, replacePersonas, setLocale, setActivePersona]
+  );
+
+  return {
+    exportWorkspace,
+    previewImport,
+    importWorkspace,
+  };
+};
+
+export default useWorkspace;
@@ -0,0 +1,68 @@
+/**
+ * @fileoverview I18nProvider component
+ * @description Holds the active locale, persists it and exposes translation helpers
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import type { ApiError } from '../types/api';
+import type { I18nContextValue, Locale, MessageKey, TranslationParams } from '../types/i18n';
+import { I18nContext } from './context';
+import { getInitialLocale, storeLocale, translate, translateError } from './index';
+
+/**
+ * Props interface for the I18nProvider component
+ * @interface I18nProviderProps
+ */
+interface I18nProviderProps {
+  children: React.ReactNode;
+}
+
+/**
+ * I18nProvider Component
+ *
+ * Provides the active locale to the tree. The initial locale is the one stored
+ * in localStorage, or the browser language; changes are persisted and reflected
+ * in the `lang` attribute of the document.
+ *
+ * @param {I18nProviderProps} props - Component props
+ * @returns {JSX.Element} The provider wrapping its children
+ *
+ * @example
+ * ```tsx
+ * <I18nProvider>
+ *   <Home />
+ * </I18nProvider>
+ * ```
+ */
+const I18nProvider: React.FC<I18nProviderProps> = ({ children }) => {
+  const [locale, setLocaleState] = useState<Locale>(getInitialLocale);
+
+  // Keep the document language in sync for screen readers and spell checking
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  /**
+   * Changes the active locale and remembers it for the next visit
+   */
+  const setLocale = useCallback((next: Locale): void => {
+    setLocaleState(next);
+    storeLocale(next);
+  }, []);
+
+  const value = useMemo<I18nContextValue>(
+    () => ({
+      locale,
+      setLocale,
+      t: (key: MessageKey, params?: TranslationParams) => translate(locale, key, params),
+      translateError: (error: ApiError) => translateError(locale, error),
+    }),
+    [locale, setLocale]
+  );
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export default I18nProvider;
@@ -0,0 +1,15 @@
+/**
+ * @fileoverview i18n React context
+ * @description Context object shared by I18nProvider and the useI18n hook
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import { createContext } from 'react';
+import type { I18nContextValue } from '../types/i18n';
+
+/**
+ * i18n context; null outside of an I18nProvider
+ * @constant
+ */
+export const I18nContext = createContext<I18nContextValue | null>(null);
@@ -0,0 +1,192 @@
+/**
+ * @fileoverview Internationalization core
+ * @description Message catalogs, interpolation, error translation and locale persistence
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import { API_CONFIG } from '../api/validation';
+import type { ApiError } from '../types/api';
+import type {
+  Locale,
+  MessageCatalog,
+  MessageKey,
+  TranslationParams,
+} from '../types/i18n';
+import { en } from './messages/en';
+import { es } from './messages/es';
+
+/**
+ * Catalog of every supported locale
+ * @constant
+ */
+const MESSAGES: Record<Locale, MessageCatalog> = { es, en };
+
+/**
+ * Supported locales with their native names, in switcher order
+ * @constant
+ */
+export const LOCALES: ReadonlyArray<{ code: Locale; name: string }> = [
+  { code: 'es', name: 'Español' },
+  { code: 'en', name: 'English' },
+];
+
+/**
+ * Locale used when neither a stored choice nor the browser language applies
+ * @constant
+ */
+export const DEFAULT_LOCALE: Locale = 'es';
+
+/**
+ * localStorage key of the chosen locale
+ * @constant
+ */
+const LOCALE_STORAGE_KEY = 'generador-ia:locale';
+
+/**
+ * Type guard for supported locales
+ * @param value - Any value
+ * @returns True if the value is a supported locale
+ */
+export const isLocale = (value: unknown): value is Locale =>
+  LOCALES.some((locale) => locale.code === value);
+
+/**
+ * Checks whether a string is a key of the message catalogs
+ * @param key - Any string
+ * @returns True if the English catalog (the complete one) has the key
+ */
+const isMessageKey = (key: string): key is MessageKey =>
+  Object.prototype.hasOwnProperty.call(en, key);
+
+/**
+ * Replaces "{name}" placeholders with their values
+ * Unknown placeholders are left as they are; a missing message gives an empty string.
+ *
+ * @param message - The message with placeholders
+ * @param params - Values to interpolate
+ * @returns The interpolated message
+ */
+export const interpolate = (
+  message: string | undefined,
+  params: TranslationParams = {}
+): string =>
+  (message ?? '').replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  );
+
+/**
+ * Translates a message key
+ *
+ * @param locale - Target locale
+ * @param key - Message key
+ * @param params - Values to interpolate
+ * @returns The translated message
+ *
+ * @example
+ * ```typescript
+ * translate('en', 'errors.PROMPT_TOO_SHORT', { min: 3 });
+ * // 'The prompt must be at least 3 characters long'
+ * ```
+ */
+export const translate = (
+  locale: Locale,
+  key: MessageKey,
+  params?: TranslationParams
+): string => interpolate(MESSAGES[locale][key] ?? en[key] ?? key, params);
+
+/**
+ * Picks the message key of an ApiError from its stable code
+ * API errors with a well-known status get a more specific message; codes the catalogs
+ * do not know (sent by another backend or a proxy) get the generic one.
+ *
+ * @param error - The error to describe
+ * @returns The message key
+ */
+const getErrorMessageKey = (error: ApiError): MessageKey => {
+  if (error.code === 'API_ERROR') {
+    if (error.status === 401 || error.status === 403) {
+      return 'errors.API_ERROR.unauthorized';
+    }
+    if (error.status === 429) {
+      return 'errors.API_ERROR.rateLimited';
+    }
+  }
+  const key = `errors.${error.code}`;
+  return isMessageKey(key) ? key : 'errors.UNKNOWN_ERROR';
+};
+
+/**
+ * Translates an ApiError for display
+ * The message is derived from the error code, so errors created in any language
+ * (or by the server) are shown in the active locale.
+ *
+ * @param locale - Target locale
+ * @param error - The error to translate
+ * @returns The translated message
+ */
+export const translateError = (locale: Locale, error: ApiError): string =>
+  translate(locale, getErrorMessageKey(error), {
+    min: API_CONFIG.MIN_PROMPT_LENGTH,
+    max: API_CONFIG.MAX_CANDIDATES,
+    minTemperature: API_CONFIG.MIN_TEMPERATURE,
+    maxTemperature: API_CONFIG.MAX_TEMPERATURE,
+    status: error.status,
+    ...error.contextLength,
+  });
+
+/**
+ * Formats an estimated cost in US dollars
+ * Amounts under one cent keep two significant digits so they do not round to zero.
+ *
+ * @param locale - Target locale
+ * @param value - Cost in US dollars
+ * @returns The formatted amount (e.g. "$0.00045")
+ */
+export const formatCost = (locale: Locale, value: number): string =>
+  new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency: 'USD',
+    ...(value > 0 && value < 0.01 ? { maximumSignificantDigits: 2 } : {}),
+  }).format(value);
+
+/**
+ * Formats a timestamp as a short date and time
+ *
+ * @param locale - Target locale
+ * @param timestamp - Milliseconds since epoch
+ * @returns The formatted date (e.g. "Mar 4, 2025, 10:30 AM")
+ */
+export const formatDateTime = (locale: Locale, timestamp: number): string =>
+  new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeStyle: 'short' }).format(timestamp);
+
+/**
+ * Reads the locale chosen in a previous session, falling back to the browser language
+ * @returns The initial locale
+ */
+export const getInitialLocale = (): Locale => {
+  try {
+    const stored = localStorage.getItem(LOCALE_STORAGE_KEY);
+    if (isLocale(stored)) {
+      return stored;
+    }
+  } catch {
+    // localStorage is unavailable (private mode, disabled storage...)
+  }
+
+  const browserLanguage = typeof navigator !== 'undefined' ? navigator.language : '';
+  const browserLocale = browserLanguage.slice(0, 2).toLowerCase();
+  return isLocale(browserLocale) ? browserLocale : DEFAULT_LOCALE;
+};
+
+/**
+ * Persists the chosen locale, ignoring storage errors
+ * @param locale - The chosen locale
+ */
+export const storeLocale = (locale: Locale): void => {
+  try {
+    localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+  } catch {
+    // The choice simply will not survive a reload
+  }
+};
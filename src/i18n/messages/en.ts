@@ -0,0 +1,334 @@
+/**
+ * @fileoverview English message catalog
+ * @description Source catalog: its keys define the MessageKey type every locale must translate
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+/**
+ * English UI messages
+ * Placeholders in braces ("{min}") are replaced by translate().
+ * @constant
+ */
+export const en = {
+  // Header
+  'header.language': 'Language',
+  'status.ready': 'Ready',
+  'status.processing': 'Processing...',
+  'status.retrying': 'Retrying ({attempt}/{maxAttempts})...',
+
+  // Hero and feature badges
+  'hero.titlePrefix': 'Generate Text with',
+  'hero.titleHighlight': 'AI Power',
+  'hero.subtitle':
+    'Transform your ideas into polished content. Enter a prompt and let our AI generate creative, technical, or professional text in seconds.',
+  'features.fast': 'Fast Generation',
+  'features.contextAware': 'Context-Aware',
+  'features.secure': 'Secure',
+  'features.creative': 'Creative',
+
+  // Generation card
+  'generation.failed': 'Generation Failed',
+  'generation.tryAgain': 'Try again',
+  'generation.loading': 'Generating your text... This may take a moment.',
+
+  // Info cards
+  'info.howItWorks.title': 'How it works',
+  'info.howItWorks.description':
+    'Enter your prompt, click generate, and receive AI-crafted text tailored to your needs.',
+  'info.bestPractices.title': 'Best practices',
+  'info.bestPractices.description':
+    'Be specific with your prompts. Include context, desired tone, and any constraints.',
+  'info.privacy.title': 'Privacy first',
+  'info.privacy.description':
+    'Your prompts are processed securely and never stored. Your data stays yours.',
+
+  // Footer
+  'footer.builtWith':
+    'Built with React, TypeScript, and Tailwind CSS. Ready for production deployment on Vercel.',
+  'footer.copyright': '© {year} Generador IA. A professional portfolio project.',
+
+  // Generator form
+  'form.label': 'Your Prompt',
+  'form.placeholder': 'Enter your prompt here... Be as specific as possible for better results.',
+  'form.shortcutPrefix': 'Press',
+  'form.shortcutSuffix': 'to generate',
+  'form.counter.characters': '{count} characters',
+  'form.counter.tokens': '{count} / {max} tokens',
+  'form.counter.cost': '≈ {cost} per prompt',
+  'form.counter.showTokens': 'Show the prompt length in tokens',
+  'form.counter.showCharacters': 'Show the prompt length in characters',
+  'form.submit': 'Generate with AI',
+  'form.submitting': 'Generating...',
+
+  // Result box
+  'result.title': 'AI Generated Response',
+  'result.cached': 'From cache',
+  'result.cachedHint': 'This result was served from the local cache',
+  'result.copy': 'Copy',
+  'result.copied': 'Copied!',
+  'result.copyFailed': 'Failed',
+  'result.copyFormat': 'Copy format',
+  'result.copyFormats.markdown': 'Markdown',
+  'result.copyFormats.plain': 'Plain text',
+  'result.format': 'Text format',
+  'result.formats.rendered': 'Rendered',
+  'result.formats.raw': 'Raw',
+  'result.regenerate': 'Regenerate',
+  'result.regenerateLabel': 'Regenerate result',
+  'result.new': 'New',
+  'result.clearLabel': 'Clear result',
+  'result.stats': '{words} words • {characters} characters',
+  'result.tokens': '{prompt} + {completion} tokens',
+  'result.cost': '≈ {cost}',
+  'result.generating': 'Generating...',
+  'result.generatedNow': 'Generated just now',
+  'result.edit': 'Edit',
+  'result.doneEditing': 'Done',
+  'result.editLabel': 'Edited result',
+  'result.edited': 'Edited',
+  'result.original': 'Original',
+  'result.showChanges': 'Show changes',
+  'result.showEdited': 'Show edited text',
+  'result.revert': 'Revert to original',
+
+  // Code blocks
+  'code.plain': 'Code',
+  'code.detected': '{language} (detected)',
+  'code.copyLabel': 'Copy the {language} code',
+  'code.download': 'Download',
+  'code.downloadLabel': 'Download as {fileName}',
+
+  // Export
+  'export.button': 'Export',
+  'export.label': 'Export the result',
+  'export.formats.md': 'Markdown (.md)',
+  'export.formats.txt': 'Plain text (.txt)',
+  'export.formats.html': 'Web page (.html)',
+  'export.formats.json': 'JSON with prompt and parameters (.json)',
+  'export.formats.docx': 'Word document (.docx)',
+
+  // Candidates
+  'candidates.countLabel': 'Candidates',
+  'candidates.label': 'Candidates to compare',
+  'candidates.title': 'Candidate {number}',
+  'candidates.seed': 'Seed {seed}',
+  'candidates.truncated': 'truncated',
+  'candidates.choose': 'Choose',
+  'candidates.discard': 'Discard',
+  'candidates.hint': '{count} candidates • choose the one to keep',
+
+  // Version tree
+  'versions.label': 'Version {label}',
+  'versions.navigation': 'Versions of this prompt',
+  'versions.previous': 'Previous version',
+  'versions.next': 'Next version',
+  'versions.position': '{index} of {total}',
+  'versions.forkedFrom': 'Forked from {label}',
+  'versions.forks': 'Forks:',
+  'versions.prompt': 'Prompt',
+  'versions.parameters': 'Parameters',
+  'versions.temperature': 'Temperature {value}',
+  'versions.maxLength': 'Max. length {value}',
+  'versions.seed': 'Seed {value}',
+  'versions.defaultValue': 'default',
+  'versions.fork': 'Fork',
+  'versions.forkPromptLabel': 'Prompt of the fork of version {label}',
+  'versions.generateFork': 'Generate fork',
+  'versions.cancel': 'Cancel',
+  'versions.compare': 'Compare',
+
+  // Word diff
+  'diff.added': '{count} words added',
+  'diff.removed': '{count} words removed',
+  'diff.identical': 'The texts are identical',
+  'diff.layout': 'Diff layout',
+  'diff.layouts.inline': 'Inline',
+  'diff.layouts.split': 'Side by side',
+
+  // Comparison dialog
+  'compare.title': 'Compare results',
+  'compare.close': 'Close comparison',
+  'compare.before': 'Original',
+  'compare.after': 'Compared with',
+  'compare.pick': 'Pick a result',
+  'compare.session': 'This session',
+  'compare.history': 'History',
+  'compare.swap': 'Swap the two results',
+  'compare.empty': 'Pick two results to see what changed between them',
+
+  // Mode switch
+  'mode.label': 'Generation mode',
+  'mode.single': 'Single answer',
+  'mode.chat': 'Conversation',
+
+  // Conversation mode
+  'chat.transcriptLabel': 'Conversation transcript',
+  'chat.empty': 'Start the conversation. Follow-ups can refer to earlier answers, e.g. "like the previous list, but shorter".',
+  'chat.thinking': 'Thinking…',
+  'chat.failed': 'Not answered',
+  'chat.placeholder': 'Write a message or a follow-up...',
+  'chat.inputLabel': 'Message',
+  'chat.hint': 'Enter to send • Shift + Enter for a new line',
+  'chat.send': 'Send',
+  'chat.stop': 'Stop',
+  'chat.new': 'New conversation',
+
+  // Personas
+  'personas.label': 'Persona',
+  'personas.none': 'No persona',
+  'personas.manage': 'Manage personas',
+  'personas.title': 'Personas',
+  'personas.description':
+    'The instruction of the active persona is sent before every request as a system message and changes the style of the answers.',
+  'personas.use': 'Use',
+  'personas.inUse': 'Active',
+  'personas.edit': 'Edit',
+  'personas.duplicate': 'Duplicate',
+  'personas.delete': 'Delete',
+  'personas.confirmDelete': 'Confirm deletion',
+  'personas.copyName': '{name} (copy)',
+  'personas.new': 'New persona',
+  'personas.nameLabel': 'Name',
+  'personas.instructionLabel': 'System instruction',
+  'personas.instructionPlaceholder': 'You are a... Answer with...',
+  'personas.save': 'Save',
+  'personas.cancel': 'Cancel',
+  'personas.close': 'Close',
+  'personas.errors.NAME_REQUIRED': 'Give the persona a name',
+  'personas.errors.NAME_TOO_LONG': 'The name can be at most {maxName} characters long',
+  'personas.errors.INSTRUCTION_REQUIRED': 'Write the system instruction',
+  'personas.errors.INSTRUCTION_TOO_LONG':
+    'The instruction can be at most {maxInstruction} characters long',
+
+  // Prompt templates
+  'templates.title': 'Templates',
+  'templates.empty': 'No templates yet. Save a prompt or import a file.',
+  'templates.saveCurrent': 'Save prompt as template',
+  'templates.nameLabel': 'Template name',
+  'templates.syntaxHint':
+    'Write variables as {{name}}, {{name:number}}, {{name:multiline}} or {{name=default value}}.',
+  'templates.save': 'Save',
+  'templates.cancel': 'Cancel',
+  'templates.import': 'Import',
+  'templates.export': 'Export',
+  'templates.imported': 'Templates imported: {count}',
+  'templates.variablesTitle': 'Variables',
+  'templates.noVariables': 'This template has no variables.',
+  'templates.preview': 'Preview',
+  'templates.missing': 'Missing values: {names}',
+  'templates.use': 'Use this prompt',
+  'templates.delete': 'Delete template',
+  'templates.confirmDelete': 'Confirm deletion',
+  'templates.close': 'Close',
+  'templates.errors.NAME_REQUIRED': 'Give the template a name',
+  'templates.errors.INVALID_JSON': 'The file is not valid JSON',
+  'templates.errors.INVALID_FORMAT': 'The file does not contain a template list',
+  'templates.errors.NO_TEMPLATES': 'The file has no valid templates',
+
+  // History
+  'history.open': 'History',
+  'history.title': 'History',
+  'history.close': 'Close',
+  'history.searchLabel': 'Search the history',
+  'history.searchPlaceholder': 'Search prompts and results...',
+  'history.empty': 'Your generations will appear here.',
+  'history.noMatches': 'No generation matches the search.',
+  'history.unavailable': 'This browser cannot store the history (IndexedDB is not available).',
+  'history.groups.today': 'Today',
+  'history.groups.yesterday': 'Yesterday',
+  'history.groups.lastWeek': 'Previous 7 days',
+  'history.groups.lastMonth': 'Previous 30 days',
+  'history.groups.older': 'Older',
+  'history.systemInstruction': 'System instruction',
+  'history.star': 'Add to favorites',
+  'history.unstar': 'Remove from favorites',
+  'history.addTag': 'Add a tag...',
+  'history.removeTag': 'Remove tag {tag}',
+  'history.collection': 'Collection',
+  'history.noCollection': 'No collection',
+  'history.filters.all': 'All',
+  'history.filters.favorites': 'Favorites',
+  'history.filters.tag': 'Filter by tag',
+  'history.dropHint': 'Drop a generation here to add it to the collection',
+  'history.newCollection': 'New collection',
+  'history.collectionName': 'Collection name',
+  'history.createCollection': 'Create',
+  'history.deleteCollection': 'Delete collection',
+  'history.confirmDeleteCollection': 'Delete it? Its generations are kept',
+  'history.rerun': 'Run again',
+  'history.compare': 'Compare',
+  'history.delete': 'Delete',
+  'history.confirmDelete': 'Confirm deletion',
+  'history.loadMore': 'Load more',
+  'history.clear': 'Clear history',
+  'history.confirmClear': 'Delete every generation?',
+
+  // Workspace
+  'workspace.open': 'Workspace',
+  'workspace.title': 'Workspace',
+  'workspace.description':
+    'Move your history, collections, templates, personas and settings to another browser or share them with your team.',
+  'workspace.close': 'Close',
+  'workspace.export.title': 'Export',
+  'workspace.export.description':
+    'Downloads everything as a single JSON bundle. The same workspace always produces the same file, so bundles can be compared in git.',
+  'workspace.export.download': 'Download bundle',
+  'workspace.export.failed': 'The workspace could not be read',
+  'workspace.import.title': 'Import',
+  'workspace.import.description':
+    'Choose a bundle to see what it contains before anything changes. Template library files are accepted too.',
+  'workspace.import.choose': 'Choose file',
+  'workspace.import.migrated': 'The file uses schema version {from}; it was updated to version {to}.',
+  'workspace.import.invalid': 'Malformed items that will be ignored: {count}',
+  'workspace.import.apply': 'Import',
+  'workspace.import.cancel': 'Cancel',
+  'workspace.import.done': 'Workspace imported',
+  'workspace.sections.settings': 'Settings',
+  'workspace.sections.personas': 'Personas',
+  'workspace.sections.templates': 'Templates',
+  'workspace.sections.collections': 'Collections',
+  'workspace.sections.history': 'History',
+  'workspace.counts': '{total} in the file · {added} new · {identical} unchanged · {conflicts} conflicts',
+  'workspace.resolutionLabel': 'Conflicts in {section}',
+  'workspace.resolutions.merge': 'Merge',
+  'workspace.resolutions.replace': 'Use the file',
+  'workspace.resolutions.skip': 'Keep mine',
+  'workspace.resolutionHelp':
+    'Conflicts are items that exist on both sides with different contents. Merge keeps the newest edit and combines tags and favorites.',
+  'workspace.summary': '{added} added, {updated} updated',
+  'workspace.errors.INVALID_JSON': 'The file is not valid JSON',
+  'workspace.errors.INVALID_FORMAT': 'The file is not a workspace bundle',
+  'workspace.errors.UNSUPPORTED_VERSION':
+    'The bundle was made by a newer version of the app and cannot be read',
+  'workspace.errors.EMPTY_BUNDLE': 'The bundle has nothing to import',
+  'workspace.errors.FAILED': 'The workspace could not be updated; nothing was changed',
+
+  // Loader
+  'loader.default': 'Generating...',
+  'loader.retrying': 'Retrying ({attempt}/{maxAttempts})…',
+  'loader.screenReader': 'Loading, please wait...',
+
+  // API errors, by ApiErrorCode
+  'errors.INVALID_PROMPT': 'Please enter a prompt',
+  'errors.PROMPT_TOO_SHORT': 'The prompt must be at least {min} characters long',
+  'errors.CONTEXT_LENGTH_EXCEEDED':
+    'The prompt is {excess} tokens over the model limit ({contextWindow} tokens, {completionTokens} of them reserved for the answer)',
+  'errors.INVALID_MESSAGES': 'The conversation history is not valid',
+  'errors.INVALID_CANDIDATE_COUNT': 'The number of candidates must be between 1 and {max}',
+  'errors.INVALID_PARAMETERS':
+    'Invalid parameters: the temperature must be between {minTemperature} and {maxTemperature}, the maximum length a positive integer and the seed an integer',
+  'errors.PAYLOAD_TOO_LARGE': 'The request is too large',
+  'errors.REQUEST_ABORTED': 'The request was cancelled',
+  'errors.API_ERROR': 'The generation service returned an error (status {status})',
+  'errors.API_ERROR.unauthorized': 'The generation service rejected the credentials',
+  'errors.API_ERROR.rateLimited': 'Too many requests. Please wait a moment and try again',
+  'errors.NETWORK_ERROR': 'Could not connect to the server',
+  'errors.UNKNOWN_ERROR': 'An unexpected error occurred',
+} as const;
+
+/**
+ * Key of a UI message
+ * @type MessageKey
+ */
+export type MessageKey = keyof typeof en;
@@ -0,0 +1,332 @@
+/**
+ * @fileoverview Spanish message catalog
+ * @description Spanish translation of every UI message
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import type { MessageCatalog } from '../../types/i18n';
+
+/**
+ * Spanish UI messages
+ * @constant
+ */
+export const es: MessageCatalog = {
+  // Header
+  'header.language': 'Idioma',
+  'status.ready': 'Listo',
+  'status.processing': 'Procesando...',
+  'status.retrying': 'Reintentando ({attempt}/{maxAttempts})...',
+
+  // Hero and feature badges
+  'hero.titlePrefix': 'Genera texto con',
+  'hero.titleHighlight': 'el poder de la IA',
+  'hero.subtitle':
+    'Convierte tus ideas en contenido pulido. Escribe un prompt y deja que nuestra IA genere textos creativos, técnicos o profesionales en segundos.',
+  'features.fast': 'Generación rápida',
+  'features.contextAware': 'Sensible al contexto',
+  'features.secure': 'Seguro',
+  'features.creative': 'Creativo',
+
+  // Generation card
+  'generation.failed': 'La generación ha fallado',
+  'generation.tryAgain': 'Intentar de nuevo',
+  'generation.loading': 'Generando tu texto... Puede tardar un momento.',
+
+  // Info cards
+  'info.howItWorks.title': 'Cómo funciona',
+  'info.howItWorks.description':
+    'Escribe tu prompt, pulsa generar y recibe un texto creado por IA a tu medida.',
+  'info.bestPractices.title': 'Buenas prácticas',
+  'info.bestPractices.description':
+    'Sé específico en tus prompts. Incluye contexto, el tono deseado y cualquier restricción.',
+  'info.privacy.title': 'Privacidad ante todo',
+  'info.privacy.description':
+    'Tus prompts se procesan de forma segura y nunca se almacenan. Tus datos son tuyos.',
+
+  // Footer
+  'footer.builtWith':
+    'Hecho con React, TypeScript y Tailwind CSS. Listo para desplegar en producción en Vercel.',
+  'footer.copyright': '© {year} Generador IA. Un proyecto profesional de portfolio.',
+
+  // Generator form
+  'form.label': 'Tu prompt',
+  'form.placeholder':
+    'Escribe aquí tu prompt... Cuanto más específico seas, mejores serán los resultados.',
+  'form.shortcutPrefix': 'Pulsa',
+  'form.shortcutSuffix': 'para generar',
+  'form.counter.characters': '{count} caracteres',
+  'form.counter.tokens': '{count} / {max} tokens',
+  'form.counter.cost': '≈ {cost} por prompt',
+  'form.counter.showTokens': 'Mostrar la longitud del prompt en tokens',
+  'form.counter.showCharacters': 'Mostrar la longitud del prompt en caracteres',
+  'form.submit': 'Generar con IA',
+  'form.submitting': 'Generando...',
+
+  // Result box
+  'result.title': 'Respuesta generada por IA',
+  'result.cached': 'Desde caché',
+  'result.cachedHint': 'Este resultado se ha servido desde la caché local',
+  'result.copy': 'Copiar',
+  'result.copied': '¡Copiado!',
+  'result.copyFailed': 'Error',
+  'result.copyFormat': 'Formato al copiar',
+  'result.copyFormats.markdown': 'Markdown',
+  'result.copyFormats.plain': 'Texto plano',
+  'result.format': 'Formato del texto',
+  'result.formats.rendered': 'Formateado',
+  'result.formats.raw': 'Sin formato',
+  'result.regenerate': 'Regenerar',
+  'result.regenerateLabel': 'Regenerar resultado',
+  'result.new': 'Nuevo',
+  'result.clearLabel': 'Borrar resultado',
+  'result.stats': '{words} palabras • {characters} caracteres',
+  'result.tokens': '{prompt} + {completion} tokens',
+  'result.cost': '≈ {cost}',
+  'result.generating': 'Generando...',
+  'result.generatedNow': 'Generado ahora mismo',
+  'result.edit': 'Editar',
+  'result.doneEditing': 'Listo',
+  'result.editLabel': 'Resultado editado',
+  'result.edited': 'Editado',
+  'result.original': 'Original',
+  'result.showChanges': 'Ver cambios',
+  'result.showEdited': 'Ver texto editado',
+  'result.revert': 'Volver al original',
+
+  // Code blocks
+  'code.plain': 'Código',
+  'code.detected': '{language} (detectado)',
+  'code.copyLabel': 'Copiar el código {language}',
+  'code.download': 'Descargar',
+  'code.downloadLabel': 'Descargar como {fileName}',
+
+  // Export
+  'export.button': 'Exportar',
+  'export.label': 'Exportar el resultado',
+  'export.formats.md': 'Markdown (.md)',
+  'export.formats.txt': 'Texto sin formato (.txt)',
+  'export.formats.html': 'Página web (.html)',
+  'export.formats.json': 'JSON con prompt y parámetros (.json)',
+  'export.formats.docx': 'Documento de Word (.docx)',
+
+  // Candidates
+  'candidates.countLabel': 'Candidatos',
+  'candidates.label': 'Candidatos para comparar',
+  'candidates.title': 'Candidato {number}',
+  'candidates.seed': 'Semilla {seed}',
+  'candidates.truncated': 'recortado',
+  'candidates.choose': 'Elegir',
+  'candidates.discard': 'Descartar',
+  'candidates.hint': '{count} candidatos • elige el que quieres conservar',
+
+  // Version tree
+  'versions.label': 'Versión {label}',
+  'versions.navigation': 'Versiones de este prompt',
+  'versions.previous': 'Versión anterior',
+  'versions.next': 'Versión siguiente',
+  'versions.position': '{index} de {total}',
+  'versions.forkedFrom': 'Derivada de {label}',
+  'versions.forks': 'Derivadas:',
+  'versions.prompt': 'Prompt',
+  'versions.parameters': 'Parámetros',
+  'versions.temperature': 'Temperatura {value}',
+  'versions.maxLength': 'Longitud máx. {value}',
+  'versions.seed': 'Semilla {value}',
+  'versions.defaultValue': 'por defecto',
+  'versions.fork': 'Derivar',
+  'versions.forkPromptLabel': 'Prompt de la versión derivada de la {label}',
+  'versions.generateFork': 'Generar versión derivada',
+  'versions.cancel': 'Cancelar',
+  'versions.compare': 'Comparar',
+
+  // Word diff
+  'diff.added': '{count} palabras añadidas',
+  'diff.removed': '{count} palabras eliminadas',
+  'diff.identical': 'Los textos son idénticos',
+  'diff.layout': 'Vista de las diferencias',
+  'diff.layouts.inline': 'En línea',
+  'diff.layouts.split': 'Lado a lado',
+
+  // Comparison dialog
+  'compare.title': 'Comparar resultados',
+  'compare.close': 'Cerrar la comparación',
+  'compare.before': 'Original',
+  'compare.after': 'Comparado con',
+  'compare.pick': 'Elige un resultado',
+  'compare.session': 'Esta sesión',
+  'compare.history': 'Historial',
+  'compare.swap': 'Intercambiar los dos resultados',
+  'compare.empty': 'Elige dos resultados para ver qué cambió entre ellos',
+
+  // Mode switch
+  'mode.label': 'Modo de generación',
+  'mode.single': 'Respuesta única',
+  'mode.chat': 'Conversación',
+
+  // Conversation mode
+  'chat.transcriptLabel': 'Transcripción de la conversación',
+  'chat.empty': 'Empieza la conversación. Puedes referirte a respuestas anteriores, p. ej. "como la lista anterior, pero más corta".',
+  'chat.thinking': 'Pensando…',
+  'chat.failed': 'Sin respuesta',
+  'chat.placeholder': 'Escribe un mensaje o una petición de seguimiento...',
+  'chat.inputLabel': 'Mensaje',
+  'chat.hint': 'Enter para enviar • Shift + Enter para una nueva línea',
+  'chat.send': 'Enviar',
+  'chat.stop': 'Detener',
+  'chat.new': 'Nueva conversación',
+
+  // Personas
+  'personas.label': 'Persona',
+  'personas.none': 'Sin persona',
+  'personas.manage': 'Gestionar personas',
+  'personas.title': 'Personas',
+  'personas.description':
+    'La instrucción de la persona activa se envía antes de cada petición como mensaje de sistema y cambia el estilo de las respuestas.',
+  'personas.use': 'Usar',
+  'personas.inUse': 'Activa',
+  'personas.edit': 'Editar',
+  'personas.duplicate': 'Duplicar',
+  'personas.delete': 'Eliminar',
+  'personas.confirmDelete': 'Confirmar eliminación',
+  'personas.copyName': '{name} (copia)',
+  'personas.new': 'Nueva persona',
+  'personas.nameLabel': 'Nombre',
+  'personas.instructionLabel': 'Instrucción de sistema',
+  'personas.instructionPlaceholder': 'Eres un... Responde con...',
+  'personas.save': 'Guardar',
+  'personas.cancel': 'Cancelar',
+  'personas.close': 'Cerrar',
+  'personas.errors.NAME_REQUIRED': 'Ponle un nombre a la persona',
+  'personas.errors.NAME_TOO_LONG': 'El nombre puede tener como máximo {maxName} caracteres',
+  'personas.errors.INSTRUCTION_REQUIRED': 'Escribe la instrucción de sistema',
+  'personas.errors.INSTRUCTION_TOO_LONG':
+    'La instrucción puede tener como máximo {maxInstruction} caracteres',
+
+  // Prompt templates
+  'templates.title': 'Plantillas',
+  'templates.empty': 'Aún no hay plantillas. Guarda un prompt o importa un archivo.',
+  'templates.saveCurrent': 'Guardar prompt como plantilla',
+  'templates.nameLabel': 'Nombre de la plantilla',
+  'templates.syntaxHint':
+    'Escribe las variables como {{nombre}}, {{nombre:number}}, {{nombre:multiline}} o {{nombre=valor por defecto}}.',
+  'templates.save': 'Guardar',
+  'templates.cancel': 'Cancelar',
+  'templates.import': 'Importar',
+  'templates.export': 'Exportar',
+  'templates.imported': 'Plantillas importadas: {count}',
+  'templates.variablesTitle': 'Variables',
+  'templates.noVariables': 'Esta plantilla no tiene variables.',
+  'templates.preview': 'Vista previa',
+  'templates.missing': 'Faltan valores: {names}',
+  'templates.use': 'Usar este prompt',
+  'templates.delete': 'Eliminar plantilla',
+  'templates.confirmDelete': 'Confirmar eliminación',
+  'templates.close': 'Cerrar',
+  'templates.errors.NAME_REQUIRED': 'Ponle un nombre a la plantilla',
+  'templates.errors.INVALID_JSON': 'El archivo no es un JSON válido',
+  'templates.errors.INVALID_FORMAT': 'El archivo no contiene una lista de plantillas',
+  'templates.errors.NO_TEMPLATES': 'El archivo no tiene plantillas válidas',
+
+  // History
+  'history.open': 'Historial',
+  'history.title': 'Historial',
+  'history.close': 'Cerrar',
+  'history.searchLabel': 'Buscar en el historial',
+  'history.searchPlaceholder': 'Busca en prompts y resultados...',
+  'history.empty': 'Tus generaciones aparecerán aquí.',
+  'history.noMatches': 'Ninguna generación coincide con la búsqueda.',
+  'history.unavailable': 'Este navegador no puede guardar el historial (IndexedDB no está disponible).',
+  'history.groups.today': 'Hoy',
+  'history.groups.yesterday': 'Ayer',
+  'history.groups.lastWeek': 'Últimos 7 días',
+  'history.groups.lastMonth': 'Últimos 30 días',
+  'history.groups.older': 'Anteriores',
+  'history.systemInstruction': 'Instrucción de sistema',
+  'history.star': 'Añadir a favoritos',
+  'history.unstar': 'Quitar de favoritos',
+  'history.addTag': 'Añade una etiqueta...',
+  'history.removeTag': 'Quitar la etiqueta {tag}',
+  'history.collection': 'Colección',
+  'history.noCollection': 'Sin colección',
+  'history.filters.all': 'Todo',
+  'history.filters.favorites': 'Favoritos',
+  'history.filters.tag': 'Filtrar por etiqueta',
+  'history.dropHint': 'Suelta aquí una generación para añadirla a la colección',
+  'history.newCollection': 'Nueva colección',
+  'history.collectionName': 'Nombre de la colección',
+  'history.createCollection': 'Crear',
+  'history.deleteCollection': 'Eliminar colección',
+  'history.confirmDeleteCollection': '¿Eliminarla? Sus generaciones se conservan',
+  'history.rerun': 'Volver a generar',
+  'history.compare': 'Comparar',
+  'history.delete': 'Eliminar',
+  'history.confirmDelete': 'Confirmar eliminación',
+  'history.loadMore': 'Cargar más',
+  'history.clear': 'Borrar historial',
+  'history.confirmClear': '¿Eliminar todas las generaciones?',
+
+  // Workspace
+  'workspace.open': 'Espacio de trabajo',
+  'workspace.title': 'Espacio de trabajo',
+  'workspace.description':
+    'Lleva tu historial, colecciones, plantillas, personas y ajustes a otro navegador o compártelos con tu equipo.',
+  'workspace.close': 'Cerrar',
+  'workspace.export.title': 'Exportar',
+  'workspace.export.description':
+    'Descarga todo en un único paquete JSON. El mismo espacio de trabajo produce siempre el mismo archivo, así que los paquetes se pueden comparar en git.',
+  'workspace.export.download': 'Descargar paquete',
+  'workspace.export.failed': 'No se pudo leer el espacio de trabajo',
+  'workspace.import.title': 'Importar',
+  'workspace.import.description':
+    'Elige un paquete para ver lo que contiene antes de cambiar nada. También se aceptan archivos de la biblioteca de plantillas.',
+  'workspace.import.choose': 'Elegir archivo',
+  'workspace.import.migrated':
+    'El archivo usa la versión {from} del esquema; se ha actualizado a la versión {to}.',
+  'workspace.import.invalid': 'Elementos mal formados que se ignorarán: {count}',
+  'workspace.import.apply': 'Importar',
+  'workspace.import.cancel': 'Cancelar',
+  'workspace.import.done': 'Espacio de trabajo importado',
+  'workspace.sections.settings': 'Ajustes',
+  'workspace.sections.personas': 'Personas',
+  'workspace.sections.templates': 'Plantillas',
+  'workspace.sections.collections': 'Colecciones',
+  'workspace.sections.history': 'Historial',
+  'workspace.counts':
+    '{total} en el archivo · {added} nuevos · {identical} sin cambios · {conflicts} conflictos',
+  'workspace.resolutionLabel': 'Conflictos en {section}',
+  'workspace.resolutions.merge': 'Combinar',
+  'workspace.resolutions.replace': 'Usar el archivo',
+  'workspace.resolutions.skip': 'Conservar los míos',
+  'workspace.resolutionHelp':
+    'Los conflictos son elementos que existen en ambos lados con contenido distinto. Combinar conserva la edición más reciente y une etiquetas y favoritos.',
+  'workspace.summary': '{added} añadidos, {updated} actualizados',
+  'workspace.errors.INVALID_JSON': 'El archivo no es un JSON válido',
+  'workspace.errors.INVALID_FORMAT': 'El archivo no es un paquete de espacio de trabajo',
+  'workspace.errors.UNSUPPORTED_VERSION':
+    'El paquete se creó con una versión más reciente de la aplicación y no se puede leer',
+  'workspace.errors.EMPTY_BUNDLE': 'El paquete no tiene nada que importar',
+  'workspace.errors.FAILED': 'No se pudo actualizar el espacio de trabajo; no se ha cambiado nada',
+
+  // Loader
+  'loader.default': 'Generando...',
+  'loader.retrying': 'Reintentando ({attempt}/{maxAttempts})…',
+  'loader.screenReader': 'Cargando, espera por favor...',
+
+  // API errors, by ApiErrorCode
+  'errors.INVALID_PROMPT': 'El prompt es requerido',
+  'errors.PROMPT_TOO_SHORT': 'El prompt debe tener al menos {min} caracteres',
+  'errors.CONTEXT_LENGTH_EXCEEDED':
+    'El prompt supera en {excess} tokens el límite del modelo ({contextWindow} tokens, {completionTokens} reservados para la respuesta)',
+  'errors.INVALID_MESSAGES': 'El historial de la conversación no es válido',
+  'errors.INVALID_CANDIDATE_COUNT': 'El número de candidatos debe estar entre 1 y {max}',
+  'errors.INVALID_PARAMETERS':
+    'Parámetros no válidos: la temperatura debe estar entre {minTemperature} y {maxTemperature}, la longitud máxima ser un entero positivo y la semilla un entero',
+  'errors.PAYLOAD_TOO_LARGE': 'La solicitud es demasiado grande',
+  'errors.REQUEST_ABORTED': 'La solicitud fue cancelada',
+  'errors.API_ERROR': 'El servicio de generación devolvió un error (estado {status})',
+  'errors.API_ERROR.unauthorized': 'El servicio de generación rechazó las credenciales',
+  'errors.API_ERROR.rateLimited': 'Demasiadas solicitudes. Espera un momento y vuelve a intentarlo',
+  'errors.NETWORK_ERROR': 'No se pudo conectar con el servidor',
+  'errors.UNKNOWN_ERROR': 'Ocurrió un error inesperado',
+};
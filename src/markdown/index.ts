@@ -0,0 +1,746 @@
+/**
+ * @fileoverview Markdown parser
+ * @description Parses the Markdown of generated text (headings, lists, emphasis, tables, links
+ * and code fences) into nodes, and turns it into plain text. The nodes are rendered as React
+ * elements, never as HTML, so raw HTML in the text is shown as text.
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import type { MarkdownBlock, MarkdownInline, TableAlignment } from '../types/markdown';
+
+/**
+ * Opening line of a code fence: its marker and its info string
+ * @constant
+ */
+const FENCE_PATTERN = /^ {0,3}(?:(`{3,})([^`]*)|(~{3,})(.*))$/;
+
+/**
+ * ATX heading ("## Title", optionally closed with #)
+ * @constant
+ */
+const HEADING_PATTERN = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+
+/**
+ * Underline of a setext heading ("===" for level 1, "---" for level 2)
+ * @constant
+ */
+const SETEXT_PATTERN = /^ {0,3}(=+|-+)[ \t]*$/;
+
+/**
+ * Thematic break ("---", "* * *", "___")
+ * @constant
+ */
+const RULE_PATTERN = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+
+/**
+ * Blockquote line and its content
+ * @constant
+ */
+const BLOCKQUOTE_PATTERN = /^ {0,3}> ?(.*)$/;
+
+/**
+ * List item: indentation, marker ("-", "*", "+", "•", "1." or "1)") and content
+ * @constant
+ */
+const LIST_ITEM_PATTERN = /^( {0,3})([-*+•]|\d{1,9}[.)])(?:[ \t]+(.*)|[ \t]*$)/;
+
+/**
+ * Delimiter row of a table ("| --- | :---: |")
+ * @constant
+ */
+const TABLE_DELIMITER_PATTERN = /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+
+/**
+ * Deepest nesting of blockquotes and lists; deeper markers are kept as text
+ * The nodes are walked recursively when rendered and exported, so the tree must stay shallow.
+ * @constant
+ */
+const MAX_NESTING_DEPTH = 32;
+
+/**
+ * Longest link label searched for its closing bracket
+ * Bounds the scan so a long run of "[" stays linear.
+ * @constant
+ */
+const MAX_LINK_LABEL_LENGTH = 1000;
+
+/**
+ * Characters a backslash turns into literal text
+ * @constant
+ */
+const ESCAPABLE_CHARACTERS = '\\`*_{}[]()#+-.!|~<>';
+
+/**
+ * URL schemes a link may point to; anything else ("javascript:", "data:") stays text
+ * @constant
+ */
+const SAFE_URL_PATTERN = /^(?:https?:\/\/|mailto:)/i;
+
+/**
+ * Autolink in angle brackets ("<https://example.com>")
+ * @constant
+ */
+const AUTOLINK_PATTERN = /^<((?:https?:\/\/|mailto:)[^\s<>]+)>/i;
+
+/**
+ * Bare URL in the text; trailing punctuation is left out
+ * @constant
+ */
+const BARE_URL_PATTERN = /^https?:\/\/[^\s<>]*[^\s<>.,:;"')\]!?*_~]/;
+
+/**
+ * Whether a line is empty or only whitespace
+ */
+const isBlank = (line: string): boolean => line.trim() === '';
+
+/**
+ * Number of leading spaces of a line
+ */
+const indentOf = (line: string): number => line.length - line.trimStart().length;
+
+/**
+ * Whether a list marker is a number
+ */
+const isOrderedMarker = (marker: string): boolean => /\d/.test(marker);
+
+/**
+ * Whether a character is a letter or a digit
+ */
+const isAlphanumeric = (char: string | undefined): boolean =>
+  !!char && /[\p{L}\p{N}]/u.test(char);
+
+/**
+ * Checks that a URL uses a safe scheme
+ *
+ * @param url - The URL of a link
+ * @returns The trimmed URL, or null when it must not become a link
+ *
+ * @example
+ * ```typescript
+ * sanitizeUrl('https://example.com'); // 'https://example.com'
+ * sanitizeUrl('javascript:alert(1)'); // null
+ * ```
+ */
+export const sanitizeUrl = (url: string): string | null => {
+  const trimmed = url.trim();
+  return SAFE_URL_PATTERN.test(trimmed) ? trimmed : null;
+};
+
+/**
+ * Length of the run of a character starting at a position
+ */
+const runLength = (text: string, start: number, char: string): number => {
+  let end = start;
+  while (text[end] === char) {
+    end++;
+  }
+  return end - start;
+};
+
+/**
+ * Finds the end of a code span that opens with a run of backticks
+ *
+ * @param text - The inline text
+ * @param start - Position of the opening run
+ * @returns The position after the closing run, or -1 when the span is not closed
+ */
+const findCodeSpanEnd = (text: string, start: number): number => {
+  const length = runLength(text, start, '`');
+  let index = start + length;
+  while (index < text.length) {
+    if (text[index] === '`') {
+      const closing = runLength(text, index, '`');
+      if (closing === length) {
+        return index + closing;
+      }
+      index += closing;
+    } else {
+      index++;
+    }
+  }
+  return -1;
+};
+
+/**
+ * Finds the closing delimiter of an emphasis
+ * Code spans and escaped characters are skipped, and a single "*" skips the "**" pairs of a
+ * nested strong emphasis.
+ *
+ * @param text - The inline text
+ * @param start - Position right after the opening delimiter
+ * @param delimiter - The delimiter ("*", "**", "_", "__" or "~~")
+ * @returns The position of the closing delimiter, or -1
+ */
+const findCloser = (text: string, start: number, delimiter: string): number => {
+  const char = delimiter[0];
+  let index = start;
+  while (index < text.length) {
+    if (text[index] === '\\') {
+      index += 2;
+      continue;
+    }
+    if (text[index] === '`') {
+      const end = findCodeSpanEnd(text, index);
+      index = end === -1 ? index + 1 : end;
+      continue;
+    }
+    if (text[index] !== char) {
+      index++;
+      continue;
+    }
+
+    const length = runLength(text, index, char);
+    if (length < delimiter.length || (delimiter.length === 1 && length === 2)) {
+      index += length;
+      continue;
+    }
+    // The last characters of a longer run close ("***" closes "**" after an inner "*")
+    const closer = index + length - delimiter.length;
+    const isPrecededByText = index > start && !/\s/.test(text[index - 1]);
+    const isWordInner = char === '_' && isAlphanumeric(text[index + length]);
+    if (isPrecededByText && !isWordInner) {
+      return closer;
+    }
+    index += length;
+  }
+  return -1;
+};
+
+/**
+ * A link found in inline text
+ */
+interface ParsedLink {
+  /** Text between the brackets */
+  label: string;
+  /** Destination, not checked yet */
+  href: string;
+  /** Optional title */
+  title?: string;
+  /** Position after the closing parenthesis */
+  end: number;
+}
+
+/**
+ * Reads a "[label](destination "title")" link
+ *
+ * @param text - The inline text
+ * @param start - Position of the opening bracket
+ * @returns The link, or null when the text is not a link
+ */
+const parseLink = (text: string, start: number): ParsedLink | null => {
+  const limit = Math.min(text.length, start + MAX_LINK_LABEL_LENGTH);
+  let depth = 0;
+  let index = start;
+  for (; index < limit; index++) {
+    const char = text[index];
+    if (char === '\\') {
+      index++;
+    } else if (char === '`') {
+      const end = findCodeSpanEnd(text, index);
+      if (end !== -1) {
+        index = end - 1;
+      }
+    } else if (char === '[') {
+      depth++;
+    } else if (char === ']') {
+      depth--;
+      if (depth === 0) {
+        break;
+      }
+    }
+  }
+  if (depth !== 0 || text[index + 1] !== '(') {
+    return null;
+  }
+
+  const label = text.slice(start + 1, index);
+  const destination = /^\(\s*(?:<([^<>\n]*)>|((?:[^\s()\\]|\\.|\([^\s()]*\))*))(?:\s+(?:"([^"]*)"|'([^']*)'))?\s*\)/.exec(
+    text.slice(index + 1)
+  );
+  if (!destination) {
+    return null;
+  }
+
+  return {
+    label,
+    href: destination[1] ?? destination[2] ?? '',
+    title: destination[3] ?? destination[4],
+    end: index + 1 + destination[0].length,
+  };
+};
+
+/**
+ * Parses the inline Markdown of a block
+ * Line breaks are kept, as generated text relies on them.
+ *
+ * @param text - The text of the block
+ * @returns The inline nodes
+ */
+const parseInline = (text: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  let buffer = '';
+
+  const pushText = (): void => {
+    if (buffer) {
+      nodes.push({ type: 'text', text: buffer });
+      buffer = '';
+    }
+  };
+
+  let index = 0;
+  while (index < text.length) {
+    const char = text[index];
+    const rest = text.slice(index);
+
+    if (char === '\\' && ESCAPABLE_CHARACTERS.includes(text[index + 1] ?? '')) {
+      buffer += text[index + 1];
+      index += 2;
+      continue;
+    }
+
+    if (char === '\n') {
+      pushText();
+      nodes.push({ type: 'break' });
+      index++;
+      continue;
+    }
+
+    if (char === '`') {
+      const end = findCodeSpanEnd(text, index);
+      const length = runLength(text, index, '`');
+      if (end === -1) {
+        buffer += '`'.repeat(length);
+        index += length;
+        continue;
+      }
+      const code = text.slice(index + length, end - length);
+      pushText();
+      nodes.push({
+        type: 'code',
+        text: /^ .*[^ ].* $/.test(code) ? code.slice(1, -1) : code,
+      });
+      index = end;
+      continue;
+    }
+
+    // Images are shown as links to them, remote images are never loaded
+    const isImage = char === '!' && text[index + 1] === '[';
+    if (char === '[' || isImage) {
+      const link = parseLink(text, isImage ? index + 1 : index);
+      if (link) {
+        const href = sanitizeUrl(link.href);
+        const children = isImage
+          ? [{ type: 'text' as const, text: link.label || link.href }]
+          : parseInline(link.label);
+        pushText();
+        if (href) {
+          nodes.push({ type: 'link', href, title: link.title, children });
+        } else {
+          nodes.push(...children);
+        }
+        index = link.end;
+        continue;
+      }
+    }
+
+    const autolink = char === '<' ? AUTOLINK_PATTERN.exec(rest) : null;
+    if (autolink) {
+      pushText();
+      nodes.push({ type: 'link', href: autolink[1], children: [{ type: 'text', text: autolink[1] }] });
+      index += autolink[0].length;
+      continue;
+    }
+
+    const url = char === 'h' && !isAlphanumeric(text[index - 1]) ? BARE_URL_PATTERN.exec(rest) : null;
+    if (url) {
+      pushText();
+      nodes.push({ type: 'link', href: url[0], children: [{ type: 'text', text: url[0] }] });
+      index += url[0].length;
+      continue;
+    }
+
+    if (char === '*' || char === '_' || char === '~') {
+      const length = runLength(text, index, char);
+      const delimiter = char === '~' ? '~~' : char.repeat(Math.min(length, 2));
+      const opensAfter = text[index + length];
+      const canOpen =
+        length >= delimiter.length &&
+        opensAfter !== undefined &&
+        !/\s/.test(opensAfter) &&
+        (char !== '_' || !isAlphanumeric(text[index - 1]));
+      const closer = canOpen ? findCloser(text, index + delimiter.length, delimiter) : -1;
+
+      if (closer === -1) {
+        buffer += char.repeat(length);
+        index += length;
+        continue;
+      }
+
+      const children = parseInline(text.slice(index + delimiter.length, closer));
+      pushText();
+      nodes.push(
+        delimiter === '~~'
+          ? { type: 'strikethrough', children }
+          : delimiter.length === 2
+            ? { type: 'strong', children }
+            : { type: 'emphasis', children }
+      );
+      index = closer + delimiter.length;
+      continue;
+    }
+
+    buffer += char;
+    index++;
+  }
+
+  pushText();
+  return nodes;
+};
+
+/**
+ * Splits a table row into its cells
+ *
+ * @param line - The row
+ * @returns The text of each cell
+ */
+const splitTableRow = (line: string): string[] => {
+  const trimmed = line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '');
+  return trimmed.split(/(?<!\\)\|/).map((cell) => cell.trim());
+};
+
+/**
+ * Reads the alignment of a column from its delimiter cell
+ */
+const toAlignment = (cell: string): TableAlignment => {
+  const left = cell.startsWith(':');
+  const right = cell.endsWith(':');
+  if (left && right) {
+    return 'center';
+  }
+  if (left) {
+    return 'left';
+  }
+  return right ? 'right' : null;
+};
+
+/**
+ * Whether a table (header row and delimiter row) starts at a line
+ */
+const isTableStart = (lines: string[], index: number): boolean => {
+  const header = lines[index];
+  const delimiter = lines[index + 1];
+  return (
+    delimiter !== undefined &&
+    header.includes('|') &&
+    delimiter.includes('|') &&
+    TABLE_DELIMITER_PATTERN.test(delimiter) &&
+    splitTableRow(header).length === splitTableRow(delimiter).length
+  );
+};
+
+/**
+ * Whether a line starts a block that interrupts a paragraph
+ */
+const startsBlock = (lines: string[], index: number): boolean => {
+  const line = lines[index];
+  return (
+    FENCE_PATTERN.test(line) ||
+    HEADING_PATTERN.test(line) ||
+    RULE_PATTERN.test(line) ||
+    BLOCKQUOTE_PATTERN.test(line) ||
+    LIST_ITEM_PATTERN.test(line) ||
+    isTableStart(lines, index)
+  );
+};
+
+/**
+ * Whether a line closes a code fence
+ */
+const isClosingFence = (line: string, marker: string): boolean => {
+  const trimmed = line.trim();
+  return (
+    indentOf(line) <= 3 &&
+    trimmed.length >= marker.length &&
+    [...trimmed].every((char) => char === marker[0])
+  );
+};
+
+/**
+ * Reads a list and its items
+ * An item goes on over the lines indented past its marker, blank lines included when the
+ * item goes on after them, and over unindented lines that continue its text.
+ *
+ * @param lines - The lines of the document
+ * @param start - Line of the first item
+ * @param first - Match of the first item
+ * @param depth - Nesting depth of the list
+ * @returns The list block and the line after it
+ */
+const parseList = (
+  lines: string[],
+  start: number,
+  first: RegExpExecArray,
+  depth: number
+): [MarkdownBlock, number] => {
+  const ordered = isOrderedMarker(first[2]);
+  const items: MarkdownBlock[][] = [];
+  let index = start;
+  let match: RegExpExecArray | null = first;
+
+  while (match && isOrderedMarker(match[2]) === ordered) {
+    const markerIndent = match[1].length;
+    const content = match[3] ?? '';
+    const offset = content ? match[0].length - content.length : markerIndent + match[2].length + 1;
+    const itemLines = [content];
+    index++;
+
+    while (index < lines.length) {
+      const line = lines[index];
+      if (isBlank(line)) {
+        let next = index + 1;
+        while (next < lines.length && isBlank(lines[next])) {
+          next++;
+        }
+        if (next === lines.length || indentOf(lines[next]) <= markerIndent) {
+          break;
+        }
+        itemLines.push('');
+        index++;
+        continue;
+      }
+
+      const indent = indentOf(line);
+      if (indent > markerIndent) {
+        itemLines.push(line.slice(Math.min(indent, offset)));
+      } else if (!isBlank(itemLines[itemLines.length - 1]) && !startsBlock(lines, index)) {
+        itemLines.push(line.trim());
+      } else {
+        break;
+      }
+      index++;
+    }
+
+    items.push(parseBlocks(itemLines, depth + 1));
+
+    let next = index;
+    while (next < lines.length && isBlank(lines[next])) {
+      next++;
+    }
+    match = next < lines.length ? LIST_ITEM_PATTERN.exec(lines[next]) : null;
+    if (match && isOrderedMarker(match[2]) === ordered) {
+      index = next;
+    }
+  }
+
+  return [
+    { type: 'list', ordered, start: ordered ? parseInt(first[2], 10) : 1, items },
+    index,
+  ];
+};
+
+/**
+ * Parses lines of Markdown into blocks
+ *
+ * @param lines - The lines
+ * @param depth - How many blockquotes and list items the lines are nested in
+ * @returns The blocks
+ */
+const parseBlocks = (lines: string[], depth = 0): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  const canNest = depth < MAX_NESTING_DEPTH;
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (isBlank(line)) {
+      index++;
+      continue;
+    }
+
+    const fence = FENCE_PATTERN.exec(line);
+    if (fence) {
+      const marker = fence[1] ?? fence[3];
+      const info = (fence[2] ?? fence[4]).trim().split(/\s+/)[0];
+      const body: string[] = [];
+      index++;
+      while (index < lines.length && !isClosingFence(lines[index], marker)) {
+        body.push(lines[index]);
+        index++;
+      }
+      // Skip the closing fence; an unclosed fence runs to the end of the text
+      index++;
+      blocks.push({ type: 'code', language: info || null, text: body.join('\n') });
+      continue;
+    }
+
+    const heading = HEADING_PATTERN.exec(line);
+    if (heading) {
+      blocks.push({
+        type: 'heading',
+        level: heading[1].length as 1 | 2 | 3 | 4 | 5 | 6,
+        children: parseInline((heading[2] ?? '').trim()),
+      });
+      index++;
+      continue;
+    }
+
+    if (RULE_PATTERN.test(line)) {
+      blocks.push({ type: 'rule' });
+      index++;
+      continue;
+    }
+
+    if (canNest && BLOCKQUOTE_PATTERN.test(line)) {
+      const quoted: string[] = [];
+      let quote = BLOCKQUOTE_PATTERN.exec(line);
+      while (quote) {
+        quoted.push(quote[1]);
+        index++;
+        quote = index < lines.length ? BLOCKQUOTE_PATTERN.exec(lines[index]) : null;
+      }
+      blocks.push({ type: 'blockquote', children: parseBlocks(quoted, depth + 1) });
+      continue;
+    }
+
+    const item = canNest ? LIST_ITEM_PATTERN.exec(line) : null;
+    if (item) {
+      const [list, next] = parseList(lines, index, item, depth);
+      blocks.push(list);
+      index = next;
+      continue;
+    }
+
+    if (isTableStart(lines, index)) {
+      const header = splitTableRow(line);
+      const align = splitTableRow(lines[index + 1]).map(toAlignment);
+      const rows: MarkdownInline[][][] = [];
+      index += 2;
+      while (index < lines.length && !isBlank(lines[index]) && lines[index].includes('|')) {
+        const cells = splitTableRow(lines[index]);
+        rows.push(header.map((_, column) => parseInline(cells[column] ?? '')));
+        index++;
+      }
+      blocks.push({ type: 'table', align, header: header.map(parseInline), rows });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    let setextLevel: 1 | 2 | null = null;
+    while (index < lines.length && !isBlank(lines[index])) {
+      if (paragraph.length > 0) {
+        const underline = SETEXT_PATTERN.exec(lines[index]);
+        if (underline) {
+          setextLevel = underline[1].startsWith('=') ? 1 : 2;
+          index++;
+          break;
+        }
+        if (startsBlock(lines, index)) {
+          break;
+        }
+      }
+      paragraph.push(lines[index].trim());
+      index++;
+    }
+
+    const children = parseInline(paragraph.join('\n'));
+    blocks.push(
+      setextLevel ? { type: 'heading', level: setextLevel, children } : { type: 'paragraph', children }
+    );
+  }
+
+  return blocks;
+};
+
+/**
+ * Parses a Markdown text
+ *
+ * @param source - The Markdown text
+ * @returns The blocks of the document
+ *
+ * @example
+ * ```typescript
+ * parseMarkdown('**Ingredients:**\n• Pasta');
+ * // [{ type: 'paragraph', children: [{ type: 'strong', ... }] },
+ * //  { type: 'list', ordered: false, start: 1, items: [[{ type: 'paragraph', ... }]] }]
+ * ```
+ */
+export const parseMarkdown = (source: string): MarkdownBlock[] =>
+  parseBlocks(source.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n'));
+
+/**
+ * Turns inline nodes into plain text
+ * Links keep their URL after the text when the two differ.
+ */
+const inlineToPlainText = (nodes: MarkdownInline[]): string =>
+  nodes
+    .map((node) => {
+      switch (node.type) {
+        case 'text':
+        case 'code':
+          return node.text;
+        case 'break':
+          return '\n';
+        case 'link': {
+          const text = inlineToPlainText(node.children);
+          return text === node.href ? text : `${text} (${node.href})`;
+        }
+        default:
+          return inlineToPlainText(node.children);
+      }
+    })
+    .join('');
+
+/**
+ * Turns blocks into plain text, one paragraph per block
+ *
+ * @param blocks - The blocks
+ * @returns The text of each block
+ */
+const blocksToPlainText = (blocks: MarkdownBlock[]): string[] =>
+  blocks.map((block) => {
+    switch (block.type) {
+      case 'heading':
+      case 'paragraph':
+        return inlineToPlainText(block.children);
+      case 'code':
+        return block.text;
+      case 'blockquote':
+        return blocksToPlainText(block.children).join('\n\n');
+      case 'list':
+        return block.items
+          .map((item, position) => {
+            const marker = block.ordered ? `${block.start + position}. ` : '• ';
+            const indent = ' '.repeat(marker.length);
+            const text = blocksToPlainText(item).join('\n');
+            return marker + text.split('\n').join(`\n${indent}`);
+          })
+          .join('\n');
+      case 'table':
+        return [block.header, ...block.rows]
+          .map((row) => row.map(inlineToPlainText).join('\t'))
+          .join('\n');
+      case 'rule':
+        return '';
+    }
+  });
+
+/**
+ * Turns a Markdown text into plain text
+ * Emphasis and code markers are dropped, lists keep "•" and their numbers, and table
+ * cells are separated by tabs.
+ *
+ * @param source - The Markdown text
+ * @returns The plain text
+ *
+ * @example
+ * ```typescript
+ * markdownToPlainText('**Method:**\n\n1. Boil the *pasta*');
+ * // 'Method:\n\n1. Boil the pasta'
+ * ```
+ */
+export const markdownToPlainText = (source: string): string =>
+  blocksToPlainText(parseMarkdown(source))
+    .filter((text) => text !== '')
+    .join('\n\n');
@@ -6,19 +6,41 @@
  * @version 1.0.0
  */
 
-import React, { useCallback } from 'react';
+import React, { useCallback, useMemo, useState } from 'react';
+import ChatInput from '../components/ChatInput';
+import ChatTranscript from '../components/ChatTranscript';
+import CompareDialog from '../components/CompareDialog';
 import GeneratorForm from '../components/GeneratorForm';
+import HistoryPanel from '../components/HistoryPanel';
 import ResultBox from '../components/ResultBox';
+import VersionNavigator from '../components/VersionNavigator';
 import Loader from '../components/Loader';
+import LocaleSwitcher from '../components/LocaleSwitcher';
+import PersonaPanel from '../components/PersonaPanel';
+import WorkspaceDialog from '../components/WorkspaceDialog';
+import { useChat } from '../hooks/useChat';
 import { useGenerateText } from '../hooks/useGenerateText';
+import { useI18n } from '../hooks/useI18n';
+import { usePersonas } from '../hooks/usePersonas';
+import { findVersion } from '../versions';
+import type { GenerationMode } from '../types/chat';
+import type { CompareTarget } from '../types/diff';
+import type { HistoryEntry } from '../types/history';
 
 /**
  * Home Page Component
  * 
  * The main page of the Generador IA application that:
- * - Displays the hero section with branding
+ * - Displays the hero section with branding and the locale switcher
+ * - Shows the active persona next to the status indicator and opens the
+ *   persona management panel
+ * - Opens the history panel and runs stored generations again
+ * - Compares two results, from the version tree or the history, word by word
+ * - Switches between a single answer and a conversation
  * - Renders the generator form for user input
- * - Shows loading state during generation
+ * - Renders the conversation transcript with a follow-up input
+ * - Shows loading state until the first streamed text arrives
+ * - Renders streamed text progressively
  * - Displays results or errors appropriately
  * - Provides a clean, professional SaaS-style interface
  * 
@@ -31,18 +53,68 @@ import { useGenerateText } from '../hooks/useGenerateText';
  * ```
  */
 const Home: React.FC = () => {
+  // The active persona's instruction is sent before every request
+  const { activePersona } = usePersonas();
+  const systemInstruction = activePersona?.instruction;
+
   // Use the custom hook for text generation
   const {
     generate,
+    regenerate,
+    selectVersion,
+    forkVersion,
+    chooseCandidate,
+    discardCandidate,
     reset,
     validate,
+    model,
     data,
+    metadata,
+    candidates,
+    versionTree,
+    currentVersionId,
+    partial,
+    isStreaming,
+    retry,
     error,
     isLoading,
     isSuccess,
     isError,
     status,
-  } = useGenerateText();
+  } = useGenerateText({ systemInstruction });
+
+  // Conversation mode keeps its own transcript and request state
+  const chat = useChat({ systemInstruction });
+  const { send } = chat;
+
+  const [mode, setMode] = useState<GenerationMode>('single');
+
+  // Candidates generated per prompt in single answer mode
+  const [candidateCount, setCandidateCount] = useState<number>(1);
+
+  const [isPersonaPanelOpen, setPersonaPanelOpen] = useState<boolean>(false);
+
+  const [isHistoryOpen, setHistoryOpen] = useState<boolean>(false);
+
+  const [isWorkspaceOpen, setWorkspaceOpen] = useState<boolean>(false);
+
+  // Results preselected in the comparison dialog, null while it is closed
+  const [comparison, setComparison] = useState<{
+    before: CompareTarget | null;
+    after: CompareTarget | null;
+  } | null>(null);
+
+  const { t, translateError } = useI18n();
+
+  // The version on screen, exported with its prompt and parameters
+  const currentVersion = useMemo(
+    () => (versionTree && currentVersionId ? (findVersion(versionTree, currentVersionId) ?? null) : null),
+    [versionTree, currentVersionId]
+  );
+
+  // The header reflects the request of the visible mode
+  const isBusy = mode === 'chat' ? chat.isLoading : status === 'loading';
+  const activeRetry = mode === 'chat' ? chat.retry : retry;
 
   /**
    * Handles form submission
@@ -50,9 +122,39 @@ const Home: React.FC = () => {
    */
   const handleGenerate = useCallback(
     (prompt: string): void => {
-      generate(prompt);
+      generate(prompt, { candidateCount });
     },
-    [generate]
+    [generate, candidateCount]
+  );
+
+  /**
+   * Handles a message sent in conversation mode
+   * The earlier turns are sent along as history
+   */
+  const handleSend = useCallback(
+    (message: string): void => {
+      send(message);
+    },
+    [send]
+  );
+
+  /**
+   * Handles an explicit regeneration
+   * Skips the response cache so the user gets a fresh result
+   */
+  const handleRegenerate = useCallback((): void => {
+    regenerate();
+  }, [regenerate]);
+
+  /**
+   * Handles a fork of a version with an edited prompt
+   * The fork keeps the version's parameters and becomes its child in the version tree
+   */
+  const handleFork = useCallback(
+    (id: string, prompt: string): void => {
+      forkVersion(id, prompt, { candidateCount });
+    },
+    [forkVersion, candidateCount]
   );
 
   /**
@@ -63,6 +165,71 @@ const Home: React.FC = () => {
     reset();
   }, [reset]);
 
+  /**
+   * Runs a stored generation again with its own parameters
+   * Switches to the single answer mode and skips the response cache
+   */
+  const handleRerun = useCallback(
+    (entry: HistoryEntry): void => {
+      setHistoryOpen(false);
+      setMode('single');
+      generate(entry.prompt, { bypassCache: true, parameters: entry.parameters });
+    },
+    [generate]
+  );
+
+  /**
+   * Compares two versions of the version tree
+   */
+  const handleCompareVersions = useCallback((beforeId: string, afterId: string): void => {
+    setComparison({
+      before: { kind: 'version', versionId: beforeId },
+      after: { kind: 'version', versionId: afterId },
+    });
+  }, []);
+
+  /**
+   * Compares a stored generation with the result shown, if any
+   */
+  const handleCompareEntry = useCallback(
+    (entry: HistoryEntry): void => {
+      setHistoryOpen(false);
+      setComparison({
+        before: { kind: 'history', entry },
+        after: currentVersionId ? { kind: 'version', versionId: currentVersionId } : null,
+      });
+    },
+    [currentVersionId]
+  );
+
+  /**
+   * Closes the comparison dialog
+   */
+  const handleCloseComparison = useCallback((): void => {
+    setComparison(null);
+  }, []);
+
+  /**
+   * Closes the history panel
+   */
+  const handleCloseHistory = useCallback((): void => {
+    setHistoryOpen(false);
+  }, []);
+
+  /**
+   * Closes the workspace import/export dialog
+   */
+  const handleCloseWorkspace = useCallback((): void => {
+    setWorkspaceOpen(false);
+  }, []);
+
+  /**
+   * Closes the persona management panel
+   */
+  const handleClosePersonaPanel = useCallback((): void => {
+    setPersonaPanelOpen(false);
+  }, []);
+
   /**
    * Handles successful copy action
    * Could be extended to show a toast notification
@@ -100,19 +267,142 @@ const Home: React.FC = () => {
             </span>
           </div>
 
-          {/* Status indicator */}
-          <div className="flex items-center gap-2">
-            <span
-              className={`
-                w-2
-                h-2
+          {/* Status indicator, history, active persona and locale switcher */}
+          <div className="flex items-center gap-4">
+            <div className="flex items-center gap-2">
+              <span
+                className={`
+                  w-2
+                  h-2
+                  rounded-full
+                  ${isBusy ? 'bg-amber-500 animate-pulse' : 'bg-green-500'}
+                `}
+              />
+              <span className="text-sm text-gray-600 dark:text-gray-400">
+                {isBusy
+                  ? activeRetry
+                    ? t('status.retrying', {
+                        attempt: activeRetry.attempt,
+                        maxAttempts: activeRetry.maxAttempts,
+                      })
+                    : t('status.processing')
+                  : t('status.ready')}
+              </span>
+            </div>
+            <button
+              type="button"
+              onClick={() => setHistoryOpen(true)}
+              className="
+                flex
+                items-center
+                gap-1.5
+                px-3
+                py-1
+                text-sm
+                font-medium
+                text-gray-700
+                dark:text-gray-300
+                hover:bg-gray-100
+                dark:hover:bg-gray-800
                 rounded-full
-                ${status === 'loading' ? 'bg-amber-500 animate-pulse' : 'bg-green-500'}
-              `}
-            />
-            <span className="text-sm text-gray-600 dark:text-gray-400">
-              {status === 'loading' ? 'Processing...' : 'Ready'}
-            </span>
+                transition-colors
+                duration-200
+              "
+            >
+              <svg
+                className="w-4 h-4 flex-shrink-0"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+                aria-hidden="true"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"
+                />
+              </svg>
+              {t('history.open')}
+            </button>
+            <button
+              type="button"
+              onClick={() => setWorkspaceOpen(true)}
+              className="
+                flex
+                items-center
+                gap-1.5
+                px-3
+                py-1
+                text-sm
+                font-medium
+                text-gray-700
+                dark:text-gray-300
+                hover:bg-gray-100
+                dark:hover:bg-gray-800
+                rounded-full
+                transition-colors
+                duration-200
+              "
+            >
+              <svg
+                className="w-4 h-4 flex-shrink-0"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+                aria-hidden="true"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12"
+                />
+              </svg>
+              {t('workspace.open')}
+            </button>
+            <button
+              type="button"
+              onClick={() => setPersonaPanelOpen(true)}
+              title={t('personas.manage')}
+              className="
+                flex
+                items-center
+                gap-1.5
+                max-w-[12rem]
+                px-3
+                py-1
+                text-sm
+                font-medium
+                text-indigo-700
+                dark:text-indigo-300
+                bg-indigo-50
+                dark:bg-indigo-900/30
+                hover:bg-indigo-100
+                dark:hover:bg-indigo-900/50
+                rounded-full
+                transition-colors
+                duration-200
+              "
+            >
+              <svg
+                className="w-4 h-4 flex-shrink-0"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+                aria-hidden="true"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z"
+                />
+              </svg>
+              <span className="sr-only">{t('personas.label')}:</span>
+              <span className="truncate">{activePersona?.name ?? t('personas.none')}</span>
+            </button>
+            <LocaleSwitcher />
           </div>
         </div>
       </header>
@@ -122,24 +412,23 @@ const Home: React.FC = () => {
         {/* Hero section */}
         <section className="text-center mb-12">
           <h1 className="text-4xl md:text-5xl font-bold text-gray-900 dark:text-white mb-4">
-            Generate Text with{' '}
+            {t('hero.titlePrefix')}{' '}
             <span className="bg-gradient-to-r from-indigo-600 to-purple-600 bg-clip-text text-transparent">
-              AI Power
+              {t('hero.titleHighlight')}
             </span>
           </h1>
           <p className="text-lg text-gray-600 dark:text-gray-400 max-w-2xl mx-auto">
-            Transform your ideas into polished content. Enter a prompt and let our
-            AI generate creative, technical, or professional text in seconds.
+            {t('hero.subtitle')}
           </p>
         </section>
 
         {/* Features badges */}
         <section className="flex flex-wrap justify-center gap-3 mb-12">
           {[
-            { icon: '⚡', label: 'Fast Generation' },
-            { icon: '🎯', label: 'Context-Aware' },
-            { icon: '🔒', label: 'Secure' },
-            { icon: '💡', label: 'Creative' },
+            { icon: '⚡', label: t('features.fast') },
+            { icon: '🎯', label: t('features.contextAware') },
+            { icon: '🔒', label: t('features.secure') },
+            { icon: '💡', label: t('features.creative') },
           ].map((feature, index) => (
             <div
               key={index}
@@ -181,13 +470,88 @@ const Home: React.FC = () => {
             mb-8
           "
         >
+          {/* Mode switch */}
+          <div
+            className="flex justify-center mb-6"
+            role="radiogroup"
+            aria-label={t('mode.label')}
+          >
+            <div className="inline-flex p-1 bg-gray-100 dark:bg-gray-700 rounded-xl">
+              {(['single', 'chat'] as const).map((value) => (
+                <button
+                  key={value}
+                  type="button"
+                  role="radio"
+                  aria-checked={mode === value}
+                  onClick={() => setMode(value)}
+                  className={`
+                    px-4
+                    py-1.5
+                    text-sm
+                    font-medium
+                    rounded-lg
+                    transition-colors
+                    duration-200
+                    ${
+                      mode === value
+                        ? 'bg-white dark:bg-gray-800 text-indigo-600 dark:text-indigo-300 shadow-sm'
+                        : 'text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white'
+                    }
+                  `}
+                >
+                  {t(value === 'single' ? 'mode.single' : 'mode.chat')}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Conversation mode */}
+          {mode === 'chat' && (
+            <div className="space-y-4">
+              <ChatTranscript
+                turns={chat.turns}
+                partial={chat.partial}
+                isLoading={chat.isLoading}
+              />
+
+              {chat.error && (
+                <p className="text-sm text-red-600 dark:text-red-400" role="alert">
+                  {translateError(chat.error)}
+                </p>
+              )}
+
+              <ChatInput
+                onSend={handleSend}
+                onStop={chat.abort}
+                isLoading={chat.isLoading}
+                validateMessage={chat.validate}
+              />
+
+              {chat.turns.length > 0 && (
+                <div className="flex justify-end">
+                  <button
+                    type="button"
+                    onClick={chat.reset}
+                    className="text-sm font-medium text-indigo-600 dark:text-indigo-300 hover:underline"
+                  >
+                    {t('chat.new')}
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Show form when idle or has error */}
-          {(status === 'idle' || status === 'error') && !isSuccess && (
+          {mode === 'single' && (status === 'idle' || status === 'error') && !isSuccess && (
             <>
               <GeneratorForm
                 onSubmit={handleGenerate}
                 isLoading={isLoading}
                 validatePrompt={validate}
+                model={model}
+                systemInstruction={systemInstruction}
+                candidateCount={candidateCount}
+                onCandidateCountChange={setCandidateCount}
               />
 
               {/* Error message */}
@@ -224,10 +588,10 @@ const Home: React.FC = () => {
                   </svg>
                   <div>
                     <h4 className="font-semibold text-red-800 dark:text-red-300">
-                      Generation Failed
+                      {t('generation.failed')}
                     </h4>
                     <p className="text-sm text-red-600 dark:text-red-400 mt-1">
-                      {error}
+                      {translateError(error)}
                     </p>
                     <button
                       onClick={handleClear}
@@ -240,7 +604,7 @@ const Home: React.FC = () => {
                         hover:underline
                       "
                     >
-                      Try again
+                      {t('generation.tryAgain')}
                     </button>
                   </div>
                 </div>
@@ -248,33 +612,61 @@ const Home: React.FC = () => {
             </>
           )}
 
-          {/* Loading state */}
-          {isLoading && (
+          {/* Loading state (until the first streamed fragment arrives) */}
+          {mode === 'single' && isLoading && !isStreaming && (
             <div className="py-12">
               <Loader
                 size="lg"
-                message="Generating your text... This may take a moment."
+                message={t('generation.loading')}
+                retry={retry}
               />
             </div>
           )}
 
-          {/* Success state - show result */}
-          {isSuccess && data && (
+          {/* Streaming state - render text as it arrives */}
+          {mode === 'single' && isStreaming && (
             <ResultBox
-              text={data}
+              text={partial}
+              isStreaming
               onClear={handleClear}
-              onCopy={handleCopy}
             />
           )}
+
+          {/* Success state - show result */}
+          {mode === 'single' && isSuccess && data && (
+            <>
+              {versionTree && currentVersionId && !candidates && (
+                <VersionNavigator
+                  tree={versionTree}
+                  currentVersionId={currentVersionId}
+                  onSelect={selectVersion}
+                  onFork={handleFork}
+                  onCompare={handleCompareVersions}
+                  disabled={isLoading}
+                />
+              )}
+              <ResultBox
+                text={data}
+                metadata={metadata}
+                isCached={metadata?.cached ?? false}
+                version={currentVersion}
+                candidates={candidates}
+                onChooseCandidate={chooseCandidate}
+                onDiscardCandidate={discardCandidate}
+                onRegenerate={handleRegenerate}
+                onClear={handleClear}
+                onCopy={handleCopy}
+              />
+            </>
+          )}
         </section>
 
         {/* Info section */}
         <section className="grid md:grid-cols-3 gap-6">
           {[
             {
-              title: 'How it works',
-              description:
-                'Enter your prompt, click generate, and receive AI-crafted text tailored to your needs.',
+              title: t('info.howItWorks.title'),
+              description: t('info.howItWorks.description'),
               icon: (
                 <path
                   strokeLinecap="round"
@@ -285,9 +677,8 @@ const Home: React.FC = () => {
               ),
             },
             {
-              title: 'Best practices',
-              description:
-                'Be specific with your prompts. Include context, desired tone, and any constraints.',
+              title: t('info.bestPractices.title'),
+              description: t('info.bestPractices.description'),
               icon: (
                 <path
                   strokeLinecap="round"
@@ -298,9 +689,8 @@ const Home: React.FC = () => {
               ),
             },
             {
-              title: 'Privacy first',
-              description:
-                'Your prompts are processed securely and never stored. Your data stays yours.',
+              title: t('info.privacy.title'),
+              description: t('info.privacy.description'),
               icon: (
                 <path
                   strokeLinecap="round"
@@ -360,15 +750,39 @@ const Home: React.FC = () => {
         </section>
       </main>
 
+      {/* Persona management panel */}
+      {isPersonaPanelOpen && <PersonaPanel onClose={handleClosePersonaPanel} />}
+
+      {/* Workspace import/export dialog */}
+      {isWorkspaceOpen && <WorkspaceDialog onClose={handleCloseWorkspace} />}
+
+      {/* History panel */}
+      {isHistoryOpen && (
+        <HistoryPanel
+          onRerun={handleRerun}
+          onCompare={handleCompareEntry}
+          onClose={handleCloseHistory}
+        />
+      )}
+
+      {/* Comparison dialog */}
+      {comparison && (
+        <CompareDialog
+          versionTree={versionTree}
+          initialBefore={comparison.before}
+          initialAfter={comparison.after}
+          onClose={handleCloseComparison}
+        />
+      )}
+
       {/* Footer */}
       <footer className="w-full py-6 px-6 border-t border-gray-200 dark:border-gray-800 mt-12">
         <div className="max-w-4xl mx-auto text-center">
           <p className="text-sm text-gray-500 dark:text-gray-400">
-            Built with React, TypeScript, and Tailwind CSS.
-            Ready for production deployment on Vercel.
+            {t('footer.builtWith')}
           </p>
           <p className="text-xs text-gray-400 dark:text-gray-500 mt-2">
-            © {new Date().getFullYear()} Generador IA. A professional portfolio project.
+            {t('footer.copyright', { year: new Date().getFullYear() })}
           </p>
         </div>
       </footer>
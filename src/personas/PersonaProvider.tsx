@@ -0,0 +1,130 @@
+/**
+ * @fileoverview PersonaProvider component
+ * @description Holds the saved personas and the active one, and persists both locally
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useI18n } from '../hooks/useI18n';
+import type { Persona, PersonaContextValue, PersonaDraft } from '../types/persona';
+import { PersonaContext } from './context';
+import {
+  createPersonaFromDraft,
+  loadActivePersonaId,
+  loadPersonas,
+  storeActivePersonaId,
+  storePersonas,
+} from './index';
+
+/**
+ * Props interface for the PersonaProvider component
+ * @interface PersonaProviderProps
+ */
+interface PersonaProviderProps {
+  children: React.ReactNode;
+}
+
+/**
+ * PersonaProvider Component
+ *
+ * Provides the personas to the tree. They are read from localStorage (the
+ * first visit gets the built-in personas in the active locale) and every
+ * change is written back. Must be rendered inside an I18nProvider.
+ *
+ * @param {PersonaProviderProps} props - Component props
+ * @returns {JSX.Element} The provider wrapping its children
+ *
+ * @example
+ * ```tsx
+ * <I18nProvider>
+ *   <PersonaProvider>
+ *     <Home />
+ *   </PersonaProvider>
+ * </I18nProvider>
+ * ```
+ */
+const PersonaProvider: React.FC<PersonaProviderProps> = ({ children }) => {
+  const { locale } = useI18n();
+  const [personas, setPersonas] = useState<Persona[]>(() => loadPersonas(locale));
+  const [activeId, setActiveId] = useState<string | null>(loadActivePersonaId);
+
+  // Persist every change, including the built-in personas of the first visit
+  useEffect(() => {
+    storePersonas(personas);
+  }, [personas]);
+
+  useEffect(() => {
+    storeActivePersonaId(activeId);
+  }, [activeId]);
+
+  const createPersona = useCallback((draft: PersonaDraft): Persona => {
+    const persona = createPersonaFromDraft(draft);
+    setPersonas((prev) => [...prev, persona]);
+    return persona;
+  }, []);
+
+  const updatePersona = useCallback((id: string, draft: PersonaDraft): void => {
+    setPersonas((prev) =>
+      prev.map((persona) =>
+        persona.id === id
+          ? {
+              ...persona,
+              name: draft.name.trim(),
+              instruction: draft.instruction.trim(),
+              updatedAt: Date.now(),
+            }
+          : persona
+      )
+    );
+  }, []);
+
+  const duplicatePersona = useCallback(
+    (id: string, name: string): Persona | null => {
+      const original = personas.find((persona) => persona.id === id);
+      if (!original) {
+        return null;
+      }
+
+      const copy = createPersonaFromDraft({ name, instruction: original.instruction });
+      setPersonas((prev) => [...prev, copy]);
+      return copy;
+    },
+    [personas]
+  );
+
+  const deletePersona = useCallback((id: string): void => {
+    setPersonas((prev) => prev.filter((persona) => persona.id !== id));
+    setActiveId((prev) => (prev === id ? null : prev));
+  }, []);
+
+  const replacePersonas = useCallback((next: Persona[]): void => {
+    setPersonas(next);
+  }, []);
+
+  const value = useMemo<PersonaContextValue>(
+    () => ({
+      personas,
+      activePersona: personas.find((persona) => persona.id === activeId) ?? null,
+      setActivePersona: setActiveId,
+      createPersona,
+      updatePersona,
+      duplicatePersona,
+      deletePersona,
+      replacePersonas,
+    }),
+    [
+      personas,
+      activeId,
+      createPersona,
+      updatePersona,
+      duplicatePersona,
+      deletePersona,
+      replacePersonas,
+    ]
+  );
+
+  return <PersonaContext.Provider value={value}>{children}</PersonaContext.Provider>;
+};
+
+export default PersonaProvider;
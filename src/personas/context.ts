@@ -0,0 +1,15 @@
+/**
+ * @fileoverview Persona React context
+ * @description Context object shared by PersonaProvider and the usePersonas hook
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import { createContext } from 'react';
+import type { PersonaContextValue } from '../types/persona';
+
+/**
+ * Persona context; null outside of a PersonaProvider
+ * @constant
+ */
+export const PersonaContext = createContext<PersonaContextValue | null>(null);
@@ -0,0 +1,202 @@
+/**
+ * @fileoverview Persona presets
+ * @description Built-in personas, draft validation and localStorage persistence
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import type { Locale } from '../types/i18n';
+import type { Persona, PersonaDraft, PersonaDraftError } from '../types/persona';
+
+/**
+ * Limits of the persona fields
+ */
+export const PERSONA_LIMITS = {
+  /** Maximum length of a persona name */
+  MAX_NAME_LENGTH: 40,
+  /** Maximum length of a system instruction */
+  MAX_INSTRUCTION_LENGTH: 1000,
+} as const;
+
+/**
+ * localStorage key of the saved personas
+ * @constant
+ */
+const PERSONAS_STORAGE_KEY = 'generador-ia:personas';
+
+/**
+ * localStorage key of the active persona id
+ * @constant
+ */
+const ACTIVE_PERSONA_STORAGE_KEY = 'generador-ia:active-persona';
+
+/**
+ * Personas saved on the first visit, in the locale of that visit
+ * @constant
+ */
+const DEFAULT_PERSONAS: Record<Locale, PersonaDraft[]> = {
+  es: [
+    {
+      name: 'Copywriter',
+      instruction:
+        'Eres un copywriter persuasivo. Escribe textos de marketing claros, con beneficios concretos y una llamada a la acción.',
+    },
+    {
+      name: 'Ingeniero sénior',
+      instruction:
+        'Eres un ingeniero de software sénior. Responde con precisión técnica, menciona los compromisos y sigue buenas prácticas.',
+    },
+    {
+      name: 'Chef',
+      instruction:
+        'Eres un chef cercano. Explica las recetas paso a paso, con trucos de cocina y un tono cálido.',
+    },
+  ],
+  en: [
+    {
+      name: 'Copywriter',
+      instruction:
+        'You are a persuasive copywriter. Write clear marketing copy with concrete benefits and a call to action.',
+    },
+    {
+      name: 'Senior engineer',
+      instruction:
+        'You are a senior software engineer. Answer with technical precision, mention the trade-offs and follow best practices.',
+    },
+    {
+      name: 'Chef',
+      instruction:
+        'You are a friendly chef. Explain recipes step by step, with cooking tips and a warm tone.',
+    },
+  ],
+};
+
+/**
+ * Creates a unique persona id
+ * @returns A new id
+ */
+export const createPersonaId = (): string =>
+  `persona-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Creates a persona from a draft
+ *
+ * @param draft - Name and instruction
+ * @returns The new persona, with trimmed fields
+ */
+export const createPersonaFromDraft = (draft: PersonaDraft): Persona => {
+  const now = Date.now();
+  return {
+    id: createPersonaId(),
+    name: draft.name.trim(),
+    instruction: draft.instruction.trim(),
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+/**
+ * Type guard for personas read from storage
+ * @param value - Any value
+ * @returns True if the value is a well-formed persona
+ */
+export const isPersona = (value: unknown): value is Persona => {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const persona = value as Record<string, unknown>;
+  return (
+    typeof persona.id === 'string' &&
+    typeof persona.name === 'string' &&
+    typeof persona.instruction === 'string' &&
+    typeof persona.createdAt === 'number' &&
+    typeof persona.updatedAt === 'number'
+  );
+};
+
+/**
+ * Checks a persona draft before saving it
+ *
+ * @param draft - The edited fields
+ * @returns Why the draft cannot be saved, or null if it is valid
+ */
+export const validatePersonaDraft = (draft: PersonaDraft): PersonaDraftError | null => {
+  const name = draft.name.trim();
+  const instruction = draft.instruction.trim();
+
+  if (!name) {
+    return 'NAME_REQUIRED';
+  }
+  if (name.length > PERSONA_LIMITS.MAX_NAME_LENGTH) {
+    return 'NAME_TOO_LONG';
+  }
+  if (!instruction) {
+    return 'INSTRUCTION_REQUIRED';
+  }
+  if (instruction.length > PERSONA_LIMITS.MAX_INSTRUCTION_LENGTH) {
+    return 'INSTRUCTION_TOO_LONG';
+  }
+  return null;
+};
+
+/**
+ * Reads the saved personas
+ * The first visit (nothing stored yet) gets the built-in personas in its locale.
+ *
+ * @param locale - Locale of the built-in personas
+ * @returns The saved personas
+ */
+export const loadPersonas = (locale: Locale): Persona[] => {
+  try {
+    const stored = localStorage.getItem(PERSONAS_STORAGE_KEY);
+    if (stored !== null) {
+      const parsed: unknown = JSON.parse(stored);
+      return Array.isArray(parsed) ? parsed.filter(isPersona) : [];
+    }
+  } catch {
+    // localStorage is unavailable or holds invalid JSON
+  }
+
+  return DEFAULT_PERSONAS[locale].map(createPersonaFromDraft);
+};
+
+/**
+ * Persists the personas, ignoring storage errors
+ * @param personas - The personas to save
+ */
+export const storePersonas = (personas: Persona[]): void => {
+  try {
+    localStorage.setItem(PERSONAS_STORAGE_KEY, JSON.stringify(personas));
+  } catch {
+    // The changes simply will not survive a reload
+  }
+};
+
+/**
+ * Reads the id of the persona active in a previous session
+ * @returns The id, or null when no persona was active
+ */
+export const loadActivePersonaId = (): string | null => {
+  try {
+    return localStorage.getItem(ACTIVE_PERSONA_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Persists the active persona id, ignoring storage errors
+ * @param id - The active persona id, or null for none
+ */
+export const storeActivePersonaId = (id: string | null): void => {
+  try {
+    if (id === null) {
+      localStorage.removeItem(ACTIVE_PERSONA_STORAGE_KEY);
+    } else {
+      localStorage.setItem(ACTIVE_PERSONA_STORAGE_KEY, id);
+    }
+  } catch {
+    // The choice simply will not survive a reload
+  }
+};
@@ -0,0 +1,358 @@
+/**
+ * @fileoverview Prompt template library
+ * @description Variable parsing and rendering, seed templates, JSON import/export and
+ * localStorage persistence
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import type { Locale } from '../types/i18n';
+import type {
+  PromptTemplate,
+  PromptTemplateDraft,
+  PromptTemplateExport,
+  TemplateImportResult,
+  TemplateValues,
+  TemplateVariable,
+  TemplateVariableType,
+} from '../types/promptTemplate';
+
+/**
+ * Limits of the template fields
+ */
+export const TEMPLATE_LIMITS = {
+  /** Maximum length of a template name */
+  MAX_NAME_LENGTH: 60,
+  /** Maximum number of templates read from one file */
+  MAX_IMPORTED_TEMPLATES: 100,
+} as const;
+
+/**
+ * localStorage key of the saved templates
+ * @constant
+ */
+const TEMPLATES_STORAGE_KEY = 'generador-ia:templates';
+
+/**
+ * Version of the JSON exchange format
+ * @constant
+ */
+const EXPORT_FORMAT_VERSION = 1;
+
+/**
+ * Creation time of the seed templates, older than any saved edit
+ * @constant
+ */
+const SEED_CREATED_AT = 0;
+
+/**
+ * Subscribers notified when the saved templates are replaced from outside the library
+ */
+const listeners = new Set<() => void>();
+
+/**
+ * Matches a variable: {{name}}, {{name:type}}, {{name=default}} or {{name:type=default}}
+ * @constant
+ */
+const VARIABLE_PATTERN =
+  /\{\{\s*([a-zA-Z_]\w*)\s*(?::\s*(text|number|multiline)\s*)?(?:=([^}]*))?\}\}/g;
+
+/**
+ * Templates saved on the first visit, in the locale of that visit
+ * @constant
+ */
+const SEED_TEMPLATES: Record<Locale, PromptTemplateDraft[]> = {
+  es: [
+    {
+      name: 'Historia creativa',
+      body: 'Escribe una historia creativa sobre {{protagonista=un robot}} que aprende a {{habilidad=pintar}}',
+    },
+    {
+      name: 'Explicación sencilla',
+      body: 'Explica {{tema=la computación cuántica}} en términos sencillos',
+    },
+    {
+      name: 'Especificación técnica',
+      body: 'Genera una especificación técnica para {{sistema=una API REST}}',
+    },
+    {
+      name: 'Eslogan de marketing',
+      body: 'Crea un eslogan de marketing para {{producto=un producto ecológico}} dirigido a {{publico=familias jóvenes}}',
+    },
+  ],
+  en: [
+    {
+      name: 'Creative story',
+      body: 'Write a creative story about {{character=a robot}} learning to {{skill=paint}}',
+    },
+    {
+      name: 'Simple explanation',
+      body: 'Explain {{topic=quantum computing}} in simple terms',
+    },
+    {
+      name: 'Technical specification',
+      body: 'Generate a technical specification for {{system=a REST API}}',
+    },
+    {
+      name: 'Marketing tagline',
+      body: 'Create a marketing tagline for {{product=an eco-friendly product}} aimed at {{audience=young families}}',
+    },
+  ],
+};
+
+/**
+ * Reads the variables declared in a template body
+ * The first occurrence of a name sets its type and default value.
+ *
+ * @param body - Template text
+ * @returns The variables, in order of appearance
+ *
+ * @example
+ * parseTemplateVariables('Tagline for {{product}} aimed at {{audience=families}}');
+ * // [{ name: 'product', type: 'text' }, { name: 'audience', type: 'text', defaultValue: 'families' }]
+ */
+export const parseTemplateVariables = (body: string): TemplateVariable[] => {
+  const variables = new Map<string, TemplateVariable>();
+
+  for (const match of body.matchAll(VARIABLE_PATTERN)) {
+    const [, name, type, defaultValue] = match;
+    if (variables.has(name)) {
+      continue;
+    }
+
+    const variable: TemplateVariable = {
+      name,
+      type: (type as TemplateVariableType | undefined) ?? 'text',
+    };
+    if (defaultValue !== undefined && defaultValue.trim()) {
+      variable.defaultValue = defaultValue.trim();
+    }
+    variables.set(name, variable);
+  }
+
+  return [...variables.values()];
+};
+
+/**
+ * Replaces the variables of a template with their values
+ * Empty values fall back to the default; variables with neither stay as {{name}}.
+ *
+ * @param body - Template text
+ * @param values - Entered values, by variable name
+ * @returns The final prompt
+ */
+export const renderTemplate = (body: string, values: TemplateValues): string => {
+  const defaults = new Map(
+    parseTemplateVariables(body).map((variable) => [variable.name, variable.defaultValue])
+  );
+
+  return body.replace(VARIABLE_PATTERN, (_match, name: string) => {
+    const value = values[name]?.trim() || defaults.get(name);
+    return value || `{{${name}}}`;
+  });
+};
+
+/**
+ * Lists the variables still without a value or a default
+ *
+ * @param variables - Variables of the template
+ * @param values - Entered values, by variable name
+ * @returns Names of the variables that still need a value
+ */
+export const getMissingVariables = (
+  variables: TemplateVariable[],
+  values: TemplateValues
+): string[] =>
+  variables
+    .filter((variable) => !values[variable.name]?.trim() && !variable.defaultValue)
+    .map((variable) => variable.name);
+
+/**
+ * Creates a unique template id
+ * @returns A new id
+ */
+export const createTemplateId = (): string =>
+  `template-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Creates a template from a draft
+ *
+ * @param draft - Name and body
+ * @returns The new template, with trimmed fields
+ */
+export const createTemplateFromDraft = (draft: PromptTemplateDraft): PromptTemplate => {
+  const now = Date.now();
+  return {
+    id: createTemplateId(),
+    name: draft.name.trim(),
+    body: draft.body.trim(),
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+/**
+ * Creates the seed templates of a locale
+ * Their ids and timestamps are fixed, so the library of a first visit is the same
+ * every time it is read (and exported) until it is saved.
+ *
+ * @param locale - Locale of the seed templates
+ * @returns The seed templates
+ */
+const createSeedTemplates = (locale: Locale): PromptTemplate[] =>
+  SEED_TEMPLATES[locale].map(({ name, body }, index) => ({
+    id: `template-seed-${locale}-${index + 1}`,
+    name,
+    body,
+    createdAt: SEED_CREATED_AT,
+    updatedAt: SEED_CREATED_AT,
+  }));
+
+/**
+ * Type guard for templates read from storage
+ * @param value - Any value
+ * @returns True if the value is a well-formed template
+ */
+export const isPromptTemplate = (value: unknown): value is PromptTemplate => {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const template = value as Record<string, unknown>;
+  return (
+    typeof template.id === 'string' &&
+    typeof template.name === 'string' &&
+    typeof template.body === 'string' &&
+    typeof template.createdAt === 'number' &&
+    typeof template.updatedAt === 'number'
+  );
+};
+
+/**
+ * Type guard for templates read from an imported file
+ * @param value - Any value
+ * @returns True if the value has a non-empty name and body
+ */
+export const isTemplateDraft = (value: unknown): value is PromptTemplateDraft => {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const draft = value as Record<string, unknown>;
+  return (
+    typeof draft.name === 'string' &&
+    typeof draft.body === 'string' &&
+    draft.name.trim().length > 0 &&
+    draft.name.trim().length <= TEMPLATE_LIMITS.MAX_NAME_LENGTH &&
+    draft.body.trim().length > 0
+  );
+};
+
+/**
+ * Serializes templates to the JSON exchange format
+ *
+ * @param templates - Templates to export
+ * @returns Pretty-printed JSON
+ */
+export const serializeTemplates = (templates: PromptTemplate[]): string => {
+  const document: PromptTemplateExport = {
+    version: EXPORT_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    templates: templates.map(({ name, body }) => ({ name, body })),
+  };
+  return JSON.stringify(document, null, 2);
+};
+
+/**
+ * Reads a template file produced by serializeTemplates
+ * A bare array of { name, body } objects is accepted as well. Malformed
+ * entries are skipped; the file is rejected only if none are usable.
+ *
+ * @param json - File contents
+ * @returns The templates to add, or why the file cannot be imported
+ */
+export const parseTemplatesJson = (json: string): TemplateImportResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return { ok: false, error: 'INVALID_JSON' };
+  }
+
+  const entries: unknown = Array.isArray(parsed)
+    ? parsed
+    : parsed && typeof parsed === 'object'
+      ? (parsed as Record<string, unknown>).templates
+      : undefined;
+
+  if (!Array.isArray(entries)) {
+    return { ok: false, error: 'INVALID_FORMAT' };
+  }
+
+  const drafts = entries
+    .filter(isTemplateDraft)
+    .slice(0, TEMPLATE_LIMITS.MAX_IMPORTED_TEMPLATES)
+    .map(({ name, body }) => ({ name: name.trim(), body: body.trim() }));
+
+  if (drafts.length === 0) {
+    return { ok: false, error: 'NO_TEMPLATES' };
+  }
+  return { ok: true, drafts };
+};
+
+/**
+ * Reads the saved templates
+ * The first visit (nothing stored yet) gets the seed templates in its locale.
+ *
+ * @param locale - Locale of the seed templates
+ * @returns The saved templates
+ */
+export const loadPromptTemplates = (locale: Locale): PromptTemplate[] => {
+  try {
+    const stored = localStorage.getItem(TEMPLATES_STORAGE_KEY);
+    if (stored !== null) {
+      const parsed: unknown = JSON.parse(stored);
+      return Array.isArray(parsed) ? parsed.filter(isPromptTemplate) : [];
+    }
+  } catch {
+    // localStorage is unavailable or holds invalid JSON
+  }
+
+  return createSeedTemplates(locale);
+};
+
+/**
+ * Persists the templates, ignoring storage errors
+ * @param templates - The templates to save
+ */
+export const storePromptTemplates = (templates: PromptTemplate[]): void => {
+  try {
+    localStorage.setItem(TEMPLATES_STORAGE_KEY, JSON.stringify(templates));
+  } catch {
+    // The changes simply will not survive a reload
+  }
+};
+
+/**
+ * Subscribes to replacements of the saved templates
+ *
+ * @param listener - Called after replacePromptTemplates saves a new list
+ * @returns Function that removes the subscription
+ */
+export const subscribeToPromptTemplates = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Saves a whole new template list, such as an imported workspace, and tells the open
+ * libraries to read it
+ *
+ * @param templates - The templates to save
+ */
+export const replacePromptTemplates = (templates: PromptTemplate[]): void => {
+  storePromptTemplates(templates);
+  listeners.forEach((listener) => listener());
+};
@@ -0,0 +1,182 @@
+/**
+ * @fileoverview IndexedDB access
+ * @description Opens the application database and wraps IDBRequest in promises
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+/**
+ * Name of the application database
+ * @constant
+ */
+const DATABASE_NAME = 'generador-ia';
+
+/**
+ * Object stores of the application database
+ * @constant
+ */
+export const STORES = {
+  /** Cached generation responses, keyed by request cache key */
+  RESPONSE_CACHE: 'responseCache',
+  /** Generation history, keyed by entry id */
+  HISTORY: 'history',
+  /** Named collections of history entries, keyed by collection id */
+  COLLECTIONS: 'collections',
+} as const;
+
+/**
+ * Name of an object store in the application database
+ * @type StoreName
+ */
+export type StoreName = (typeof STORES)[keyof typeof STORES];
+
+/**
+ * Schema migrations, applied in order when the database is created or upgraded
+ * The database version is the number of migrations, so only ever append to this list.
+ * Migrations receive the upgrade transaction to reach stores created by earlier ones.
+ * @constant
+ */
+const MIGRATIONS: Array<(db: IDBDatabase, transaction: IDBTransaction) => void> = [
+  // v1: response cache
+  (db) => {
+    const store = db.createObjectStore(STORES.RESPONSE_CACHE, { keyPath: 'key' });
+    store.createIndex('expiresAt', 'expiresAt');
+  },
+  // v2: generation history
+  (db) => {
+    db.createObjectStore(STORES.HISTORY, { keyPath: 'id' });
+  },
+  // v3: tags and collections of history entries
+  (db, transaction) => {
+    const history = transaction.objectStore(STORES.HISTORY);
+    history.createIndex('tags', 'tags', { multiEntry: true });
+    history.createIndex('collectionId', 'collectionId');
+    db.createObjectStore(STORES.COLLECTIONS, { keyPath: 'id' });
+  },
+];
+
+/**
+ * Cached connection promise, shared by every caller
+ */
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Checks whether IndexedDB can be used in the current environment
+ * @returns True if IndexedDB is available
+ */
+export const isIndexedDbAvailable = (): boolean =>
+  typeof indexedDB !== 'undefined' && indexedDB !== null;
+
+/**
+ * Converts an IDBRequest into a promise
+ *
+ * @param request - The IndexedDB request
+ * @returns Promise resolving to the request result
+ */
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Opens (and upgrades, if needed) the application database
+ * The connection is opened once and reused.
+ *
+ * @returns Promise resolving to the open database
+ * @throws Error if IndexedDB is unavailable or the database cannot be opened
+ */
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (databasePromise) {
+    return databasePromise;
+  }
+
+  if (!isIndexedDbAvailable()) {
+    return Promise.reject(new Error('IndexedDB is not available in this environment'));
+  }
+
+  databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DATABASE_NAME, MIGRATIONS.length);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const transaction = request.transaction as IDBTransaction;
+      for (let version = event.oldVersion; version < MIGRATIONS.length; version++) {
+        MIGRATIONS[version](db, transaction);
+      }
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let newer tabs upgrade the schema
+      db.onversionchange = () => {
+        db.close();
+        databasePromise = null;
+      };
+      resolve(db);
+    };
+
+    request.onerror = () => {
+      databasePromise = null;
+      reject(request.error);
+    };
+  });
+
+  return databasePromise;
+};
+
+/**
+ * Runs a callback inside a transaction on a single store
+ *
+ * @param storeName - The object store to use
+ * @param mode - Transaction mode
+ * @param callback - Receives the store and returns the request to await
+ * @returns Promise resolving to the request result once the transaction completes
+ */
+export const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  callback: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  const completed = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+  const [result] = await Promise.all([
+    promisifyRequest(callback(transaction.objectStore(storeName))),
+    completed,
+  ]);
+
+  return result;
+};
+
+/**
+ * Runs a callback inside a transaction and waits for the transaction to complete
+ * Useful for multi-request work such as cursors or batched writes.
+ *
+ * @param storeNames - The object store(s) to use
+ * @param mode - Transaction mode
+ * @param callback - Receives the transaction and issues its requests
+ * @returns Promise resolving once the transaction completes
+ */
+export const runTransaction = async (
+  storeNames: StoreName | StoreName[],
+  mode: IDBTransactionMode,
+  callback: (transaction: IDBTransaction) => void
+): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeNames, mode);
+
+  const completed = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+  callback(transaction);
+  return completed;
+};
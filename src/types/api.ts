@@ -5,6 +5,10 @@
  * @version 1.0.0
  */
 
+import type { ChatMessage } from './openai';
+import type { ContextLengthDetails } from './tokens';
+import type { VersionTree } from './versions';
+
 /**
  * Request payload for text generation
  * @interface GenerateTextRequest
@@ -16,6 +20,12 @@ export interface GenerateTextRequest {
   maxLength?: number;
   /** Optional temperature parameter for creativity (0-1) */
   temperature?: number;
+  /** Optional seed; the same seed and parameters always produce the same output */
+  seed?: number;
+  /** Optional earlier turns of a conversation; `prompt` is the new user message */
+  messages?: ChatMessage[];
+  /** Optional number of candidates to generate (1 when omitted) */
+  n?: number;
 }
 
 /**
@@ -25,12 +35,34 @@ export interface GenerateTextRequest {
 export interface GenerationMetadata {
   /** The AI model used for generation */
   model: string;
-  /** Number of tokens used in the response */
+  /** Number of tokens used by the generation (prompt and completion) */
   tokensUsed: number;
   /** Processing timestamp */
   processingTime: number;
+  /** Tokens consumed by the prompt, when reported by the provider */
+  promptTokens?: number;
+  /** Tokens produced in the completion, when reported by the provider */
+  completionTokens?: number;
+  /** Estimated cost in US dollars, when the model has a known price */
+  estimatedCost?: number;
+  /** Why the model stopped generating (e.g. "stop", "length") */
+  finishReason?: string;
+  /** Seed used for the generation, to reproduce it */
+  seed?: number;
+  /** Language detected in the prompt (simulated provider only) */
+  language?: PromptLanguage;
+  /** Whether the response was served from the response cache */
+  cached?: boolean;
+  /** When the cached response was originally generated (ms since epoch) */
+  cachedAt?: number;
 }
 
+/**
+ * Languages the simulated provider can detect and answer in
+ * @type PromptLanguage
+ */
+export type PromptLanguage = 'es' | 'en';
+
 /**
  * Successful response from the text generation API
  * @interface GenerateTextResponse
@@ -44,6 +76,24 @@ export interface GenerateTextResponse {
   tokenCount?: number;
   /** Optional metadata about the generation */
   metadata?: GenerationMetadata;
+  /**
+   * Every candidate, when more than one was requested with `n`
+   * `result`, `tokenCount` and `metadata` are those of the first candidate.
+   */
+  candidates?: GenerationCandidate[];
+}
+
+/**
+ * One of several answers generated for the same request
+ * @interface GenerationCandidate
+ */
+export interface GenerationCandidate {
+  /** The generated text */
+  result: string;
+  /** Token count of the candidate */
+  tokenCount?: number;
+  /** Metadata of the candidate's own generation */
+  metadata?: GenerationMetadata;
 }
 
 /**
@@ -53,7 +103,11 @@ export interface GenerateTextResponse {
 export type ApiErrorCode = 
   | 'INVALID_PROMPT'
   | 'PROMPT_TOO_SHORT'
-  | 'PROMPT_TOO_LONG'
+  | 'CONTEXT_LENGTH_EXCEEDED'
+  | 'INVALID_MESSAGES'
+  | 'INVALID_CANDIDATE_COUNT'
+  | 'INVALID_PARAMETERS'
+  | 'PAYLOAD_TOO_LARGE'
   | 'REQUEST_ABORTED'
   | 'API_ERROR'
   | 'NETWORK_ERROR'
@@ -72,6 +126,147 @@ export interface ApiError {
   status: number;
   /** Optional detailed error information */
   details?: string;
+  /** Token counts behind a CONTEXT_LENGTH_EXCEEDED error */
+  contextLength?: ContextLengthDetails;
+}
+
+/**
+ * Result of validating a prompt without generating
+ * @interface PromptValidationResult
+ */
+export interface PromptValidationResult {
+  /** Whether the prompt can be submitted */
+  isValid: boolean;
+  /** Why it cannot, when invalid */
+  error?: ApiError;
+}
+
+/**
+ * Options passed to a provider for a single generation
+ * @interface GenerateOptions
+ */
+export interface GenerateOptions {
+  /** Optional AbortSignal for request cancellation */
+  signal?: AbortSignal;
+  /** Optional callback invoked with each text fragment as it is generated */
+  onChunk?: StreamChunkHandler;
+}
+
+/**
+ * Retry settings for transient failures
+ * @interface RetryPolicy
+ */
+export interface RetryPolicy {
+  /** Maximum number of attempts, including the first one */
+  maxAttempts: number;
+  /** Base delay for exponential backoff, in milliseconds */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff delay, in milliseconds */
+  maxDelayMs: number;
+}
+
+/**
+ * Progress of the retry loop, exposed to the UI
+ * @interface RetryStatus
+ */
+export interface RetryStatus {
+  /** Number of the attempt in progress (2 for the first retry) */
+  attempt: number;
+  /** Maximum number of attempts allowed */
+  maxAttempts: number;
+}
+
+/**
+ * Information passed to the onRetry callback before waiting for the next attempt
+ * @interface RetryInfo
+ */
+export interface RetryInfo extends RetryStatus {
+  /** Delay before the next attempt, in milliseconds */
+  delayMs: number;
+  /** The error that caused the retry */
+  error: ApiError;
+}
+
+/**
+ * Options accepted by generateText on top of the provider options
+ * @interface GenerateTextOptions
+ */
+export interface GenerateTextOptions extends GenerateOptions {
+  /** Retry policy for transient failures (defaults to DEFAULT_RETRY_POLICY) */
+  retryPolicy?: RetryPolicy;
+  /**
+   * Optional callback invoked before every retry
+   * Any text streamed by the failed attempt must be discarded by the caller.
+   */
+  onRetry?: (info: RetryInfo) => void;
+  /** Skip the cache lookup (the fresh response still replaces the cached one) */
+  bypassCache?: boolean;
+}
+
+/**
+ * Callback receiving streamed text fragments in generation order
+ * @type StreamChunkHandler
+ */
+export type StreamChunkHandler = (chunk: string) => void;
+
+/**
+ * Entry stored by the response cache
+ * @interface CachedResponseEntry
+ */
+export interface CachedResponseEntry {
+  /** Cache key derived from the normalized request */
+  key: string;
+  /** The cached response */
+  response: GenerateTextResponse;
+  /** When the response was stored (ms since epoch) */
+  createdAt: number;
+  /** When the entry stops being valid (ms since epoch) */
+  expiresAt: number;
+}
+
+/**
+ * Event sent over a streamed (NDJSON) /api/generate response, one per line
+ * @type GenerateStreamEvent
+ */
+export type GenerateStreamEvent =
+  | { type: 'chunk'; text: string }
+  | { type: 'done'; response: GenerateTextResponse }
+  | { type: 'error'; error: ApiError };
+
+/**
+ * Identifiers of the built-in text generation providers
+ * @type ProviderName
+ */
+export type ProviderName = 'simulated' | 'http' | 'openai';
+
+/**
+ * Contract implemented by every text generation backend
+ * @interface TextGenerationProvider
+ */
+export interface TextGenerationProvider {
+  /** Identifier of the provider */
+  name: ProviderName;
+  /** Model the provider generates with, when it is known before sending */
+  model?: string;
+  /**
+   * Generates text for an already validated request
+   * Providers that support streaming report fragments through options.onChunk
+   * before resolving with the complete response.
+   * @throws ApiError if the generation fails
+   */
+  generate: (
+    request: GenerateTextRequest,
+    options?: GenerateOptions
+  ) => Promise<GenerateTextResponse>;
+}
+
+/**
+ * Options accepted by the generation hooks
+ * @interface GenerationHookOptions
+ */
+export interface GenerationHookOptions {
+  /** System instruction prepended to every request (the active persona) */
+  systemInstruction?: string;
 }
 
 /**
@@ -87,10 +282,24 @@ export type GenerationStatus = 'idle' | 'loading' | 'success' | 'error';
 export interface GenerationState {
   /** Current status of the generation process */
   status: GenerationStatus;
-  /** Generated text result (null if not yet generated) */
+  /** Generated text of the current version (null if not yet generated) */
   data: string | null;
-  /** Error message if generation failed */
-  error: string | null;
+  /** Metadata of the last successful generation */
+  metadata: GenerationMetadata | null;
+  /** Candidates waiting to be compared, when several were requested (data is the first one) */
+  candidates: GenerationCandidate[] | null;
+  /** Every version generated for the current prompt, including regenerations and forks */
+  versionTree: VersionTree | null;
+  /** Version of the tree shown as the result (data and metadata are its own) */
+  currentVersionId: string | null;
+  /** Text received so far while a streamed generation is in progress */
+  partial: string;
+  /** Whether text fragments are currently arriving */
+  isStreaming: boolean;
+  /** Retry progress while a failed attempt is being retried */
+  retry: RetryStatus | null;
+  /** Error if generation failed; translate it by code for display */
+  error: ApiError | null;
   /** Whether a generation is currently in progress */
   isLoading: boolean;
   /** Whether the generation completed successfully */
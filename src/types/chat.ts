@@ -0,0 +1,51 @@
+/**
+ * @fileoverview Type definitions for the conversation mode
+ * @description Turns and state of a multi-turn conversation with the generator
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import type { ApiError, GenerationMetadata, GenerationStatus, RetryStatus } from './api';
+import type { ChatMessage } from './openai';
+
+/**
+ * How Home asks for text: one standalone answer or a conversation
+ * @type GenerationMode
+ */
+export type GenerationMode = 'single' | 'chat';
+
+/**
+ * Single message of the transcript
+ * @interface ChatTurn
+ */
+export interface ChatTurn extends ChatMessage {
+  /** Unique identifier, stable across renders */
+  id: string;
+  /** When the turn was added (ms since epoch) */
+  createdAt: number;
+  /** Metadata of the generation, for assistant turns */
+  metadata?: GenerationMetadata;
+  /** Whether the user turn got no answer; failed turns are not sent as history */
+  failed?: boolean;
+}
+
+/**
+ * Complete state object for the conversation hook
+ * @interface ChatState
+ */
+export interface ChatState {
+  /** Transcript of the conversation, oldest first */
+  turns: ChatTurn[];
+  /** Status of the last request */
+  status: GenerationStatus;
+  /** Text of the answer received so far while it is streamed */
+  partial: string;
+  /** Whether text fragments are currently arriving */
+  isStreaming: boolean;
+  /** Retry progress while a failed attempt is being retried */
+  retry: RetryStatus | null;
+  /** Error of the last request; translate it by code for display */
+  error: ApiError | null;
+  /** Whether an answer is currently being generated */
+  isLoading: boolean;
+}
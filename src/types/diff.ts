@@ -0,0 +1,65 @@
+/**
+ * @fileoverview Type definitions for the word diff
+ * @description Diff segments, layouts and the texts that can be compared
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import type { HistoryEntry } from './history';
+
+/**
+ * What happened to a run of text between the two versions
+ * @type DiffOperation
+ */
+export type DiffOperation = 'equal' | 'added' | 'removed';
+
+/**
+ * A run of text with the same operation
+ * @interface DiffSegment
+ */
+export interface DiffSegment {
+  /** Operation of the run */
+  type: DiffOperation;
+  /** The text, whitespace and punctuation included */
+  text: string;
+}
+
+/**
+ * How the diff is laid out: one merged text, or the two texts next to each other
+ * @type DiffLayout
+ */
+export type DiffLayout = 'inline' | 'split';
+
+/**
+ * Word counts of a diff
+ * @interface DiffStats
+ */
+export interface DiffStats {
+  /** Words only in the second text */
+  added: number;
+  /** Words only in the first text */
+  removed: number;
+  /** Words in both texts */
+  unchanged: number;
+}
+
+/**
+ * A text that can be picked for a comparison
+ * @interface DiffSource
+ */
+export interface DiffSource {
+  /** Unique identifier, prefixed with the origin ("version:", "history:") */
+  id: string;
+  /** Label shown in the picker */
+  label: string;
+  /** The text */
+  text: string;
+}
+
+/**
+ * A result to preselect in the comparison dialog
+ * @type CompareTarget
+ */
+export type CompareTarget =
+  | { kind: 'version'; versionId: string }
+  | { kind: 'history'; entry: HistoryEntry };
@@ -0,0 +1,72 @@
+/**
+ * @fileoverview Type definitions for the result export
+ * @description Export formats, the exported result and the generated files
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import type { GenerationMetadata } from './api';
+import type { GenerationParameters } from './history';
+import type { ResultVersion } from './versions';
+
+/**
+ * File format a result can be exported to
+ * @type ExportFormat
+ */
+export type ExportFormat = 'md' | 'txt' | 'html' | 'json' | 'docx';
+
+/**
+ * The result to export, with the prompt and parameters that produced it
+ * @type ExportSource
+ */
+export type ExportSource = Pick<
+  ResultVersion,
+  'prompt' | 'parameters' | 'result' | 'metadata' | 'createdAt'
+>;
+
+/**
+ * Contents of a JSON export
+ * @interface ResultExport
+ */
+export interface ResultExport {
+  /** Identifies the file as an exported result */
+  kind: 'generador-ia/result';
+  /** Version of this format */
+  version: 1;
+  /** When the file was exported (ISO 8601) */
+  exportedAt: string;
+  /** When the result was generated (ISO 8601) */
+  createdAt: string;
+  /** The prompt */
+  prompt: string;
+  /** Parameters of the request */
+  parameters: GenerationParameters;
+  /** The result, with the user's edits if any */
+  result: string;
+  /** Metadata of the generation, when the provider returned it */
+  metadata: GenerationMetadata | null;
+}
+
+/**
+ * A file ready to download
+ * @interface ExportedFile
+ */
+export interface ExportedFile {
+  /** Suggested file name, with its extension */
+  fileName: string;
+  /** MIME type */
+  mimeType: string;
+  /** Contents */
+  data: string | Uint8Array;
+}
+
+/**
+ * A file stored in a ZIP archive
+ * @interface ZipEntry
+ */
+export interface ZipEntry {
+  /** Path inside the archive, with forward slashes */
+  path: string;
+  /** Contents; strings are stored as UTF-8 */
+  content: string | Uint8Array;
+}
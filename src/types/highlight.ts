@@ -0,0 +1,90 @@
+/**
+ * @fileoverview Type definitions for the syntax highlighter
+ * @description Highlighted languages, tokens and the rules that produce them
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+/**
+ * Language the highlighter knows
+ * @type HighlightLanguage
+ */
+export type HighlightLanguage =
+  | 'javascript'
+  | 'typescript'
+  | 'python'
+  | 'json'
+  | 'sql'
+  | 'bash'
+  | 'html';
+
+/**
+ * What a token is, which decides its color
+ * @type TokenKind
+ */
+export type TokenKind =
+  | 'plain'
+  | 'comment'
+  | 'keyword'
+  | 'builtin'
+  | 'string'
+  | 'number'
+  | 'function'
+  | 'property'
+  | 'variable'
+  | 'operator'
+  | 'punctuation'
+  | 'tag'
+  | 'attribute';
+
+/**
+ * A run of code with one kind
+ * @interface HighlightToken
+ */
+export interface HighlightToken {
+  /** Kind of the run */
+  kind: TokenKind;
+  /** The code */
+  text: string;
+}
+
+/**
+ * A pattern of a language grammar
+ * @interface TokenRule
+ */
+export interface TokenRule {
+  /**
+   * Kind of the match; "identifier" is resolved with the keywords and builtins of the
+   * language, and as a function name when followed by "("
+   */
+  kind: TokenKind | 'identifier';
+  /** Sticky pattern, tried at the current position */
+  pattern: RegExp;
+  /** Optional splitter of the match into smaller tokens (an HTML tag into name and attributes) */
+  split?: (text: string) => HighlightToken[];
+}
+
+/**
+ * Grammar and file details of a language
+ * @interface LanguageDefinition
+ */
+export interface LanguageDefinition {
+  /** Display name */
+  label: string;
+  /** Fence tags that name the language ("js", "py") */
+  aliases: string[];
+  /** Extension of a downloaded file, without the dot */
+  extension: string;
+  /** MIME type of a downloaded file */
+  mimeType: string;
+  /** Patterns, tried in order at each position */
+  rules: TokenRule[];
+  /** Reserved words */
+  keywords: ReadonlySet<string>;
+  /** Literals, types and well-known functions */
+  builtins: ReadonlySet<string>;
+  /** Whether keywords match in any case (SQL) */
+  caseInsensitive?: boolean;
+  /** Patterns that hint the language in untagged code, with their weight */
+  signals: ReadonlyArray<readonly [RegExp, number]>;
+}
@@ -0,0 +1,126 @@
+/**
+ * @fileoverview Type definitions for the generation history
+ * @description Stored generations, their parameters, favorites, tags and collections, and the
+ * paged queries of the history panel
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import type { GenerateTextRequest, GenerationMetadata } from './api';
+
+/**
+ * Parameters a generation was requested with, reused when it is run again
+ * @interface GenerationParameters
+ */
+export interface GenerationParameters
+  extends Pick<GenerateTextRequest, 'temperature' | 'maxLength' | 'seed'> {
+  /** System instruction sent before the prompt (the persona active at the time) */
+  systemInstruction?: string;
+}
+
+/**
+ * A generation stored in the history
+ * @interface HistoryEntry
+ */
+export interface HistoryEntry {
+  /** Unique identifier; identifiers sort in creation order */
+  id: string;
+  /** The submitted prompt */
+  prompt: string;
+  /** Parameters of the request */
+  parameters: GenerationParameters;
+  /** The generated text */
+  result: string;
+  /** Metadata of the generation, when the provider returned it */
+  metadata: GenerationMetadata | null;
+  /** When the generation finished (ms since epoch) */
+  createdAt: number;
+  /** Whether the user starred the result */
+  isFavorite: boolean;
+  /** Free-form tags, normalized and without duplicates */
+  tags: string[];
+  /** Collection the result belongs to, if any */
+  collectionId: string | null;
+  /** Normalized prompt, result and tags, matched by the full-text search */
+  searchText: string;
+}
+
+/**
+ * Fields of a generation recorded in the history
+ * @type HistoryEntryDraft
+ */
+export type HistoryEntryDraft = Pick<HistoryEntry, 'prompt' | 'parameters' | 'result' | 'metadata'>;
+
+/**
+ * Fields of an entry the user can organize after it is stored
+ * @type HistoryEntryChanges
+ */
+export type HistoryEntryChanges = Partial<
+  Pick<HistoryEntry, 'isFavorite' | 'tags' | 'collectionId'>
+>;
+
+/**
+ * Named group of history entries, such as "Q3 campaign slogans"
+ * @interface HistoryCollection
+ */
+export interface HistoryCollection {
+  /** Unique identifier */
+  id: string;
+  /** Name shown in the history panel */
+  name: string;
+  /** When the collection was created (ms since epoch) */
+  createdAt: number;
+}
+
+/**
+ * View of the history panel
+ * @type HistoryFilter
+ */
+export type HistoryFilter =
+  | { kind: 'all' }
+  | { kind: 'favorites' }
+  | { kind: 'tag'; tag: string }
+  | { kind: 'collection'; collectionId: string };
+
+/**
+ * Page of history entries, newest first
+ * @interface HistoryPage
+ */
+export interface HistoryPage {
+  /** Entries of the page */
+  entries: HistoryEntry[];
+  /** Whether older matching entries exist */
+  hasMore: boolean;
+}
+
+/**
+ * Query of the history panel
+ * @interface HistoryQuery
+ */
+export interface HistoryQuery {
+  /** Words that must all appear in the prompt, the result or the tags */
+  text?: string;
+  /** Only return favorites, or entries with a tag or in a collection */
+  filter?: HistoryFilter;
+  /** Only return entries older than this entry id (the last entry of the previous page) */
+  before?: string;
+  /** Maximum number of entries */
+  limit?: number;
+}
+
+/**
+ * Relative date bucket of the history panel
+ * @type HistoryDateGroup
+ */
+export type HistoryDateGroup = 'today' | 'yesterday' | 'lastWeek' | 'lastMonth' | 'older';
+
+/**
+ * Entries of one date bucket, newest first
+ * @interface HistoryGroup
+ */
+export interface HistoryGroup {
+  /** The date bucket */
+  group: HistoryDateGroup;
+  /** Entries in the bucket */
+  entries: HistoryEntry[];
+}
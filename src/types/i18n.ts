@@ -0,0 +1,50 @@
+/**
+ * @fileoverview Type definitions for internationalization
+ * @description Locales and translation helpers shared by the i18n module and the UI
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import type { MessageKey } from '../i18n/messages/en';
+import type { ApiError } from './api';
+
+/**
+ * Supported UI locales
+ * @type Locale
+ */
+export type Locale = 'es' | 'en';
+
+/**
+ * Message catalog of one locale: every key must be translated
+ * @type MessageCatalog
+ */
+export type MessageCatalog = Record<MessageKey, string>;
+
+/**
+ * Values interpolated into a message ("{min}" → 3)
+ * @type TranslationParams
+ */
+export type TranslationParams = Record<string, string | number>;
+
+/**
+ * Translates a message key in the active locale
+ * @type Translate
+ */
+export type Translate = (key: MessageKey, params?: TranslationParams) => string;
+
+/**
+ * Value exposed by the i18n context
+ * @interface I18nContextValue
+ */
+export interface I18nContextValue {
+  /** Active locale */
+  locale: Locale;
+  /** Changes the active locale and persists the choice */
+  setLocale: (locale: Locale) => void;
+  /** Translates a message key */
+  t: Translate;
+  /** Translates an ApiError from its stable code */
+  translateError: (error: ApiError) => string;
+}
+
+export type { MessageKey };
@@ -0,0 +1,51 @@
+/**
+ * @fileoverview Type definitions for the Markdown renderer
+ * @description Block and inline nodes produced by the Markdown parser
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+/**
+ * Alignment of a table column
+ * @type TableAlignment
+ */
+export type TableAlignment = 'left' | 'center' | 'right' | null;
+
+/**
+ * A run of text inside a block
+ * @type MarkdownInline
+ */
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong'; children: MarkdownInline[] }
+  | { type: 'emphasis'; children: MarkdownInline[] }
+  | { type: 'strikethrough'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  /** Only links with a safe URL become link nodes; the others stay text */
+  | { type: 'link'; href: string; title?: string; children: MarkdownInline[] }
+  | { type: 'break' };
+
+/**
+ * A block of a Markdown document
+ * @type MarkdownBlock
+ */
+export type MarkdownBlock =
+  | { type: 'heading'; level: 1 | 2 | 3 | 4 | 5 | 6; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'code'; language: string | null; text: string }
+  | { type: 'blockquote'; children: MarkdownBlock[] }
+  /** Each item is a list of blocks, so items can hold paragraphs and nested lists */
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownBlock[][] }
+  | {
+      type: 'table';
+      align: TableAlignment[];
+      header: MarkdownInline[][];
+      rows: MarkdownInline[][][];
+    }
+  | { type: 'rule' };
+
+/**
+ * Format of the text put on the clipboard
+ * @type CopyFormat
+ */
+export type CopyFormat = 'markdown' | 'plain';
@@ -0,0 +1,100 @@
+/**
+ * @fileoverview Type definitions for the OpenAI-compatible chat completions API
+ * @description Wire format of /v1/chat/completions shared by the adapter and the local stub
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+/**
+ * Role of a chat message author
+ * @type ChatRole
+ */
+export type ChatRole = 'system' | 'user' | 'assistant';
+
+/**
+ * Single chat message
+ * @interface ChatMessage
+ */
+export interface ChatMessage {
+  /** Author of the message */
+  role: ChatRole;
+  /** Text content of the message */
+  content: string;
+}
+
+/**
+ * Request body for POST /v1/chat/completions
+ * @interface ChatCompletionRequest
+ */
+export interface ChatCompletionRequest {
+  /** Model identifier */
+  model: string;
+  /** Conversation so far */
+  messages: ChatMessage[];
+  /** Sampling temperature */
+  temperature?: number;
+  /** Maximum number of completion tokens */
+  max_tokens?: number;
+  /** Seed for best-effort deterministic sampling */
+  seed?: number;
+  /** Number of choices to generate */
+  n?: number;
+  /** Whether to stream the response as server-sent events */
+  stream?: boolean;
+}
+
+/**
+ * Token usage reported by the server
+ * @interface ChatCompletionUsage
+ */
+export interface ChatCompletionUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+/**
+ * Non-streamed chat completion response
+ * @interface ChatCompletionResponse
+ */
+export interface ChatCompletionResponse {
+  id: string;
+  object: 'chat.completion';
+  created: number;
+  model: string;
+  choices: Array<{
+    index: number;
+    message: ChatMessage;
+    finish_reason: string | null;
+  }>;
+  usage?: ChatCompletionUsage;
+}
+
+/**
+ * Streamed chat completion chunk (one per server-sent event)
+ * @interface ChatCompletionChunk
+ */
+export interface ChatCompletionChunk {
+  id: string;
+  object: 'chat.completion.chunk';
+  created: number;
+  model: string;
+  choices: Array<{
+    index: number;
+    delta: Partial<ChatMessage>;
+    finish_reason: string | null;
+  }>;
+  usage?: ChatCompletionUsage | null;
+}
+
+/**
+ * Error body returned by OpenAI-compatible servers
+ * @interface OpenAIErrorBody
+ */
+export interface OpenAIErrorBody {
+  error: {
+    message: string;
+    type?: string;
+    code?: string | null;
+  };
+}
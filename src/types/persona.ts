@@ -0,0 +1,62 @@
+/**
+ * @fileoverview Type definitions for personas
+ * @description Persona presets whose system instruction is prepended to every request
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+/**
+ * A saved persona
+ * @interface Persona
+ */
+export interface Persona {
+  /** Unique identifier */
+  id: string;
+  /** Name shown in the header and the management panel */
+  name: string;
+  /** System instruction sent before the conversation */
+  instruction: string;
+  /** When the persona was created (ms since epoch) */
+  createdAt: number;
+  /** When the persona was last edited (ms since epoch) */
+  updatedAt: number;
+}
+
+/**
+ * Editable fields of a persona
+ * @type PersonaDraft
+ */
+export type PersonaDraft = Pick<Persona, 'name' | 'instruction'>;
+
+/**
+ * Reason a persona draft cannot be saved
+ * @type PersonaDraftError
+ */
+export type PersonaDraftError =
+  | 'NAME_REQUIRED'
+  | 'NAME_TOO_LONG'
+  | 'INSTRUCTION_REQUIRED'
+  | 'INSTRUCTION_TOO_LONG';
+
+/**
+ * Value exposed by the persona context
+ * @interface PersonaContextValue
+ */
+export interface PersonaContextValue {
+  /** Saved personas, in creation order */
+  personas: Persona[];
+  /** Persona whose instruction is sent with every request, if any */
+  activePersona: Persona | null;
+  /** Activates a persona, or none with null */
+  setActivePersona: (id: string | null) => void;
+  /** Saves a new persona and returns it */
+  createPersona: (draft: PersonaDraft) => Persona;
+  /** Saves the edited fields of a persona */
+  updatePersona: (id: string, draft: PersonaDraft) => void;
+  /** Saves a copy of a persona under a new name and returns it */
+  duplicatePersona: (id: string, name: string) => Persona | null;
+  /** Deletes a persona (deactivating it if it was active) */
+  deletePersona: (id: string) => void;
+  /** Replaces every persona, such as with an imported workspace */
+  replacePersonas: (personas: Persona[]) => void;
+}
@@ -0,0 +1,81 @@
+/**
+ * @fileoverview Type definitions for the prompt template library
+ * @description Reusable prompts with {{variables}}, their parsed variables and the JSON exchange format
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+/**
+ * Kind of input rendered for a template variable
+ * @type TemplateVariableType
+ */
+export type TemplateVariableType = 'text' | 'number' | 'multiline';
+
+/**
+ * Variable declared in a template body ("{{audience:text=young families}}")
+ * @interface TemplateVariable
+ */
+export interface TemplateVariable {
+  /** Name of the variable, unique within the template */
+  name: string;
+  /** Kind of input (text when not declared) */
+  type: TemplateVariableType;
+  /** Value used when the form leaves the variable empty */
+  defaultValue?: string;
+}
+
+/**
+ * Values entered for the variables of a template, by variable name
+ * @type TemplateValues
+ */
+export type TemplateValues = Record<string, string>;
+
+/**
+ * A saved prompt template
+ * @interface PromptTemplate
+ */
+export interface PromptTemplate {
+  /** Unique identifier */
+  id: string;
+  /** Name shown in the library */
+  name: string;
+  /** Prompt text with {{variables}} */
+  body: string;
+  /** When the template was created (ms since epoch) */
+  createdAt: number;
+  /** When the template was last edited (ms since epoch) */
+  updatedAt: number;
+}
+
+/**
+ * Fields of a template that can be written by hand or imported
+ * @type PromptTemplateDraft
+ */
+export type PromptTemplateDraft = Pick<PromptTemplate, 'name' | 'body'>;
+
+/**
+ * JSON document produced by the export and accepted by the import
+ * @interface PromptTemplateExport
+ */
+export interface PromptTemplateExport {
+  /** Format version */
+  version: 1;
+  /** When the file was exported (ISO 8601) */
+  exportedAt: string;
+  /** The exported templates */
+  templates: PromptTemplateDraft[];
+}
+
+/**
+ * Reason a template file cannot be imported
+ * @type TemplateImportError
+ */
+export type TemplateImportError = 'INVALID_JSON' | 'INVALID_FORMAT' | 'NO_TEMPLATES';
+
+/**
+ * Result of reading a template file
+ * @type TemplateImportResult
+ */
+export type TemplateImportResult =
+  | { ok: true; drafts: PromptTemplateDraft[] }
+  | { ok: false; error: TemplateImportError };
@@ -0,0 +1,76 @@
+/**
+ * @fileoverview Type definitions for token counting and pricing
+ * @description Token usage, per-model prices and cost estimates
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+/**
+ * Tokens consumed by a generation, counted separately for prompt and completion
+ * @interface TokenUsage
+ */
+export interface TokenUsage {
+  /** Tokens in the prompt */
+  promptTokens: number;
+  /** Tokens in the generated text */
+  completionTokens: number;
+  /** Sum of prompt and completion tokens */
+  totalTokens: number;
+}
+
+/**
+ * Price of a model, in US dollars per million tokens
+ * @interface ModelPricing
+ */
+export interface ModelPricing {
+  /** Price of one million prompt tokens */
+  inputPerMillion: number;
+  /** Price of one million completion tokens */
+  outputPerMillion: number;
+}
+
+/**
+ * Estimated cost of a generation, in US dollars
+ * @interface CostEstimate
+ */
+export interface CostEstimate {
+  /** Cost of the prompt tokens */
+  inputCost: number;
+  /** Cost of the completion tokens */
+  outputCost: number;
+  /** Total cost */
+  totalCost: number;
+}
+
+/**
+ * What the prompt counter of the form measures
+ * @type CounterMode
+ */
+export type CounterMode = 'characters' | 'tokens';
+
+/**
+ * Token limits of a model
+ * @interface ModelLimits
+ */
+export interface ModelLimits {
+  /** Tokens shared by the prompt and the completion */
+  contextWindow: number;
+  /** Largest completion the model produces; reserved when no maxLength is requested */
+  maxOutputTokens: number;
+}
+
+/**
+ * How far a request is over the context window of its model
+ * Attached to CONTEXT_LENGTH_EXCEEDED errors.
+ * @interface ContextLengthDetails
+ */
+export interface ContextLengthDetails {
+  /** Tokens in the prompt */
+  promptTokens: number;
+  /** Tokens reserved for the completion */
+  completionTokens: number;
+  /** Context window of the model */
+  contextWindow: number;
+  /** Tokens over the limit */
+  excess: number;
+}
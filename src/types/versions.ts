@@ -0,0 +1,63 @@
+/**
+ * @fileoverview Type definitions for the result version tree
+ * @description Versions of the results generated for a prompt, linked by the version they
+ * were forked from
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import type { GenerationMetadata } from './api';
+import type { GenerationParameters } from './history';
+
+/**
+ * One generated result in a version tree
+ * Regenerations are siblings (same parent); a fork, usually with an edited prompt,
+ * is a child of the version it was derived from.
+ * @interface ResultVersion
+ */
+export interface ResultVersion {
+  /** Unique identifier */
+  id: string;
+  /** Version this one was forked from, null for the versions of the original prompt */
+  parentId: string | null;
+  /** The prompt that produced the version */
+  prompt: string;
+  /** Parameters of the request */
+  parameters: GenerationParameters;
+  /** The generated text */
+  result: string;
+  /** Metadata of the generation, when the provider returned it */
+  metadata: GenerationMetadata | null;
+  /** When the generation finished (ms since epoch) */
+  createdAt: number;
+}
+
+/**
+ * Data needed to add a version to a tree
+ * @type ResultVersionDraft
+ */
+export type ResultVersionDraft = Omit<ResultVersion, 'id' | 'createdAt'>;
+
+/**
+ * Every version generated for one prompt
+ * @interface VersionTree
+ */
+export interface VersionTree {
+  /** Unique identifier */
+  id: string;
+  /** Normalized prompt of the root versions, used to find the tree of a prompt again */
+  promptKey: string;
+  /** The versions, in creation order */
+  versions: ResultVersion[];
+}
+
+/**
+ * Place of a version among its siblings, as in "2 of 5"
+ * @interface VersionPosition
+ */
+export interface VersionPosition {
+  /** 1-based position in creation order */
+  index: number;
+  /** Number of siblings, the version included */
+  total: number;
+}
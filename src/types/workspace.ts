@@ -0,0 +1,156 @@
+/**
+ * @fileoverview Type definitions for workspace bundles
+ * @description The versioned JSON bundle of the whole workspace (history, collections, templates,
+ * personas and settings), its import preview and the conflict choices of an import
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import type { HistoryCollection, HistoryEntry } from './history';
+import type { Locale } from './i18n';
+import type { Persona } from './persona';
+import type { PromptTemplate } from './promptTemplate';
+
+/**
+ * Settings carried by a bundle
+ * @interface WorkspaceSettings
+ */
+export interface WorkspaceSettings {
+  /** Interface language */
+  locale: Locale;
+  /** Persona active when the bundle was exported, if any */
+  activePersonaId: string | null;
+}
+
+/**
+ * A history entry as stored in a bundle; the search text is rebuilt on import
+ * @type BundledHistoryEntry
+ */
+export type BundledHistoryEntry = Omit<HistoryEntry, 'searchText'>;
+
+/**
+ * Everything a bundle holds, or the matching data of this browser
+ * @interface WorkspaceSnapshot
+ */
+export interface WorkspaceSnapshot {
+  /** Settings; null when a bundle carries none */
+  settings: WorkspaceSettings | null;
+  personas: Persona[];
+  templates: PromptTemplate[];
+  collections: HistoryCollection[];
+  history: BundledHistoryEntry[];
+}
+
+/**
+ * JSON document of a workspace bundle, in its current schema version
+ * @interface WorkspaceBundle
+ */
+export interface WorkspaceBundle extends WorkspaceSnapshot {
+  /** Identifies the file as a workspace bundle */
+  format: 'generador-ia/workspace';
+  /** Version of the bundle schema; older bundles are migrated when read */
+  schemaVersion: number;
+}
+
+/**
+ * Part of the workspace that is imported, or left alone, as a whole
+ * @type WorkspaceSection
+ */
+export type WorkspaceSection = 'history' | 'collections' | 'templates' | 'personas' | 'settings';
+
+/**
+ * How an item that exists on both sides with different contents is resolved
+ * - merge: both are combined (newest edit, union of tags and favorites...)
+ * - replace: the item of the bundle wins
+ * - skip: the local item is kept
+ * @type ConflictResolution
+ */
+export type ConflictResolution = 'merge' | 'replace' | 'skip';
+
+/**
+ * Import choices of a section
+ * @interface SectionImportOptions
+ */
+export interface SectionImportOptions {
+  /** Whether the section is imported at all */
+  include: boolean;
+  /** How its conflicts are resolved */
+  resolution: ConflictResolution;
+}
+
+/**
+ * Import choices of every section
+ * @type WorkspaceImportOptions
+ */
+export type WorkspaceImportOptions = Record<WorkspaceSection, SectionImportOptions>;
+
+/**
+ * What importing a section would do
+ * @interface SectionPreview
+ */
+export interface SectionPreview {
+  /** Items of the section in the bundle */
+  total: number;
+  /** Items that do not exist locally */
+  added: number;
+  /** Items that exist locally with the same contents */
+  identical: number;
+  /** Items that exist locally with different contents */
+  conflicts: number;
+}
+
+/**
+ * Preview of a bundle before it is imported
+ * @interface WorkspaceImportPreview
+ */
+export interface WorkspaceImportPreview {
+  /** Schema version the file was written in */
+  sourceVersion: number;
+  /** Malformed items of the file that will be ignored */
+  invalid: number;
+  /** What each section would do */
+  sections: Record<WorkspaceSection, SectionPreview>;
+}
+
+/**
+ * Items an import added and changed, by section
+ * @type WorkspaceImportSummary
+ */
+export type WorkspaceImportSummary = Record<WorkspaceSection, { added: number; updated: number }>;
+
+/**
+ * Local changes an import makes
+ * @interface WorkspaceImportPlan
+ */
+export interface WorkspaceImportPlan {
+  /** The whole new persona list, or null when personas are unchanged */
+  personas: Persona[] | null;
+  /** The whole new template list, or null when templates are unchanged */
+  templates: PromptTemplate[] | null;
+  /** Collections to write (new or changed) */
+  collections: HistoryCollection[];
+  /** History entries to write (new or changed) */
+  history: BundledHistoryEntry[];
+  /** The new settings, or null when settings are unchanged */
+  settings: WorkspaceSettings | null;
+  /** Counts of the changes, by section */
+  summary: WorkspaceImportSummary;
+}
+
+/**
+ * Reason a bundle cannot be imported
+ * @type WorkspaceImportError
+ */
+export type WorkspaceImportError =
+  | 'INVALID_JSON'
+  | 'INVALID_FORMAT'
+  | 'UNSUPPORTED_VERSION'
+  | 'EMPTY_BUNDLE';
+
+/**
+ * Result of reading a bundle file
+ * @type WorkspaceParseResult
+ */
+export type WorkspaceParseResult =
+  | { ok: true; bundle: WorkspaceBundle; sourceVersion: number; invalid: number }
+  | { ok: false; error: WorkspaceImportError };
@@ -0,0 +1,186 @@
+/**
+ * @fileoverview Result version tree
+ * @description Pure helpers to add versions to a per-prompt tree and to navigate it:
+ * siblings ("2 of 5"), forks and the path from the original prompt
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import { normalizePrompt } from '../api/cache';
+import type {
+  ResultVersion,
+  ResultVersionDraft,
+  VersionPosition,
+  VersionTree,
+} from '../types/versions';
+
+/**
+ * Creates a unique version identifier
+ * @returns The identifier
+ */
+const createVersionId = (): string =>
+  `version-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Creates an empty tree for a prompt
+ *
+ * @param prompt - The original prompt
+ * @returns The tree
+ */
+export const createVersionTree = (prompt: string): VersionTree => ({
+  id: `tree-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  promptKey: normalizePrompt(prompt),
+  versions: [],
+});
+
+/**
+ * Adds a version to a tree
+ * The tree is not modified; a copy with the new version is returned.
+ *
+ * @param tree - The tree
+ * @param draft - The version to add; its parent must belong to the tree
+ * @returns The updated tree and the new version
+ */
+export const addVersion = (
+  tree: VersionTree,
+  draft: ResultVersionDraft
+): { tree: VersionTree; version: ResultVersion } => {
+  const version: ResultVersion = { ...draft, id: createVersionId(), createdAt: Date.now() };
+  return { tree: { ...tree, versions: [...tree.versions, version] }, version };
+};
+
+/**
+ * Finds a version of a tree
+ *
+ * @param tree - The tree
+ * @param id - Identifier of the version
+ * @returns The version, or undefined if it is not in the tree
+ */
+export const findVersion = (tree: VersionTree, id: string): ResultVersion | undefined =>
+  tree.versions.find((version) => version.id === id);
+
+/**
+ * Finds a version identical to a draft: same parent, prompt and text
+ * Used so that a cached answer shows the existing version instead of a copy of it.
+ *
+ * @param tree - The tree
+ * @param draft - The version about to be added
+ * @returns The identical version, or undefined if there is none
+ */
+export const findIdenticalVersion = (
+  tree: VersionTree,
+  draft: ResultVersionDraft
+): ResultVersion | undefined =>
+  tree.versions.find(
+    (version) =>
+      version.parentId === draft.parentId &&
+      version.prompt === draft.prompt &&
+      version.result === draft.result
+  );
+
+/**
+ * Finds the tree of the original prompt
+ * Prompts are compared normalized, as the response cache does.
+ *
+ * @param trees - The trees to search
+ * @param prompt - The prompt
+ * @returns The tree, or undefined if the prompt has none
+ */
+export const findTreeByPrompt = (
+  trees: Iterable<VersionTree>,
+  prompt: string
+): VersionTree | undefined => {
+  const promptKey = normalizePrompt(prompt);
+  for (const tree of trees) {
+    if (tree.promptKey === promptKey) {
+      return tree;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Finds the tree a version belongs to
+ *
+ * @param trees - The trees to search
+ * @param versionId - Identifier of the version
+ * @returns The tree, or undefined if no tree has the version
+ */
+export const findTreeOfVersion = (
+  trees: Iterable<VersionTree>,
+  versionId: string
+): VersionTree | undefined => {
+  for (const tree of trees) {
+    if (findVersion(tree, versionId)) {
+      return tree;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Lists the versions sharing a version's parent, the version included
+ *
+ * @param tree - The tree
+ * @param version - The version
+ * @returns The siblings, in creation order
+ */
+export const getSiblings = (tree: VersionTree, version: ResultVersion): ResultVersion[] =>
+  tree.versions.filter((candidate) => candidate.parentId === version.parentId);
+
+/**
+ * Lists the versions forked from a version
+ *
+ * @param tree - The tree
+ * @param id - Identifier of the version
+ * @returns The forks, in creation order
+ */
+export const getForks = (tree: VersionTree, id: string): ResultVersion[] =>
+  tree.versions.filter((version) => version.parentId === id);
+
+/**
+ * Places a version among its siblings
+ *
+ * @param tree - The tree
+ * @param version - The version
+ * @returns Its 1-based position and the number of siblings
+ */
+export const getVersionPosition = (tree: VersionTree, version: ResultVersion): VersionPosition => {
+  const siblings = getSiblings(tree, version);
+  return { index: siblings.indexOf(version) + 1, total: siblings.length };
+};
+
+/**
+ * Lists the versions from the original prompt down to a version
+ *
+ * @param tree - The tree
+ * @param id - Identifier of the version
+ * @returns The path, starting with a root version and ending with the version
+ */
+export const getVersionPath = (tree: VersionTree, id: string): ResultVersion[] => {
+  const path: ResultVersion[] = [];
+  let version = findVersion(tree, id);
+  while (version) {
+    path.unshift(version);
+    version = version.parentId ? findVersion(tree, version.parentId) : undefined;
+  }
+  return path;
+};
+
+/**
+ * Builds the label of a version from its position at every level of its path
+ * The second regeneration of the original prompt is "2" and the first fork of it "2.1".
+ *
+ * @param tree - The tree
+ * @param id - Identifier of the version
+ * @returns The dotted label
+ *
+ * @example
+ * ```typescript
+ * getVersionLabel(tree, fork.id); // '2.1'
+ * ```
+ */
+export const getVersionLabel = (tree: VersionTree, id: string): string =>
+  getVersionPath(tree, id)
+    .map((version) => getVersionPosition(tree, version).index)
+    .join('.');
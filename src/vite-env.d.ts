@@ -0,0 +1,26 @@
+/// <reference types="vite/client" />
+
+/**
+ * Environment variables exposed to the client (prefixed with VITE_)
+ * @interface ImportMetaEnv
+ */
+interface ImportMetaEnv {
+  /** Text generation provider: "simulated" (default), "http" or "openai" */
+  readonly VITE_AI_PROVIDER?: string;
+  /** Probability (0-1) of transient failures in the simulated provider, to exercise retries */
+  readonly VITE_SIMULATED_FAILURE_RATE?: string;
+  /** Endpoint used by the HTTP provider (defaults to /api/generate) */
+  readonly VITE_API_URL?: string;
+  /** Model behind VITE_API_URL, whose token limits requests are checked against */
+  readonly VITE_API_MODEL?: string;
+  /** Base URL of the OpenAI-compatible API (defaults to the local stub at /api/v1) */
+  readonly VITE_OPENAI_BASE_URL?: string;
+  /** Model name sent to the OpenAI-compatible API */
+  readonly VITE_OPENAI_MODEL?: string;
+  /** Optional API key sent as a Bearer token (bundled into the client!) */
+  readonly VITE_OPENAI_API_KEY?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
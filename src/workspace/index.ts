@@ -0,0 +1,874 @@
+/**
+ * @fileoverview Workspace bundles
+ * @description Serializes the whole workspace (history, collections, templates, personas and
+ * settings) to a deterministic, versioned JSON bundle, reads bundles back through the schema
+ * migrations, previews an import and plans the local changes of its conflict choices
+ * @author Generador IA Team
+ * @version 1.0.0
+ */
+
+import { HISTORY_CONFIG, createCollectionId, createHistoryId, normalizeTags } from '../history';
+import { isLocale } from '../i18n';
+import { createPersonaId, isPersona, validatePersonaDraft } from '../personas';
+import {
+  createTemplateFromDraft,
+  createTemplateId,
+  isPromptTemplate,
+  isTemplateDraft,
+} from '../promptTemplates';
+import type { GenerationMetadata } from '../types/api';
+import type { GenerationParameters, HistoryCollection } from '../types/history';
+import type { Persona } from '../types/persona';
+import type { PromptTemplate } from '../types/promptTemplate';
+import type {
+  BundledHistoryEntry,
+  ConflictResolution,
+  SectionPreview,
+  WorkspaceBundle,
+  WorkspaceImportOptions,
+  WorkspaceImportPlan,
+  WorkspaceImportPreview,
+  WorkspaceParseResult,
+  WorkspaceSection,
+  WorkspaceSettings,
+  WorkspaceSnapshot,
+} from '../types/workspace';
+
+/**
+ * Value of the format field of every bundle
+ * @constant
+ */
+const BUNDLE_FORMAT = 'generador-ia/workspace';
+
+/**
+ * Name of exported bundles; it carries no date so a bundle can be committed and diffed
+ * @constant
+ */
+export const WORKSPACE_FILE_NAME = 'generador-ia-workspace.json';
+
+/**
+ * Sections of a bundle, in file and preview order
+ * @constant
+ */
+export const WORKSPACE_SECTIONS: ReadonlyArray<WorkspaceSection> = [
+  'settings',
+  'personas',
+  'templates',
+  'collections',
+  'history',
+];
+
+/**
+ * A bundle document as read from a file, before it is validated
+ * @type RawDocument
+ */
+type RawDocument = Record<string, unknown>;
+
+/**
+ * Schema migrations, applied in order to bring an older bundle to the current schema
+ * Migration n upgrades a document from schema version n to n + 1, and the current schema
+ * version is the number of migrations, so only ever append to this list.
+ * @constant
+ */
+const MIGRATIONS: Array<(document: RawDocument) => RawDocument> = [
+  // v0 → v1: a file of the template library, the only exchange format before bundles
+  (document) => ({
+    format: BUNDLE_FORMAT,
+    schemaVersion: 1,
+    settings: null,
+    personas: [],
+    templates: (Array.isArray(document.templates) ? document.templates : []).map((value: unknown) =>
+      isTemplateDraft(value) ? createTemplateFromDraft(value) : value
+    ),
+    collections: [],
+    history: [],
+  }),
+];
+
+/**
+ * Current version of the bundle schema
+ * @constant
+ */
+export const WORKSPACE_SCHEMA_VERSION = MIGRATIONS.length;
+
+/**
+ * Import choices before the user changes them: every section, merging conflicts
+ * @constant
+ */
+export const DEFAULT_IMPORT_OPTIONS: WorkspaceImportOptions = {
+  settings: { include: true, resolution: 'merge' },
+  personas: { include: true, resolution: 'merge' },
+  templates: { include: true, resolution: 'merge' },
+  collections: { include: true, resolution: 'merge' },
+  history: { include: true, resolution: 'merge' },
+};
+
+/**
+ * Sorts the keys of objects, recursively, so equal data always serializes the same way
+ * Keys are compared by code unit, never by locale.
+ *
+ * @param value - Any JSON value
+ * @returns The value with sorted keys
+ */
+const sortKeys = <T>(value: T): T => {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys) as T;
+  }
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    return Object.fromEntries(
+      Object.keys(record)
+        .sort()
+        .map((key) => [key, sortKeys(record[key])])
+    ) as T;
+  }
+  return value;
+};
+
+/**
+ * Orders items by id, by code unit
+ *
+ * @param a - First item
+ * @param b - Second item
+ * @returns The sort order
+ */
+const byId = (a: { id: string }, b: { id: string }): number =>
+  a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+
+/**
+ * Compares two values by their canonical JSON
+ *
+ * @param a - First value
+ * @param b - Second value
+ * @returns True if both hold the same data
+ */
+const isSameData = (a: unknown, b: unknown): boolean =>
+  JSON.stringify(sortKeys(a)) === JSON.stringify(sortKeys(b));
+
+/**
+ * Copies a persona with its fields in bundle order
+ * @param persona - The persona
+ * @returns The bundled persona
+ */
+const toBundledPersona = ({ id, name, instruction, createdAt, updatedAt }: Persona): Persona => ({
+  id,
+  name,
+  instruction,
+  createdAt,
+  updatedAt,
+});
+
+/**
+ * Copies a template with its fields in bundle order
+ * @param template - The template
+ * @returns The bundled template
+ */
+const toBundledTemplate = ({ id, name, body, createdAt, updatedAt }: PromptTemplate): PromptTemplate => ({
+  id,
+  name,
+  body,
+  createdAt,
+  updatedAt,
+});
+
+/**
+ * Copies a collection with its fields in bundle order
+ * @param collection - The collection
+ * @returns The bundled collection
+ */
+const toBundledCollection = ({ id, name, createdAt }: HistoryCollection): HistoryCollection => ({
+  id,
+  name,
+  createdAt,
+});
+
+/**
+ * Copies a history entry with its fields in bundle order, without its search text
+ * @param entry - The entry
+ * @returns The bundled entry
+ */
+const toBundledEntry = (entry: BundledHistoryEntry): BundledHistoryEntry => ({
+  id: entry.id,
+  createdAt: entry.createdAt,
+  prompt: entry.prompt,
+  parameters: sortKeys(entry.parameters),
+  result: entry.result,
+  metadata: entry.metadata ? sortKeys(entry.metadata) : null,
+  isFavorite: entry.isFavorite,
+  tags: entry.tags,
+  collectionId: entry.collectionId,
+});
+
+/**
+ * Builds the bundle of a workspace
+ * Sections are sorted by id and every record has a fixed field order, so the same workspace
+ * always gives the same bytes. The bundle has no export date for the same reason.
+ *
+ * @param snapshot - The workspace
+ * @returns The bundle
+ */
+const createWorkspaceBundle = (snapshot: WorkspaceSnapshot): WorkspaceBundle => ({
+  format: BUNDLE_FORMAT,
+  schemaVersion: WORKSPACE_SCHEMA_VERSION,
+  settings: snapshot.settings
+    ? { locale: snapshot.settings.locale, activePersonaId: snapshot.settings.activePersonaId }
+    : null,
+  personas: [...snapshot.personas].sort(byId).map(toBundledPersona),
+  templates: [...snapshot.templates].sort(byId).map(toBundledTemplate),
+  collections: [...snapshot.collections].sort(byId).map(toBundledCollection),
+  history: [...snapshot.history].sort(byId).map(toBundledEntry),
+});
+
+/**
+ * Serializes a workspace to bundle JSON
+ *
+ * @param snapshot - The workspace
+ * @returns Pretty-printed JSON, ending with a newline
+ *
+ * @example
+ * ```typescript
+ * const json = serializeWorkspace(snapshot);
+ * serializeWorkspace(snapshot) === json; // true
+ * ```
+ */
+export const serializeWorkspace = (snapshot: WorkspaceSnapshot): string =>
+  `${JSON.stringify(createWorkspaceBundle(snapshot), null, 2)}\n`;
+
+/**
+ * Reads the settings of a bundle
+ * @param value - The settings field
+ * @returns The settings, or null when they are malformed
+ */
+const toSettings = (value: unknown): WorkspaceSettings | null => {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+  const settings = value as Record<string, unknown>;
+  if (!isLocale(settings.locale)) {
+    return null;
+  }
+  return {
+    locale: settings.locale,
+    activePersonaId: typeof settings.activePersonaId === 'string' ? settings.activePersonaId : null,
+  };
+};
+
+/**
+ * Reads a collection of a bundle
+ * @param value - Any value
+ * @returns The collection, or null when it is malformed
+ */
+const toCollection = (value: unknown): HistoryCollection | null => {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+  const collection = value as Record<string, unknown>;
+  if (
+    typeof collection.id !== 'string' ||
+    typeof collection.name !== 'string' ||
+    !collection.name.trim() ||
+    typeof collection.createdAt !== 'number'
+  ) {
+    return null;
+  }
+  return {
+    id: collection.id,
+    name: collection.name.trim().slice(0, HISTORY_CONFIG.MAX_COLLECTION_NAME_LENGTH),
+    createdAt: collection.createdAt,
+  };
+};
+
+/**
+ * Type of each field of the generation parameters
+ * @constant
+ */
+const PARAMETER_FIELDS = {
+  temperature: 'number',
+  maxLength: 'number',
+  seed: 'number',
+  systemInstruction: 'string',
+} as const;
+
+/**
+ * Type of each field of the generation metadata
+ * @constant
+ */
+const METADATA_FIELDS = {
+  model: 'string',
+  tokensUsed: 'number',
+  processingTime: 'number',
+  promptTokens: 'number',
+  completionTokens: 'number',
+  estimatedCost: 'number',
+  finishReason: 'string',
+  seed: 'number',
+  language: 'string',
+  cached: 'boolean',
+  cachedAt: 'number',
+} as const;
+
+/**
+ * Copies the known fields of an object that have the expected type
+ * Numbers must be finite; unknown and malformed fields are dropped.
+ *
+ * @param value - The object
+ * @param fields - Type of each known field
+ * @returns The well-formed fields
+ */
+const pickFields = (
+  value: Record<string, unknown>,
+  fields: Record<string, 'number' | 'string' | 'boolean'>
+): Record<string, unknown> => {
+  const picked: Record<string, unknown> = {};
+  for (const [name, type] of Object.entries(fields)) {
+    const field = value[name];
+    if (typeof field === type && (type !== 'number' || Number.isFinite(field))) {
+      picked[name] = field;
+    }
+  }
+  return picked;
+};
+
+/**
+ * Reads the parameters of a bundled history entry, dropping malformed fields
+ * @param value - Any value
+ * @returns The parameters, or null when the value is not an object
+ */
+const toParameters = (value: unknown): GenerationParameters | null =>
+  value && typeof value === 'object'
+    ? (pickFields(value as Record<string, unknown>, PARAMETER_FIELDS) as GenerationParameters)
+    : null;
+
+/**
+ * Reads the metadata of a bundled history entry, dropping malformed optional fields
+ * @param value - Any value
+ * @returns The metadata, or null when it is missing or lacks the model and token counts
+ */
+const toMetadata = (value: unknown): GenerationMetadata | null => {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+  const metadata = pickFields(value as Record<string, unknown>, METADATA_FIELDS);
+  if (
+    typeof metadata.model !== 'string' ||
+    typeof metadata.tokensUsed !== 'number' ||
+    typeof metadata.processingTime !== 'number'
+  ) {
+    return null;
+  }
+  if (metadata.language !== 'es' && metadata.language !== 'en') {
+    delete metadata.language;
+  }
+  return metadata as unknown as GenerationMetadata;
+};
+
+/**
+ * Reads a history entry of a bundle
+ * Organization fields may be missing; they get the values of a new entry. Malformed
+ * parameters and metadata fields are dropped, and so is metadata without a model.
+ *
+ * @param value - Any value
+ * @returns The entry, or null when it is malformed
+ */
+const toHistoryEntry = (value: unknown): BundledHistoryEntry | null => {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+  const entry = value as Record<string, unknown>;
+  const parameters = toParameters(entry.parameters);
+  if (
+    typeof entry.id !== 'string' ||
+    typeof entry.prompt !== 'string' ||
+    typeof entry.result !== 'string' ||
+    typeof entry.createdAt !== 'number' ||
+    !parameters
+  ) {
+    return null;
+  }
+  return toBundledEntry({
+    id: entry.id,
+    createdAt: entry.createdAt,
+    prompt: entry.prompt,
+    parameters,
+    result: entry.result,
+    metadata: toMetadata(entry.metadata),
+    isFavorite: entry.isFavorite === true,
+    tags: Array.isArray(entry.tags)
+      ? normalizeTags(entry.tags.filter((tag): tag is string => typeof tag === 'string'))
+      : [],
+    collectionId: typeof entry.collectionId === 'string' ? entry.collectionId : null,
+  });
+};
+
+/**
+ * Reads the items of a section, dropping malformed ones and repeated ids
+ *
+ * @param value - The section field
+ * @param read - Reads one item, or returns null when it is malformed
+ * @returns The items and the number of dropped ones
+ */
+const readSection = <T extends { id: string }>(
+  value: unknown,
+  read: (item: unknown) => T | null
+): { items: T[]; invalid: number } => {
+  const values = Array.isArray(value) ? value : [];
+  const ids = new Set<string>();
+  const items: T[] = [];
+  for (const item of values) {
+    const parsed = read(item);
+    if (parsed && !ids.has(parsed.id)) {
+      ids.add(parsed.id);
+      items.push(parsed);
+    }
+  }
+  return { items, invalid: values.length - items.length };
+};
+
+/**
+ * Finds the schema version of a document
+ * Files of the template library predate bundles and are version 0.
+ *
+ * @param document - The parsed file
+ * @returns The version, or null when the file is not a bundle
+ */
+const readSchemaVersion = (document: RawDocument): number | null => {
+  if (document.format === BUNDLE_FORMAT) {
+    const version = document.schemaVersion;
+    return typeof version === 'number' && Number.isInteger(version) && version >= 1 ? version : null;
+  }
+  return Array.isArray(document.templates) ? 0 : null;
+};
+
+/**
+ * Reads a bundle file
+ * Older schema versions are migrated to the current one. Malformed items are dropped and
+ * counted; the file is rejected only when it is not a bundle, comes from a newer version of
+ * the app or holds nothing to import.
+ *
+ * @param json - File contents
+ * @returns The bundle, or why it cannot be imported
+ *
+ * @example
+ * ```typescript
+ * const result = parseWorkspaceBundle(await file.text());
+ * if (result.ok) {
+ *   console.log(result.bundle.history.length);
+ * }
+ * ```
+ */
+export const parseWorkspaceBundle = (json: string): WorkspaceParseResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return { ok: false, error: 'INVALID_JSON' };
+  }
+
+  // A bare array of templates is a template library file as well
+  let document: RawDocument | null = Array.isArray(parsed)
+    ? { templates: parsed }
+    : parsed && typeof parsed === 'object'
+      ? (parsed as RawDocument)
+      : null;
+  const sourceVersion = document ? readSchemaVersion(document) : null;
+  if (!document || sourceVersion === null) {
+    return { ok: false, error: 'INVALID_FORMAT' };
+  }
+  if (sourceVersion > WORKSPACE_SCHEMA_VERSION) {
+    return { ok: false, error: 'UNSUPPORTED_VERSION' };
+  }
+
+  for (let version = sourceVersion; version < WORKSPACE_SCHEMA_VERSION; version++) {
+    document = MIGRATIONS[version](document);
+  }
+
+  const settings = toSettings(document.settings);
+  const personas = readSection(document.personas, (value) =>
+    isPersona(value) && validatePersonaDraft(value) === null ? toBundledPersona(value) : null
+  );
+  const templates = readSection(document.templates, (value) =>
+    isPromptTemplate(value) && isTemplateDraft(value) ? toBundledTemplate(value) : null
+  );
+  const collections = readSection(document.collections, toCollection);
+  const history = readSection(document.history, toHistoryEntry);
+
+  const bundle: WorkspaceBundle = {
+    format: BUNDLE_FORMAT,
+    schemaVersion: WORKSPACE_SCHEMA_VERSION,
+    settings,
+    personas: personas.items,
+    templates: templates.items,
+    collections: collections.items,
+    history: history.items,
+  };
+  if (
+    !settings &&
+    [bundle.personas, bundle.templates, bundle.collections, bundle.history].every(
+      (items) => items.length === 0
+    )
+  ) {
+    return { ok: false, error: 'EMPTY_BUNDLE' };
+  }
+
+  return {
+    ok: true,
+    bundle,
+    sourceVersion,
+    invalid:
+      (document.settings !== undefined && document.settings !== null && !settings ? 1 : 0) +
+      personas.invalid +
+      templates.invalid +
+      collections.invalid +
+      history.invalid,
+  };
+};
+
+/**
+ * How a section matches, compares and combines its items
+ * @interface SectionRules
+ */
+interface SectionRules<T> {
+  /** Whether items with another id but the same name are the same item */
+  matchByName: boolean;
+  /** Data compared to tell identical items from conflicts */
+  content: (item: T) => unknown;
+  /** Combines a local item with its counterpart of the bundle */
+  merge: (local: T, incoming: T) => T;
+  /** Creates a new id for an added item whose id is already taken locally */
+  createId: (item: T) => string;
+}
+
+/**
+ * Result of planning a section
+ * @interface SectionPlan
+ */
+interface SectionPlan<T> {
+  /** The whole list after the import */
+  items: T[];
+  /** New and changed items */
+  written: T[];
+  /** Local id of every item of the bundle */
+  idMap: Map<string, string>;
+  /** Ids of the bundle items that conflicted with their local match */
+  conflicting: Set<string>;
+  /** What the import does to the section */
+  counts: SectionPreview & { updated: number };
+}
+
+/**
+ * Plans the import of a section
+ * An item of the bundle matches the local item with its id or, for named items, its name.
+ * New items are added, under a new id when theirs is already taken by another local item;
+ * conflicts are resolved with the chosen resolution. Resolved items keep their local id, so
+ * references to them stay valid.
+ *
+ * @param incoming - Items of the bundle, with references already mapped to local ids
+ * @param locals - Local items
+ * @param rules - How the section matches and combines items
+ * @param resolution - How conflicts are resolved
+ * @returns The plan of the section
+ */
+const planSection = <T extends { id: string; name?: string }>(
+  incoming: T[],
+  locals: T[],
+  rules: SectionRules<T>,
+  resolution: ConflictResolution
+): SectionPlan<T> => {
+  const items = [...locals];
+  const written: T[] = [];
+  const idMap = new Map<string, string>();
+  const claimed = new Set<string>();
+  const conflicting = new Set<string>();
+  const counts = { total: incoming.length, added: 0, identical: 0, conflicts: 0, updated: 0 };
+
+  for (const item of incoming) {
+    const local =
+      locals.find((candidate) => candidate.id === item.id && !claimed.has(candidate.id)) ??
+      (rules.matchByName
+        ? locals.find((candidate) => candidate.name === item.name && !claimed.has(candidate.id))
+        : undefined);
+
+    if (!local) {
+      const added = items.some((existing) => existing.id === item.id)
+        ? { ...item, id: rules.createId(item) }
+        : item;
+      idMap.set(item.id, added.id);
+      items.push(added);
+      written.push(added);
+      counts.added++;
+      continue;
+    }
+
+    claimed.add(local.id);
+    idMap.set(item.id, local.id);
+    if (isSameData(rules.content(local), rules.content(item))) {
+      counts.identical++;
+      continue;
+    }
+
+    counts.conflicts++;
+    conflicting.add(item.id);
+    const resolved =
+      resolution === 'merge'
+        ? rules.merge(local, item)
+        : resolution === 'replace'
+          ? { ...item, id: local.id }
+          : local;
+    if (!isSameData(resolved, local)) {
+      items[items.indexOf(local)] = resolved;
+      written.push(resolved);
+      counts.updated++;
+    }
+  }
+
+  return { items, written, idMap, conflicting, counts };
+};
+
+/**
+ * Keeps the newest edit of an item, under its local id and first creation date
+ *
+ * @param local - The local item
+ * @param incoming - The item of the bundle
+ * @returns The combined item
+ */
+const keepNewest = <T extends { id: string; createdAt: number; updatedAt: number }>(
+  local: T,
+  incoming: T
+): T => ({
+  ...(incoming.updatedAt > local.updatedAt ? incoming : local),
+  id: local.id,
+  createdAt: Math.min(local.createdAt, incoming.createdAt),
+});
+
+/**
+ * Rules of the personas
+ * @constant
+ */
+const PERSONA_RULES: SectionRules<Persona> = {
+  matchByName: true,
+  content: ({ name, instruction }) => ({ name, instruction }),
+  merge: keepNewest,
+  createId: createPersonaId,
+};
+
+/**
+ * Rules of the templates
+ * @constant
+ */
+const TEMPLATE_RULES: SectionRules<PromptTemplate> = {
+  matchByName: true,
+  content: ({ name, body }) => ({ name, body }),
+  merge: keepNewest,
+  createId: createTemplateId,
+};
+
+/**
+ * Rules of the collections; merging keeps the local name
+ * @constant
+ */
+const COLLECTION_RULES: SectionRules<HistoryCollection> = {
+  matchByName: true,
+  content: ({ name }) => ({ name }),
+  merge: (local) => local,
+  createId: createCollectionId,
+};
+
+/**
+ * Rules of the history; merging keeps favorites and both sets of tags
+ * @constant
+ */
+const HISTORY_RULES: SectionRules<BundledHistoryEntry> = {
+  matchByName: false,
+  content: (entry) => toBundledEntry(entry),
+  merge: (local, incoming) => ({
+    ...local,
+    isFavorite: local.isFavorite || incoming.isFavorite,
+    tags: normalizeTags([...local.tags, ...incoming.tags]),
+    collectionId: local.collectionId ?? incoming.collectionId,
+  }),
+  createId: (entry) => createHistoryId(entry.createdAt),
+};
+
+/**
+ * Resolves a settings conflict
+ *
+ * @param local - The local settings
+ * @param incoming - The settings of the bundle
+ * @param resolution - How the conflict is resolved; merging keeps the local language and
+ * takes the persona of the bundle only when none is active
+ * @returns The resolved settings
+ */
+const resolveSettings = (
+  local: WorkspaceSettings,
+  incoming: WorkspaceSettings,
+  resolution: ConflictResolution
+): WorkspaceSettings => {
+  switch (resolution) {
+    case 'merge':
+      return { ...local, activePersonaId: local.activePersonaId ?? incoming.activePersonaId };
+    case 'replace':
+      return incoming;
+    case 'skip':
+      return local;
+  }
+};
+
+/**
+ * Plans every section of an import
+ * Collections are planned before the history and personas before the settings, so entries and
+ * the active persona point to the local ids of their collection and persona. References to
+ * collections or personas that do not exist after the import are cleared, and so are
+ * references to a conflicting collection or persona whose local version was kept (skipped, or
+ * its section left out): the local item with that id or name is a different one.
+ *
+ * @param current - The local workspace
+ * @param bundle - The bundle to import
+ * @param options - Sections to import and how their conflicts are resolved
+ * @returns The changes to apply and the preview of every section
+ */
+const buildImport = (
+  current: WorkspaceSnapshot,
+  bundle: WorkspaceBundle,
+  options: WorkspaceImportOptions
+): { plan: WorkspaceImportPlan; sections: Record<WorkspaceSection, SectionPreview> } => {
+  const plan = <T extends { id: string; name?: string }>(
+    section: WorkspaceSection,
+    incoming: T[],
+    locals: T[],
+    rules: SectionRules<T>
+  ): SectionPlan<T> => {
+    const result = planSection(incoming, locals, rules, options[section].resolution);
+    return options[section].include ? result : { ...result, items: locals, written: [] };
+  };
+
+  // Local id a reference to a bundle item resolves to: null when the item is missing or its
+  // local version was kept over it
+  const resolveReference = <T extends { id: string }>(
+    section: WorkspaceSection,
+    { idMap, conflicting, items }: SectionPlan<T>,
+    id: string | null | undefined
+  ): string | null => {
+    const localId = id ? idMap.get(id) : undefined;
+    if (!id || !localId || !items.some((item) => item.id === localId)) {
+      return null;
+    }
+    const isLocalKept =
+      conflicting.has(id) && (!options[section].include || options[section].resolution === 'skip');
+    return isLocalKept ? null : localId;
+  };
+
+  const personas = plan('personas', bundle.personas, current.personas, PERSONA_RULES);
+  const templates = plan('templates', bundle.templates, current.templates, TEMPLATE_RULES);
+  const collections = plan('collections', bundle.collections, current.collections, COLLECTION_RULES);
+
+  const history = plan(
+    'history',
+    bundle.history.map((entry) => ({
+      ...entry,
+      collectionId: resolveReference('collections', collections, entry.collectionId),
+    })),
+    current.history,
+    HISTORY_RULES
+  );
+
+  // Settings are a single item: new, identical or a conflict
+  const incomingSettings: WorkspaceSettings | null = bundle.settings && {
+    locale: bundle.settings.locale,
+    activePersonaId: resolveReference('personas', personas, bundle.settings.activePersonaId),
+  };
+  const localSettings = current.settings;
+  const isSettingsConflict =
+    !!incomingSettings && !!localSettings && !isSameData(incomingSettings, localSettings);
+
+  let settings: WorkspaceSettings | null = null;
+  if (incomingSettings && options.settings.include) {
+    const resolved = localSettings
+      ? resolveSettings(localSettings, incomingSettings, options.settings.resolution)
+      : incomingSettings;
+    settings = localSettings && isSameData(resolved, localSettings) ? null : resolved;
+  }
+
+  const isChanged = ({ counts }: SectionPlan<unknown>): boolean => counts.added + counts.updated > 0;
+  const summarize = (section: WorkspaceSection, { counts }: SectionPlan<unknown>) =>
+    options[section].include ? { added: counts.added, updated: counts.updated } : { added: 0, updated: 0 };
+  const preview = ({ counts }: SectionPlan<unknown>): SectionPreview => ({
+    total: counts.total,
+    added: counts.added,
+    identical: counts.identical,
+    conflicts: counts.conflicts,
+  });
+
+  return {
+    plan: {
+      personas: options.personas.include && isChanged(personas) ? personas.items : null,
+      templates: options.templates.include && isChanged(templates) ? templates.items : null,
+      collections: collections.written,
+      history: history.written,
+      settings,
+      summary: {
+        settings: {
+          added: settings && !localSettings ? 1 : 0,
+          updated: settings && localSettings ? 1 : 0,
+        },
+        personas: summarize('personas', personas),
+        templates: summarize('templates', templates),
+        collections: summarize('collections', collections),
+        history: summarize('history', history),
+      },
+    },
+    sections: {
+      settings: {
+        total: incomingSettings ? 1 : 0,
+        added: incomingSettings && !localSettings ? 1 : 0,
+        identical: incomingSettings && localSettings && !isSettingsConflict ? 1 : 0,
+        conflicts: isSettingsConflict ? 1 : 0,
+      },
+      personas: preview(personas),
+      templates: preview(templates),
+      collections: preview(collections),
+      history: preview(history),
+    },
+  };
+};
+
+/**
+ * Previews the import of a bundle: what each section would add, leave alone or conflict on
+ *
+ * @param current - The local workspace
+ * @param bundle - The bundle to import
+ * @param sourceVersion - Schema version the file was written in
+ * @param invalid - Malformed items dropped while reading the file
+ * @returns The preview
+ */
+export const previewWorkspaceImport = (
+  current: WorkspaceSnapshot,
+  bundle: WorkspaceBundle,
+  sourceVersion: number,
+  invalid: number
+): WorkspaceImportPreview => ({
+  sourceVersion,
+  invalid,
+  sections: buildImport(current, bundle, DEFAULT_IMPORT_OPTIONS).sections,
+});
+
+/**
+ * Plans the local changes of an import
+ *
+ * @param current - The local workspace
+ * @param bundle - The bundle to import
+ * @param options - Sections to import and how their conflicts are resolved
+ * @returns The changes to apply
+ *
+ * @example
+ * ```typescript
+ * const plan = planWorkspaceImport(current, bundle, {
+ *   ...DEFAULT_IMPORT_OPTIONS,
+ *   history: { include: true, resolution: 'skip' },
+ * });
+ * ```
+ */
+export const planWorkspaceImport = (
+  current: WorkspaceSnapshot,
+  bundle: WorkspaceBundle,
+  options: WorkspaceImportOptions
+): WorkspaceImportPlan => buildImport(current, bundle, options).plan;
@@ -94,6 +94,7 @@ export default {
         'shimmer': 'shimmer 1.5s infinite',
         'pulse-glow': 'pulse-glow 2s infinite',
         'bounce-slow': 'bounce 2s infinite',
+        'blink': 'blink 1s step-end infinite',
       },
       
       // Custom keyframes
@@ -118,6 +119,10 @@ export default {
           '0%, 100%': { boxShadow: '0 0 0 0 rgba(79, 70, 229, 0.4)' },
           '50%': { boxShadow: '0 0 0 10px rgba(79, 70, 229, 0)' },
         },
+        blink: {
+          '0%, 100%': { opacity: '1' },
+          '50%': { opacity: '0' },
+        },
       },
       
       // Custom backdrop blur